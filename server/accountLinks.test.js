@@ -0,0 +1,158 @@
+const User = require('./models/User');
+const SyncJob = require('./models/SyncJob');
+const PlaytimeSnapshot = require('./models/PlaytimeSnapshot');
+const Achievement = require('./models/Achievement');
+const GalaxyGame = require('./models/GalaxyGame');
+const { getAdapter } = require('./adapters');
+const { unlinkAccount } = require('./services/accountLinks');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/User', () => ({
+  findByIdAndUpdate: jest.fn(),
+}));
+
+jest.mock('./models/SyncJob', () => ({
+  updateMany: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/PlaytimeSnapshot', () => ({
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/Achievement', () => ({
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/GalaxyGame', () => ({
+  exists: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+describe('unlinkAccount', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    User.findByIdAndUpdate.mockImplementation(async id => ({ _id: id }));
+    SyncJob.updateMany.mockResolvedValue({ modifiedCount: 0 });
+    SyncJob.deleteMany.mockResolvedValue({ deletedCount: 1 });
+    PlaytimeSnapshot.deleteMany.mockResolvedValue({ deletedCount: 0 });
+    Achievement.deleteMany.mockResolvedValue({ deletedCount: 0 });
+    GalaxyGame.exists.mockResolvedValue(null);
+    GalaxyGame.deleteMany.mockResolvedValue({ deletedCount: 0 });
+  });
+
+  const mockGameDeletion = adapter => jest.spyOn(adapter.model, 'deleteMany').mockResolvedValue({ deletedCount: 3 });
+
+  it('clears the PSN link and tokens and purges the stored games even after the tokens expired', async () => {
+    const adapter = getAdapter('psn');
+    const deleteGames = mockGameDeletion(adapter);
+    const user = { _id: 'u1', psnAccountId: 'psn-1', psnOnlineId: 'player' };
+
+    await unlinkAccount(adapter, user);
+
+    expect(User.findByIdAndUpdate).toHaveBeenCalledWith('u1', {
+      $unset: {
+        psnAccountId: '',
+        psnOnlineId: '',
+        psnAccessToken: '',
+        psnRefreshToken: '',
+        psnTokenExpiresAt: '',
+        psnRefreshTokenExpiresAt: '',
+      },
+    }, { new: true });
+    expect(deleteGames).toHaveBeenCalledWith({ userId: 'u1' });
+    expect(SyncJob.deleteMany).toHaveBeenCalledWith({ platform: 'psn', accountKey: 'u1', status: { $in: ['completed', 'failed'] } });
+  });
+
+  it('purges Xbox games by the linked XUID once its syncs are cancelled', async () => {
+    const adapter = getAdapter('xbox');
+    const deleteGames = mockGameDeletion(adapter);
+    SyncJob.updateMany.mockResolvedValue({ modifiedCount: 1 });
+
+    await unlinkAccount(adapter, { _id: 'u1', xboxUserId: '2533', xboxGamertag: 'Player' });
+
+    expect(User.findByIdAndUpdate).toHaveBeenCalledWith('u1', { $unset: { xboxUserId: '', xboxGamertag: '' } }, { new: true });
+    expect(SyncJob.updateMany).toHaveBeenCalledWith(
+      { platform: 'xbox', accountKey: '2533', status: { $in: ['queued', 'running'] } },
+      { $set: { status: 'cancelled', finishedAt: expect.any(Date) } }
+    );
+    expect(SyncJob.updateMany.mock.invocationCallOrder[0]).toBeLessThan(deleteGames.mock.invocationCallOrder[0]);
+    expect(deleteGames).toHaveBeenCalledWith({ xuid: '2533' });
+    expect(SyncJob.deleteMany).toHaveBeenCalledWith({ platform: 'xbox', accountKey: '2533', status: { $in: ['completed', 'failed'] } });
+    expect(PlaytimeSnapshot.deleteMany).toHaveBeenCalledWith({ 'meta.platform': 'xbox', 'meta.accountKey': '2533' });
+    expect(Achievement.deleteMany).toHaveBeenCalledWith({ platform: 'xbox', accountKey: '2533' });
+  });
+
+  it('removes an imported Epic library when no Epic account was ever linked', async () => {
+    const adapter = getAdapter('epic');
+    const deleteGames = mockGameDeletion(adapter);
+    const hasGames = jest.spyOn(adapter.model, 'exists').mockResolvedValue({ _id: 'g1' });
+
+    await unlinkAccount(adapter, { _id: 'u1' });
+
+    expect(hasGames).toHaveBeenCalledWith({ userId: 'u1' });
+    expect(deleteGames).toHaveBeenCalledWith({ userId: 'u1' });
+  });
+
+  it('rejects Epic when there is neither a link nor an imported library', async () => {
+    const adapter = getAdapter('epic');
+    const deleteGames = mockGameDeletion(adapter);
+    jest.spyOn(adapter.model, 'exists').mockResolvedValue(null);
+
+    await expect(unlinkAccount(adapter, { _id: 'u1' })).rejects.toMatchObject({ status: 400 });
+    expect(deleteGames).not.toHaveBeenCalled();
+  });
+
+  it('deletes the imported Galaxy games of every platform when GOG is unlinked', async () => {
+    const adapter = getAdapter('gog');
+    const deleteGames = mockGameDeletion(adapter);
+
+    await unlinkAccount(adapter, { _id: 'u1', gogUserId: '4801', gogRefreshToken: 'refresh' });
+
+    expect(deleteGames).toHaveBeenCalledWith({ userId: 'u1' });
+    expect(GalaxyGame.deleteMany).toHaveBeenCalledWith({ userId: 'u1' });
+  });
+
+  it('removes a Galaxy import when GOG was never linked', async () => {
+    const adapter = getAdapter('gog');
+    mockGameDeletion(adapter);
+    jest.spyOn(adapter.model, 'exists').mockResolvedValue(null);
+    GalaxyGame.exists.mockResolvedValue({ _id: 'g1' });
+
+    await unlinkAccount(adapter, { _id: 'u1' });
+
+    expect(GalaxyGame.exists).toHaveBeenCalledWith({ userId: 'u1' });
+    expect(GalaxyGame.deleteMany).toHaveBeenCalledWith({ userId: 'u1' });
+  });
+
+  it('rejects platforms that are not linked without touching anything', async () => {
+    const adapter = getAdapter('gog');
+    const deleteGames = mockGameDeletion(adapter);
+    jest.spyOn(adapter.model, 'exists').mockResolvedValue(null);
+
+    await expect(unlinkAccount(adapter, { _id: 'u1' })).rejects.toMatchObject({ status: 400 });
+    expect(User.findByIdAndUpdate).not.toHaveBeenCalled();
+    expect(deleteGames).not.toHaveBeenCalled();
+    expect(GalaxyGame.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('keeps Steam linked when it is the only way to sign in', async () => {
+    const adapter = getAdapter('steam');
+    const deleteGames = mockGameDeletion(adapter);
+
+    await expect(unlinkAccount(adapter, { _id: 'u1', steamId: '7656' })).rejects.toMatchObject({ status: 409 });
+    expect(deleteGames).not.toHaveBeenCalled();
+
+    await unlinkAccount(adapter, { _id: 'u1', steamId: '7656', googleId: 'g-1' });
+    expect(User.findByIdAndUpdate).toHaveBeenCalledWith('u1', {
+      $unset: { steamId: '', personaName: '', profileUrl: '' },
+    }, { new: true });
+    expect(deleteGames).toHaveBeenCalledWith({ steamId: '7656' });
+  });
+});
@@ -0,0 +1,138 @@
+const axios = require('axios');
+const Achievement = require('./models/Achievement');
+const xboxAdapter = require('./adapters/xboxAdapter');
+const steamAdapter = require('./adapters/steamAdapter');
+const gogAdapter = require('./adapters/gogAdapter');
+const {
+  MAX_LIST_FETCHES_PER_SYNC,
+  storeAchievements,
+  syncAchievements,
+  toResponse,
+} = require('./services/achievements');
+
+jest.mock('axios');
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/Achievement', () => ({
+  bulkWrite: jest.fn(),
+  aggregate: jest.fn(),
+}));
+
+const XUID = '2533274800000000';
+
+const xboxTitle = (titleId, currentAchievements, lastPlayed) => ({
+  xuid: XUID,
+  titleId,
+  name: `Game ${titleId}`,
+  lastPlayed: new Date(lastPlayed),
+  achievements: { currentAchievements, totalAchievements: 20, currentGamerscore: 0, totalGamerscore: 1000 },
+});
+
+const xblAchievement = {
+  id: '1',
+  name: 'Off the Beaten Path',
+  description: 'Discover a hidden area.',
+  lockedDescription: 'Find somewhere nobody looks.',
+  progressState: 'Achieved',
+  progression: { timeUnlocked: '2024-05-04T10:00:00.000Z' },
+  mediaAssets: [{ name: 'icon.png', type: 'Icon', url: 'https://images.xbox.com/icon.png' }],
+  rewards: [{ type: 'Gamerscore', value: '15' }],
+  rarity: { currentCategory: 'Rare', currentPercentage: 7.5 },
+  isSecret: true,
+};
+
+describe('achievements', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env.XBL_API_KEY = 'test-key';
+    Achievement.bulkWrite.mockResolvedValue({});
+  });
+
+  it('maps xbl.io achievements onto the shared shape', () => {
+    const locked = { ...xblAchievement, id: '2', progressState: 'NotStarted', progression: { timeUnlocked: '0001-01-01T00:00:00.0000000Z' } };
+
+    const [unlocked, notYet] = xboxAdapter.toAchievements([xblAchievement, locked]);
+
+    expect(toResponse({ ...unlocked, platform: 'xbox', gameId: '219630713' })).toEqual({
+      id: '1',
+      platform: 'xbox',
+      gameId: '219630713',
+      name: 'Off the Beaten Path',
+      description: 'Discover a hidden area.',
+      isUnlocked: true,
+      iconUrl: 'https://images.xbox.com/icon.png',
+      hidden: true,
+      points: 15,
+      grade: undefined,
+      rarityPercent: 7.5,
+      unlockedTime: '2024-05-04T10:00:00.000Z',
+      groupId: undefined,
+    });
+    expect(notYet).toEqual(expect.objectContaining({ unlocked: false, unlockedAt: undefined, description: 'Find somewhere nobody looks.' }));
+  });
+
+  it('upserts achievements per account and game without clearing fields the source lacks', async () => {
+    await storeAchievements(steamAdapter, '7656', 440, steamAdapter.toAchievements([
+      { apiname: 'ACH_WIN', achieved: 0, unlocktime: 0 },
+    ]));
+
+    expect(Achievement.bulkWrite).toHaveBeenCalledWith([{
+      updateOne: {
+        filter: { platform: 'steam', accountKey: '7656', gameId: '440', externalId: 'ACH_WIN' },
+        update: { $set: { unlocked: false } },
+        upsert: true,
+      },
+    }], { ordered: false });
+  });
+
+  it('fetches the lists of Xbox games whose unlock count changed, most recently played first', async () => {
+    Achievement.aggregate.mockResolvedValue([{ _id: '100', unlocked: 5 }, { _id: '200', unlocked: 2 }]);
+    axios.get.mockResolvedValue({ data: [xblAchievement] });
+    const games = [
+      xboxTitle('100', 5, '2024-06-01'), // Unchanged
+      xboxTitle('200', 3, '2024-05-01'), // One more unlock
+      xboxTitle('300', 0, '2024-06-02'), // Never stored
+      { ...xboxTitle('400', 0, '2024-06-03'), achievements: { currentAchievements: 0, totalAchievements: 0 } }, // No achievements
+    ];
+
+    const written = await syncAchievements(xboxAdapter, { xuid: XUID }, XUID, games);
+
+    expect(written).toBe(2);
+    expect(axios.get.mock.calls.map(([url]) => url)).toEqual([
+      `https://xbl.io/api/v2/achievements/player/${XUID}/300`,
+      `https://xbl.io/api/v2/achievements/player/${XUID}/200`,
+    ]);
+    expect(Achievement.bulkWrite.mock.calls[0][0][0].updateOne.filter).toEqual({ platform: 'xbox', accountKey: XUID, gameId: '300', externalId: '1' });
+  });
+
+  it(`fetches at most ${MAX_LIST_FETCHES_PER_SYNC} lists per sync and skips games that fail`, async () => {
+    Achievement.aggregate.mockResolvedValue([]);
+    axios.get.mockRejectedValueOnce(new Error('429')).mockResolvedValue({ data: [xblAchievement] });
+    const games = Array.from({ length: MAX_LIST_FETCHES_PER_SYNC + 5 }, (_, index) => xboxTitle(String(index), 1, '2024-06-01'));
+
+    const written = await syncAchievements(xboxAdapter, { xuid: XUID }, XUID, games);
+
+    expect(axios.get).toHaveBeenCalledTimes(MAX_LIST_FETCHES_PER_SYNC);
+    expect(written).toBe(MAX_LIST_FETCHES_PER_SYNC - 1);
+  });
+
+  it('stores the lists Steam fetched during the sync without calling upstream again', async () => {
+    const written = await syncAchievements(steamAdapter, { steamId: '7656' }, '7656', [], new Map([
+      [440, [{ apiname: 'ACH_WIN', name: 'Winner', description: 'Win.', achieved: 1, unlocktime: 1717243200 }]],
+    ]));
+
+    expect(written).toBe(1);
+    expect(axios.get).not.toHaveBeenCalled();
+    expect(Achievement.aggregate).not.toHaveBeenCalled();
+  });
+
+  it('skips platforms without per-achievement data', async () => {
+    await expect(syncAchievements(gogAdapter, { user: { _id: 'u1' } }, 'u1', [{ productId: 1 }])).resolves.toBe(0);
+    expect(Achievement.bulkWrite).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+const Achievement = require('./models/Achievement');
+const PlaytimeSnapshot = require('./models/PlaytimeSnapshot');
+const SteamGame = require('./models/SteamGame');
+const { ActivityFeedError, getActivityFeed } = require('./services/activityFeed');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/Achievement', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./models/PlaytimeSnapshot', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./models/SteamGame', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./models/GogGame', () => ({
+  find: jest.fn(),
+}));
+
+// Mongoose's find().sort().limit().lean() chain, resolving to `documents`
+const queryOf = documents => {
+  const query = {
+    sort: jest.fn(() => query),
+    limit: jest.fn(() => query),
+    lean: jest.fn(async () => documents),
+  };
+  return query;
+};
+
+const unlock = (id, unlockedAt, fields = {}) => ({
+  _id: id,
+  platform: 'steam',
+  accountKey: '7656',
+  gameId: '620',
+  externalId: `ACH_${id}`,
+  name: `Achievement ${id}`,
+  unlocked: true,
+  unlockedAt: new Date(unlockedAt),
+  ...fields,
+});
+
+const snapshot = (id, recordedAt, fields = {}) => ({
+  _id: id,
+  recordedAt: new Date(recordedAt),
+  meta: { platform: 'steam', accountKey: '7656', gameId: '730' },
+  title: 'Counter-Strike 2',
+  playtimeMinutes: 500,
+  deltaMinutes: 60,
+  ...fields,
+});
+
+describe('getActivityFeed', () => {
+  const user = { _id: 'u1', id: 'u1', steamId: '7656' };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    SteamGame.find.mockResolvedValue([
+      { appId: 620, name: 'Portal 2', playtimeForever: 45, achievements: { unlocked: 1, total: 51 } },
+      { appId: 730, name: 'Counter-Strike 2', playtimeForever: 500, achievements: { unlocked: 0, total: 0 } },
+    ]);
+  });
+
+  it('merges unlocks and playtime snapshots newest first, with the games from the library', async () => {
+    Achievement.find.mockReturnValue(queryOf([unlock('65f000000000000000000002', '2024-06-02T20:00:00Z')]));
+    PlaytimeSnapshot.find.mockReturnValue(queryOf([
+      snapshot('65f000000000000000000003', '2024-06-03T06:00:00Z'),
+      snapshot('65f000000000000000000001', '2024-06-01T06:00:00Z', { meta: { platform: 'steam', accountKey: '7656', gameId: '620' }, title: 'Portal 2', deltaMinutes: 0, newGame: true }),
+    ]));
+
+    const feed = await getActivityFeed(user);
+
+    expect(Achievement.find.mock.calls[0][0].$or).toEqual(expect.arrayContaining([
+      { platform: 'steam', accountKey: '7656' },
+      { platform: 'gog', accountKey: 'u1' },
+    ]));
+    expect(feed.items.map(item => [item.type, item.date])).toEqual([
+      ['played', '2024-06-03T06:00:00.000Z'],
+      ['achievement', '2024-06-02T20:00:00.000Z'],
+      ['added', '2024-06-01T06:00:00.000Z'],
+    ]);
+    expect(feed.items[0]).toEqual({
+      id: 'playtime-65f000000000000000000003',
+      type: 'played',
+      date: '2024-06-03T06:00:00.000Z',
+      platform: 'steam',
+      game: {
+        id: 'steam-730',
+        gameId: '730',
+        title: 'Counter-Strike 2',
+        coverImage: 'https://cdn.akamai.steamstatic.com/steam/apps/730/header.jpg',
+      },
+      minutes: 60,
+    });
+    expect(feed.items[1].game.title).toBe('Portal 2');
+    expect(feed.items[1].achievement).toEqual(expect.objectContaining({ id: 'ACH_65f000000000000000000002', isUnlocked: true, unlockedTime: '2024-06-02T20:00:00.000Z' }));
+    expect(SteamGame.find).toHaveBeenCalledWith({ steamId: '7656', appId: { $in: expect.arrayContaining(['620', '730']) } });
+    expect(feed.nextCursor).toBeNull();
+  });
+
+  it('pages with a cursor that keeps items of the same instant apart', async () => {
+    Achievement.find.mockReturnValue(queryOf([]));
+    PlaytimeSnapshot.find.mockReturnValue(queryOf([
+      snapshot('65f000000000000000000003', '2024-06-03T06:00:00Z'),
+      snapshot('65f000000000000000000002', '2024-06-03T06:00:00Z'),
+      snapshot('65f000000000000000000001', '2024-06-03T06:00:00Z'),
+    ]));
+
+    const firstPage = await getActivityFeed(user, { limit: '2' });
+
+    expect(PlaytimeSnapshot.find.mock.results[0].value.limit).toHaveBeenCalledWith(3);
+    expect(firstPage.items).toHaveLength(2);
+    expect(firstPage.nextCursor).toBe('2024-06-03T06:00:00.000Z_65f000000000000000000002');
+
+    await getActivityFeed(user, { limit: '2', before: firstPage.nextCursor });
+
+    const cursor = new Date('2024-06-03T06:00:00.000Z');
+    expect(PlaytimeSnapshot.find.mock.calls[1][0].$and).toContainEqual({
+      $or: [{ recordedAt: { $lt: cursor } }, { recordedAt: cursor, _id: { $lt: '65f000000000000000000002' } }],
+    });
+    expect(Achievement.find.mock.calls[1][0].$and).toEqual([{
+      $or: [{ unlockedAt: { $lt: cursor } }, { unlockedAt: cursor, _id: { $lt: '65f000000000000000000002' } }],
+    }]);
+  });
+
+  it('narrows the feed to one game of the library', async () => {
+    Achievement.find.mockReturnValue(queryOf([]));
+    PlaytimeSnapshot.find.mockReturnValue(queryOf([]));
+
+    await getActivityFeed(user, { gameId: 'steam-620' });
+
+    expect(Achievement.find.mock.calls[0][0]).toEqual(expect.objectContaining({
+      $or: [{ platform: 'steam', accountKey: '7656' }],
+      gameId: '620',
+    }));
+    expect(PlaytimeSnapshot.find.mock.calls[0][0]['meta.gameId']).toBe('620');
+  });
+
+  it('returns an empty feed without querying when no account matches', async () => {
+    await expect(getActivityFeed(user, { platform: 'xbox' })).resolves.toEqual({ items: [], nextCursor: null });
+    expect(Achievement.find).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid options', async () => {
+    await expect(getActivityFeed(user, { platform: 'dreamcast' })).rejects.toBeInstanceOf(ActivityFeedError);
+    await expect(getActivityFeed(user, { gameId: '620' })).rejects.toThrow(/library game id/);
+    await expect(getActivityFeed(user, { limit: '500' })).rejects.toThrow(/'limit'/);
+    await expect(getActivityFeed(user, { before: 'yesterday' })).rejects.toThrow(/nextCursor/);
+  });
+});
@@ -0,0 +1,162 @@
+const { getLibrary, syncLibrary } = require('./adapters/libraryCache');
+const { translateUpstreamError, UnexpectedResponseError } = require('./adapters/upstreamErrors');
+const { getAdapter } = require('./adapters');
+const logger = require('./config/logger');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+// A minimal in-memory adapter implementing the contract described in adapters/index.js.
+const buildAdapter = (overrides = {}) => {
+  const sort = jest.fn();
+  const model = {
+    find: jest.fn(() => ({ sort })),
+    findOneAndUpdate: jest.fn(async (filter, doc) => doc),
+  };
+  return {
+    platform: 'fake',
+    label: 'Fake',
+    upstreamName: 'Fake API',
+    model,
+    gameKey: 'gameId',
+    cache: { freshnessField: 'lastUpdated', sort: { name: 1 } },
+    achievementsInLibrary: false,
+    achievementDelayMs: 0,
+    describeAccount: ({ accountId }) => `accountId: ${accountId}`,
+    ownerFilter: ({ accountId }) => ({ accountId }),
+    fetchLibrary: jest.fn(async () => [{ id: 1, title: 'One' }, { id: 2, title: 'Two' }]),
+    fetchAchievements: jest.fn(async () => [{ achieved: 1 }, { achieved: 0 }]),
+    gameId: raw => raw.id,
+    normalize: (raw, { accountId }, achievements = []) => ({
+      accountId,
+      gameId: raw.id,
+      name: raw.title,
+      unlocked: achievements.filter(a => a.achieved).length,
+    }),
+    toResponse: game => game,
+    _sort: sort,
+    ...overrides,
+  };
+};
+
+describe('platform adapter registry', () => {
+  it('exposes an adapter for every supported platform', () => {
+    ['steam', 'xbox', 'psn', 'gog', 'epic'].forEach(platform => {
+      const adapter = getAdapter(platform);
+      expect(adapter).not.toBeNull();
+      expect(adapter.platform).toBe(platform);
+      ['fetchLibrary', 'fetchAchievements', 'fetchProfile', 'normalize'].forEach(method => {
+        expect(typeof adapter[method]).toBe('function');
+      });
+    });
+    expect(getAdapter('dreamcast')).toBeNull();
+  });
+});
+
+describe('libraryCache', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('serves fresh games from the cache without calling upstream', async () => {
+    const adapter = buildAdapter();
+    adapter._sort.mockResolvedValue([{ gameId: 1, name: 'Cached' }]);
+
+    const result = await getLibrary(adapter, { accountId: 'abc' });
+
+    expect(result.source).toBe('cache');
+    expect(result.games).toHaveLength(1);
+    expect(adapter.model.find).toHaveBeenCalledWith({ accountId: 'abc', lastUpdated: { $gte: expect.any(Date) } });
+    expect(adapter.fetchLibrary).not.toHaveBeenCalled();
+  });
+
+  it('syncs from upstream on a cache miss, fetching achievements per game and upserting each one', async () => {
+    const adapter = buildAdapter();
+    adapter._sort.mockResolvedValue([]);
+
+    const result = await getLibrary(adapter, { accountId: 'abc' });
+
+    expect(result.source).toBe('api');
+    expect(result.games).toEqual([
+      { accountId: 'abc', gameId: 1, name: 'One', unlocked: 1 },
+      { accountId: 'abc', gameId: 2, name: 'Two', unlocked: 1 },
+    ]);
+    expect(adapter.fetchAchievements).toHaveBeenCalledTimes(2);
+    expect(adapter.model.findOneAndUpdate).toHaveBeenCalledWith(
+      { accountId: 'abc', gameId: 1 },
+      expect.objectContaining({ name: 'One', lastUpdated: expect.any(Date) }),
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+  });
+
+  it('falls back to upstream when the cache read fails', async () => {
+    const adapter = buildAdapter();
+    adapter._sort.mockRejectedValue(new Error('DB Read Error'));
+
+    const result = await getLibrary(adapter, { accountId: 'abc' });
+
+    expect(result.source).toBe('api');
+    expect(logger.error).toHaveBeenCalledWith('Error fetching Fake games from MongoDB cache:', expect.anything());
+  });
+
+  it('keeps going when one game fails to save or its achievements fail to load', async () => {
+    const adapter = buildAdapter();
+    adapter.fetchAchievements.mockRejectedValueOnce(new Error('boom'));
+    adapter.model.findOneAndUpdate.mockRejectedValueOnce(new Error('DB Write Error'));
+
+    const onGame = jest.fn();
+    const games = await syncLibrary(adapter, { accountId: 'abc' }, { onGame });
+
+    expect(games).toHaveLength(2);
+    expect(games[0].unlocked).toBe(0);
+    expect(onGame).toHaveBeenLastCalledWith(games[1], { processed: 2, total: 2, achievementsFetched: 1, errors: 1 });
+    expect(logger.warn).toHaveBeenCalledWith('Failed to fetch achievements for game 1: boom', expect.anything());
+    expect(logger.error).toHaveBeenCalledWith('Failed to save Fake game 1 to MongoDB for accountId: abc:', { errorMessage: 'DB Write Error' });
+    expect(adapter.model.findOneAndUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips persistence for adapters without a model', async () => {
+    const adapter = buildAdapter({ model: null, achievementsInLibrary: true });
+
+    const result = await getLibrary(adapter, { accountId: 'abc' });
+
+    expect(result.source).toBe('api');
+    expect(result.games).toHaveLength(2);
+    expect(adapter.fetchAchievements).not.toHaveBeenCalled();
+  });
+});
+
+describe('translateUpstreamError', () => {
+  const adapter = buildAdapter({ errorMessages: { 401: 'Fake API request unauthorized.' } });
+
+  it('uses the platform message for known statuses and keeps the upstream explanation', () => {
+    const { status, body } = translateUpstreamError({ response: { status: 401, data: { error_message: 'bad key' } } }, adapter);
+    expect(status).toBe(401);
+    expect(body.error).toBe('Fake API request unauthorized. (Original: bad key)');
+  });
+
+  it('builds a generic message for other statuses', () => {
+    const { status, body } = translateUpstreamError({ response: { status: 502, data: {} } }, adapter);
+    expect(status).toBe(502);
+    expect(body.error).toBe('Failed to fetch Fake games. Fake API responded with status 502.');
+  });
+
+  it('maps missing responses to 503 and anything else to 500', () => {
+    expect(translateUpstreamError({ request: {} }, adapter).status).toBe(503);
+    expect(translateUpstreamError(new Error('oops'), adapter)).toEqual({
+      status: 500,
+      body: { error: 'Failed to fetch Fake games from Fake API.', details: { message: 'oops' } },
+    });
+  });
+
+  it('honours UnexpectedResponseError statuses and adapter-specific translation', () => {
+    expect(translateUpstreamError(new UnexpectedResponseError('Nothing here.', 404), adapter)).toEqual({
+      status: 404,
+      body: { error: 'Nothing here.', details: {} },
+    });
+    const psn = getAdapter('psn');
+    expect(translateUpstreamError(new Error('NPSSO code is expired or invalid'), psn).status).toBe(401);
+  });
+});
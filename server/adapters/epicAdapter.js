@@ -0,0 +1,266 @@
+const axios = require('axios');
+const logger = require('../config/logger');
+const EpicGame = require('../models/EpicGame');
+const User = require('../models/User');
+const { UnexpectedResponseError } = require('./upstreamErrors');
+const { tokenFields, accessTokenFor } = require('./oauthTokens');
+const { libraryGame } = require('./libraryGame');
+
+// Epic has no public library API for third parties, so every endpoint is configurable. The defaults are the
+// Epic Account Services OAuth endpoints and the library service Legendary/Heroic talk to.
+const endpoints = () => ({
+  authorize: process.env.EPIC_OAUTH_AUTHORIZE_URL || 'https://www.epicgames.com/id/authorize',
+  token: process.env.EPIC_OAUTH_TOKEN_URL || 'https://api.epicgames.dev/epic/oauth/v2/token',
+  accounts: process.env.EPIC_ACCOUNTS_URL || 'https://api.epicgames.dev/epic/id/v2/accounts',
+  library: process.env.EPIC_LIBRARY_URL || 'https://library-service.live.use1a.on.epicgames.com/library/api/public/items',
+});
+
+const MAX_LIBRARY_PAGES = 50;
+
+// Key image types in order of preference for a card cover.
+const COVER_IMAGE_TYPES = ['DieselGameBoxTall', 'DieselGameBox', 'OfferImageTall', 'Thumbnail'];
+
+function pickCoverImage(keyImages) {
+  if (!Array.isArray(keyImages)) return undefined;
+  for (const type of COVER_IMAGE_TYPES) {
+    const image = keyImages.find(candidate => candidate.type === type && candidate.url);
+    if (image) return image.url;
+  }
+  return keyImages[0] ? keyImages[0].url : undefined;
+}
+
+// Legendary stores namespace/catalog ids per platform under asset_infos; any platform will do.
+function firstAssetInfo(entry) {
+  const assetInfos = entry.asset_infos || entry.assetInfos;
+  if (!assetInfos || typeof assetInfos !== 'object') return {};
+  return assetInfos.Windows || Object.values(assetInfos)[0] || {};
+}
+
+/**
+ * Maps one library entry onto an EpicGame document. Handles the three shapes we see:
+ *   - `legendary list --json` / Legendary's installed.json (snake_case, details under `metadata`)
+ *   - Heroic's legendary_library.json (`app_name`, `title`, `art_cover`, `is_installed`)
+ *   - library service records from the OAuth sync (`appName`, `namespace`, `catalogItemId`)
+ * Returns null for entries we should not list (missing id, DLC, Unreal Engine assets).
+ */
+function normalizeEntry(entry, { user }, source) {
+  if (!entry || typeof entry !== 'object') return null;
+  const appName = entry.app_name || entry.appName;
+  if (!appName) return null;
+
+  const metadata = entry.metadata || {};
+  const install = entry.install || {};
+  const assetInfo = firstAssetInfo(entry);
+  const namespace = entry.namespace || metadata.namespace || assetInfo.namespace;
+  if (namespace === 'ue' || entry.is_dlc || install.is_dlc || metadata.mainGameItem) return null;
+
+  return {
+    userId: user._id,
+    appName,
+    // The library service only returns ids; until catalog lookups exist the app name stands in for the title.
+    title: entry.app_title || entry.title || metadata.title || appName,
+    namespace,
+    catalogItemId: entry.catalog_item_id || entry.catalogItemId || metadata.id || assetInfo.catalog_item_id,
+    coverImage: entry.art_cover || entry.art_square || pickCoverImage(metadata.keyImages || entry.keyImages),
+    developer: entry.developer || metadata.developer,
+    isInstalled: !!(entry.is_installed || entry.install_path || install.install_path),
+    source,
+  };
+}
+
+// Finds the list of games in a Legendary or Heroic export. Returns null when the file is neither.
+function exportEntries(data) {
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== 'object') return null;
+  if (Array.isArray(data.library)) return data.library; // Heroic legendary_library.json
+  if (Array.isArray(data.games)) return data.games;
+  // Legendary's installed.json is an object keyed by app name.
+  const values = Object.values(data);
+  if (values.length > 0 && values.every(value => value && typeof value === 'object' && value.app_name)) {
+    return values;
+  }
+  return null;
+}
+
+async function requestToken(params) {
+  const response = await axios.post(endpoints().token, new URLSearchParams(params).toString(), {
+    auth: { username: process.env.EPIC_CLIENT_ID, password: process.env.EPIC_CLIENT_SECRET },
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+  if (!response.data || !response.data.access_token) {
+    throw new UnexpectedResponseError('Epic token endpoint did not return an access token.', 502);
+  }
+  return response.data;
+}
+
+const epicAccessToken = user => accessTokenFor(user, {
+  prefix: 'epic',
+  label: 'Epic',
+  refresh: refreshToken => requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken }),
+});
+
+const epicAdapter = {
+  platform: 'epic',
+  label: 'Epic',
+  upstreamName: 'Epic Games API',
+  model: EpicGame,
+  gameKey: 'appName',
+  cache: { freshnessField: 'lastFetched', sort: { title: 1 } },
+  // Epic achievements are not available through the library service.
+  achievementsInLibrary: true,
+  errorMessages: {
+    401: 'Epic session expired or was revoked. Please sign in with Epic again.',
+    403: 'Access to the Epic library was denied for this account.',
+    429: 'Too many requests to Epic. Please try again later.',
+  },
+
+  // Only the OAuth flow needs server credentials; JSON imports always work.
+  isConfigured() {
+    return !!(process.env.EPIC_CLIENT_ID && process.env.EPIC_CLIENT_SECRET && process.env.EPIC_OAUTH_CALLBACK_URL);
+  },
+
+  describeAccount({ user }) {
+    return `user ${user.id}`;
+  },
+
+  ownedByUser: true,
+
+  ownerFilter({ user }) {
+    return { userId: user._id };
+  },
+
+  accountKey({ user }) {
+    return String(user._id);
+  },
+
+  // Background jobs only store the user id, so reload the user to get the current tokens.
+  async accountFromKey(userId) {
+    const user = await User.findById(userId);
+    return user && user.epicRefreshToken ? { user } : null;
+  },
+
+  // Only OAuth-linked accounts have an upstream to sync from; imported libraries are static.
+  accountForUser(user) {
+    return user.epicRefreshToken ? { user } : null;
+  },
+
+  linkFields: ['epicAccountId', 'epicDisplayName', 'epicAccessToken', 'epicRefreshToken', 'epicTokenExpiresAt'],
+
+  linkedAccount(user) {
+    return user.epicAccountId || user.epicRefreshToken ? { user } : null;
+  },
+
+  // Imported libraries need no sign-in, but are removed the same way as a linked account's games.
+  async hasImportedGames(user) {
+    return !!(await EpicGame.exists(this.ownerFilter({ user })));
+  },
+
+  // Epic answers token failures with 400 { errorCode / error: 'invalid_grant' } rather than 401.
+  translateError(error) {
+    const data = error.response && error.response.data;
+    if (data && (data.error === 'invalid_grant' || data.errorCode === 'errors.com.epicgames.oauth.invalid_grant')) {
+      return { status: 401, message: 'Epic session expired or was revoked. Please sign in with Epic again.' };
+    }
+    return null;
+  },
+
+  // URL to send the user to for the OAuth authorization code flow.
+  authorizationUrl(state) {
+    const params = new URLSearchParams({
+      client_id: process.env.EPIC_CLIENT_ID,
+      response_type: 'code',
+      scope: process.env.EPIC_OAUTH_SCOPE || 'basic_profile',
+      redirect_uri: process.env.EPIC_OAUTH_CALLBACK_URL,
+      state,
+    });
+    return `${endpoints().authorize}?${params.toString()}`;
+  },
+
+  // Exchanges an authorization code for tokens. Resolves to the User fields to store.
+  async exchangeCode(code) {
+    const tokens = await requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: process.env.EPIC_OAUTH_CALLBACK_URL,
+    });
+    return { epicAccountId: tokens.account_id, ...tokenFields('epic', tokens) };
+  },
+
+  async fetchProfile({ user }) {
+    const accessToken = await epicAccessToken(user);
+    const response = await axios.get(endpoints().accounts, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      params: { accountId: user.epicAccountId },
+    });
+    const account = Array.isArray(response.data) ? response.data[0] : null;
+    return {
+      accountId: user.epicAccountId,
+      displayName: account ? account.displayName : undefined,
+    };
+  },
+
+  async fetchLibrary({ user }) {
+    const accessToken = await epicAccessToken(user);
+    const records = [];
+    let cursor;
+    for (let page = 0; page < MAX_LIBRARY_PAGES; page += 1) {
+      const response = await axios.get(endpoints().library, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+        params: { includeMetadata: true, ...(cursor ? { cursor } : {}) },
+      });
+      if (!response.data || !Array.isArray(response.data.records)) {
+        throw new UnexpectedResponseError('Unexpected response structure from the Epic library service.', 502);
+      }
+      records.push(...response.data.records);
+      cursor = response.data.responseMetadata && response.data.responseMetadata.nextCursor;
+      if (!cursor) break;
+    }
+    logger.info(`Fetched ${records.length} Epic library records for user ${user.id}.`);
+    // Drop ids the normalizer would skip, so sync progress counts only listed games.
+    return records.filter(record => normalizeEntry(record, { user }, 'oauth'));
+  },
+
+  async fetchAchievements() {
+    return [];
+  },
+
+  gameId(record) {
+    return record.appName || record.app_name;
+  },
+
+  normalize(record, account) {
+    return normalizeEntry(record, account, 'oauth');
+  },
+
+  /**
+   * Parses a Legendary/Heroic library export into EpicGame documents for the account.
+   * Returns null when the data is not a recognised export.
+   */
+  parseLibraryExport(data, account) {
+    const entries = exportEntries(data);
+    if (!entries) return null;
+    const games = new Map(); // Exports can list a game once per platform; keep one per appName
+    entries.forEach(entry => {
+      const game = normalizeEntry(entry, account, 'import');
+      if (game) games.set(game.appName, game);
+    });
+    return [...games.values()];
+  },
+
+  toResponse(game) {
+    return typeof game.toObject === 'function' ? game.toObject() : game;
+  },
+
+  // Neither the exports nor the library service report playtime or achievements.
+  toGame(game) {
+    return libraryGame({
+      platform: 'epic',
+      gameId: game.appName,
+      title: game.title,
+      coverImage: game.coverImage,
+      status: game.isInstalled ? 'installed' : 'not_installed',
+    });
+  },
+};
+
+module.exports = epicAdapter;
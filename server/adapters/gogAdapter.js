@@ -0,0 +1,216 @@
+const axios = require('axios');
+const logger = require('../config/logger');
+const GogGame = require('../models/GogGame');
+const GalaxyGame = require('../models/GalaxyGame');
+const User = require('../models/User');
+const { UnexpectedResponseError } = require('./upstreamErrors');
+const { tokenFields, accessTokenFor } = require('./oauthTokens');
+const { libraryGame } = require('./libraryGame');
+
+const GOG_AUTH_BASE_URL = 'https://auth.gog.com';
+const GOG_EMBED_BASE_URL = 'https://embed.gog.com';
+// GOG only issues codes to the redirect URIs registered for a client. The Galaxy client's is GOG's own
+// login-success page, from which the user copies the code back to us (see POST /api/gog/connect).
+const DEFAULT_REDIRECT_URI = `${GOG_EMBED_BASE_URL}/on_login_success?origin=client`;
+const MAX_LIBRARY_PAGES = 100;
+
+const redirectUri = () => process.env.GOG_OAUTH_CALLBACK_URL || DEFAULT_REDIRECT_URI;
+
+// GOG's token endpoint takes its parameters in the query string of a GET request.
+async function requestToken(params) {
+  const response = await axios.get(`${GOG_AUTH_BASE_URL}/token`, {
+    params: {
+      client_id: process.env.GOG_CLIENT_ID,
+      client_secret: process.env.GOG_CLIENT_SECRET,
+      ...params,
+    },
+  });
+  if (!response.data || !response.data.access_token) {
+    throw new UnexpectedResponseError('GOG token endpoint did not return an access token.', 502);
+  }
+  return response.data;
+}
+
+const gogAccessToken = user => accessTokenFor(user, {
+  prefix: 'gog',
+  label: 'GOG',
+  refresh: refreshToken => requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken }),
+});
+
+const authHeaders = accessToken => ({ headers: { Authorization: `Bearer ${accessToken}` } });
+
+const gogAdapter = {
+  platform: 'gog',
+  label: 'GOG',
+  upstreamName: 'GOG API',
+  model: GogGame,
+  gameKey: 'productId',
+  cache: { freshnessField: 'lastUpdated', sort: { title: 1 } },
+  // The GOG API does not expose achievements (or playtime); they come from a GOG Galaxy import instead.
+  achievementsInLibrary: true,
+  errorMessages: {
+    401: 'GOG session expired or was revoked. Please connect your GOG account again.',
+    429: 'Too many requests to GOG. Please try again later.',
+  },
+
+  isConfigured() {
+    return !!(process.env.GOG_CLIENT_ID && process.env.GOG_CLIENT_SECRET);
+  },
+
+  describeAccount({ user }) {
+    return `user ${user.id} (gogUserId: ${user.gogUserId || 'N/A'})`;
+  },
+
+  ownedByUser: true,
+
+  ownerFilter({ user }) {
+    return { userId: user._id };
+  },
+
+  accountKey({ user }) {
+    return String(user._id);
+  },
+
+  // Background jobs only store the user id, so reload the user to get the current tokens.
+  async accountFromKey(userId) {
+    const user = await User.findById(userId);
+    return user && user.gogRefreshToken ? { user } : null;
+  },
+
+  accountForUser(user) {
+    return user.gogRefreshToken ? { user } : null;
+  },
+
+  linkFields: ['gogUserId', 'gogUsername', 'gogAccessToken', 'gogRefreshToken', 'gogTokenExpiresAt'],
+
+  linkedAccount(user) {
+    return user.gogUserId || user.gogRefreshToken ? { user } : null;
+  },
+
+  // A Galaxy database can be imported without linking GOG; unlinking removes it with the GOG games.
+  async hasImportedGames(user) {
+    const [gogGame, galaxyGame] = await Promise.all([
+      GogGame.exists(this.ownerFilter({ user })),
+      GalaxyGame.exists({ userId: user._id }),
+    ]);
+    return !!(gogGame || galaxyGame);
+  },
+
+  // Galaxy games of every platform, not just GOG's, come from the same import.
+  deleteImportedGames({ user }) {
+    return GalaxyGame.deleteMany({ userId: user._id });
+  },
+
+  // GOG answers a bad or revoked code/refresh token with 400/401 { error: 'invalid_grant' }.
+  translateError(error) {
+    const data = error.response && error.response.data;
+    if (data && data.error === 'invalid_grant') {
+      return { status: 401, message: 'GOG session expired or the login code is invalid. Please connect your GOG account again.' };
+    }
+    return null;
+  },
+
+  // URL of the GOG login page for the OAuth authorization code flow.
+  authorizationUrl() {
+    const params = new URLSearchParams({
+      client_id: process.env.GOG_CLIENT_ID,
+      redirect_uri: redirectUri(),
+      response_type: 'code',
+      layout: 'client2',
+    });
+    return `${GOG_AUTH_BASE_URL}/auth?${params.toString()}`;
+  },
+
+  // Whether GOG redirects back to our callback, or to its own page that shows the code to copy.
+  redirectsToServer() {
+    return !!process.env.GOG_OAUTH_CALLBACK_URL;
+  },
+
+  // Exchanges an authorization code for tokens. Resolves to the User fields to store.
+  async exchangeCode(code) {
+    const tokens = await requestToken({ grant_type: 'authorization_code', code, redirect_uri: redirectUri() });
+    return { gogUserId: tokens.user_id ? String(tokens.user_id) : undefined, ...tokenFields('gog', tokens) };
+  },
+
+  async fetchProfile({ user }) {
+    const accessToken = await gogAccessToken(user);
+    const response = await axios.get(`${GOG_EMBED_BASE_URL}/userData.json`, authHeaders(accessToken));
+    const data = response.data || {};
+    return {
+      accountId: data.userId ? String(data.userId) : user.gogUserId,
+      displayName: data.username,
+      avatarUrl: data.avatars ? data.avatars.medium : undefined,
+    };
+  },
+
+  // Owned games, one page of getFilteredProducts at a time (mediaType 1 = games, 2 = movies).
+  async fetchLibrary({ user }) {
+    const accessToken = await gogAccessToken(user);
+    const products = [];
+    let totalPages = 1;
+    for (let page = 1; page <= totalPages && page <= MAX_LIBRARY_PAGES; page += 1) {
+      const response = await axios.get(`${GOG_EMBED_BASE_URL}/account/getFilteredProducts`, {
+        ...authHeaders(accessToken),
+        params: { mediaType: 1, page },
+      });
+      if (!response.data || !Array.isArray(response.data.products)) {
+        throw new UnexpectedResponseError('Unexpected response structure from GOG API.', 502);
+      }
+      products.push(...response.data.products);
+      totalPages = response.data.totalPages || 1;
+    }
+    logger.info(`Received ${products.length} games from GOG API for user ${user.id}`);
+    return products;
+  },
+
+  async fetchAchievements() {
+    return [];
+  },
+
+  gameId(product) {
+    return product.id;
+  },
+
+  normalize(product, { user }) {
+    return {
+      userId: user._id,
+      gogUserId: user.gogUserId,
+      productId: product.id,
+      title: product.title,
+      image: product.image ? `https:${product.image}_196.jpg` : undefined,
+      url: product.url,
+      worksOn: product.worksOn,
+    };
+  },
+
+  // Keeps the shape the dashboard already renders for GOG games. Playtime (in minutes, like Steam's
+  // playtimeForever), last played and achievements are only known after a GOG Galaxy import.
+  toResponse(game) {
+    const achievements = game.achievements || {};
+    return {
+      appID: game.productId,
+      name: game.title,
+      playtimeForever: game.playtimeMinutes || 0,
+      imgIconURL: game.image || '',
+      achievements: { unlocked: achievements.unlocked || 0, total: achievements.total || 0 },
+      lastPlayed: game.lastPlayed,
+      url: game.url,
+      lastUpdated: game.lastUpdated,
+    };
+  },
+
+  toGame(game) {
+    const achievements = game.achievements || {};
+    return libraryGame({
+      platform: 'gog',
+      gameId: game.productId,
+      title: game.title,
+      coverImage: game.image,
+      playtimeMinutes: game.playtimeMinutes || 0,
+      lastPlayed: game.lastPlayed,
+      achievements: { unlocked: achievements.unlocked || 0, total: achievements.total || 0 },
+    });
+  },
+};
+
+module.exports = gogAdapter;
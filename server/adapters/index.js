@@ -0,0 +1,69 @@
+/**
+ * Platform adapter registry.
+ *
+ * Every platform implements the same contract so caching, upserts and error translation live in
+ * one place (libraryCache.js, upstreamErrors.js) instead of being copied into each route:
+ *
+ *   platform / label / upstreamName  identifiers used in URLs, logs and error messages
+ *   model                            Mongoose model the games are persisted in (null = not persisted)
+ *   gameKey                          field on the model that identifies a game within an account
+ *   cache                            { freshnessField, sort } used by the 24h cache check
+ *   achievementsInLibrary            false when each game needs its own fetchAchievements call
+ *   errorMessages / translateError   optional per-status messages and SDK-specific error mapping
+ *   isConfigured()                   whether the server has the credentials this platform needs
+ *   describeAccount(account)         short account description for logs
+ *   ownerFilter(account)             Mongo filter selecting the account's games
+ *   accountKey(account)              string stored on SyncJob documents to identify the account
+ *   accountFromKey(key)              async inverse of accountKey (null when the account is gone)
+ *   accountForUser(user)             account linked to a User document, or null
+ *   linkFields                       User fields holding the link, cleared when the account is unlinked
+ *   linkedAccount(user)              like accountForUser, but also returns links whose credentials expired
+ *   hasImportedGames(user)           optional; async, true when the user has imported games that unlinking
+ *                                    removes even though no account is linked (services/accountLinks.js)
+ *   deleteImportedGames(account)     optional; deletes imported games kept outside `model` on unlink
+ *   fetchProfile(account)            -> { accountId, displayName, avatarUrl?, profileUrl? }
+ *   fetchLibrary(account)            -> raw upstream game entries
+ *   fetchAchievements(account, id, game?) -> raw upstream achievements for one game (`game` is the stored
+ *                                    document when the caller has it)
+ *   toAchievements(raw)              optional; raw achievements -> Achievement fields ({ externalId, name, unlocked, ... }).
+ *                                    Platforms that have it get their achievements stored on every sync
+ *                                    (services/achievements.js)
+ *   gameId(rawGame)                  upstream id of a raw entry
+ *   normalize(rawGame, account, achievements?) -> document for `model`
+ *   toResponse(game)                 shape returned by the platform's HTTP routes
+ *   toGame(game)                     platform-independent game served by GET /api/library (see libraryGame.js)
+ *   playtimeMinutes(game)            optional lifetime playtime of a stored game; platforms that report it
+ *                                    get playtime snapshots on every sync (services/playtimeHistory.js)
+ *   formerGameIds(game)              optional; ids the game may have been stored under before (PSN title ids),
+ *                                    whose playtime the next snapshot is measured against
+ *   ownedByUser                      true when games are stored per User (PSN, GOG, Epic), so stored
+ *                                    games can be listed even without a linked account (e.g. imports)
+ *
+ * accountKey / accountFromKey / accountForUser are only needed by platforms with a model, since
+ * those are the ones the background sync scheduler (services/syncScheduler.js) keeps up to date.
+ *
+ * An "account" is whatever identifies the upstream library: { steamId }, { xuid }, or { user } for
+ * PSN, GOG and Epic, whose credentials live on the User document.
+ */
+const steamAdapter = require('./steamAdapter');
+const xboxAdapter = require('./xboxAdapter');
+const psnAdapter = require('./psnAdapter');
+const gogAdapter = require('./gogAdapter');
+const epicAdapter = require('./epicAdapter');
+
+const adapters = {
+  steam: steamAdapter,
+  xbox: xboxAdapter,
+  psn: psnAdapter,
+  gog: gogAdapter,
+  epic: epicAdapter,
+};
+
+function getAdapter(platform) {
+  return adapters[platform] || null;
+}
+
+module.exports = {
+  adapters,
+  getAdapter,
+};
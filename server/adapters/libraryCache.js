@@ -0,0 +1,140 @@
+const logger = require('../config/logger');
+
+const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stops a sync whose job was cancelled (its account was unlinked) before it writes anything else.
+class SyncCancelledError extends Error {
+  constructor(message = 'Library sync was cancelled.') {
+    super(message);
+    this.name = 'SyncCancelledError';
+  }
+}
+
+// Returns the games stored for an account that were refreshed within `maxAgeMs`.
+async function findFreshGames(adapter, account, maxAgeMs = DEFAULT_CACHE_TTL_MS) {
+  const { freshnessField, sort } = adapter.cache;
+  const since = new Date(Date.now() - maxAgeMs);
+  return adapter.model.find({
+    ...adapter.ownerFilter(account),
+    [freshnessField]: { $gte: since },
+  }).sort(sort);
+}
+
+// Returns every game stored for an account, however old.
+async function findStoredGames(adapter, account) {
+  return adapter.model.find(adapter.ownerFilter(account)).sort(adapter.cache.sort);
+}
+
+// Upserts one normalized game, stamping the adapter's freshness field. Failures are logged, not thrown,
+// so one bad record does not abort the rest of the library.
+async function upsertGame(adapter, account, game) {
+  const gameId = game[adapter.gameKey];
+  const document = { ...game, [adapter.cache.freshnessField]: new Date() };
+  try {
+    return await adapter.model.findOneAndUpdate(
+      { ...adapter.ownerFilter(account), [adapter.gameKey]: gameId },
+      document,
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+  } catch (dbSaveError) {
+    logger.error(`Failed to save ${adapter.label} game ${gameId} to MongoDB for ${adapter.describeAccount(account)}:`, {
+      errorMessage: dbSaveError.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Pulls the full library for an account from upstream, fetches per-game achievements when the
+ * platform needs it, and persists every game. Returns the normalized games in upstream order.
+ * Upstream errors from the library call propagate; per-game achievement failures do not.
+ *
+ * @param {object} adapter
+ * @param {object} account
+ * @param {object} [options]
+ * @param {(game: object, progress: object) => void} [options.onGame] - Called after each game is processed
+ *   with `{ processed, total, achievementsFetched, errors }`, where the last two count per-game
+ *   achievement calls that succeeded and failed so far.
+ * @param {(gameId: string|number, achievements: object[]) => void} [options.onAchievements] - Called with
+ *   the raw achievements of each game whose per-game call succeeded.
+ * @param {() => Promise<boolean>} [options.isCancelled] - Checked before each game is saved; the sync
+ *   rejects with a SyncCancelledError once it resolves to true.
+ */
+async function syncLibrary(adapter, account, { onGame, onAchievements, isCancelled } = {}) {
+  const rawGames = await adapter.fetchLibrary(account);
+  const games = [];
+  let achievementsFetched = 0;
+  let errors = 0;
+
+  for (const rawGame of rawGames) {
+    let achievements;
+    if (!adapter.achievementsInLibrary) {
+      const gameId = adapter.gameId(rawGame);
+      try {
+        achievements = await adapter.fetchAchievements(account, gameId);
+        achievementsFetched += 1;
+        if (onAchievements) onAchievements(gameId, achievements);
+        await delay(adapter.achievementDelayMs || 0); // Stay under upstream rate limits
+      } catch (achError) {
+        errors += 1;
+        logger.warn(`Failed to fetch achievements for game ${gameId}: ${achError.message}`, {
+          account: adapter.describeAccount(account),
+          axiosErrorDetails: achError.response ? { status: achError.response.status, data: achError.response.data } : 'N/A',
+        });
+        await delay(50); // Shorter delay on error before the next game
+      }
+    }
+    const game = adapter.normalize(rawGame, account, achievements);
+    games.push(game);
+    if (onGame) onGame(game, { processed: games.length, total: rawGames.length, achievementsFetched, errors });
+  }
+
+  if (adapter.model && games.length > 0) {
+    logger.info(`Saving/updating ${games.length} ${adapter.label} games to MongoDB for ${adapter.describeAccount(account)}`);
+    for (const game of games) {
+      if (isCancelled && await isCancelled()) throw new SyncCancelledError();
+      await upsertGame(adapter, account, game);
+    }
+    logger.info(`Finished saving/updating ${adapter.label} games to MongoDB for ${adapter.describeAccount(account)}`);
+  }
+
+  return games;
+}
+
+/**
+ * Serves an account's library from the Mongo cache when it is fresh, otherwise syncs it from upstream.
+ * Resolves to `{ games, source }` where source is 'cache' or 'api'.
+ */
+async function getLibrary(adapter, account, { maxAgeMs = DEFAULT_CACHE_TTL_MS } = {}) {
+  if (adapter.model) {
+    try {
+      const cachedGames = await findFreshGames(adapter, account, maxAgeMs);
+      if (cachedGames.length > 0) {
+        logger.info(`Serving ${cachedGames.length} ${adapter.label} games from cache for ${adapter.describeAccount(account)}`);
+        return { games: cachedGames, source: 'cache' };
+      }
+      logger.info(`No fresh ${adapter.label} games in cache for ${adapter.describeAccount(account)}. Fetching from ${adapter.upstreamName}.`);
+    } catch (dbError) {
+      logger.error(`Error fetching ${adapter.label} games from MongoDB cache:`, {
+        account: adapter.describeAccount(account),
+        errorMessage: dbError.message,
+      });
+      // Fall through to the upstream API
+    }
+  }
+
+  const games = await syncLibrary(adapter, account);
+  return { games, source: 'api' };
+}
+
+module.exports = {
+  DEFAULT_CACHE_TTL_MS,
+  SyncCancelledError,
+  findFreshGames,
+  findStoredGames,
+  upsertGame,
+  syncLibrary,
+  getLibrary,
+};
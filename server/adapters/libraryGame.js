@@ -0,0 +1,62 @@
+// The platform-independent game shape served by GET /api/library (the frontend's `Game` type in
+// src/types/gameTypes.ts). Adapters build it in toGame(); fields a platform does not report get
+// the same placeholders everywhere so clients can tell "unknown" apart from real values.
+
+const NEVER_PLAYED = new Date(0).toISOString();
+const UNKNOWN_GENRE = 'Unknown Genre';
+const PLACEHOLDER_COVER = '/placeholder.svg';
+// Library entry ids look like `${platform}-${gameId}`.
+const LIBRARY_GAME_ID_PATTERN = /^[a-z0-9]+-\S+$/;
+
+const toIsoString = value => {
+  if (!value) return NEVER_PLAYED;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? NEVER_PLAYED : date.toISOString();
+};
+
+/**
+ * @param {object} fields
+ * @param {string} fields.platform
+ * @param {string|number} fields.gameId      Upstream id; the game's `id` is `${platform}-${gameId}`
+ * @param {number} [fields.playtimeMinutes]  Converted to whole hours
+ * @param {Date|string} [fields.lastPlayed]
+ * @param {string} [fields.status]           'installed', 'not_installed', 'downloading' or 'owned'
+ * @param {string[]} [fields.systems]        Consoles of the platform the game is for (PS4, PS5...); left out when not given
+ */
+function libraryGame({
+  platform,
+  gameId,
+  title,
+  coverImage,
+  playtimeMinutes,
+  lastPlayed,
+  achievements,
+  status = 'owned',
+  genre,
+  releaseYear,
+  systems,
+}) {
+  const game = {
+    id: `${platform}-${gameId}`,
+    appId: String(gameId),
+    title: title || String(gameId),
+    platform,
+    coverImage: coverImage || PLACEHOLDER_COVER,
+    playtime: typeof playtimeMinutes === 'number' ? Math.round(playtimeMinutes / 60) : 0,
+    lastPlayed: toIsoString(lastPlayed),
+    achievements: achievements || { unlocked: 0, total: 0 },
+    status,
+    genre: genre && genre.length > 0 ? genre : [UNKNOWN_GENRE],
+    releaseYear: releaseYear || 0,
+  };
+  if (systems && systems.length > 0) game.systems = systems;
+  return game;
+}
+
+const isLibraryGameId = gameId => typeof gameId === 'string' && LIBRARY_GAME_ID_PATTERN.test(gameId);
+
+module.exports = {
+  NEVER_PLAYED,
+  libraryGame,
+  isLibraryGameId,
+};
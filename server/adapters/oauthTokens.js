@@ -0,0 +1,67 @@
+const logger = require('../config/logger');
+const User = require('../models/User');
+const { UnexpectedResponseError } = require('./upstreamErrors');
+
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000; // Refresh a little before the upstream would reject the token
+
+/**
+ * Maps an OAuth token response onto the User fields a platform stores its tokens in, e.g. prefix 'gog' ->
+ * gogAccessToken / gogRefreshToken / gogTokenExpiresAt. Keeps the old refresh token when the upstream does
+ * not rotate it. Upstreams that also report when the refresh token expires (`refresh_token_expires_in`)
+ * get a `${prefix}RefreshTokenExpiresAt` field too.
+ */
+function tokenFields(prefix, tokens, previousRefreshToken) {
+  const fields = {
+    [`${prefix}AccessToken`]: tokens.access_token,
+    [`${prefix}RefreshToken`]: tokens.refresh_token || previousRefreshToken,
+    [`${prefix}TokenExpiresAt`]: new Date(Date.now() + (tokens.expires_in || 0) * 1000),
+  };
+  if (tokens.refresh_token_expires_in) {
+    fields[`${prefix}RefreshTokenExpiresAt`] = new Date(Date.now() + tokens.refresh_token_expires_in * 1000);
+  }
+  return fields;
+}
+
+/**
+ * Returns a valid access token for the user, refreshing it when it is about to expire and persisting the
+ * new tokens on the User document (and on `user`, so the rest of the sync sees them).
+ *
+ * @param {object} user - User document holding `${prefix}AccessToken`, `${prefix}RefreshToken`, `${prefix}TokenExpiresAt`.
+ * @param {object} options
+ * @param {string} options.prefix - Field prefix on the User model ('gog', 'epic', ...).
+ * @param {string} options.label - Platform label for logs and errors.
+ * @param {(refreshToken: string) => Promise<object>} options.refresh - Calls the upstream token endpoint.
+ */
+async function accessTokenFor(user, { prefix, label, refresh }) {
+  const accessToken = user[`${prefix}AccessToken`];
+  const refreshToken = user[`${prefix}RefreshToken`];
+  const expiresAt = user[`${prefix}TokenExpiresAt`] ? new Date(user[`${prefix}TokenExpiresAt`]).getTime() : 0;
+  const refreshExpiresAt = user[`${prefix}RefreshTokenExpiresAt`];
+
+  if (accessToken && expiresAt - Date.now() > TOKEN_EXPIRY_MARGIN_MS) {
+    return accessToken;
+  }
+  if (!refreshToken) {
+    throw new UnexpectedResponseError(`${label} account is not linked. Please connect your ${label} account again.`, 401);
+  }
+  if (refreshExpiresAt && new Date(refreshExpiresAt).getTime() <= Date.now()) {
+    throw new UnexpectedResponseError(`${label} session expired. Please connect your ${label} account again.`, 401);
+  }
+
+  logger.info(`Refreshing ${label} access token for user ${user.id}.`);
+  const tokens = await refresh(refreshToken);
+  if (!tokens || !tokens.access_token) {
+    throw new UnexpectedResponseError(`${label} token endpoint did not return an access token.`, 502);
+  }
+  const fields = tokenFields(prefix, tokens, refreshToken);
+  // Only while the account is still linked: a sync refreshing the tokens must not relink an account unlinked meanwhile
+  await User.updateOne({ _id: user._id, [`${prefix}RefreshToken`]: { $exists: true } }, { $set: fields });
+  Object.assign(user, fields);
+  return fields[`${prefix}AccessToken`];
+}
+
+module.exports = {
+  TOKEN_EXPIRY_MARGIN_MS,
+  tokenFields,
+  accessTokenFor,
+};
@@ -0,0 +1,422 @@
+const {
+  exchangeNpssoForAccessCode,
+  exchangeAccessCodeForAuthTokens,
+  exchangeRefreshTokenForAuthTokens,
+  getUserTitles,
+  getUserPlayedGames,
+  getUserTrophiesForSpecificTitle,
+  getTitleTrophyGroups,
+  getTitleTrophies,
+  getUserTrophiesEarnedForTitle,
+  getProfileFromAccountId,
+} = require('psn-api');
+const logger = require('../config/logger');
+const PsnGame = require('../models/PsnGame');
+const PlaytimeSnapshot = require('../models/PlaytimeSnapshot');
+const User = require('../models/User');
+const { UnexpectedResponseError } = require('./upstreamErrors');
+const { tokenFields, accessTokenFor } = require('./oauthTokens');
+const { libraryGame } = require('./libraryGame');
+const { normalizeTitle } = require('../services/gameMatching');
+const { moveLibraryEntryData } = require('../services/libraryEntries');
+
+const PLAYED_GAMES_PAGE_SIZE = 200;
+const TITLE_ID_LOOKUP_SIZE = 5; // Most npTitleIds getUserTrophiesForSpecificTitle accepts per call
+
+// Played games list categories, shown like trophyTitlePlatform
+const CATEGORY_PLATFORMS = { ps4_game: 'PS4', ps5_native_game: 'PS5', pspc_game: 'PC' };
+
+const BASE_GAME_GROUP = 'default'; // Trophy group of the base game; DLC packs are "001", "002"...
+
+// Games synced before npServiceName was stored: PS5 trophy sets live on "trophy2", the rest on "trophy".
+const npServiceNameOf = game => game.npServiceName
+  || (String(game.trophyTitlePlatform || '').includes('PS5') ? 'trophy2' : 'trophy');
+
+// psn-api camel-cases Sony's token response; oauthTokens expects the OAuth field names.
+function toTokenResponse(authorization) {
+  if (!authorization || !authorization.accessToken) {
+    throw new UnexpectedResponseError('PSN session expired or was revoked. Please reconnect your PSN account.', 401);
+  }
+  return {
+    access_token: authorization.accessToken,
+    refresh_token: authorization.refreshToken,
+    expires_in: authorization.expiresIn,
+    refresh_token_expires_in: authorization.refreshTokenExpiresIn,
+  };
+}
+
+// The PSN account id is the `sub` claim of the id token Sony returns with the first token pair.
+function accountIdFromIdToken(idToken) {
+  try {
+    const payload = JSON.parse(Buffer.from(String(idToken).split('.')[1], 'base64url').toString('utf8'));
+    return payload.sub || null;
+  } catch (decodeError) {
+    return null;
+  }
+}
+
+// Only the token pair is stored on the user; the NPSSO is used once when linking and then dropped.
+const psnAccessToken = user => accessTokenFor(user, {
+  prefix: 'psn',
+  label: 'PSN',
+  refresh: async refreshToken => toTokenResponse(await exchangeRefreshTokenForAuthTokens(refreshToken)),
+});
+
+// Every page of the played games list (the PS4/PS5 games the user launched, with play time and
+// dates). The list can be hidden by privacy settings, so failures only cost the play data.
+async function fetchPlayedGames(accessToken, user) {
+  const titles = [];
+  try {
+    let offset = 0;
+    for (;;) {
+      const page = await getUserPlayedGames({ accessToken }, 'me', { limit: PLAYED_GAMES_PAGE_SIZE, offset });
+      const pageTitles = (page && page.titles) || [];
+      titles.push(...pageTitles);
+      if (pageTitles.length === 0 || !page.nextOffset || page.nextOffset <= offset) break;
+      offset = page.nextOffset;
+    }
+  } catch (error) {
+    logger.warn(`Could not fetch the PSN played games of user ${user.id}; play time and dates are missing: ${error.message}`);
+  }
+  return titles;
+}
+
+/**
+ * Maps played game title ids (CUSA..., PPSA...) to the npCommunicationId of their trophy set.
+ * Mappings stored by earlier syncs are reused; the rest are looked up 5 ids at a time. Ids whose
+ * trophy set PSN confirms does not exist map to null. Ids missing from the result could not be
+ * looked up this time.
+ */
+async function trophySetsByTitleId(accessToken, user, titleIds) {
+  const mapping = new Map();
+  const stored = await PsnGame.find({ userId: user._id, hasTrophies: { $ne: false }, 'titleIds.0': { $exists: true } }, { npCommunicationId: 1, titleIds: 1 }).lean();
+  (stored || []).forEach(game => game.titleIds.forEach(titleId => mapping.set(titleId, game.npCommunicationId)));
+
+  const unknown = titleIds.filter(titleId => !mapping.has(titleId));
+  for (let index = 0; index < unknown.length; index += TITLE_ID_LOOKUP_SIZE) {
+    const batch = unknown.slice(index, index + TITLE_ID_LOOKUP_SIZE);
+    try {
+      const response = await getUserTrophiesForSpecificTitle({ accessToken }, 'me', { npTitleIds: batch.join(',') });
+      ((response && response.titles) || []).forEach(title => {
+        const [trophyTitle] = title.trophyTitles || [];
+        mapping.set(title.npTitleId, trophyTitle ? trophyTitle.npCommunicationId : null);
+      });
+    } catch (error) {
+      logger.warn(`Could not look up the PSN trophy sets of titles ${batch.join(', ')} for user ${user.id}: ${error.message}`);
+    }
+  }
+  return mapping;
+}
+
+// "PT228H56M33S" -> 13736
+function durationMinutes(duration) {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:[\d.]+S)?)?$/.exec(String(duration || ''));
+  if (!match) return 0;
+  const [, days = 0, hours = 0, minutes = 0] = match;
+  return Number(days) * 24 * 60 + Number(hours) * 60 + Number(minutes);
+}
+
+// Play time and dates of one game, summed over every version (title id) the user played.
+function playStats(playedGames) {
+  const byLastPlayed = [...playedGames].sort((a, b) => String(b.lastPlayedDateTime).localeCompare(String(a.lastPlayedDateTime)));
+  const firstPlayed = playedGames.map(game => game.firstPlayedDateTime).filter(Boolean).sort()[0];
+  return {
+    titleIds: playedGames.map(game => game.titleId),
+    playtimeMinutes: playedGames.reduce((sum, game) => sum + durationMinutes(game.playDuration), 0),
+    firstPlayedDateTime: firstPlayed,
+    lastPlayedDateTime: byLastPlayed[0].lastPlayedDateTime,
+    category: byLastPlayed[0].category,
+  };
+}
+
+/**
+ * Merges the played games list into the trophy titles: a trophy title gets the play time and
+ * dates of the played games whose title id maps to its trophy set, and played games confirmed to
+ * have no trophy set are added as titles of their own. Played games whose id could not be looked
+ * up fall back to a match on the normalized name, and are left out when that fails too.
+ */
+function mergePlayedGames(trophyTitles, playedGames, trophySets) {
+  const playedByTrophySet = new Map();
+  const withoutTrophies = [];
+  const trophySetByName = new Map(trophyTitles.map(title => [normalizeTitle(title.trophyTitleName), title.npCommunicationId]));
+
+  playedGames.forEach(game => {
+    const npCommunicationId = trophySets.has(game.titleId)
+      ? trophySets.get(game.titleId)
+      : trophySetByName.get(normalizeTitle(game.name));
+    if (npCommunicationId) {
+      if (!playedByTrophySet.has(npCommunicationId)) playedByTrophySet.set(npCommunicationId, []);
+      playedByTrophySet.get(npCommunicationId).push(game);
+    } else if (trophySets.get(game.titleId) === null) {
+      withoutTrophies.push(game);
+    }
+  });
+
+  const titles = trophyTitles.map(title => {
+    const played = playedByTrophySet.get(title.npCommunicationId);
+    return played ? { ...title, ...playStats(played) } : title;
+  });
+  const playedOnly = withoutTrophies.map(game => ({
+    npCommunicationId: game.titleId, // No trophy set, so the title id identifies the game
+    trophyTitleName: game.name,
+    trophyTitleIconUrl: game.imageUrl,
+    trophyTitlePlatform: CATEGORY_PLATFORMS[game.category],
+    hasTrophies: false,
+    ...playStats([game]),
+  }));
+  return [...titles, ...playedOnly];
+}
+
+/**
+ * A game stored without trophies that has a trophy set now is stored again under that set, so its
+ * library entry id changes from psn-<title id> to psn-<npCommunicationId>. The old document is
+ * deleted and the play status, review, tags, collection places and playtime history move to the new
+ * id. Its playtime is carried over by the sync through formerGameIds.
+ */
+async function moveToTrophySets(user, trophySets) {
+  const nowWithTrophies = [...trophySets].filter(([, npCommunicationId]) => npCommunicationId).map(([titleId]) => titleId);
+  if (nowWithTrophies.length === 0) return;
+  const filter = { userId: user._id, hasTrophies: false, npCommunicationId: { $in: nowWithTrophies } };
+  const moved = await PsnGame.find(filter, { npCommunicationId: 1 }).lean();
+  if (moved.length === 0) return;
+  await PsnGame.deleteMany(filter);
+  for (const { npCommunicationId: titleId } of moved) {
+    const npCommunicationId = trophySets.get(titleId);
+    await moveLibraryEntryData(user, `psn-${titleId}`, `psn-${npCommunicationId}`);
+    await PlaytimeSnapshot.updateMany(
+      { 'meta.platform': 'psn', 'meta.accountKey': String(user._id), 'meta.gameId': titleId }, // psnAdapter.accountKey
+      { $set: { 'meta.gameId': npCommunicationId } }
+    );
+  }
+  logger.info(`Moved ${moved.length} PSN games of user ${user.id} from their title id to their new trophy set.`);
+}
+
+const TROPHY_GRADES = ['platinum', 'gold', 'silver', 'bronze'];
+
+const countTrophies = (trophies = {}) => TROPHY_GRADES
+  .reduce((sum, grade) => sum + ((trophies && trophies[grade]) || 0), 0);
+
+const trophyCounts = trophies => Object.fromEntries(TROPHY_GRADES.map(grade => [grade, (trophies && trophies[grade]) || 0]));
+
+const psnAdapter = {
+  platform: 'psn',
+  label: 'PSN',
+  upstreamName: 'PSN API',
+  model: PsnGame,
+  gameKey: 'npCommunicationId',
+  cache: { freshnessField: 'lastFetched', sort: { trophyTitleName: 1 } },
+  // getUserTitles returns defined/earned trophy counts for every title.
+  achievementsInLibrary: true,
+  baseTrophyGroup: BASE_GAME_GROUP,
+
+  isConfigured() {
+    return true; // No server-side key, every user links with their own NPSSO.
+  },
+
+  describeAccount({ user }) {
+    return `user ${user.id}`;
+  },
+
+  ownedByUser: true,
+
+  ownerFilter({ user }) {
+    return { userId: user._id };
+  },
+
+  accountKey({ user }) {
+    return String(user._id);
+  },
+
+  // Background jobs only store the user id, so reload the user to get the current tokens.
+  async accountFromKey(userId) {
+    const user = await User.findById(userId);
+    return user && user.psnRefreshToken ? { user } : null;
+  },
+
+  accountForUser(user) {
+    return user.psnRefreshToken ? { user } : null;
+  },
+
+  linkFields: ['psnAccountId', 'psnOnlineId', 'psnAccessToken', 'psnRefreshToken', 'psnTokenExpiresAt', 'psnRefreshTokenExpiresAt'],
+
+  linkedAccount(user) {
+    return user.psnAccountId || user.psnRefreshToken ? { user } : null;
+  },
+
+  // psn-api throws plain errors, so recognise its authentication and timeout failures here.
+  translateError(error) {
+    const message = error.message || '';
+    if (message.includes('NPSSO code is expired or invalid') || message.includes('authentication_error')) {
+      return { status: 401, message: 'NPSSO token is invalid or expired. Please reconnect your PSN account.' };
+    }
+    if (error.code === 'ECONNRESET' || message.includes('timed out')) {
+      return { status: 504, message: 'Connection to PSN API timed out while fetching games. Please try again later.' };
+    }
+    return null;
+  },
+
+  /**
+   * Trades an NPSSO for the first token pair. Resolves to the PSN account id, the User token fields to
+   * store, and the access token for immediate use. The NPSSO itself is not returned for storage.
+   */
+  async exchangeNpsso(npsso) {
+    const accessCode = await exchangeNpssoForAccessCode(npsso);
+    const authorization = await exchangeAccessCodeForAuthTokens(accessCode);
+    const tokens = toTokenResponse(authorization);
+    const accountId = accountIdFromIdToken(authorization.idToken);
+    if (!accountId) {
+      throw new UnexpectedResponseError('Failed to determine the PSN account id from the PSN authorization response.', 502);
+    }
+    return { accountId, fields: tokenFields('psn', tokens), accessToken: tokens.access_token };
+  },
+
+  // Users linked before tokens were stored still have the raw NPSSO on their document. Trade each one for
+  // a token pair once and remove it, along with its unique index. Resolves to the number of users migrated.
+  async migrateLegacyNpsso() {
+    const legacyUsers = await User.collection.find({ npsso: { $type: 'string' } }, { projection: { npsso: 1 } }).toArray();
+    for (const { _id, npsso } of legacyUsers) {
+      const update = { $unset: { npsso: '' } };
+      try {
+        const { fields } = await psnAdapter.exchangeNpsso(npsso);
+        update.$set = fields;
+      } catch (exchangeError) {
+        logger.warn(`Stored NPSSO of user ${_id} could not be exchanged; they need to reconnect PSN: ${exchangeError.message}`);
+      }
+      // Through the model (not the raw collection) so the token fields are encrypted; strict: false lets $unset reach npsso.
+      await User.updateOne({ _id }, update, { strict: false });
+    }
+    try {
+      await User.collection.dropIndex('npsso_1');
+    } catch (indexError) {
+      // Already dropped, or never created.
+    }
+    if (legacyUsers.length > 0) logger.info(`Replaced the stored NPSSO of ${legacyUsers.length} users with PSN tokens.`);
+    return legacyUsers.length;
+  },
+
+  async fetchProfile({ user }) {
+    const accessToken = await psnAccessToken(user);
+    const profile = await getProfileFromAccountId({ accessToken }, user.psnAccountId);
+    return {
+      accountId: user.psnAccountId,
+      displayName: profile.onlineId,
+      avatarUrl: profile.avatarUrls && profile.avatarUrls[0] ? profile.avatarUrls[0].avatarUrl : undefined,
+    };
+  },
+
+  async fetchLibrary({ user }) {
+    logger.info(`Fetching PSN games for user ${user.id} (${user.psnOnlineId || 'N/A'}).`);
+    const accessToken = await psnAccessToken(user);
+    const response = await getUserTitles({ accessToken }, 'me');
+    logger.info(`Successfully fetched ${response.trophyTitles ? response.trophyTitles.length : 0} titles from PSN API for user ${user.id}.`);
+    const playedGames = await fetchPlayedGames(accessToken, user);
+    const trophySets = await trophySetsByTitleId(accessToken, user, playedGames.map(game => game.titleId));
+    await moveToTrophySets(user, trophySets);
+    return mergePlayedGames(response.trophyTitles || [], playedGames, trophySets);
+  },
+
+  /**
+   * The full trophy list of one trophy set: its groups (the base game is "default", DLC packs are
+   * "001", "002"...), every trophy's definition and the user's earned state with earned rates.
+   * `game` is the stored PsnGame, whose npServiceName says where the set lives.
+   */
+  async fetchAchievements({ user }, npCommunicationId, game = {}) {
+    const accessToken = await psnAccessToken(user);
+    const authorization = { accessToken };
+    const options = { npServiceName: npServiceNameOf(game) };
+    const [groups, titleTrophies, earnedTrophies] = await Promise.all([
+      getTitleTrophyGroups(authorization, npCommunicationId, options),
+      getTitleTrophies(authorization, npCommunicationId, 'all', options),
+      getUserTrophiesEarnedForTitle(authorization, 'me', npCommunicationId, 'all', options),
+    ]);
+    return {
+      groups: (groups && groups.trophyGroups) || [],
+      trophies: (titleTrophies && titleTrophies.trophies) || [],
+      earned: (earnedTrophies && earnedTrophies.trophies) || [],
+    };
+  },
+
+  // Trophy definitions merged with the user's earned trophies -> services/achievements.js documents.
+  toAchievements({ trophies, earned }) {
+    const earnedById = new Map(earned.map(trophy => [trophy.trophyId, trophy]));
+    return trophies.map(trophy => {
+      const progress = earnedById.get(trophy.trophyId) || {};
+      const rarity = Number(progress.trophyEarnedRate);
+      return {
+        externalId: String(trophy.trophyId),
+        name: trophy.trophyName || undefined,
+        description: trophy.trophyDetail || undefined,
+        iconUrl: trophy.trophyIconUrl,
+        grade: trophy.trophyType,
+        rarityPercent: progress.trophyEarnedRate && Number.isFinite(rarity) ? rarity : undefined,
+        groupId: trophy.trophyGroupId || BASE_GAME_GROUP,
+        hidden: !!trophy.trophyHidden,
+        unlocked: !!progress.earned,
+        unlockedAt: progress.earned && progress.earnedDateTime ? new Date(progress.earnedDateTime) : undefined,
+      };
+    });
+  },
+
+  gameId(title) {
+    return title.npCommunicationId;
+  },
+
+  normalize(title, { user }) {
+    return {
+      userId: user._id,
+      npCommunicationId: title.npCommunicationId,
+      trophyTitleName: title.trophyTitleName,
+      trophyTitleIconUrl: title.trophyTitleIconUrl,
+      trophyTitlePlatform: title.trophyTitlePlatform,
+      trophySetVersion: title.trophySetVersion,
+      npServiceName: title.npServiceName,
+      lastUpdatedDateTime: title.lastUpdatedDateTime ? new Date(title.lastUpdatedDateTime) : undefined,
+      lastPlayed: title.lastPlayedDateTime ? new Date(title.lastPlayedDateTime) : undefined,
+      firstPlayed: title.firstPlayedDateTime ? new Date(title.firstPlayedDateTime) : undefined,
+      playtimeMinutes: title.playtimeMinutes,
+      titleIds: title.titleIds,
+      category: title.category,
+      hasTrophies: title.hasTrophies !== false,
+      definedTrophies: title.definedTrophies,
+      earnedTrophies: title.earnedTrophies,
+    };
+  },
+
+  playtimeMinutes(game) {
+    return game.playtimeMinutes;
+  },
+
+  // A game with a trophy set may have been stored under one of its title ids while it had none.
+  formerGameIds(game) {
+    return game.hasTrophies !== false ? game.titleIds || [] : [];
+  },
+
+  toResponse(game) {
+    return typeof game.toObject === 'function' ? game.toObject() : game;
+  },
+
+  // Trophies of every grade count as achievements, with the count per grade next to them when the
+  // game has a trophy set. PSN reports no genre, so it keeps the placeholder; the consoles of the
+  // trophy set ("PS4,PS5") go in `systems`. Games missing from the played games list (PS3, Vita)
+  // fall back to their latest trophy activity.
+  toGame(game) {
+    const unlocked = countTrophies(game.earnedTrophies);
+    const achievements = { unlocked, total: Math.max(countTrophies(game.definedTrophies), unlocked) };
+    if (game.hasTrophies !== false && game.definedTrophies) {
+      achievements.earnedTrophies = trophyCounts(game.earnedTrophies);
+      achievements.definedTrophies = trophyCounts(game.definedTrophies);
+    }
+    return libraryGame({
+      platform: 'psn',
+      gameId: game.npCommunicationId,
+      title: game.trophyTitleName,
+      coverImage: game.trophyTitleIconUrl,
+      playtimeMinutes: game.playtimeMinutes,
+      lastPlayed: game.lastPlayed || game.lastUpdatedDateTime,
+      achievements,
+      systems: game.trophyTitlePlatform ? game.trophyTitlePlatform.split(',').filter(Boolean) : undefined,
+    });
+  },
+};
+
+module.exports = psnAdapter;
@@ -0,0 +1,195 @@
+const axios = require('axios');
+const logger = require('../config/logger');
+const SteamGame = require('../models/SteamGame');
+const { UnexpectedResponseError } = require('./upstreamErrors');
+const { libraryGame } = require('./libraryGame');
+
+const STEAM_API_BASE_URL = 'http://api.steampowered.com';
+
+// Read lazily so tests (and late dotenv loading) can change the key at runtime.
+const getApiKey = () => process.env.STEAM_API_KEY;
+
+const steamAdapter = {
+  platform: 'steam',
+  label: 'Steam',
+  upstreamName: 'Steam Web API',
+  model: SteamGame,
+  gameKey: 'appId',
+  cache: { freshnessField: 'lastUpdated', sort: { name: 1 } },
+  // GetOwnedGames has no achievement counts, so every game needs its own GetPlayerAchievements call.
+  achievementsInLibrary: false,
+  achievementDelayMs: 150,
+
+  isConfigured() {
+    return !!getApiKey();
+  },
+
+  describeAccount({ steamId }) {
+    return `steamId: ${steamId}`;
+  },
+
+  ownerFilter({ steamId }) {
+    return { steamId };
+  },
+
+  accountKey({ steamId }) {
+    return steamId;
+  },
+
+  async accountFromKey(steamId) {
+    return { steamId };
+  },
+
+  accountForUser(user) {
+    return user.steamId ? { steamId: user.steamId } : null;
+  },
+
+  // The avatar is kept: Google sign-in stores its picture in the same field.
+  linkFields: ['steamId', 'personaName', 'profileUrl'],
+
+  linkedAccount(user) {
+    return this.accountForUser(user);
+  },
+
+  async fetchProfile({ steamId }) {
+    const response = await axios.get(`${STEAM_API_BASE_URL}/ISteamUser/GetPlayerSummaries/v0002/`, {
+      params: { key: getApiKey(), steamids: steamId },
+    });
+    const player = response.data && response.data.response && response.data.response.players
+      ? response.data.response.players[0]
+      : null;
+    if (!player) {
+      throw new UnexpectedResponseError(`Steam profile not found for steamId ${steamId}.`, 404);
+    }
+    return {
+      accountId: player.steamid,
+      displayName: player.personaname,
+      avatarUrl: player.avatarfull,
+      profileUrl: player.profileurl,
+    };
+  },
+
+  async fetchLibrary({ steamId }) {
+    const response = await axios.get(`${STEAM_API_BASE_URL}/IPlayerService/GetOwnedGames/v0001/`, {
+      params: {
+        key: getApiKey(),
+        steamid: steamId,
+        format: 'json',
+        include_appinfo: true, // Include game name, icon, logo
+        include_played_free_games: true,
+      },
+    });
+
+    const body = response.data && response.data.response;
+    if (body && Array.isArray(body.games)) {
+      return body.games;
+    }
+    // A private profile answers with an empty `response` object, an empty library with game_count 0.
+    if (body && (body.game_count === 0 || Object.keys(body).length === 0)) {
+      logger.info(`No games found for steamId: ${steamId} (profile might be private or no games).`);
+      return [];
+    }
+    logger.warn('Steam API response structure was not as expected or empty.', { steamId, responseData: response.data });
+    throw new UnexpectedResponseError('Unexpected response structure from Steam API.');
+  },
+
+  // Returns the raw GetPlayerAchievements entries for one app ([] when the app has no stats).
+  // `l` adds each achievement's display name and description.
+  async fetchAchievements({ steamId }, appId) {
+    const response = await axios.get(`${STEAM_API_BASE_URL}/ISteamUserStats/GetPlayerAchievements/v1/`, {
+      params: { key: getApiKey(), steamid: steamId, appid: appId, l: 'english' },
+    });
+    const playerstats = response.data && response.data.playerstats;
+    if (playerstats && playerstats.achievements) {
+      return playerstats.achievements;
+    }
+    if (playerstats && playerstats.success === false && playerstats.error) {
+      logger.warn(`Could not retrieve achievements for game ${appId} (Steam error): ${playerstats.error}`, { steamId });
+    }
+    return [];
+  },
+
+  // Returns the game's achievement definitions from GetSchemaForGame ([] when the app has none).
+  async fetchAchievementSchema(appId) {
+    const response = await axios.get(`${STEAM_API_BASE_URL}/ISteamUserStats/GetSchemaForGame/v2/`, {
+      params: { key: getApiKey(), appid: appId, l: 'english' },
+    });
+    const stats = response.data && response.data.game && response.data.game.availableGameStats;
+    return (stats && stats.achievements) || [];
+  },
+
+  // Returns { apiName: percent } with the share of all players who unlocked each achievement.
+  async fetchGlobalAchievementPercentages(appId) {
+    const response = await axios.get(`${STEAM_API_BASE_URL}/ISteamUserStats/GetGlobalAchievementPercentagesForApp/v0002/`, {
+      params: { gameid: appId },
+    });
+    const list = response.data && response.data.achievementpercentages && response.data.achievementpercentages.achievements;
+    // Newer responses send the percentages as strings
+    return Object.fromEntries((list || []).map(entry => [entry.name, Number(entry.percent)]));
+  },
+
+  // GetPlayerAchievements entries -> services/achievements.js documents. Icons and rarity only come
+  // with the detailed view (services/steamAchievements.js).
+  toAchievements(rawAchievements) {
+    return rawAchievements.map(achievement => ({
+      externalId: achievement.apiname,
+      name: achievement.name || undefined,
+      description: achievement.description || undefined,
+      unlocked: achievement.achieved === 1,
+      unlockedAt: achievement.achieved === 1 && achievement.unlocktime ? new Date(achievement.unlocktime * 1000) : undefined,
+    }));
+  },
+
+  gameId(rawGame) {
+    return rawGame.appid;
+  },
+
+  normalize(rawGame, { steamId }, achievements = []) {
+    return {
+      steamId,
+      appId: rawGame.appid,
+      name: rawGame.name,
+      playtimeForever: rawGame.playtime_forever,
+      // Unix seconds, 0 when the game was never played
+      lastPlayed: rawGame.rtime_last_played ? new Date(rawGame.rtime_last_played * 1000) : undefined,
+      imgIconURL: rawGame.img_icon_url,
+      imgLogoURL: rawGame.img_logo_url,
+      achievements: {
+        unlocked: achievements.filter(ach => ach.achieved).length,
+        total: achievements.length,
+      },
+    };
+  },
+
+  playtimeMinutes(game) {
+    return game.playtimeForever;
+  },
+
+  toResponse(game) {
+    return {
+      appID: game.appId,
+      name: game.name,
+      playtimeForever: game.playtimeForever,
+      lastPlayed: game.lastPlayed,
+      imgIconURL: game.imgIconURL,
+      imgLogoURL: game.imgLogoURL,
+      achievements: game.achievements,
+    };
+  },
+
+  // GetOwnedGames reports neither install state, genre nor release year.
+  toGame(game) {
+    return libraryGame({
+      platform: 'steam',
+      gameId: game.appId,
+      title: game.name,
+      coverImage: `https://cdn.akamai.steamstatic.com/steam/apps/${game.appId}/header.jpg`,
+      playtimeMinutes: game.playtimeForever,
+      lastPlayed: game.lastPlayed,
+      achievements: game.achievements,
+      status: 'not_installed',
+    });
+  },
+};
+
+module.exports = steamAdapter;
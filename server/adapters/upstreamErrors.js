@@ -0,0 +1,75 @@
+const logger = require('../config/logger');
+
+// Thrown by adapters when an upstream API answers successfully but with a payload we cannot use.
+class UnexpectedResponseError extends Error {
+  constructor(message, status = 500) {
+    super(message);
+    this.name = 'UnexpectedResponseError';
+    this.status = status;
+  }
+}
+
+/**
+ * Maps an error raised while talking to a platform API onto an HTTP status and a
+ * `{ error, details }` body. Every platform route uses this envelope, so the frontend
+ * only has to read `error`.
+ *
+ * @param {Error|object} error - Axios error, UnexpectedResponseError or anything else thrown by an adapter.
+ * @param {object} adapter - The platform adapter (see adapters/index.js).
+ * @param {string} [action] - What was being attempted, e.g. 'fetch Xbox games'.
+ */
+function translateUpstreamError(error, adapter, action = `fetch ${adapter.label} games`) {
+  if (error instanceof UnexpectedResponseError) {
+    return { status: error.status, body: { error: error.message, details: {} } };
+  }
+
+  // Some SDKs (psn-api) do not throw axios errors, so adapters can recognise their own failures first.
+  const platformSpecific = adapter.translateError ? adapter.translateError(error) : null;
+  if (platformSpecific) {
+    return { status: platformSpecific.status, body: { error: platformSpecific.message, details: {} } };
+  }
+
+  if (error.response) {
+    const status = error.response.status || 500;
+    const data = error.response.data || {};
+    let message = (adapter.errorMessages && adapter.errorMessages[status])
+      || `Failed to ${action}. ${adapter.upstreamName} responded with status ${status}.`;
+    // Keep the upstream explanation when the API gives one (xbl.io uses error_message).
+    const upstreamMessage = typeof data === 'object' ? (data.error_message || data.error) : null;
+    if (typeof upstreamMessage === 'string') {
+      message = `${message} (Original: ${upstreamMessage})`;
+    }
+    return { status, body: { error: message, details: data } };
+  }
+
+  if (error.request) {
+    return { status: 503, body: { error: `Failed to ${action}. No response from ${adapter.upstreamName} API.`, details: {} } };
+  }
+
+  return { status: 500, body: { error: `Failed to ${action} from ${adapter.upstreamName}.`, details: { message: error.message } } };
+}
+
+// Logs the upstream failure once and sends the translated response.
+function sendUpstreamError(res, error, adapter, context = {}, action) {
+  const { status, body } = translateUpstreamError(error, adapter, action);
+
+  if (error.response) {
+    logger.error(`${adapter.label} API responded with status ${error.response.status}:`, {
+      ...context,
+      status: error.response.status,
+      data: error.response.data,
+    });
+  } else if (error.request) {
+    logger.error(`No response received from ${adapter.upstreamName}:`, { ...context, message: error.message });
+  } else {
+    logger.error(`Error while calling ${adapter.upstreamName}:`, { ...context, message: error.message, stack: error.stack });
+  }
+
+  return res.status(status).json(body);
+}
+
+module.exports = {
+  UnexpectedResponseError,
+  translateUpstreamError,
+  sendUpstreamError,
+};
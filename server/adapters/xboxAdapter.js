@@ -0,0 +1,179 @@
+const axios = require('axios');
+const logger = require('../config/logger');
+const XboxGame = require('../models/XboxGame');
+const { UnexpectedResponseError } = require('./upstreamErrors');
+const { libraryGame } = require('./libraryGame');
+
+// Base URL for xbl.io API v2
+const XBL_API_BASE_URL = 'https://xbl.io/api/v2';
+
+const getApiKey = () => process.env.XBL_API_KEY;
+
+// xbl.io reports this as the unlock time of achievements that are still locked
+const NEVER_UNLOCKED = '0001-01-01T00:00:00.0000000Z';
+
+const requestConfig = () => ({
+  headers: {
+    'X-Authorization': getApiKey(),
+    'Accept': 'application/json',
+    'Accept-Language': 'en-US',
+  },
+});
+
+const xboxAdapter = {
+  platform: 'xbox',
+  label: 'Xbox',
+  upstreamName: 'xbl.io',
+  model: XboxGame,
+  gameKey: 'titleId',
+  cache: { freshnessField: 'lastUpdated', sort: { name: 1 } },
+  // /achievements/player/{xuid} already carries per-title achievement and gamerscore counts.
+  achievementsInLibrary: true,
+  errorMessages: {
+    401: 'Xbox API request unauthorized. Check API key.',
+    403: 'Access to Xbox API forbidden. The API key might not have the correct permissions or the user profile is private.',
+    404: 'Xbox user profile not found or a specific endpoint path was incorrect.',
+    429: 'Too many requests to Xbox API. Please try again later.',
+  },
+
+  isConfigured() {
+    return !!getApiKey();
+  },
+
+  describeAccount({ xuid }) {
+    return `xuid: ${xuid}`;
+  },
+
+  ownerFilter({ xuid }) {
+    return { xuid };
+  },
+
+  accountKey({ xuid }) {
+    return xuid;
+  },
+
+  async accountFromKey(xuid) {
+    return { xuid };
+  },
+
+  accountForUser(user) {
+    return user.xboxUserId ? { xuid: user.xboxUserId } : null;
+  },
+
+  linkFields: ['xboxUserId', 'xboxGamertag'],
+
+  linkedAccount(user) {
+    return this.accountForUser(user);
+  },
+
+  async fetchProfile({ xuid }) {
+    const response = await axios.get(`${XBL_API_BASE_URL}/account/${xuid}`, requestConfig());
+    const profile = response.data && response.data.profileUsers && response.data.profileUsers[0];
+    if (!profile) {
+      // Not fatal for linking: the caller keeps whatever gamertag the user supplied.
+      logger.warn(`Could not verify XUID ${xuid} or fetch gamertag. Response was not as expected.`);
+      return { accountId: xuid };
+    }
+    const setting = id => (profile.settings || []).find(s => s.id === id);
+    return {
+      accountId: profile.id || xuid,
+      displayName: setting('Gamertag') ? setting('Gamertag').value : undefined,
+      avatarUrl: setting('GameDisplayPicRaw') ? setting('GameDisplayPicRaw').value : undefined,
+    };
+  },
+
+  async fetchLibrary({ xuid }) {
+    const response = await axios.get(`${XBL_API_BASE_URL}/achievements/player/${xuid}`, requestConfig());
+    if (response.data && Array.isArray(response.data.titles)) {
+      if (response.data.titles.length === 0) {
+        logger.info(`No Xbox games with achievements found for xuid: ${xuid} or profile might be private.`);
+      }
+      return response.data.titles;
+    }
+    logger.warn('xbl.io API response structure was not as expected or empty for achievements/player.', { xuid, responseData: response.data });
+    throw new UnexpectedResponseError('Unexpected response structure from xbl.io API.');
+  },
+
+  // Returns the raw xbl.io achievement objects for one title.
+  async fetchAchievements({ xuid }, titleId) {
+    const response = await axios.get(`${XBL_API_BASE_URL}/achievements/player/${xuid}/${titleId}`, requestConfig());
+    // The endpoint usually answers with a bare array, older responses nest it under `achievements`.
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+    if (response.data && Array.isArray(response.data.achievements)) {
+      return response.data.achievements;
+    }
+    logger.warn(`Unexpected response structure for detailed achievements for xuid: ${xuid}, titleId: ${titleId}. Data:`, response.data);
+    return [];
+  },
+
+  // xbl.io achievement objects -> services/achievements.js documents.
+  toAchievements(rawAchievements) {
+    return rawAchievements.map(achievement => {
+      const unlocked = achievement.progressState === 'Achieved';
+      const gamerscore = (achievement.rewards || []).find(reward => reward.type === 'Gamerscore');
+      const icon = (achievement.mediaAssets || []).find(asset => asset.type === 'Icon') || (achievement.mediaAssets || [])[0];
+      const timeUnlocked = achievement.progression && achievement.progression.timeUnlocked;
+      const rarity = achievement.rarity || {};
+      return {
+        externalId: achievement.id || achievement.name,
+        name: achievement.name,
+        description: (unlocked ? achievement.description : achievement.lockedDescription) || achievement.description || undefined,
+        iconUrl: icon ? icon.url : undefined,
+        points: gamerscore ? Number(gamerscore.value) : undefined,
+        rarityPercent: typeof rarity.currentPercentage === 'number' ? rarity.currentPercentage : undefined,
+        hidden: !!achievement.isSecret,
+        unlocked,
+        unlockedAt: unlocked && timeUnlocked && timeUnlocked !== NEVER_UNLOCKED ? new Date(timeUnlocked) : undefined,
+      };
+    });
+  },
+
+  gameId(title) {
+    return title.titleId;
+  },
+
+  normalize(title, { xuid }) {
+    const achievement = title.achievement || {};
+    return {
+      xuid,
+      titleId: title.titleId,
+      name: title.name,
+      displayImage: title.displayImage,
+      lastPlayed: title.titleHistory && title.titleHistory.lastTimePlayed
+        ? new Date(title.titleHistory.lastTimePlayed)
+        : undefined,
+      achievements: {
+        currentAchievements: achievement.currentAchievements,
+        totalAchievements: achievement.totalAchievements,
+        currentGamerscore: achievement.currentGamerscore,
+        totalGamerscore: achievement.totalGamerscore,
+      },
+    };
+  },
+
+  toResponse(game) {
+    return typeof game.toObject === 'function' ? game.toObject() : game;
+  },
+
+  // The titles endpoint has no playtime.
+  toGame(game) {
+    const achievements = game.achievements || {};
+    return libraryGame({
+      platform: 'xbox',
+      gameId: game.titleId,
+      title: game.name,
+      coverImage: game.displayImage,
+      lastPlayed: game.lastPlayed,
+      achievements: {
+        unlocked: achievements.currentAchievements || 0,
+        total: achievements.totalAchievements || 0,
+        currentGamerscore: achievements.currentGamerscore || 0,
+        totalGamerscore: achievements.totalGamerscore || 0,
+      },
+    });
+  },
+};
+
+module.exports = xboxAdapter;
@@ -0,0 +1,93 @@
+const { CollectionRuleError, parseRules, matchesRules } = require('./services/collectionRules');
+const { libraryGame } = require('./adapters/libraryGame');
+const psnAdapter = require('./adapters/psnAdapter');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+const steamGame = (fields) => libraryGame({ platform: 'steam', gameId: '620', title: 'Portal 2', ...fields });
+
+const psnGame = (earnedTrophies) => psnAdapter.toGame({
+  npCommunicationId: 'NPWR20188',
+  trophyTitleName: 'Ghost of Tsushima',
+  trophyTitlePlatform: 'PS5',
+  playtimeMinutes: 60 * 60,
+  definedTrophies: { platinum: 1, gold: 4, silver: 10, bronze: 36 },
+  earnedTrophies,
+});
+
+describe('collection rules', () => {
+  it('matches "Steam games with over 50% of the achievements and under 5 hours played"', () => {
+    const rules = parseRules({
+      conditions: [
+        { field: 'platform', operator: 'in', value: ['steam'] },
+        { field: 'achievementPercent', operator: 'gt', value: 50 },
+        { field: 'playtime', operator: 'lt', value: 5 },
+      ],
+    });
+
+    expect(rules.match).toBe('all');
+    expect(matchesRules(steamGame({ playtimeMinutes: 180, achievements: { unlocked: 40, total: 51 } }), rules)).toBe(true);
+    expect(matchesRules(steamGame({ playtimeMinutes: 600, achievements: { unlocked: 40, total: 51 } }), rules)).toBe(false);
+    expect(matchesRules(steamGame({ playtimeMinutes: 180, achievements: { unlocked: 10, total: 51 } }), rules)).toBe(false);
+    // Games without achievements never match a condition on them
+    expect(matchesRules(steamGame({ playtimeMinutes: 180 }), rules)).toBe(false);
+  });
+
+  it('matches "PSN games missing only the platinum" from the trophy breakdown', () => {
+    const rules = parseRules({
+      conditions: [
+        { field: 'platform', operator: 'in', value: ['psn'] },
+        { field: 'achievementsRemaining', operator: 'eq', value: 1 },
+        { field: 'trophiesMissing', operator: 'in', value: ['platinum'] },
+      ],
+    });
+
+    const missingPlatinum = psnGame({ platinum: 0, gold: 4, silver: 10, bronze: 36 });
+    const missingBronze = psnGame({ platinum: 0, gold: 4, silver: 10, bronze: 35 });
+
+    expect(missingPlatinum.achievements).toEqual(expect.objectContaining({
+      unlocked: 50,
+      total: 51,
+      earnedTrophies: { platinum: 0, gold: 4, silver: 10, bronze: 36 },
+      definedTrophies: { platinum: 1, gold: 4, silver: 10, bronze: 36 },
+    }));
+    expect(matchesRules(missingPlatinum, rules)).toBe(true);
+    expect(matchesRules(missingBronze, rules)).toBe(false);
+    expect(matchesRules(steamGame({ achievements: { unlocked: 50, total: 51 } }), rules)).toBe(false);
+  });
+
+  it('compares genres without case and leaves unknown genres and years out', () => {
+    const rules = parseRules({
+      match: 'any',
+      conditions: [
+        { field: 'genre', operator: 'in', value: ['Puzzle'] },
+        { field: 'releaseYear', operator: 'lte', value: 2000 },
+      ],
+    });
+    const notPuzzle = parseRules({ conditions: [{ field: 'genre', operator: 'nin', value: ['puzzle'] }] });
+
+    expect(rules.conditions[0].value).toEqual(['puzzle']);
+    expect(matchesRules(steamGame({ genre: ['Puzzle', 'Co-op'], releaseYear: 2011 }), rules)).toBe(true);
+    expect(matchesRules(steamGame({ genre: ['RPG'], releaseYear: 1998 }), rules)).toBe(true);
+    expect(matchesRules(steamGame({ genre: ['RPG'], releaseYear: 2011 }), rules)).toBe(false);
+    expect(matchesRules(steamGame({ genre: ['RPG'] }), notPuzzle)).toBe(true);
+    expect(matchesRules(steamGame({}), notPuzzle)).toBe(false); // 'Unknown Genre'
+    expect(matchesRules(steamGame({}), { match: 'any', conditions: [{ field: 'releaseYear', operator: 'lt', value: 3000 }] })).toBe(false);
+  });
+
+  it('rejects rules that cannot be evaluated', () => {
+    expect(() => parseRules(null)).toThrow(CollectionRuleError);
+    expect(() => parseRules({ conditions: [] })).toThrow(/1 to 20 conditions/);
+    expect(() => parseRules({ match: 'some', conditions: [{ field: 'playtime', operator: 'gt', value: 1 }] })).toThrow(/'match'/);
+    expect(() => parseRules({ conditions: [{ field: 'mood', operator: 'eq', value: 1 }] })).toThrow(/Condition 1: 'field'/);
+    expect(() => parseRules({ conditions: [{ field: 'playtime', operator: 'in', value: [1] }] })).toThrow(/'operator' must be one of eq/);
+    expect(() => parseRules({ conditions: [{ field: 'playtime', operator: 'gt', value: '5' }] })).toThrow(/must be a number/);
+    expect(() => parseRules({ conditions: [{ field: 'platform', operator: 'in', value: ['switch'] }] })).toThrow(/unknown platform "switch"/);
+    expect(() => parseRules({ conditions: [{ field: 'status', operator: 'in', value: [] }] })).toThrow(/list of 1 to 50/);
+  });
+});
@@ -0,0 +1,223 @@
+const request = require('supertest');
+const express = require('express');
+const GameCollection = require('./models/GameCollection');
+const GameTags = require('./models/GameTags');
+const libraryRoutes = require('./routes/library');
+const {
+  CollectionError,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  changeCollectionGames,
+  resolveCollections,
+  withCollections,
+} = require('./services/collections');
+const { editTags, withTags } = require('./services/gameTags');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/GameCollection', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+  findOneAndDelete: jest.fn(),
+  exists: jest.fn(),
+}));
+
+jest.mock('./models/GameTags', () => ({
+  bulkWrite: jest.fn(),
+  updateMany: jest.fn(),
+}));
+
+const COLLECTION_ID = '665f0000000000000000000a';
+
+const storedCollection = (overrides = {}) => ({
+  _id: COLLECTION_ID,
+  userId: 'user-object-id',
+  name: 'Co-op with Sam',
+  gameIds: ['steam-620'],
+  ...overrides,
+});
+
+describe('collections and tags', () => {
+  const user = { _id: 'user-object-id', id: 'user-object-id' };
+  let app;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.user = req.get('x-test-user') ? user : undefined;
+      next();
+    });
+    app.use('/api/library', libraryRoutes);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('creates a collection with the games given', async () => {
+    GameCollection.create.mockImplementation(async fields => ({ _id: COLLECTION_ID, ...fields }));
+
+    const collection = await createCollection(user, { name: ' Short games ', description: 'Under 5 hours', gameIds: ['steam-620', 'steam-620', 'gog-1'] });
+
+    expect(GameCollection.create).toHaveBeenCalledWith({
+      userId: 'user-object-id',
+      name: 'Short games',
+      description: 'Under 5 hours',
+      gameIds: ['steam-620', 'gog-1'],
+    });
+    expect(collection).toEqual(expect.objectContaining({ id: COLLECTION_ID, name: 'Short games', gameIds: ['steam-620', 'gog-1'] }));
+  });
+
+  it('answers 409 for a name the user already has', async () => {
+    GameCollection.create.mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+    await expect(createCollection(user, { name: 'Co-op with Sam' })).rejects.toEqual(expect.objectContaining({
+      status: 409,
+      message: 'You already have a collection named "Co-op with Sam".',
+    }));
+  });
+
+  it('renames a collection and clears its description', async () => {
+    GameCollection.findOneAndUpdate.mockReturnValue({ lean: async () => storedCollection({ name: 'Couch co-op' }) });
+
+    await updateCollection(user, COLLECTION_ID, { name: 'Couch co-op', description: null });
+
+    expect(GameCollection.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: COLLECTION_ID, userId: 'user-object-id' },
+      { $set: { name: 'Couch co-op' }, $unset: { description: '' } },
+      { new: true, runValidators: true }
+    );
+  });
+
+  it('adds and removes games, only in collections of the user', async () => {
+    GameCollection.findOneAndUpdate.mockReturnValue({ lean: async () => storedCollection() });
+
+    await changeCollectionGames(user, COLLECTION_ID, ['steam-292030', 'gog-1207664643']);
+    await changeCollectionGames(user, COLLECTION_ID, ['steam-620'], { remove: true });
+
+    expect(GameCollection.findOneAndUpdate).toHaveBeenNthCalledWith(1,
+      { _id: COLLECTION_ID, userId: 'user-object-id', rules: { $exists: false } },
+      { $addToSet: { gameIds: { $each: ['steam-292030', 'gog-1207664643'] } } },
+      { new: true }
+    );
+    expect(GameCollection.findOneAndUpdate.mock.calls[1][1]).toEqual({ $pullAll: { gameIds: ['steam-620'] } });
+
+    GameCollection.findOneAndUpdate.mockReturnValue({ lean: async () => null });
+    await expect(changeCollectionGames(user, COLLECTION_ID, ['steam-620'])).rejects.toThrow(/not found/);
+    await expect(changeCollectionGames(user, COLLECTION_ID, ['Portal 2'])).rejects.toBeInstanceOf(CollectionError);
+  });
+
+  it('creates a smart collection from rules and keeps its games out of reach', async () => {
+    GameCollection.create.mockImplementation(async fields => ({ _id: COLLECTION_ID, ...fields }));
+    const rules = { conditions: [{ field: 'playtime', operator: 'lt', value: 5 }] };
+
+    const collection = await createCollection(user, { name: 'Short games', rules });
+
+    expect(GameCollection.create).toHaveBeenCalledWith(expect.objectContaining({
+      gameIds: [],
+      rules: { match: 'all', conditions: [{ field: 'playtime', operator: 'lt', value: 5 }] },
+    }));
+    expect(collection.rules).toEqual({ match: 'all', conditions: rules.conditions });
+    await expect(createCollection(user, { name: 'Short games', rules, gameIds: ['steam-620'] })).rejects.toThrow(/leave out gameIds/);
+
+    GameCollection.findOneAndUpdate.mockReturnValue({ lean: async () => null });
+    GameCollection.exists.mockResolvedValue({ _id: COLLECTION_ID });
+    await expect(changeCollectionGames(user, COLLECTION_ID, ['steam-620'])).rejects.toEqual(expect.objectContaining({
+      status: 400,
+      message: expect.stringMatching(/smart collection/),
+    }));
+  });
+
+  it('turns a collection into a smart one and back', async () => {
+    GameCollection.findOneAndUpdate.mockReturnValue({ lean: async () => storedCollection() });
+
+    await updateCollection(user, COLLECTION_ID, { rules: { match: 'any', conditions: [{ field: 'status', operator: 'in', value: ['installed'] }] } });
+    await updateCollection(user, COLLECTION_ID, { rules: null });
+
+    expect(GameCollection.findOneAndUpdate.mock.calls[0][1]).toEqual({
+      $set: { rules: { match: 'any', conditions: [{ field: 'status', operator: 'in', value: ['installed'] }] }, gameIds: [] },
+    });
+    expect(GameCollection.findOneAndUpdate.mock.calls[1][1]).toEqual({ $set: { gameIds: [] }, $unset: { rules: '' } });
+  });
+
+  it('fills in the games of smart collections from the entries matching their rules', () => {
+    const steam = { id: 'steam-292030', platform: 'steam', playtime: 3, achievements: { unlocked: 0, total: 0 } };
+    const gog = { id: 'gog-1207664643', platform: 'gog', playtime: 40, achievements: { unlocked: 0, total: 0 } };
+    const games = [{ ...gog, playtime: 43, entries: [steam, gog] }, { id: 'steam-620', platform: 'steam', playtime: 9, entries: [] }];
+    games[1].entries = [{ ...games[1] }];
+    const short = storedCollection({ _id: 'short', gameIds: [], rules: { match: 'all', conditions: [{ field: 'playtime', operator: 'lt', value: 5 }] } });
+
+    const [resolvedShort, regular] = resolveCollections([short, storedCollection()], games);
+
+    expect(resolvedShort.gameIds).toEqual(['steam-292030']); // The Steam entry on its own, not the summed playtime
+    expect(regular.gameIds).toEqual(['steam-620']);
+    expect(withCollections(games, [resolvedShort]).map(game => game.collectionIds)).toEqual([['short'], undefined]);
+  });
+
+  it('answers 404 when deleting an unknown collection', async () => {
+    GameCollection.findOneAndDelete.mockReturnValue({ lean: async () => null });
+
+    await expect(deleteCollection(user, COLLECTION_ID)).rejects.toEqual(expect.objectContaining({ status: 404 }));
+    await expect(deleteCollection(user, 'not-an-id')).rejects.toEqual(expect.objectContaining({ status: 404 }));
+  });
+
+  it('adds and removes tags on every game given', async () => {
+    const result = await editTags(user, { gameIds: ['steam-620', 'gog-1'], add: [' co-op   local ', 'short'], remove: ['backlog', 'short'] });
+
+    expect(result).toEqual({ gameIds: ['steam-620', 'gog-1'], add: ['co-op local', 'short'], remove: ['backlog'] });
+    expect(GameTags.bulkWrite.mock.calls[0][0][1]).toEqual({
+      updateOne: {
+        filter: { userId: 'user-object-id', gameId: 'gog-1' },
+        update: { $addToSet: { tags: { $each: ['co-op local', 'short'] } }, $set: { updatedAt: expect.any(Date) } },
+        upsert: true,
+      },
+    });
+    expect(GameTags.updateMany).toHaveBeenCalledWith(
+      { userId: 'user-object-id', gameId: { $in: ['steam-620', 'gog-1'] } },
+      { $pull: { tags: { $in: ['backlog'] } }, $set: { updatedAt: expect.any(Date) } }
+    );
+    await expect(editTags(user, { gameIds: ['steam-620'] })).rejects.toThrow(/'add' or 'remove'/);
+    await expect(editTags(user, { gameIds: ['steam-620'], add: ['x'.repeat(41)] })).rejects.toThrow(/40 characters/);
+  });
+
+  it('gives a merged game the tags of all its entries', () => {
+    const games = [{ id: 'steam-292030', entries: [{ id: 'steam-292030' }, { id: 'gog-1207664643' }] }, { id: 'steam-620' }];
+
+    const [witcher, portal] = withTags(games, [
+      { gameId: 'steam-292030', tags: ['rpg', 'open world'] },
+      { gameId: 'gog-1207664643', tags: ['rpg', 'drm-free'] },
+    ]);
+
+    expect(witcher.tags).toEqual(['drm-free', 'open world', 'rpg']);
+    expect(portal).not.toHaveProperty('tags');
+  });
+
+  it('serves the collection routes', async () => {
+    GameCollection.find.mockReturnValue({ sort: () => ({ lean: async () => [storedCollection()] }) });
+    GameCollection.create.mockImplementation(async fields => ({ _id: COLLECTION_ID, ...fields }));
+
+    const listed = await request(app).get('/api/library/collections').set('x-test-user', '1');
+    const created = await request(app).post('/api/library/collections').set('x-test-user', '1').send({ name: 'Short games' });
+    const invalid = await request(app).post('/api/library/collections').set('x-test-user', '1').send({ name: '' });
+    const invalidRules = await request(app).post('/api/library/collections').set('x-test-user', '1')
+      .send({ name: 'Odd', rules: { conditions: [{ field: 'mood', operator: 'eq', value: 1 }] } });
+    const tagged = await request(app).post('/api/library/tags').set('x-test-user', '1').send({ gameIds: ['steam-620'], add: ['puzzle'] });
+    const anonymous = await request(app).get('/api/library/collections');
+
+    expect(listed.body.collections).toEqual([expect.objectContaining({ id: COLLECTION_ID, name: 'Co-op with Sam', gameIds: ['steam-620'] })]);
+    expect(created.status).toBe(201);
+    expect(invalid.status).toBe(400);
+    expect(invalidRules.status).toBe(400);
+    expect(invalidRules.body.error).toMatch(/Condition 1/);
+    expect(tagged.body).toEqual({ gameIds: ['steam-620'], add: ['puzzle'], remove: [] });
+    expect(anonymous.status).toBe(401);
+  });
+});
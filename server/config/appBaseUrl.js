@@ -0,0 +1,10 @@
+// Frontend base URL for redirects after OAuth flows (same resolution as the Steam/Google routes in routes/auth.js).
+function appBaseUrl() {
+  const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+  if (IS_PRODUCTION && process.env.URL) return process.env.URL;
+  if (IS_PRODUCTION && process.env.APP_BASE_URL) return process.env.APP_BASE_URL;
+  if (!IS_PRODUCTION) return 'http://localhost:8080';
+  return process.env.APP_BASE_URL || '';
+}
+
+module.exports = appBaseUrl;
@@ -0,0 +1,82 @@
+const crypto = require('crypto');
+
+// Encrypts third-party credentials (platform OAuth tokens) before they are written to MongoDB.
+//
+// Keys come from CREDENTIAL_ENCRYPTION_KEYS as a comma-separated list of `<keyId>:<base64 32-byte key>`.
+// The first key encrypts; every listed key can decrypt. To rotate, put a new key first, keep the old one
+// listed, run `npm run rotate-credential-keys`, then remove the old key.
+//
+// Stored format: enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>, all base64url (AES-256-GCM).
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+let cachedKeys = { source: null, keys: null };
+
+function loadKeys() {
+  const source = process.env.CREDENTIAL_ENCRYPTION_KEYS || '';
+  if (cachedKeys.source === source) return cachedKeys.keys;
+
+  const keys = source.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new Error('CREDENTIAL_ENCRYPTION_KEYS entries must look like <keyId>:<base64 key>.');
+    }
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (key.length !== 32) {
+      throw new Error(`Credential encryption key '${id}' must be 32 bytes (base64 encoded).`);
+    }
+    return { id, key };
+  });
+  cachedKeys = { source, keys };
+  return keys;
+}
+
+function currentKey() {
+  const [key] = loadKeys();
+  if (!key) {
+    throw new Error('CREDENTIAL_ENCRYPTION_KEYS is not set; platform credentials cannot be stored.');
+  }
+  return key;
+}
+
+function isEncrypted(value) {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+function encrypt(plaintext) {
+  const { id, key } = currentKey();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(String(plaintext), 'utf8'), cipher.final()]);
+  return `${PREFIX}${id}:${iv.toString('base64url')}:${cipher.getAuthTag().toString('base64url')}:${ciphertext.toString('base64url')}`;
+}
+
+// Values stored before encryption was introduced are returned unchanged.
+function decrypt(value) {
+  if (!isEncrypted(value)) return value;
+  const [keyId, iv, authTag, ciphertext] = value.slice(PREFIX.length).split(':');
+  const entry = loadKeys().find(candidate => candidate.id === keyId);
+  if (!entry) {
+    throw new Error(`Credential encryption key '${keyId}' is not configured in CREDENTIAL_ENCRYPTION_KEYS.`);
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
+
+// True for plaintext values and values encrypted with a key other than the current one.
+function needsReencryption(value) {
+  if (value === null || value === undefined || value === '') return false;
+  if (!isEncrypted(value)) return true;
+  return value.slice(PREFIX.length).split(':')[0] !== currentKey().id;
+}
+
+module.exports = {
+  isEncrypted,
+  encrypt,
+  decrypt,
+  needsReencryption,
+};
@@ -1,6 +1,7 @@
 const winston = require('winston');
 const fs = require('fs');
 const path = require('path');
+const { redactSecrets } = require('./redact');
 
 const logDir = path.join(__dirname, '../logs'); // Place logs directory one level up from config, i.e., server/logs
 
@@ -11,6 +12,13 @@ if (!fs.existsSync(logDir)) {
 
 const { combine, timestamp, printf, colorize, json } = winston.format;
 
+// Masks credentials in the message and metadata. Set on the logger itself, so it runs before every transport.
+const redactFormat = winston.format(info => {
+  const redacted = redactSecrets({ ...info });
+  Object.keys(info).forEach(key => { info[key] = redacted[key]; });
+  return info;
+});
+
 // Custom log format for console
 const consoleLogFormat = printf(({ level, message, timestamp, ...metadata }) => {
   let msg = `${timestamp} [${level}]: ${message} `;
@@ -29,6 +37,7 @@ const consoleLogFormat = printf(({ level, message, timestamp, ...metadata }) =>
 const logger = winston.createLogger({
   levels: winston.config.npm.levels, // Use npm logging levels (error, warn, info, http, verbose, debug, silly)
   format: combine(
+    redactFormat(),
     timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
     json() // Default format for files, can be overridden per transport
   ),
@@ -0,0 +1,51 @@
+// Masks credentials before anything is written to the logs. Used as a winston format in config/logger.js,
+// and directly where whole objects (sessions, users) are dumped for debugging.
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY = /password|npsso|token|secret|authorization|cookie/i;
+const NOT_SENSITIVE_KEY = /expires/i; // e.g. gogTokenExpiresAt, expiresIn
+const MAX_DEPTH = 10;
+
+const isSensitiveKey = key => SENSITIVE_KEY.test(key) && !NOT_SENSITIVE_KEY.test(key);
+
+// Secrets that end up inside strings: JSON dumps, bearer headers, query strings and vault ciphertext.
+const TEXT_PATTERNS = [
+  [/("[^"]*(?:password|npsso|token|secret)[^"]*"\s*:\s*)"[^"]*"/gi, `$1"${REDACTED}"`],
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]+/g, `$1${REDACTED}`],
+  [/([?&](?:npsso|code|access_token|refresh_token|client_secret)=)[^&\s"']+/gi, `$1${REDACTED}`],
+  [/enc:v1:[A-Za-z0-9_-]+:[A-Za-z0-9_-]+:[A-Za-z0-9_-]+:[A-Za-z0-9_-]+/g, REDACTED],
+];
+
+function redactText(text) {
+  return TEXT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Returns a copy of `value` with credential-looking keys masked and secrets inside strings removed.
+ * Mongoose documents are converted with toJSON() first; Errors and Dates are kept as they are.
+ */
+function redactSecrets(value, depth = 0, seen = new WeakSet()) {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object' || value instanceof Date || value instanceof Error) return value;
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+  seen.add(value);
+
+  const source = typeof value.toJSON === 'function' ? value.toJSON() : value;
+  if (Array.isArray(source)) return source.map(item => redactSecrets(item, depth + 1, seen));
+  if (source === null || typeof source !== 'object') return redactSecrets(source, depth + 1, seen);
+
+  const copy = {};
+  for (const [key, entry] of Object.entries(source)) {
+    copy[key] = isSensitiveKey(key) && entry !== null && entry !== undefined && entry !== ''
+      ? REDACTED
+      : redactSecrets(entry, depth + 1, seen);
+  }
+  return copy;
+}
+
+module.exports = {
+  REDACTED,
+  redactText,
+  redactSecrets,
+};
@@ -0,0 +1,164 @@
+const axios = require('axios');
+const User = require('./models/User');
+const epicAdapter = require('./adapters/epicAdapter');
+const { translateUpstreamError } = require('./adapters/upstreamErrors');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('axios');
+
+jest.mock('./models/User', () => ({
+  findById: jest.fn(),
+  updateOne: jest.fn(),
+}));
+
+const user = { _id: 'user-object-id', id: 'user-object-id' };
+const account = { user };
+
+describe('Epic library export parsing', () => {
+  it('parses `legendary list --json` output', () => {
+    const games = epicAdapter.parseLibraryExport([
+      {
+        app_name: 'Fortnite',
+        app_title: 'Fortnite',
+        asset_infos: { Windows: { namespace: 'fn', catalog_item_id: 'cat-fn' } },
+        metadata: {
+          developer: 'Epic Games',
+          keyImages: [
+            { type: 'Thumbnail', url: 'https://cdn/fn-thumb.jpg' },
+            { type: 'DieselGameBoxTall', url: 'https://cdn/fn-tall.jpg' },
+          ],
+        },
+      },
+    ], account);
+
+    expect(games).toEqual([{
+      userId: 'user-object-id',
+      appName: 'Fortnite',
+      title: 'Fortnite',
+      namespace: 'fn',
+      catalogItemId: 'cat-fn',
+      coverImage: 'https://cdn/fn-tall.jpg',
+      developer: 'Epic Games',
+      isInstalled: false,
+      source: 'import',
+    }]);
+  });
+
+  it("parses Heroic's legendary_library.json", () => {
+    const games = epicAdapter.parseLibraryExport({
+      library: [
+        { app_name: 'Sugar', title: 'Rocket League', art_cover: 'https://cdn/rl.jpg', namespace: 'sugar', is_installed: true, developer: 'Psyonix' },
+        { app_name: 'SugarDLC', title: 'Rocket Pass', install: { is_dlc: true } },
+      ],
+    }, account);
+
+    expect(games).toHaveLength(1);
+    expect(games[0]).toEqual(expect.objectContaining({
+      appName: 'Sugar',
+      title: 'Rocket League',
+      coverImage: 'https://cdn/rl.jpg',
+      isInstalled: true,
+    }));
+  });
+
+  it("parses Legendary's installed.json keyed by app name", () => {
+    const games = epicAdapter.parseLibraryExport({
+      Quail: { app_name: 'Quail', title: 'Control', install_path: 'C:/Games/Control' },
+    }, account);
+
+    expect(games).toEqual([expect.objectContaining({ appName: 'Quail', title: 'Control', isInstalled: true })]);
+  });
+
+  it('skips DLC, Unreal Engine assets and entries without an app name, and keeps one entry per game', () => {
+    const games = epicAdapter.parseLibraryExport([
+      { app_name: 'Quail', app_title: 'Control', metadata: {} },
+      { app_name: 'Quail', app_title: 'Control (Mac)', metadata: {} },
+      { app_name: 'QuailDLC', app_title: 'Control: The Foundation', metadata: { mainGameItem: { id: 'quail' } } },
+      { app_name: 'MarketplaceAsset', namespace: 'ue' },
+      { app_title: 'No id' },
+    ], account);
+
+    expect(games.map(game => game.appName)).toEqual(['Quail']);
+  });
+
+  it('returns null for files that are not library exports', () => {
+    expect(epicAdapter.parseLibraryExport({ hello: 'world' }, account)).toBeNull();
+    expect(epicAdapter.parseLibraryExport('not json', account)).toBeNull();
+    expect(epicAdapter.parseLibraryExport(null, account)).toBeNull();
+  });
+});
+
+describe('Epic OAuth library sync', () => {
+  const ENV_KEYS = ['EPIC_CLIENT_ID', 'EPIC_CLIENT_SECRET', 'EPIC_OAUTH_CALLBACK_URL', 'EPIC_LIBRARY_URL'];
+  const savedEnv = {};
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ENV_KEYS.forEach(key => { savedEnv[key] = process.env[key]; });
+    process.env.EPIC_CLIENT_ID = 'client';
+    process.env.EPIC_CLIENT_SECRET = 'secret';
+    process.env.EPIC_OAUTH_CALLBACK_URL = 'http://localhost:3000/api/epic/callback';
+    process.env.EPIC_LIBRARY_URL = 'https://epic.test/library';
+  });
+
+  afterEach(() => {
+    ENV_KEYS.forEach(key => {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    });
+  });
+
+  it('is only configured when the OAuth client credentials are set', () => {
+    expect(epicAdapter.isConfigured()).toBe(true);
+    delete process.env.EPIC_CLIENT_SECRET;
+    expect(epicAdapter.isConfigured()).toBe(false);
+  });
+
+  it('only schedules syncs for OAuth-linked users', () => {
+    expect(epicAdapter.accountForUser({ _id: 'u1' })).toBeNull();
+    expect(epicAdapter.accountForUser({ _id: 'u1', epicRefreshToken: 'refresh' })).toEqual({ user: { _id: 'u1', epicRefreshToken: 'refresh' } });
+  });
+
+  it('follows library pages with a valid token and drops assets the UI does not list', async () => {
+    const linked = { ...user, epicAccessToken: 'access', epicTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000) };
+    axios.get
+      .mockResolvedValueOnce({ data: { records: [{ appName: 'Quail', namespace: 'quail' }], responseMetadata: { nextCursor: 'page2' } } })
+      .mockResolvedValueOnce({ data: { records: [{ appName: 'Asset', namespace: 'ue' }, { appName: 'Sugar', namespace: 'sugar' }], responseMetadata: {} } });
+
+    const records = await epicAdapter.fetchLibrary({ user: linked });
+
+    expect(records.map(epicAdapter.gameId)).toEqual(['Quail', 'Sugar']);
+    expect(axios.get).toHaveBeenLastCalledWith('https://epic.test/library', {
+      headers: { Authorization: 'Bearer access' },
+      params: { includeMetadata: true, cursor: 'page2' },
+    });
+    expect(axios.post).not.toHaveBeenCalled();
+    expect(epicAdapter.normalize(records[0], { user: linked })).toEqual(expect.objectContaining({ title: 'Quail', source: 'oauth' }));
+  });
+
+  it('refreshes an expired access token and stores the new tokens', async () => {
+    const linked = { ...user, epicAccessToken: 'old', epicRefreshToken: 'refresh', epicTokenExpiresAt: new Date(Date.now() - 1000) };
+    axios.post.mockResolvedValueOnce({ data: { access_token: 'new', refresh_token: 'refresh2', expires_in: 7200 } });
+    axios.get.mockResolvedValueOnce({ data: { records: [] } });
+
+    await epicAdapter.fetchLibrary({ user: linked });
+
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: 'user-object-id', epicRefreshToken: { $exists: true } }, {
+      $set: { epicAccessToken: 'new', epicRefreshToken: 'refresh2', epicTokenExpiresAt: expect.any(Date) },
+    });
+    expect(axios.get.mock.calls[0][1].headers).toEqual({ Authorization: 'Bearer new' });
+  });
+
+  it('reports a revoked refresh token as an expired session', () => {
+    const error = { response: { status: 400, data: { errorCode: 'errors.com.epicgames.oauth.invalid_grant' } } };
+    const { status, body } = translateUpstreamError(error, epicAdapter);
+    expect(status).toBe(401);
+    expect(body.error).toBe('Epic session expired or was revoked. Please sign in with Epic again.');
+  });
+});
@@ -0,0 +1,237 @@
+const http = require('http');
+const initSqlJs = require('sql.js');
+const request = require('supertest');
+const express = require('express');
+const GalaxyGame = require('./models/GalaxyGame');
+const GogGame = require('./models/GogGame');
+const PlaytimeSnapshot = require('./models/PlaytimeSnapshot');
+const gogAdapter = require('./adapters/gogAdapter');
+const galaxyImport = require('./services/galaxyImport');
+const gogRoutes = require('./routes/gog');
+
+const { GalaxyDatabaseError, readGalaxyDatabase, importGalaxyGames } = galaxyImport;
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/GalaxyGame', () => ({
+  bulkWrite: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/PlaytimeSnapshot', () => ({
+  insertMany: jest.fn(),
+}));
+
+jest.mock('./models/GogGame', () => ({
+  find: jest.fn(),
+  bulkWrite: jest.fn(),
+}));
+
+// A trimmed-down galaxy-2.0.db with the tables the import reads.
+async function buildGalaxyDatabase() {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE LibraryReleases (userId INTEGER, releaseKey TEXT);
+    CREATE TABLE GamePieceTypes (id INTEGER PRIMARY KEY, type TEXT);
+    CREATE TABLE GamePieces (releaseKey TEXT, gamePieceTypeId INTEGER, userId INTEGER, value TEXT);
+    CREATE TABLE GameTimes (userId INTEGER, releaseKey TEXT, minutesInGame INTEGER);
+    CREATE TABLE LastPlayedDates (userId INTEGER, gameReleaseKey TEXT, lastPlayedDate TEXT);
+    CREATE TABLE ReleaseProperties (releaseKey TEXT, isDlc INTEGER, isVisibleInLibrary INTEGER);
+    CREATE TABLE Achievements (id INTEGER PRIMARY KEY, releaseKey TEXT, name TEXT);
+    CREATE TABLE UserAchievements (userId INTEGER, achievementId INTEGER, unlockTime TEXT);
+
+    INSERT INTO GamePieceTypes VALUES (1, 'originalTitle'), (2, 'title'), (3, 'originalImages'), (4, 'allGameReleases');
+    INSERT INTO LibraryReleases VALUES
+      (1, 'gog_1207658924'), (1, 'steam_292030'), (1, 'xboxone_1915865634'), (1, 'gog_1207664643');
+    INSERT INTO GamePieces VALUES
+      ('gog_1207658924', 1, 1, '{"title":"The Witcher 3: Wild Hunt"}'),
+      ('gog_1207658924', 3, 1, '{"verticalCover":"https://images.gog.com/w3.jpg"}'),
+      ('steam_292030', 1, 1, '{"title":"The Witcher 3"}'),
+      ('steam_292030', 2, 1, '{"title":"Witcher 3 (Steam)"}'),
+      ('steam_292030', 4, 1, '{"releases":["steam_292030","gog_1207658924"]}'),
+      ('xboxone_1915865634', 1, 1, '{"title":"Forza Horizon 4"}');
+    INSERT INTO GameTimes VALUES (1, 'gog_1207658924', 6000), (1, 'steam_292030', 90);
+    INSERT INTO LastPlayedDates VALUES (1, 'gog_1207658924', '2024-03-01 20:15:00');
+    INSERT INTO ReleaseProperties VALUES ('gog_1207664643', 1, 1);
+    INSERT INTO Achievements VALUES (1, 'gog_1207658924', 'Lilac and Gooseberries'), (2, 'gog_1207658924', 'Master Marksman');
+    INSERT INTO UserAchievements VALUES (1, 1, '2024-02-01 10:00:00');
+  `);
+  const buffer = Buffer.from(db.export());
+  db.close();
+  return buffer;
+}
+
+describe('GOG Galaxy import', () => {
+  const user = { _id: 'user-object-id', id: 'user-object-id' };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('reads owned games with playtime, last played and achievements for every linked platform', async () => {
+    const games = await readGalaxyDatabase(await buildGalaxyDatabase());
+
+    expect(games).toHaveLength(3); // The DLC is skipped
+    expect(games).toEqual(expect.arrayContaining([
+      {
+        releaseKey: 'gog_1207658924',
+        platform: 'gog',
+        platformGameId: '1207658924',
+        title: 'The Witcher 3: Wild Hunt',
+        coverImage: 'https://images.gog.com/w3.jpg',
+        playtimeMinutes: 6000,
+        lastPlayed: new Date('2024-03-01T20:15:00Z'),
+        achievements: { unlocked: 1, total: 2 },
+        relatedReleaseKeys: [],
+      },
+      expect.objectContaining({
+        releaseKey: 'steam_292030',
+        platform: 'steam',
+        platformGameId: '292030',
+        title: 'Witcher 3 (Steam)',
+        playtimeMinutes: 90,
+        relatedReleaseKeys: ['gog_1207658924'], // The same game on GOG, as linked by Galaxy
+      }),
+      expect.objectContaining({ releaseKey: 'xboxone_1915865634', platform: 'xbox', playtimeMinutes: 0, achievements: { unlocked: 0, total: 0 } }),
+    ]));
+  });
+
+  it('rejects files that are not a Galaxy database', async () => {
+    await expect(readGalaxyDatabase(Buffer.from('definitely not sqlite'))).rejects.toBeInstanceOf(GalaxyDatabaseError);
+
+    const SQL = await initSqlJs();
+    const otherDb = new SQL.Database();
+    otherDb.run('CREATE TABLE Something (id INTEGER)');
+    const otherBuffer = Buffer.from(otherDb.export());
+    otherDb.close();
+    await expect(readGalaxyDatabase(otherBuffer)).rejects.toThrow(/missing LibraryReleases, GamePieces, GamePieceTypes/);
+  });
+
+  it("replaces the user's Galaxy games and merges GOG stats without overwriting synced titles", async () => {
+    const games = await readGalaxyDatabase(await buildGalaxyDatabase());
+    GogGame.find.mockReturnValue({ lean: async () => [] });
+
+    const result = await importGalaxyGames(user, games);
+
+    expect(result).toEqual({ imported: 3, gogGames: 1, importedAt: expect.any(Date) });
+    expect(GalaxyGame.bulkWrite.mock.calls[0][0]).toHaveLength(3);
+    expect(GalaxyGame.deleteMany).toHaveBeenCalledWith({
+      userId: 'user-object-id',
+      releaseKey: { $nin: ['gog_1207658924', 'steam_292030', 'xboxone_1915865634'] },
+    });
+    const [gogUpdate] = GogGame.bulkWrite.mock.calls[0][0];
+    expect(gogUpdate.updateOne.filter).toEqual({ userId: 'user-object-id', productId: 1207658924 });
+    expect(gogUpdate.updateOne.update.$set).toEqual(expect.objectContaining({ playtimeMinutes: 6000, achievements: { unlocked: 1, total: 2 } }));
+    expect(gogUpdate.updateOne.update.$setOnInsert).toEqual(expect.objectContaining({ title: 'The Witcher 3: Wild Hunt' }));
+  });
+
+  it('records the GOG playtime gained since the previous import', async () => {
+    const games = await readGalaxyDatabase(await buildGalaxyDatabase());
+    GogGame.find.mockReturnValue({ lean: async () => [{ productId: 1207658924, playtimeMinutes: 5880 }] });
+
+    await importGalaxyGames(user, games);
+
+    expect(GogGame.find).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-object-id', galaxyImportedAt: { $ne: null } }));
+    expect(PlaytimeSnapshot.insertMany).toHaveBeenCalledWith([expect.objectContaining({
+      meta: { platform: 'gog', accountKey: 'user-object-id', gameId: '1207658924' },
+      playtimeMinutes: 6000,
+      deltaMinutes: 120,
+    })]);
+  });
+
+  it('serves imported GOG playtime in the shape the dashboard renders', () => {
+    const response = gogAdapter.toResponse({
+      productId: 1207658924,
+      title: 'The Witcher 3: Wild Hunt',
+      playtimeMinutes: 6000,
+      lastPlayed: new Date('2024-03-01T20:15:00Z'),
+      achievements: { unlocked: 1, total: 2 },
+    });
+    expect(response).toEqual(expect.objectContaining({ playtimeForever: 6000, achievements: { unlocked: 1, total: 2 } }));
+  });
+});
+
+describe('POST /api/gog/galaxy/import', () => {
+  let app;
+
+  beforeAll(() => {
+    app = express();
+    app.use((req, res, next) => {
+      const userId = req.get('x-test-user');
+      req.user = userId ? { _id: userId, id: userId } : undefined;
+      next();
+    });
+    app.use('/api/gog', gogRoutes);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const upload = userId => request(app).post('/api/gog/galaxy/import')
+    .set('x-test-user', userId)
+    .set('Content-Type', 'application/octet-stream')
+    .send(Buffer.from('SQLite format 3'));
+
+  it('runs one import per user at a time', async () => {
+    let finishReading;
+    const reading = jest.spyOn(galaxyImport, 'readGalaxyDatabase')
+      .mockImplementationOnce(() => new Promise(resolve => { finishReading = resolve; }))
+      .mockResolvedValue([]);
+
+    const first = upload('user-1').then(response => response); // then() sends the request
+    while (reading.mock.calls.length === 0) await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await upload('user-1');
+    finishReading([]);
+
+    expect(second.status).toBe(409);
+    expect(second.body.error).toMatch(/already running/);
+    expect((await first).status).toBe(400); // The first import went on; the database had no games
+    expect((await upload('user-1')).status).toBe(400); // Free again once it finished
+    expect(reading).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the slot of an import whose client went away until the import has finished', async () => {
+    let finishReading;
+    const reading = jest.spyOn(galaxyImport, 'readGalaxyDatabase')
+      .mockImplementationOnce(() => new Promise(resolve => { finishReading = resolve; }))
+      .mockResolvedValue([]);
+    const server = app.listen(0);
+    const abandoned = http.request({
+      port: server.address().port,
+      method: 'POST',
+      path: '/api/gog/galaxy/import',
+      headers: { 'x-test-user': 'user-1', 'Content-Type': 'application/octet-stream' },
+    });
+    abandoned.on('error', () => {}); // The client hangs up on purpose
+    abandoned.end(Buffer.from('SQLite format 3'));
+
+    try {
+      while (reading.mock.calls.length === 0) await new Promise(resolve => setTimeout(resolve, 5));
+      abandoned.destroy();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect((await upload('user-1')).status).toBe(409);
+      finishReading([]);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect((await upload('user-1')).status).toBe(400); // Free again once the abandoned import finished
+    } finally {
+      server.close();
+    }
+  });
+
+  it('rejects uploads without a signed-in user before reading them', async () => {
+    const reading = jest.spyOn(galaxyImport, 'readGalaxyDatabase');
+
+    const response = await request(app).post('/api/gog/galaxy/import').send(Buffer.from('SQLite format 3'));
+
+    expect(response.status).toBe(401);
+    expect(reading).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+const axios = require('axios');
+const GameMetadata = require('./models/GameMetadata');
+const steamAppDetailsProvider = require('./metadata/steamAppDetailsProvider');
+const offlineProvider = require('./metadata/offlineProvider');
+const { activeProviders } = require('./metadata');
+const { applyMetadata, isFresh, refreshMetadata, queueMetadataLookups } = require('./services/gameMetadata');
+const { libraryGame } = require('./adapters/libraryGame');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('axios');
+
+jest.mock('./models/GameMetadata', () => ({
+  find: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+}));
+
+describe('metadata providers', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('reads genres, release date, studios and description from Steam appdetails', async () => {
+    axios.get.mockResolvedValue({
+      data: {
+        292030: {
+          success: true,
+          data: {
+            genres: [{ id: '3', description: 'RPG' }],
+            release_date: { coming_soon: false, date: '18 May, 2015' },
+            developers: ['CD PROJEKT RED'],
+            publishers: ['CD PROJEKT RED'],
+            short_description: 'You are Geralt of Rivia, <b>monster slayer</b> &amp; mercenary.',
+          },
+        },
+      },
+    });
+
+    const metadata = await steamAppDetailsProvider.lookup({ platform: 'steam', gameId: '292030', title: 'The Witcher 3' });
+
+    expect(axios.get).toHaveBeenCalledWith('https://store.steampowered.com/api/appdetails', { params: { appids: '292030', l: 'english' } });
+    expect(metadata).toEqual({
+      genres: ['RPG'],
+      releaseDate: new Date('2015-05-18T00:00:00Z'),
+      releaseYear: 2015,
+      developers: ['CD PROJEKT RED'],
+      publishers: ['CD PROJEKT RED'],
+      description: 'You are Geralt of Rivia, monster slayer & mercenary.',
+    });
+  });
+
+  it('treats apps the Steam store does not list as unknown and keeps only the year of unreleased ones', async () => {
+    axios.get.mockResolvedValueOnce({ data: { 1: { success: false } } });
+    await expect(steamAppDetailsProvider.lookup({ platform: 'steam', gameId: '1' })).resolves.toBeNull();
+
+    axios.get.mockResolvedValueOnce({ data: { 2: { success: true, data: { release_date: { coming_soon: true, date: 'Q1 2027' } } } } });
+    await expect(steamAppDetailsProvider.lookup({ platform: 'steam', gameId: '2' })).resolves.toEqual(expect.objectContaining({
+      releaseDate: null,
+      releaseYear: 2027,
+      genres: [],
+    }));
+
+    expect(steamAppDetailsProvider.supports({ platform: 'gog', gameId: '2' })).toBe(false);
+  });
+
+  it('finds bundled games by platform id or by title on any platform', async () => {
+    await expect(offlineProvider.lookup({ platform: 'gog', gameId: '1207664643', title: 'Something else' })).resolves.toEqual(expect.objectContaining({
+      developers: ['CD PROJEKT RED'],
+      releaseYear: 2015,
+    }));
+    await expect(offlineProvider.lookup({ platform: 'psn', gameId: 'NPWR1', title: 'ASTRO BOT' })).resolves.toEqual(expect.objectContaining({
+      genres: ['Platformer', 'Action'],
+      releaseDate: new Date('2024-09-06T00:00:00Z'),
+    }));
+    await expect(offlineProvider.lookup({ platform: 'epic', gameId: 'x', title: 'Unknown Game' })).resolves.toBeNull();
+  });
+
+  it('uses the providers named in METADATA_PROVIDERS', () => {
+    const original = process.env.METADATA_PROVIDERS;
+    try {
+      process.env.METADATA_PROVIDERS = 'offline, nope';
+      expect(activeProviders()).toEqual([offlineProvider]);
+      delete process.env.METADATA_PROVIDERS;
+      expect(activeProviders()).toEqual([steamAppDetailsProvider, offlineProvider]);
+    } finally {
+      if (original === undefined) delete process.env.METADATA_PROVIDERS;
+      else process.env.METADATA_PROVIDERS = original;
+    }
+  });
+});
+
+describe('game metadata service', () => {
+  const entry = { platform: 'steam', gameId: '292030', title: 'The Witcher 3: Wild Hunt' };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    GameMetadata.findOneAndUpdate.mockImplementation((filter, update) => ({ lean: async () => ({ ...filter, ...update.$set }) }));
+  });
+
+  it('caches the first provider that knows the game', async () => {
+    axios.get.mockResolvedValue({ data: { 292030: { success: false } } });
+
+    const saved = await refreshMetadata(entry, [steamAppDetailsProvider, offlineProvider]);
+
+    expect(saved).toEqual(expect.objectContaining({ found: true, provider: 'offline', releaseYear: 2015 }));
+    expect(GameMetadata.findOneAndUpdate).toHaveBeenCalledWith(
+      { platform: 'steam', gameId: '292030' },
+      expect.anything(),
+      expect.objectContaining({ upsert: true })
+    );
+  });
+
+  it('remembers games no provider knows, but not provider failures', async () => {
+    const unknown = { platform: 'epic', gameId: 'x', title: 'Unknown Game' };
+    await expect(refreshMetadata(unknown, [offlineProvider])).resolves.toEqual(expect.objectContaining({ found: false }));
+
+    axios.get.mockRejectedValue(Object.assign(new Error('Too Many Requests'), { response: { status: 429 } }));
+    await expect(refreshMetadata({ platform: 'steam', gameId: '999', title: 'Unknown Game' }, [steamAppDetailsProvider, offlineProvider])).resolves.toBeNull();
+    expect(GameMetadata.findOneAndUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('looks up queued library games once each in the background', async () => {
+    process.env.METADATA_PROVIDERS = 'offline';
+    try {
+      const hades = libraryGame({ platform: 'steam', gameId: 1145360, title: 'Hades' });
+      await queueMetadataLookups([hades, hades, libraryGame({ platform: 'psn', gameId: 'NPWR1', title: 'Astro Bot' })]);
+    } finally {
+      delete process.env.METADATA_PROVIDERS;
+    }
+
+    expect(GameMetadata.findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(GameMetadata.findOneAndUpdate).toHaveBeenCalledWith({ platform: 'steam', gameId: '1145360' }, expect.anything(), expect.anything());
+  });
+
+  it('applies found metadata to a library game and tells when it is stale', () => {
+    const game = libraryGame({ platform: 'steam', gameId: 620, title: 'Portal 2' });
+    const metadata = { found: true, genres: ['Puzzle'], releaseYear: 2011, releaseDate: new Date('2011-04-18T00:00:00Z'), developers: ['Valve'], publishers: ['Valve'], fetchedAt: new Date() };
+
+    expect(applyMetadata(game, metadata)).toEqual(expect.objectContaining({ genre: ['Puzzle'], releaseYear: 2011, releaseDate: '2011-04-18T00:00:00.000Z' }));
+    expect(applyMetadata(game, { ...metadata, found: false })).toBe(game);
+    expect(isFresh(metadata)).toBe(true);
+    expect(isFresh({ found: false, fetchedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000) })).toBe(false);
+  });
+});
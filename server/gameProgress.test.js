@@ -0,0 +1,95 @@
+const request = require('supertest');
+const express = require('express');
+const GameProgress = require('./models/GameProgress');
+const libraryRoutes = require('./routes/library');
+const { GameProgressError, setPlayStatus, withPlayStatus } = require('./services/gameProgress');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/GameProgress', () => ({
+  bulkWrite: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+describe('play status', () => {
+  const user = { _id: 'user-object-id', id: 'user-object-id' };
+  let app;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.user = req.get('x-test-user') ? user : undefined;
+      next();
+    });
+    app.use('/api/library', libraryRoutes);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('gives every entry of the game the same status', async () => {
+    await expect(setPlayStatus(user, ['steam-292030', 'gog-1207664643', 'steam-292030'], 'playing'))
+      .resolves.toEqual({ gameIds: ['steam-292030', 'gog-1207664643'], playStatus: 'playing' });
+
+    const operations = GameProgress.bulkWrite.mock.calls[0][0];
+    expect(operations).toHaveLength(2);
+    expect(operations[1]).toEqual({
+      updateOne: {
+        filter: { userId: 'user-object-id', gameId: 'gog-1207664643' },
+        update: { $set: { playStatus: 'playing', updatedAt: expect.any(Date) } },
+        upsert: true,
+      },
+    });
+  });
+
+  it('clears the status with null', async () => {
+    await setPlayStatus(user, ['manual-665f00000000000000000002'], null);
+
+    expect(GameProgress.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: { $in: ['manual-665f00000000000000000002'] } });
+    expect(GameProgress.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid requests', async () => {
+    await expect(setPlayStatus(user, [], 'playing')).rejects.toBeInstanceOf(GameProgressError);
+    await expect(setPlayStatus(user, ['Portal 2'], 'playing')).rejects.toThrow(/library game ids/);
+    await expect(setPlayStatus(user, ['steam-620'], 'finished')).rejects.toThrow(/playStatus must be one of/);
+    await expect(setPlayStatus(user, ['steam-620'])).rejects.toThrow(/playStatus must be one of/);
+    expect(GameProgress.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('takes the status set last for a game whose entries had different ones', () => {
+    const games = [
+      { id: 'steam-292030', entries: [{ id: 'steam-292030' }, { id: 'gog-1207664643' }] },
+      { id: 'steam-620' },
+    ];
+    const progress = [
+      { gameId: 'steam-292030', playStatus: 'abandoned', updatedAt: new Date('2024-01-01T00:00:00Z') },
+      { gameId: 'gog-1207664643', playStatus: 'hundred_percent', updatedAt: new Date('2024-03-01T00:00:00Z') },
+    ];
+
+    const [witcher, portal] = withPlayStatus(games, progress);
+
+    expect(witcher.playStatus).toBe('hundred_percent');
+    expect(portal).toBe(games[1]);
+  });
+
+  it('PUT /api/library/status answers 400 for an unknown status', async () => {
+    const saved = await request(app).put('/api/library/status').set('x-test-user', '1')
+      .send({ gameIds: ['steam-620'], playStatus: 'backlog' });
+    const invalid = await request(app).put('/api/library/status').set('x-test-user', '1')
+      .send({ gameIds: ['steam-620'], playStatus: 'finished' });
+    const anonymous = await request(app).put('/api/library/status').send({ gameIds: ['steam-620'], playStatus: 'backlog' });
+
+    expect(saved.status).toBe(200);
+    expect(saved.body).toEqual({ gameIds: ['steam-620'], playStatus: 'backlog' });
+    expect(invalid.status).toBe(400);
+    expect(anonymous.status).toBe(401);
+  });
+});
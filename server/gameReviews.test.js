@@ -0,0 +1,100 @@
+const request = require('supertest');
+const express = require('express');
+const GameReview = require('./models/GameReview');
+const libraryRoutes = require('./routes/library');
+const { GameReviewError, saveReview, deleteReview, withReviews } = require('./services/gameReviews');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/GameReview', () => ({
+  bulkWrite: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+describe('game reviews', () => {
+  const user = { _id: 'user-object-id', id: 'user-object-id' };
+  let app;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.user = req.get('x-test-user') ? user : undefined;
+      next();
+    });
+    app.use('/api/library', libraryRoutes);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('saves the review on every entry of the game and removes the fields left out', async () => {
+    const { review } = await saveReview(user, {
+      gameIds: ['steam-292030', 'gog-1207664643'],
+      score: '9',
+      review: '## Best RPG\nThe *Bloody Baron* quest.',
+      notes: '',
+      finishedAt: '2024-03-10',
+    });
+
+    expect(review).toEqual({
+      score: 9,
+      review: '## Best RPG\nThe *Bloody Baron* quest.',
+      finishedAt: new Date('2024-03-10'),
+      updatedAt: expect.any(Date),
+    });
+    const operations = GameReview.bulkWrite.mock.calls[0][0];
+    expect(operations.map(operation => operation.updateOne.filter.gameId)).toEqual(['steam-292030', 'gog-1207664643']);
+    expect(operations[0].updateOne).toEqual(expect.objectContaining({
+      update: {
+        $set: { score: 9, review: '## Best RPG\nThe *Bloody Baron* quest.', finishedAt: new Date('2024-03-10'), updatedAt: expect.any(Date) },
+        $unset: { notes: '' },
+      },
+      upsert: true,
+    }));
+  });
+
+  it('rejects invalid reviews', async () => {
+    await expect(saveReview(user, { gameIds: ['steam-620'], score: 11 })).rejects.toThrow(/from 1 to 10/);
+    await expect(saveReview(user, { gameIds: ['steam-620'], score: 7.5 })).rejects.toBeInstanceOf(GameReviewError);
+    await expect(saveReview(user, { gameIds: ['steam-620'], finishedAt: 'someday' })).rejects.toThrow(/'finishedAt' must be a date/);
+    await expect(saveReview(user, { gameIds: ['steam-620'], review: '  ' })).rejects.toThrow(/use DELETE/);
+    await expect(saveReview(user, { gameIds: 'steam-620', score: 8 })).rejects.toThrow(/library game ids/);
+    expect(GameReview.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('deletes the review of every entry given', async () => {
+    await expect(deleteReview(user, { gameIds: ['steam-620', 'steam-620'] })).resolves.toEqual({ gameIds: ['steam-620'] });
+    expect(GameReview.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: { $in: ['steam-620'] } });
+  });
+
+  it('takes the review saved last for a game whose entries had different ones', () => {
+    const games = [{ id: 'steam-292030', entries: [{ id: 'steam-292030' }, { id: 'gog-1207664643' }] }];
+    const reviews = [
+      { gameId: 'steam-292030', score: 6, updatedAt: new Date('2024-01-01T00:00:00Z') },
+      { gameId: 'gog-1207664643', score: 10, notes: 'Replay on death march', updatedAt: new Date('2024-03-01T00:00:00Z') },
+    ];
+
+    expect(withReviews(games, reviews)[0].review).toEqual({ score: 10, notes: 'Replay on death march', updatedAt: '2024-03-01T00:00:00.000Z' });
+  });
+
+  it('PUT and DELETE /api/library/review answer 400 for invalid requests', async () => {
+    const saved = await request(app).put('/api/library/review').set('x-test-user', '1').send({ gameIds: ['steam-620'], score: 8 });
+    const invalid = await request(app).put('/api/library/review').set('x-test-user', '1').send({ gameIds: ['steam-620'], score: 0 });
+    const deleted = await request(app).delete('/api/library/review').set('x-test-user', '1').send({ gameIds: ['steam-620'] });
+    const anonymous = await request(app).delete('/api/library/review').send({ gameIds: ['steam-620'] });
+
+    expect(saved.status).toBe(200);
+    expect(saved.body.review.score).toBe(8);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toMatch(/'score'/);
+    expect(deleted.status).toBe(200);
+    expect(anonymous.status).toBe(401);
+  });
+});
@@ -0,0 +1,146 @@
+const axios = require('axios');
+const User = require('./models/User');
+const gogAdapter = require('./adapters/gogAdapter');
+const { translateUpstreamError } = require('./adapters/upstreamErrors');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('axios');
+
+jest.mock('./models/User', () => ({
+  findById: jest.fn(),
+  updateOne: jest.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+describe('GOG adapter', () => {
+  const ENV_KEYS = ['GOG_CLIENT_ID', 'GOG_CLIENT_SECRET', 'GOG_OAUTH_CALLBACK_URL'];
+  const savedEnv = {};
+  let user;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    ENV_KEYS.forEach(key => { savedEnv[key] = process.env[key]; });
+    process.env.GOG_CLIENT_ID = 'gog-client';
+    process.env.GOG_CLIENT_SECRET = 'gog-secret';
+    delete process.env.GOG_OAUTH_CALLBACK_URL;
+    user = {
+      _id: 'user-object-id',
+      id: 'user-object-id',
+      gogUserId: '48628349957132247',
+      gogAccessToken: 'access',
+      gogRefreshToken: 'refresh',
+      gogTokenExpiresAt: new Date(Date.now() + HOUR),
+    };
+  });
+
+  afterEach(() => {
+    ENV_KEYS.forEach(key => {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    });
+  });
+
+  it("sends users to GOG's login page with the Galaxy redirect unless a callback is configured", () => {
+    const url = new URL(gogAdapter.authorizationUrl());
+    expect(url.origin + url.pathname).toBe('https://auth.gog.com/auth');
+    expect(url.searchParams.get('client_id')).toBe('gog-client');
+    expect(url.searchParams.get('redirect_uri')).toBe('https://embed.gog.com/on_login_success?origin=client');
+    expect(gogAdapter.redirectsToServer()).toBe(false);
+
+    process.env.GOG_OAUTH_CALLBACK_URL = 'http://localhost:3000/api/gog/callback';
+    expect(new URL(gogAdapter.authorizationUrl()).searchParams.get('redirect_uri')).toBe('http://localhost:3000/api/gog/callback');
+    expect(gogAdapter.redirectsToServer()).toBe(true);
+  });
+
+  it('exchanges an authorization code for the tokens stored on the user', async () => {
+    axios.get.mockResolvedValueOnce({ data: { access_token: 'a1', refresh_token: 'r1', expires_in: 3600, user_id: '48628349957132247' } });
+
+    const fields = await gogAdapter.exchangeCode('the-code');
+
+    expect(axios.get).toHaveBeenCalledWith('https://auth.gog.com/token', {
+      params: {
+        client_id: 'gog-client',
+        client_secret: 'gog-secret',
+        grant_type: 'authorization_code',
+        code: 'the-code',
+        redirect_uri: 'https://embed.gog.com/on_login_success?origin=client',
+      },
+    });
+    expect(fields).toEqual({
+      gogUserId: '48628349957132247',
+      gogAccessToken: 'a1',
+      gogRefreshToken: 'r1',
+      gogTokenExpiresAt: expect.any(Date),
+    });
+  });
+
+  it('pages through the owned games with the stored access token', async () => {
+    axios.get
+      .mockResolvedValueOnce({ data: { products: [{ id: 1207658924, title: 'The Witcher 3', image: '//images.gog.com/abc', url: '/game/the_witcher_3' }], totalPages: 2 } })
+      .mockResolvedValueOnce({ data: { products: [{ id: 1495134320, title: 'Cyberpunk 2077' }], totalPages: 2 } });
+
+    const products = await gogAdapter.fetchLibrary({ user });
+
+    expect(products.map(gogAdapter.gameId)).toEqual([1207658924, 1495134320]);
+    expect(axios.get).toHaveBeenLastCalledWith('https://embed.gog.com/account/getFilteredProducts', {
+      headers: { Authorization: 'Bearer access' },
+      params: { mediaType: 1, page: 2 },
+    });
+    expect(gogAdapter.normalize(products[0], { user })).toEqual({
+      userId: 'user-object-id',
+      gogUserId: '48628349957132247',
+      productId: 1207658924,
+      title: 'The Witcher 3',
+      image: 'https://images.gog.com/abc_196.jpg',
+      url: '/game/the_witcher_3',
+      worksOn: undefined,
+    });
+  });
+
+  it('refreshes an expired access token before syncing and keeps the refresh token when GOG does not rotate it', async () => {
+    user.gogTokenExpiresAt = new Date(Date.now() - HOUR);
+    axios.get
+      .mockResolvedValueOnce({ data: { access_token: 'fresh', expires_in: 3600 } })
+      .mockResolvedValueOnce({ data: { products: [], totalPages: 1 } });
+
+    await gogAdapter.fetchLibrary({ user });
+
+    expect(axios.get.mock.calls[0][1].params).toEqual(expect.objectContaining({ grant_type: 'refresh_token', refresh_token: 'refresh' }));
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: 'user-object-id', gogRefreshToken: { $exists: true } }, {
+      $set: { gogAccessToken: 'fresh', gogRefreshToken: 'refresh', gogTokenExpiresAt: expect.any(Date) },
+    });
+    expect(axios.get.mock.calls[1][1].headers).toEqual({ Authorization: 'Bearer fresh' });
+  });
+
+  it('only syncs users that linked GOG and reloads them by id for background jobs', async () => {
+    expect(gogAdapter.accountForUser({ _id: 'u1' })).toBeNull();
+    expect(gogAdapter.accountKey({ user })).toBe('user-object-id');
+
+    User.findById.mockResolvedValueOnce(user);
+    await expect(gogAdapter.accountFromKey('user-object-id')).resolves.toEqual({ user });
+    User.findById.mockResolvedValueOnce({ ...user, gogRefreshToken: undefined });
+    await expect(gogAdapter.accountFromKey('user-object-id')).resolves.toBeNull();
+  });
+
+  it('keeps the response shape the dashboard renders', () => {
+    expect(gogAdapter.toResponse({ productId: 1207658924, title: 'The Witcher 3', image: 'https://images.gog.com/abc_196.jpg' })).toEqual(expect.objectContaining({
+      appID: 1207658924,
+      name: 'The Witcher 3',
+      imgIconURL: 'https://images.gog.com/abc_196.jpg',
+      achievements: { unlocked: 0, total: 0 },
+    }));
+  });
+
+  it('reports an invalid or revoked grant as an expired session', () => {
+    const { status, body } = translateUpstreamError({ response: { status: 400, data: { error: 'invalid_grant' } } }, gogAdapter);
+    expect(status).toBe(401);
+    expect(body.error).toMatch(/connect your GOG account again/);
+  });
+});
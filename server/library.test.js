@@ -0,0 +1,456 @@
+const GalaxyGame = require('./models/GalaxyGame');
+const GameGroupOverride = require('./models/GameGroupOverride');
+const ManualGame = require('./models/ManualGame');
+const GameProgress = require('./models/GameProgress');
+const GameReview = require('./models/GameReview');
+const GameTags = require('./models/GameTags');
+const GameCollection = require('./models/GameCollection');
+const { findStoredGames } = require('./adapters/libraryCache');
+const { ensureFreshSync } = require('./services/syncScheduler');
+const { LibraryGroupingError, getUnifiedLibrary, mergeLibraryGames, splitLibraryGame } = require('./services/library');
+const { normalizeTitle, groupGames } = require('./services/gameMatching');
+const { libraryGame } = require('./adapters/libraryGame');
+const { getCachedMetadata, queueMetadataLookups } = require('./services/gameMetadata');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./adapters/libraryCache', () => ({
+  findStoredGames: jest.fn(),
+}));
+
+jest.mock('./services/syncScheduler', () => ({
+  ...jest.requireActual('./services/syncScheduler'),
+  ensureFreshSync: jest.fn(),
+}));
+
+jest.mock('./models/GalaxyGame', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./services/gameMetadata', () => ({
+  ...jest.requireActual('./services/gameMetadata'),
+  getCachedMetadata: jest.fn(),
+  queueMetadataLookups: jest.fn(),
+}));
+
+jest.mock('./models/GameGroupOverride', () => ({
+  find: jest.fn(),
+  bulkWrite: jest.fn(),
+}));
+
+jest.mock('./models/ManualGame', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./models/GameProgress', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./models/GameReview', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./models/GameTags', () => ({
+  find: jest.fn(),
+}));
+
+jest.mock('./models/GameCollection', () => ({
+  find: jest.fn(),
+}));
+
+const completedSync = { state: 'completed', inProgress: false, progress: { processed: 1, total: 1 }, lastSyncedAt: null, lastError: null };
+
+describe('getUnifiedLibrary', () => {
+  const user = { _id: 'u1', id: 'u1', steamId: '7656', psnAccountId: 'psn-1', psnRefreshToken: 'refresh' };
+  let storedGames;
+  let galaxyGames;
+  let overrides;
+  let manualGames;
+  let progress;
+  let reviews;
+  let tags;
+  let collections;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    storedGames = {
+      steam: [{ steamId: '7656', appId: 730, name: 'Counter-Strike 2', playtimeForever: 125, achievements: { unlocked: 5, total: 10 } }],
+      psn: [{
+        npCommunicationId: 'NPWR1',
+        trophyTitleName: 'Astro Bot',
+        trophyTitlePlatform: 'PS5',
+        lastUpdatedDateTime: new Date('2024-05-01T00:00:00Z'),
+        definedTrophies: { platinum: 1, gold: 2, silver: 3, bronze: 4 },
+        earnedTrophies: { platinum: 0, gold: 1, silver: 1, bronze: 2 },
+      }],
+      epic: [{ appName: 'Quail', title: 'Control', isInstalled: true }],
+      gog: [],
+      xbox: [],
+    };
+    galaxyGames = [];
+    overrides = [];
+    manualGames = [];
+    progress = [];
+    reviews = [];
+    tags = [];
+    collections = [];
+    findStoredGames.mockImplementation(async adapter => storedGames[adapter.platform]);
+    ensureFreshSync.mockResolvedValue(completedSync);
+    GalaxyGame.find.mockImplementation(() => ({ lean: async () => galaxyGames }));
+    GameGroupOverride.find.mockImplementation(() => ({ lean: async () => overrides }));
+    ManualGame.find.mockImplementation(() => ({ lean: async () => manualGames }));
+    GameProgress.find.mockImplementation(() => ({ lean: async () => progress }));
+    GameReview.find.mockImplementation(() => ({ lean: async () => reviews }));
+    GameTags.find.mockImplementation(() => ({ lean: async () => tags }));
+    GameCollection.find.mockImplementation(() => ({ sort: () => ({ lean: async () => collections }) }));
+    getCachedMetadata.mockResolvedValue(new Map());
+  });
+
+  it('returns the normalized games of every platform with per-platform status', async () => {
+    const { games, platforms } = await getUnifiedLibrary(user);
+
+    expect(games.map(game => game.id)).toEqual(['psn-NPWR1', 'epic-Quail', 'steam-730']);
+    const steamEntry = {
+      id: 'steam-730',
+      appId: '730',
+      title: 'Counter-Strike 2',
+      platform: 'steam',
+      coverImage: 'https://cdn.akamai.steamstatic.com/steam/apps/730/header.jpg',
+      playtime: 2,
+      lastPlayed: new Date(0).toISOString(),
+      achievements: { unlocked: 5, total: 10 },
+      status: 'not_installed',
+      genre: ['Unknown Genre'],
+      releaseYear: 0,
+    };
+    expect(games.find(game => game.id === 'steam-730')).toEqual({ ...steamEntry, entries: [steamEntry] });
+    expect(games.find(game => game.id === 'psn-NPWR1')).toEqual(expect.objectContaining({
+      achievements: {
+        unlocked: 4,
+        total: 10,
+        earnedTrophies: { platinum: 0, gold: 1, silver: 1, bronze: 2 },
+        definedTrophies: { platinum: 1, gold: 2, silver: 3, bronze: 4 },
+      },
+      lastPlayed: '2024-05-01T00:00:00.000Z',
+      genre: ['Unknown Genre'],
+      systems: ['PS5'],
+    }));
+    expect(games.find(game => game.id === 'epic-Quail').status).toBe('installed');
+
+    expect(platforms.steam).toEqual({ platform: 'steam', label: 'Steam', linked: true, gameCount: 1, sync: completedSync, error: null });
+    // Imported Epic games are listed without a linked account, and nothing is synced for them
+    expect(platforms.epic).toEqual(expect.objectContaining({ linked: false, gameCount: 1, sync: null }));
+    expect(platforms.xbox).toEqual(expect.objectContaining({ linked: false, gameCount: 0, sync: null }));
+    expect(ensureFreshSync).toHaveBeenCalledTimes(2); // Steam and PSN
+  });
+
+  it('groups games added by hand with the synced ones and keeps what the user entered', async () => {
+    manualGames = [
+      { _id: '665f00000000000000000001', title: 'Counter-Strike 2', platform: 'Steam Deck', format: 'digital', playtimeMinutes: 600, status: 'owned', genre: [] },
+      {
+        _id: '665f00000000000000000002',
+        title: 'The Legend of Zelda: Tears of the Kingdom',
+        platform: 'Nintendo Switch',
+        format: 'physical',
+        playtimeMinutes: 0,
+        status: 'owned',
+        genre: ['Adventure'],
+        releaseYear: 2023,
+        notes: 'Collector edition, steelbook',
+      },
+    ];
+
+    const { games } = await getUnifiedLibrary(user);
+
+    expect(games.find(game => game.id === 'manual-665f00000000000000000001')).toEqual(expect.objectContaining({
+      playtime: 12, // 10h by hand plus 2h on Steam
+      entries: [expect.objectContaining({ id: 'steam-730' }), expect.objectContaining({ id: 'manual-665f00000000000000000001', platformName: 'Steam Deck' })],
+    }));
+    expect(games.find(game => game.title === 'The Legend of Zelda: Tears of the Kingdom')).toEqual(expect.objectContaining({
+      id: 'manual-665f00000000000000000002',
+      appId: '665f00000000000000000002',
+      platform: 'manual',
+      platformName: 'Nintendo Switch',
+      format: 'physical',
+      genre: ['Adventure'],
+      releaseYear: 2023,
+      notes: 'Collector edition, steelbook',
+      coverImage: '/placeholder.svg',
+    }));
+    expect(getCachedMetadata).toHaveBeenCalledWith(expect.not.arrayContaining([expect.objectContaining({ platform: 'manual' })]));
+  });
+
+  it('carries the play status of a game, the one set last when its entries had different ones', async () => {
+    manualGames = [{ _id: '665f00000000000000000001', title: 'Counter-Strike 2', platform: 'Steam Deck', playtimeMinutes: 600, genre: [] }];
+    progress = [
+      { gameId: 'steam-730', playStatus: 'backlog', updatedAt: new Date('2024-01-01T00:00:00Z') },
+      { gameId: 'manual-665f00000000000000000001', playStatus: 'completed', updatedAt: new Date('2024-06-01T00:00:00Z') },
+      { gameId: 'epic-Quail', playStatus: 'playing', updatedAt: new Date('2024-02-01T00:00:00Z') },
+    ];
+
+    const { games } = await getUnifiedLibrary(user);
+
+    expect(games.find(game => game.title === 'Counter-Strike 2').playStatus).toBe('completed');
+    expect(games.find(game => game.id === 'epic-Quail').playStatus).toBe('playing');
+    expect(games.find(game => game.id === 'psn-NPWR1')).not.toHaveProperty('playStatus');
+  });
+
+  it('carries the review of a game', async () => {
+    reviews = [{
+      gameId: 'epic-Quail',
+      score: 9,
+      review: '**Great** atmosphere',
+      finishedAt: new Date('2024-04-02T00:00:00Z'),
+      updatedAt: new Date('2024-04-03T00:00:00Z'),
+    }];
+
+    const { games } = await getUnifiedLibrary(user);
+
+    expect(games.find(game => game.id === 'epic-Quail').review).toEqual({
+      score: 9,
+      review: '**Great** atmosphere',
+      finishedAt: '2024-04-02T00:00:00.000Z',
+      updatedAt: '2024-04-03T00:00:00.000Z',
+    });
+    expect(games.find(game => game.id === 'steam-730')).not.toHaveProperty('review');
+  });
+
+  it('carries the tags of every entry of a game and the collections it is in', async () => {
+    manualGames = [{ _id: '665f00000000000000000001', title: 'Counter-Strike 2', platform: 'Steam Deck', playtimeMinutes: 600, genre: [] }];
+    tags = [
+      { gameId: 'steam-730', tags: ['competitive', 'online'] },
+      { gameId: 'manual-665f00000000000000000001', tags: ['handheld', 'online'] },
+    ];
+    collections = [
+      { _id: '665f0000000000000000000a', name: 'Co-op with Sam', gameIds: ['epic-Quail'] },
+      { _id: '665f0000000000000000000b', name: 'Shooters', gameIds: ['manual-665f00000000000000000001', 'steam-gone'] },
+    ];
+
+    const { games, collections: listed } = await getUnifiedLibrary(user);
+
+    const counterStrike = games.find(game => game.title === 'Counter-Strike 2');
+    expect(counterStrike.tags).toEqual(['competitive', 'handheld', 'online']);
+    expect(counterStrike.collectionIds).toEqual(['665f0000000000000000000b']);
+    expect(games.find(game => game.id === 'epic-Quail').collectionIds).toEqual(['665f0000000000000000000a']);
+    expect(games.find(game => game.id === 'psn-NPWR1')).not.toHaveProperty('tags');
+    expect(listed.map(collection => collection.name)).toEqual(['Co-op with Sam', 'Shooters']);
+    expect(listed[1]).toEqual(expect.objectContaining({ id: '665f0000000000000000000b', gameIds: ['manual-665f00000000000000000001', 'steam-gone'] }));
+  });
+
+  it('lists an unlinked Xbox library looked up by XUID', async () => {
+    storedGames.xbox = [{ xuid: '2533', titleId: '1', name: 'Halo', achievements: { currentAchievements: 3, totalAchievements: 9 } }];
+
+    const { games, platforms } = await getUnifiedLibrary(user, { lookups: { xbox: { xuid: '2533' } } });
+
+    expect(findStoredGames).toHaveBeenCalledWith(expect.objectContaining({ platform: 'xbox' }), { xuid: '2533' });
+    expect(games.find(game => game.id === 'xbox-1').achievements).toEqual(expect.objectContaining({ unlocked: 3, total: 9 }));
+    expect(platforms.xbox).toEqual(expect.objectContaining({ linked: false, gameCount: 1, sync: completedSync }));
+  });
+
+  it("serves each platform's own last played date", async () => {
+    const steamAdapter = require('./adapters/steamAdapter');
+    const xboxAdapter = require('./adapters/xboxAdapter');
+    storedGames.steam = [steamAdapter.normalize({ appid: 730, name: 'Counter-Strike 2', playtime_forever: 125, rtime_last_played: 1717243200 }, { steamId: '7656' })];
+    storedGames.xbox = [xboxAdapter.normalize({
+      titleId: '1',
+      name: 'Halo',
+      titleHistory: { lastTimePlayed: '2024-05-20T18:00:00.000Z' },
+    }, { xuid: '2533' })];
+    storedGames.psn[0].lastPlayed = new Date('2024-05-10T00:00:00Z');
+
+    const { games } = await getUnifiedLibrary(user, { lookups: { xbox: { xuid: '2533' } } });
+
+    expect(games.find(game => game.id === 'steam-730').lastPlayed).toBe('2024-06-01T12:00:00.000Z');
+    expect(games.find(game => game.id === 'xbox-1').lastPlayed).toBe('2024-05-20T18:00:00.000Z');
+    expect(games.find(game => game.id === 'psn-NPWR1').lastPlayed).toBe('2024-05-10T00:00:00.000Z'); // Not the trophy update
+  });
+
+  it('fills gaps from the GOG Galaxy import and adds Galaxy-only games', async () => {
+    galaxyGames = [
+      { platform: 'psn', platformGameId: 'NPWR1', playtimeMinutes: 600, lastPlayed: new Date('2023-01-01'), achievements: { unlocked: 0, total: 0 } },
+      { platform: 'steam', platformGameId: '730', playtimeMinutes: 9999, achievements: { unlocked: 1, total: 1 } },
+      { platform: 'xbox', platformGameId: '42', title: 'Forza', playtimeMinutes: 120, achievements: { unlocked: 2, total: 5 } },
+      { platform: 'uplay', platformGameId: '7', title: 'Ignored' },
+    ];
+
+    const { games } = await getUnifiedLibrary(user);
+
+    const psnGame = games.find(game => game.id === 'psn-NPWR1');
+    expect(psnGame.playtime).toBe(10);
+    expect(psnGame.lastPlayed).toBe('2024-05-01T00:00:00.000Z'); // The platform's own date wins
+    expect(games.find(game => game.id === 'steam-730')).toEqual(expect.objectContaining({
+      playtime: 2,
+      achievements: { unlocked: 5, total: 10 },
+    }));
+    expect(games.find(game => game.id === 'xbox-42')).toEqual(expect.objectContaining({ title: 'Forza', playtime: 2, status: 'not_installed' }));
+    expect(games.some(game => game.title === 'Ignored')).toBe(false);
+  });
+
+  it('reports a platform that fails to load without hiding the others', async () => {
+    findStoredGames.mockImplementation(async adapter => {
+      if (adapter.platform === 'psn') throw new Error('connection reset');
+      return storedGames[adapter.platform];
+    });
+
+    const { games, platforms } = await getUnifiedLibrary(user);
+
+    expect(games.map(game => game.platform)).toEqual(['epic', 'steam']);
+    expect(platforms.psn).toEqual(expect.objectContaining({ linked: true, gameCount: 0, error: 'Failed to load PSN games.' }));
+  });
+
+  it('fills genres and release years from cached metadata and queues lookups for the rest', async () => {
+    getCachedMetadata.mockResolvedValue(new Map([
+      ['steam-730', {
+        platform: 'steam',
+        gameId: '730',
+        found: true,
+        genres: ['Action', 'Free To Play'],
+        releaseDate: new Date('2012-08-21T00:00:00Z'),
+        releaseYear: 2012,
+        developers: ['Valve'],
+        publishers: ['Valve'],
+        description: 'Tactical shooter.',
+        fetchedAt: new Date(),
+      }],
+    ]));
+
+    const { games } = await getUnifiedLibrary(user);
+
+    expect(games.find(game => game.id === 'steam-730')).toEqual(expect.objectContaining({
+      genre: ['Action', 'Free To Play'],
+      releaseYear: 2012,
+      releaseDate: '2012-08-21T00:00:00.000Z',
+      developers: ['Valve'],
+      description: 'Tactical shooter.',
+    }));
+    expect(queueMetadataLookups).toHaveBeenCalledWith([
+      expect.objectContaining({ id: 'psn-NPWR1' }),
+      expect.objectContaining({ id: 'epic-Quail' }),
+    ]);
+  });
+
+  it('still serves the library when the metadata cache cannot be read', async () => {
+    getCachedMetadata.mockRejectedValue(new Error('connection reset'));
+
+    const { games } = await getUnifiedLibrary(user);
+
+    expect(games).toHaveLength(3);
+    expect(queueMetadataLookups).not.toHaveBeenCalled();
+  });
+
+  it('groups the same game owned on several platforms into one entry', async () => {
+    storedGames.gog = [{ productId: 1207664643, title: 'The Witcher 3: Wild Hunt - Game of the Year Edition', playtimeMinutes: 6000 }];
+    storedGames.steam.push({ steamId: '7656', appId: 292030, name: 'The Witcher® 3: Wild Hunt', playtimeForever: 120 });
+
+    const { games, platforms } = await getUnifiedLibrary(user);
+
+    const witcher = games.find(game => game.entries.length > 1);
+    expect(witcher).toEqual(expect.objectContaining({ id: 'gog-1207664643', platform: 'gog', playtime: 102 }));
+    expect(witcher.entries.map(entry => entry.id)).toEqual(['steam-292030', 'gog-1207664643']);
+    expect(games).toHaveLength(4);
+    // Platform counts are still per platform
+    expect(platforms.steam.gameCount).toBe(2);
+  });
+
+  it('applies the Galaxy release links and manual overrides', async () => {
+    storedGames.gog = [{ productId: 1, title: 'Counter Strike Two' }];
+    galaxyGames = [{ platform: 'steam', platformGameId: '730', releaseKey: 'steam_730', relatedReleaseKeys: ['gog_1'] }];
+
+    let { games } = await getUnifiedLibrary(user);
+    expect(games.find(game => game.id === 'steam-730').entries.map(entry => entry.id)).toEqual(['steam-730', 'gog-1']);
+
+    // Split off the GOG entry, and merge Astro Bot into Control
+    overrides = [
+      { gameId: 'gog-1', groupKey: 'k1' },
+      { gameId: 'psn-NPWR1', groupKey: 'k2' },
+      { gameId: 'epic-Quail', groupKey: 'k2' },
+    ];
+    ({ games } = await getUnifiedLibrary(user));
+    expect(games.map(game => game.entries.map(entry => entry.id))).toEqual(expect.arrayContaining([
+      ['steam-730'],
+      ['gog-1'],
+      ['epic-Quail', 'psn-NPWR1'],
+    ]));
+    expect(games).toHaveLength(3);
+  });
+});
+
+describe('normalizeTitle', () => {
+  it('ignores case, symbols, accents and edition names', () => {
+    expect(normalizeTitle('The Witcher® 3: Wild Hunt – Game of the Year Edition')).toBe('the witcher 3 wild hunt');
+    expect(normalizeTitle('Pokémon Snap')).toBe('pokemon snap');
+    expect(normalizeTitle("Demon's Souls™")).toBe(normalizeTitle("Demon's Souls"));
+    expect(normalizeTitle('DOOM Eternal Deluxe Edition')).toBe('doom eternal');
+    expect(normalizeTitle('GOTY')).toBe('goty'); // Never reduced to nothing
+  });
+});
+
+describe('groupGames', () => {
+  const entry = (platform, gameId, fields = {}) => libraryGame({ platform, gameId, title: 'Hades', ...fields });
+
+  it('sums playtime, keeps the latest play date and prefers the most played entry', () => {
+    const [game] = groupGames([
+      entry('steam', '1145360', { playtimeMinutes: 60, lastPlayed: '2023-01-01T00:00:00Z' }),
+      entry('xbox', '2', { playtimeMinutes: 600, lastPlayed: '2024-01-01T00:00:00Z', coverImage: 'hades.png', status: 'installed' }),
+    ]);
+
+    expect(game).toEqual(expect.objectContaining({
+      id: 'xbox-2',
+      platform: 'xbox',
+      playtime: 11,
+      lastPlayed: '2024-01-01T00:00:00.000Z',
+      coverImage: 'hades.png',
+      status: 'installed',
+    }));
+    expect(game.entries.map(({ id, playtime }) => [id, playtime])).toEqual([['steam-1145360', 1], ['xbox-2', 10]]);
+  });
+
+  it('keeps entries with their own override key apart', () => {
+    const games = groupGames([entry('steam', '1'), entry('gog', '2'), entry('epic', '3')], {
+      overrides: [{ gameId: 'epic-3', groupKey: 'solo' }],
+    });
+
+    expect(games.map(game => game.entries.length)).toEqual([2, 1]);
+  });
+});
+
+describe('manual grouping overrides', () => {
+  const user = { _id: 'u1', id: 'u1' };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('gives every merged entry the same new group key', async () => {
+    const result = await mergeLibraryGames(user, ['steam-1', 'gog-2', 'steam-1']);
+
+    expect(result.gameIds).toEqual(['steam-1', 'gog-2']);
+    const operations = GameGroupOverride.bulkWrite.mock.calls[0][0];
+    expect(operations.map(operation => operation.updateOne.filter)).toEqual([
+      { userId: 'u1', gameId: 'steam-1' },
+      { userId: 'u1', gameId: 'gog-2' },
+    ]);
+    expect(operations.every(operation => operation.updateOne.update.$set.groupKey === result.groupKey)).toBe(true);
+  });
+
+  it('gives a split entry a group key of its own', async () => {
+    const result = await splitLibraryGame(user, 'gog-2');
+
+    expect(GameGroupOverride.bulkWrite).toHaveBeenCalledWith([expect.objectContaining({
+      updateOne: expect.objectContaining({ filter: { userId: 'u1', gameId: 'gog-2' } }),
+    })]);
+    expect(result.groupKey).toEqual(expect.any(String));
+  });
+
+  it('rejects invalid requests', async () => {
+    await expect(mergeLibraryGames(user, ['steam-1'])).rejects.toThrow(LibraryGroupingError);
+    await expect(mergeLibraryGames(user, 'steam-1,gog-2')).rejects.toThrow('gameIds must be a list of library game ids.');
+    await expect(splitLibraryGame(user, undefined)).rejects.toThrow(LibraryGroupingError);
+    expect(GameGroupOverride.bulkWrite).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+const GameGroupOverride = require('./models/GameGroupOverride');
+const GameProgress = require('./models/GameProgress');
+const GameReview = require('./models/GameReview');
+const GameTags = require('./models/GameTags');
+const GameCollection = require('./models/GameCollection');
+const { moveLibraryEntryData } = require('./services/libraryEntries');
+
+jest.mock('./models/GameGroupOverride', () => ({ exists: jest.fn(), updateOne: jest.fn(), deleteMany: jest.fn() }));
+jest.mock('./models/GameProgress', () => ({ exists: jest.fn(), updateOne: jest.fn(), deleteMany: jest.fn() }));
+jest.mock('./models/GameReview', () => ({ exists: jest.fn(), updateOne: jest.fn(), deleteMany: jest.fn() }));
+jest.mock('./models/GameTags', () => ({ exists: jest.fn(), updateOne: jest.fn(), deleteMany: jest.fn() }));
+
+jest.mock('./models/GameCollection', () => ({
+  updateMany: jest.fn(),
+}));
+
+describe('moveLibraryEntryData', () => {
+  const user = { _id: 'user-object-id' };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    [GameGroupOverride, GameProgress, GameReview, GameTags].forEach(Model => Model.exists.mockResolvedValue(null));
+  });
+
+  it('moves the play status, review, tags and group correction to the new id', async () => {
+    await moveLibraryEntryData(user, 'psn-PPSA9', 'psn-NPWR9');
+
+    [GameGroupOverride, GameProgress, GameReview, GameTags].forEach(Model => {
+      expect(Model.updateOne).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: 'psn-PPSA9' }, { $set: { gameId: 'psn-NPWR9' } });
+      expect(Model.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('keeps what the new id already has and drops the old document', async () => {
+    GameReview.exists.mockResolvedValue({ _id: 'review1' });
+
+    await moveLibraryEntryData(user, 'psn-PPSA9', 'psn-NPWR9');
+
+    expect(GameReview.updateOne).not.toHaveBeenCalled();
+    expect(GameReview.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: 'psn-PPSA9' });
+  });
+
+  it('puts the new id in the old one\'s place in collections without listing a game twice', async () => {
+    await moveLibraryEntryData(user, 'psn-PPSA9', 'psn-NPWR9');
+
+    expect(GameCollection.updateMany).toHaveBeenNthCalledWith(1,
+      { userId: 'user-object-id', gameIds: { $all: ['psn-PPSA9', 'psn-NPWR9'] } },
+      { $pull: { gameIds: 'psn-PPSA9' } }
+    );
+    expect(GameCollection.updateMany).toHaveBeenNthCalledWith(2,
+      { userId: 'user-object-id', gameIds: 'psn-PPSA9' },
+      { $set: { 'gameIds.$': 'psn-NPWR9' } }
+    );
+  });
+});
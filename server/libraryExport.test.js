@@ -0,0 +1,158 @@
+const ExcelJS = require('exceljs');
+const request = require('supertest');
+const express = require('express');
+const libraryRoutes = require('./routes/library');
+const { getUnifiedLibrary } = require('./services/library');
+const { exportRecord, exportLibrary } = require('./services/libraryExport');
+const { libraryGame } = require('./adapters/libraryGame');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./services/library', () => ({
+  ...jest.requireActual('./services/library'),
+  getUnifiedLibrary: jest.fn(),
+}));
+
+const platforms = {
+  xbox: { platform: 'xbox', label: 'Xbox' },
+  psn: { platform: 'psn', label: 'PSN' },
+  steam: { platform: 'steam', label: 'Steam' },
+};
+
+const xboxEntry = libraryGame({
+  platform: 'xbox',
+  gameId: '1',
+  title: 'Hades',
+  achievements: { unlocked: 10, total: 49, currentGamerscore: 300, totalGamerscore: 1000 },
+});
+const psnEntry = libraryGame({
+  platform: 'psn',
+  gameId: 'NPWR1',
+  title: 'Hades',
+  playtimeMinutes: 40 * 60,
+  lastPlayed: '2024-05-01T20:00:00.000Z',
+  achievements: {
+    unlocked: 20,
+    total: 49,
+    earnedTrophies: { platinum: 0, gold: 2, silver: 6, bronze: 12 },
+    definedTrophies: { platinum: 1, gold: 6, silver: 12, bronze: 30 },
+  },
+});
+const hades = { ...psnEntry, entries: [xboxEntry, psnEntry], playStatus: 'playing', tags: ['roguelike', 'co-op'] };
+const portal = { ...libraryGame({ platform: 'steam', gameId: '620', title: '=Portal, "2"', playtimeMinutes: 600 }), entries: [] };
+
+// The first sheet of an .xlsx workbook
+async function readSheet(buffer) {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  return workbook.worksheets[0];
+}
+
+describe('library export', () => {
+  const user = { _id: 'user-object-id', id: 'user-object-id' };
+  const now = new Date('2024-06-01T12:00:00.000Z');
+  let app;
+
+  beforeAll(() => {
+    app = express();
+    app.use((req, res, next) => {
+      req.user = req.get('x-test-user') ? user : undefined;
+      next();
+    });
+    app.use('/api/library', libraryRoutes);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    getUnifiedLibrary.mockResolvedValue({ games: [hades, portal], platforms });
+  });
+
+  it('adds up the achievements, gamerscore and trophies of every platform of a game', () => {
+    expect(exportRecord(hades, platforms)).toEqual({
+      id: 'psn-NPWR1',
+      title: 'Hades',
+      platforms: ['Xbox', 'PSN'],
+      playtimeHours: 40,
+      lastPlayed: '2024-05-01T20:00:00.000Z',
+      achievements: { unlocked: 30, total: 98 },
+      gamerscore: { current: 300, total: 1000 },
+      trophies: {
+        earned: { platinum: 0, gold: 2, silver: 6, bronze: 12 },
+        total: { platinum: 1, gold: 6, silver: 12, bronze: 30 },
+      },
+      installStatus: 'owned',
+      playStatus: 'playing',
+      tags: ['roguelike', 'co-op'],
+    });
+    expect(exportRecord(portal, platforms)).toEqual(expect.objectContaining({
+      platforms: ['Steam'],
+      lastPlayed: null,
+      gamerscore: null,
+      trophies: null,
+      playStatus: null,
+      tags: [],
+    }));
+  });
+
+  it('writes one CSV row per game, quoted and safe to open in a spreadsheet', async () => {
+    const { contentType, filename, body } = await exportLibrary(user, 'csv', { now });
+    const [header, hadesRow, portalRow] = body.replace(/^\uFEFF/, '').trimEnd().split('\r\n');
+
+    expect(contentType).toBe('text/csv; charset=utf-8');
+    expect(filename).toBe('game-library-2024-06-01.csv');
+    expect(header.split(',')).toEqual([
+      'Title', 'Platforms', 'Playtime (hours)', 'Last played', 'Achievements unlocked', 'Achievements total',
+      'Gamerscore', 'Gamerscore total',
+      'Platinum trophies', 'Platinum trophies total', 'Gold trophies', 'Gold trophies total',
+      'Silver trophies', 'Silver trophies total', 'Bronze trophies', 'Bronze trophies total',
+      'Install status', 'Play status', 'Tags', 'Library id',
+    ]);
+    expect(hadesRow).toBe('Hades,"Xbox, PSN",40,2024-05-01,30,98,300,1000,0,1,2,6,6,12,12,30,owned,playing,"roguelike, co-op",psn-NPWR1');
+    expect(portalRow).toBe('"\'=Portal, ""2""",Steam,10,,0,0,,,,,,,,,,,owned,,,steam-620');
+  });
+
+  it('writes the records as JSON and the table as an xlsx workbook', async () => {
+    const json = await exportLibrary(user, 'json', { now });
+    const xlsx = await exportLibrary(user, 'xlsx', { now });
+
+    expect(JSON.parse(json.body)).toEqual({ exportedAt: '2024-06-01T12:00:00.000Z', games: [exportRecord(hades, platforms), exportRecord(portal, platforms)] });
+    expect(xlsx.filename).toBe('game-library-2024-06-01.xlsx');
+    const sheet = await readSheet(xlsx.body);
+    expect(sheet.name).toBe('Game library');
+    expect(sheet.views).toEqual([expect.objectContaining({ state: 'frozen', ySplit: 1 })]);
+    expect(sheet.getCell('A1').value).toBe('Title');
+    expect(sheet.getCell('A2').value).toBe('Hades');
+    expect(sheet.getCell('C2').value).toBe(40);
+    expect(sheet.getCell('D3').value).toBeNull(); // Never played
+    expect(sheet.getCell('A3').type).toBe(ExcelJS.ValueType.String); // Text is never a formula
+    expect(sheet.getCell('A3').value).toBe('=Portal, "2"');
+    expect(sheet.getCell('T3').value).toBe('steam-620');
+  });
+
+  it('serves the export as a download', async () => {
+    const csv = await request(app).get('/api/library/export?format=csv&xuid=2533').set('x-test-user', '1');
+    const xlsx = await request(app).get('/api/library/export?format=xlsx').set('x-test-user', '1')
+      .buffer(true).parse((res, callback) => {
+        const chunks = [];
+        res.on('data', chunk => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    const invalid = await request(app).get('/api/library/export?format=pdf').set('x-test-user', '1');
+    const anonymous = await request(app).get('/api/library/export?format=csv');
+
+    expect(csv.status).toBe(200);
+    expect(csv.headers['content-disposition']).toMatch(/^attachment; filename="game-library-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(csv.text).toContain('Hades');
+    expect(getUnifiedLibrary).toHaveBeenCalledWith(user, { lookups: { xbox: { xuid: '2533' } } });
+    expect(xlsx.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(xlsx.body.subarray(0, 2).toString()).toBe('PK');
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toMatch(/'format' must be one of csv, json, xlsx/);
+    expect(anonymous.status).toBe(401);
+  });
+});
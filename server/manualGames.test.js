@@ -0,0 +1,170 @@
+const request = require('supertest');
+const express = require('express');
+const ManualGame = require('./models/ManualGame');
+const GameGroupOverride = require('./models/GameGroupOverride');
+const GameProgress = require('./models/GameProgress');
+const GameReview = require('./models/GameReview');
+const GameTags = require('./models/GameTags');
+const GameCollection = require('./models/GameCollection');
+const libraryRoutes = require('./routes/library');
+const { ManualGameError, createManualGame, updateManualGame, deleteManualGame } = require('./services/manualGames');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/ManualGame', () => ({
+  find: jest.fn(),
+  create: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+  findOneAndDelete: jest.fn(),
+}));
+
+jest.mock('./models/GameGroupOverride', () => ({
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/GameProgress', () => ({
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/GameReview', () => ({
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/GameTags', () => ({
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/GameCollection', () => ({
+  updateMany: jest.fn(),
+}));
+
+const GAME_ID = '665f00000000000000000002';
+
+const storedGame = (overrides = {}) => ({
+  _id: GAME_ID,
+  userId: 'user-object-id',
+  title: 'The Legend of Zelda: Tears of the Kingdom',
+  platform: 'Nintendo Switch',
+  format: 'physical',
+  playtimeMinutes: 3000,
+  status: 'owned',
+  genre: ['Adventure'],
+  ...overrides,
+});
+
+describe('manual games', () => {
+  const user = { _id: 'user-object-id', id: 'user-object-id' };
+  let app;
+
+  beforeAll(() => {
+    app = express();
+    app.use(express.json());
+    app.use((req, res, next) => {
+      req.user = req.get('x-test-user') ? user : undefined;
+      next();
+    });
+    app.use('/api/library', libraryRoutes);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('creates a game from the fields sent and returns it as a library entry', async () => {
+    ManualGame.create.mockImplementation(async fields => ({ _id: GAME_ID, format: 'digital', status: 'owned', playtimeMinutes: 0, genre: [], ...fields }));
+
+    const game = await createManualGame(user, {
+      title: '  Celeste ',
+      platform: 'itch.io',
+      playtimeMinutes: 150,
+      genre: ['Platformer', ' Platformer', ''],
+      coverImage: 'https://img.itch.zone/celeste.png',
+      lastPlayed: '2024-06-01T20:00:00Z',
+      releaseYear: '2018',
+    });
+
+    expect(ManualGame.create).toHaveBeenCalledWith({
+      userId: 'user-object-id',
+      title: 'Celeste',
+      platform: 'itch.io',
+      playtimeMinutes: 150,
+      genre: ['Platformer'],
+      coverImage: 'https://img.itch.zone/celeste.png',
+      lastPlayed: new Date('2024-06-01T20:00:00Z'),
+      releaseYear: 2018,
+    });
+    expect(game).toEqual(expect.objectContaining({
+      id: `manual-${GAME_ID}`,
+      platform: 'manual',
+      platformName: 'itch.io',
+      format: 'digital',
+      playtime: 3,
+      lastPlayed: '2024-06-01T20:00:00.000Z',
+    }));
+  });
+
+  it('rejects invalid fields', async () => {
+    await expect(createManualGame(user, { platform: 'Battle.net' })).rejects.toThrow(/'title' is required/);
+    await expect(createManualGame(user, { title: 'Diablo IV', platform: 'Battle.net', format: 'cartridge' })).rejects.toBeInstanceOf(ManualGameError);
+    await expect(createManualGame(user, { title: 'Diablo IV', platform: 'Battle.net', playtimeMinutes: -5 })).rejects.toThrow(/whole number/);
+    await expect(createManualGame(user, { title: 'Diablo IV', platform: 'Battle.net', coverImage: 'javascript:alert(1)' })).rejects.toThrow(/http/);
+    await expect(createManualGame(user, { title: 'Diablo IV', platform: 'Battle.net', userId: 'someone-else' })).rejects.toThrow(/Unknown fields: userId/);
+    expect(ManualGame.create).not.toHaveBeenCalled();
+  });
+
+  it("updates only the fields sent, clears optional ones sent empty, and only the user's own games", async () => {
+    ManualGame.findOneAndUpdate.mockReturnValue({ lean: async () => storedGame({ playtimeMinutes: 3060 }) });
+
+    const game = await updateManualGame(user, `manual-${GAME_ID}`, { playtimeMinutes: 3060, notes: '' });
+
+    expect(ManualGame.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: GAME_ID, userId: 'user-object-id' },
+      { $set: { playtimeMinutes: 3060 }, $unset: { notes: '' } },
+      { new: true, runValidators: true }
+    );
+    expect(game.playtime).toBe(51);
+  });
+
+  it('deletes a game with its merge and split corrections, play status, review, tags and collection places', async () => {
+    ManualGame.findOneAndDelete.mockReturnValue({ lean: async () => storedGame() });
+
+    await expect(deleteManualGame(user, GAME_ID)).resolves.toEqual({ id: `manual-${GAME_ID}` });
+    expect(GameGroupOverride.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: `manual-${GAME_ID}` });
+    expect(GameProgress.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: `manual-${GAME_ID}` });
+    expect(GameReview.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: `manual-${GAME_ID}` });
+    expect(GameTags.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', gameId: `manual-${GAME_ID}` });
+    expect(GameCollection.updateMany).toHaveBeenCalledWith({ userId: 'user-object-id' }, { $pull: { gameIds: `manual-${GAME_ID}` } });
+  });
+
+  it('answers 404 for games of other users or unknown ids', async () => {
+    ManualGame.findOneAndDelete.mockReturnValue({ lean: async () => null });
+
+    await expect(deleteManualGame(user, GAME_ID)).rejects.toThrow(/not found/);
+    await expect(updateManualGame(user, 'not-an-id', { title: 'Halo' })).rejects.toEqual(expect.objectContaining({ status: 404 }));
+    expect(GameGroupOverride.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('POST /api/library/manual answers 201, and 400 for invalid games', async () => {
+    ManualGame.create.mockImplementation(async fields => ({ _id: GAME_ID, ...fields }));
+
+    const created = await request(app).post('/api/library/manual').set('x-test-user', '1').send({ title: 'Diablo IV', platform: 'Battle.net' });
+    const invalid = await request(app).post('/api/library/manual').set('x-test-user', '1').send({ title: 'Diablo IV' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.id).toBe(`manual-${GAME_ID}`);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toMatch(/'platform' is required/);
+  });
+
+  it('GET /api/library/manual requires a logged-in user', async () => {
+    const response = await request(app).get('/api/library/manual');
+
+    expect(response.status).toBe(401);
+    expect(ManualGame.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Metadata provider registry.
+ *
+ * Providers fill in what the platform APIs do not report (genres, release date, developer,
+ * publisher, description). services/gameMetadata.js asks them in order and caches the first
+ * answer in the GameMetadata collection. Every provider implements:
+ *
+ *   name                 identifier used in METADATA_PROVIDERS and stored as GameMetadata.provider
+ *   requestDelayMs       pause after each lookup, to stay within upstream rate limits
+ *   supports(entry)      whether the provider can look up `{ platform, gameId, title }`
+ *   lookup(entry)        -> { genres, releaseDate, releaseYear, developers, publishers, description },
+ *                           or null when the provider does not know the game. Throws on upstream errors.
+ *
+ * METADATA_PROVIDERS (comma-separated names) picks the providers and their order; by default the
+ * Steam store is asked first and the bundled offline dataset covers the rest.
+ */
+const steamAppDetailsProvider = require('./steamAppDetailsProvider');
+const offlineProvider = require('./offlineProvider');
+const logger = require('../config/logger');
+
+const providers = {
+  steam: steamAppDetailsProvider,
+  offline: offlineProvider,
+};
+
+const DEFAULT_PROVIDERS = ['steam', 'offline'];
+
+// Read lazily so tests (and late dotenv loading) can change the providers at runtime.
+function activeProviders() {
+  const names = process.env.METADATA_PROVIDERS
+    ? process.env.METADATA_PROVIDERS.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_PROVIDERS;
+  return names
+    .filter(name => {
+      if (providers[name]) return true;
+      logger.warn(`Unknown metadata provider '${name}' in METADATA_PROVIDERS; ignoring it.`);
+      return false;
+    })
+    .map(name => providers[name]);
+}
+
+module.exports = {
+  providers,
+  activeProviders,
+};
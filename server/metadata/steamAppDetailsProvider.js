@@ -0,0 +1,62 @@
+const axios = require('axios');
+const { UnexpectedResponseError } = require('../adapters/upstreamErrors');
+
+const STEAM_STORE_API_URL = 'https://store.steampowered.com/api/appdetails';
+
+const HTML_ENTITIES = { '&amp;': '&', '&quot;': '"', '&#39;': "'", '&lt;': '<', '&gt;': '>', '&nbsp;': ' ' };
+
+// short_description is HTML.
+const toPlainText = html => String(html || '')
+  .replace(/<[^>]*>/g, ' ')
+  .replace(/&(amp|quot|#39|lt|gt|nbsp);/g, entity => HTML_ENTITIES[entity])
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// The store formats dates for display ("19 May, 2015", "May 19, 2015"); unreleased games have
+// "Coming soon" or "Q1 2025", which only give a year at best.
+function parseReleaseDate(releaseDate) {
+  if (!releaseDate || releaseDate.coming_soon || !releaseDate.date) {
+    const year = releaseDate && /\b(19|20)\d{2}\b/.exec(releaseDate.date || '');
+    return { releaseDate: null, releaseYear: year ? Number(year[0]) : null };
+  }
+  const parsed = new Date(releaseDate.date);
+  if (Number.isNaN(parsed.getTime())) {
+    const year = /\b(19|20)\d{2}\b/.exec(releaseDate.date);
+    return { releaseDate: null, releaseYear: year ? Number(year[0]) : null };
+  }
+  // Date() reads the text in local time; keep the calendar day.
+  const date = new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+  return { releaseDate: date, releaseYear: date.getUTCFullYear() };
+}
+
+// Steam store appdetails for Steam games. The endpoint is public but rate limited
+// (about 200 requests per 5 minutes), hence the delay between lookups.
+const steamAppDetailsProvider = {
+  name: 'steam',
+  requestDelayMs: 1500,
+
+  supports(entry) {
+    return entry.platform === 'steam' && /^\d+$/.test(entry.gameId);
+  },
+
+  async lookup(entry) {
+    const response = await axios.get(STEAM_STORE_API_URL, { params: { appids: entry.gameId, l: 'english' } });
+    const result = response.data && response.data[entry.gameId];
+    if (!result) {
+      throw new UnexpectedResponseError(`Unexpected response from Steam appdetails for app ${entry.gameId}.`);
+    }
+    // Delisted and region-locked apps answer with success: false.
+    if (!result.success || !result.data) return null;
+
+    const { data } = result;
+    return {
+      genres: (data.genres || []).map(genre => genre.description).filter(Boolean),
+      ...parseReleaseDate(data.release_date),
+      developers: data.developers || [],
+      publishers: data.publishers || [],
+      description: toPlainText(data.short_description) || null,
+    };
+  },
+};
+
+module.exports = steamAppDetailsProvider;
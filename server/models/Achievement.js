@@ -0,0 +1,28 @@
+const mongoose = require('mongoose');
+
+// One achievement (or PSN trophy) of one game for one linked account, in the same shape for every
+// platform. Written by library syncs and by the detailed achievement routes (services/achievements.js).
+const achievementSchema = new mongoose.Schema({
+  platform: { type: String, required: true },
+  accountKey: { type: String, required: true }, // The adapter's accountKey: steamId, xuid or User id
+  gameId: { type: String, required: true }, // The game's id on the platform (its gameKey value)
+  externalId: { type: String, required: true }, // Steam API name, Xbox achievement id, PSN trophy id
+  name: { type: String },
+  description: { type: String },
+  iconUrl: { type: String },
+  points: { type: Number }, // Xbox gamerscore
+  grade: { type: String, enum: ['bronze', 'silver', 'gold', 'platinum'] }, // PSN trophy grade
+  rarityPercent: { type: Number }, // Share of all players who unlocked it
+  groupId: { type: String }, // PSN trophy group: "default" for the base game, "001", "002"... for DLC packs
+  hidden: { type: Boolean, default: false },
+  unlocked: { type: Boolean, default: false },
+  unlockedAt: { type: Date },
+  position: { type: Number }, // Place in the game's own list, where the platform orders it (Steam schema)
+  detailsFetchedAt: { type: Date }, // Last read by a detailed achievement route, with icons and rarity
+}, { timestamps: true });
+
+achievementSchema.index({ platform: 1, accountKey: 1, gameId: 1, externalId: 1 }, { unique: true });
+
+const Achievement = mongoose.model('Achievement', achievementSchema);
+
+module.exports = Achievement;
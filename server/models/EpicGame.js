@@ -0,0 +1,48 @@
+const mongoose = require('mongoose');
+
+const EpicGameSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true // Index for faster queries by user
+  },
+  appName: { // Epic's launcher id for the game (Legendary/Heroic "app_name", e.g. "Fortnite")
+    type: String,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  namespace: { // Catalog namespace the game belongs to
+    type: String
+  },
+  catalogItemId: {
+    type: String
+  },
+  coverImage: { // Tall box art when available, otherwise any key image
+    type: String
+  },
+  developer: {
+    type: String
+  },
+  isInstalled: { // Only known for imported libraries; Heroic/Legendary report local installs
+    type: Boolean,
+    default: false
+  },
+  source: { // How the game reached us: a Legendary/Heroic export file or the Epic OAuth sync
+    type: String,
+    enum: ['import', 'oauth'],
+    required: true
+  },
+  lastFetched: { // Timestamp of when this record was last imported/synced
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Compound index to ensure a game (appName) is unique per user
+EpicGameSchema.index({ userId: 1, appName: 1 }, { unique: true });
+
+module.exports = mongoose.model('EpicGame', EpicGameSchema);
@@ -0,0 +1,26 @@
+const mongoose = require('mongoose');
+
+// One owned release from an imported GOG Galaxy 2.0 database. Galaxy aggregates every platform
+// linked in the client, so this holds Steam, Xbox, PSN, Epic, ... games as well as GOG ones.
+const galaxyGameSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  releaseKey: { type: String, required: true }, // Galaxy release key, e.g. gog_1207658924 or steam_292030
+  platform: { type: String, required: true }, // steam, xbox, psn, epic, gog, or Galaxy's prefix for other platforms
+  platformGameId: { type: String, required: true }, // Release key without the platform prefix
+  title: { type: String },
+  coverImage: { type: String },
+  playtimeMinutes: { type: Number, default: 0 },
+  lastPlayed: { type: Date },
+  achievements: {
+    unlocked: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+  },
+  relatedReleaseKeys: [{ type: String }], // Release keys of the same game on other platforms, from Galaxy's allGameReleases
+  importedAt: { type: Date, default: Date.now },
+});
+
+galaxyGameSchema.index({ userId: 1, releaseKey: 1 }, { unique: true });
+
+const GalaxyGame = mongoose.model('GalaxyGame', galaxyGameSchema);
+
+module.exports = GalaxyGame;
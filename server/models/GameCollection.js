@@ -0,0 +1,32 @@
+const mongoose = require('mongoose');
+
+// One condition of a smart collection, e.g. { field: 'playtime', operator: 'lt', value: 5 }
+// (services/collectionRules.js)
+const ruleConditionSchema = new mongoose.Schema({
+  field: { type: String, required: true },
+  operator: { type: String, required: true },
+  value: { type: mongoose.Schema.Types.Mixed, required: true }, // A number, or a list of values
+}, { _id: false });
+
+// A named list of library games the user put together ("Co-op with Sam", "Short games"). Games are
+// kept as library entry ids; a game owned on several platforms is in it with every entry. Smart
+// collections have `rules` instead, and their games are whatever matches them.
+const gameCollectionSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  name: { type: String, required: true, trim: true },
+  description: { type: String },
+  gameIds: [{ type: String }], // Library entry ids, e.g. steam-292030 or manual-<_id>
+  rules: {
+    type: new mongoose.Schema({
+      match: { type: String, enum: ['all', 'any'], default: 'all' },
+      conditions: [ruleConditionSchema],
+    }, { _id: false }),
+    default: undefined,
+  },
+}, { timestamps: true });
+
+gameCollectionSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+const GameCollection = mongoose.model('GameCollection', gameCollectionSchema);
+
+module.exports = GameCollection;
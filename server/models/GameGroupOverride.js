@@ -0,0 +1,17 @@
+const mongoose = require('mongoose');
+
+// A manual correction of the cross-platform matcher (services/gameMatching.js) for one library
+// entry. Entries of a user that share a groupKey are shown as one game; an entry with a groupKey
+// of its own stays apart from every other entry.
+const gameGroupOverrideSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  gameId: { type: String, required: true }, // Library entry id, e.g. steam-292030 or gog-1207664643
+  groupKey: { type: String, required: true },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+gameGroupOverrideSchema.index({ userId: 1, gameId: 1 }, { unique: true });
+
+const GameGroupOverride = mongoose.model('GameGroupOverride', gameGroupOverrideSchema);
+
+module.exports = GameGroupOverride;
@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// Cached metadata for one game on one platform, from the providers in server/metadata. Shared by
+// every user who owns the game. `found: false` remembers that no provider knew the game, so it is
+// not looked up again until the entry expires (see services/gameMetadata.js).
+const gameMetadataSchema = new mongoose.Schema({
+  platform: { type: String, required: true },
+  gameId: { type: String, required: true }, // Upstream id, e.g. the Steam appId or the GOG productId
+  title: { type: String },
+  found: { type: Boolean, default: false },
+  provider: { type: String }, // Provider that answered, e.g. steam or offline
+  genres: [{ type: String }],
+  releaseDate: { type: Date },
+  releaseYear: { type: Number },
+  developers: [{ type: String }],
+  publishers: [{ type: String }],
+  description: { type: String },
+  fetchedAt: { type: Date, default: Date.now },
+});
+
+gameMetadataSchema.index({ platform: 1, gameId: 1 }, { unique: true });
+
+const GameMetadata = mongoose.model('GameMetadata', gameMetadataSchema);
+
+module.exports = GameMetadata;
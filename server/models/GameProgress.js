@@ -0,0 +1,20 @@
+const mongoose = require('mongoose');
+
+// The user's own progress on one library entry, apart from the install state the platforms report
+// in Game.status. Every entry of a game owned on several platforms gets the same record.
+const gameProgressSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  gameId: { type: String, required: true }, // Library entry id, e.g. steam-292030 or manual-<_id>
+  playStatus: {
+    type: String,
+    enum: ['wishlist', 'backlog', 'playing', 'completed', 'hundred_percent', 'abandoned'],
+    required: true,
+  },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+gameProgressSchema.index({ userId: 1, gameId: 1 }, { unique: true });
+
+const GameProgress = mongoose.model('GameProgress', gameProgressSchema);
+
+module.exports = GameProgress;
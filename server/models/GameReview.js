@@ -0,0 +1,19 @@
+const mongoose = require('mongoose');
+
+// The user's opinion of one library entry. Like GameProgress, every entry of a game owned on
+// several platforms gets the same record.
+const gameReviewSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  gameId: { type: String, required: true }, // Library entry id, e.g. steam-292030 or manual-<_id>
+  score: { type: Number, min: 1, max: 10 }, // Whole points out of 10
+  review: { type: String }, // Markdown
+  notes: { type: String }, // Private notes, kept apart from the review
+  finishedAt: { type: Date },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+gameReviewSchema.index({ userId: 1, gameId: 1 }, { unique: true });
+
+const GameReview = mongoose.model('GameReview', gameReviewSchema);
+
+module.exports = GameReview;
@@ -0,0 +1,16 @@
+const mongoose = require('mongoose');
+
+// The user's free-form tags on one library entry. Tags are added to every entry of a game owned on
+// several platforms; a merged game shows the tags of all its entries.
+const gameTagsSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  gameId: { type: String, required: true }, // Library entry id, e.g. steam-292030 or manual-<_id>
+  tags: [{ type: String }],
+  updatedAt: { type: Date, default: Date.now },
+});
+
+gameTagsSchema.index({ userId: 1, gameId: 1 }, { unique: true });
+
+const GameTags = mongoose.model('GameTags', gameTagsSchema);
+
+module.exports = GameTags;
@@ -0,0 +1,31 @@
+const mongoose = require('mongoose');
+
+const gogGameSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  gogUserId: { type: String, index: true }, // GOG account the game was synced from
+  productId: { type: Number, required: true }, // GOG product id
+  title: { type: String, required: true },
+  image: { type: String }, // Cover image URL (196px variant of the product image)
+  url: { type: String }, // Store/library page path, e.g. /game/the_witcher_3_wild_hunt
+  worksOn: {
+    Windows: { type: Boolean, default: false },
+    Mac: { type: Boolean, default: false },
+    Linux: { type: Boolean, default: false },
+  },
+  // Filled in from an imported GOG Galaxy database; the GOG API does not expose them.
+  playtimeMinutes: { type: Number, default: 0 },
+  lastPlayed: { type: Date },
+  achievements: {
+    unlocked: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+  },
+  galaxyImportedAt: { type: Date },
+  lastUpdated: { type: Date, default: Date.now },
+});
+
+// Compound index to ensure uniqueness for a user's game
+gogGameSchema.index({ userId: 1, productId: 1 }, { unique: true });
+
+const GogGame = mongoose.model('GogGame', gogGameSchema);
+
+module.exports = GogGame;
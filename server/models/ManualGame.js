@@ -0,0 +1,21 @@
+const mongoose = require('mongoose');
+
+// A game the user added by hand: a store without an integration (itch.io, Battle.net) or a
+// physical copy (a Switch cartridge, a PS2 disc). Served by GET /api/library as `manual-<_id>`.
+const manualGameSchema = new mongoose.Schema({
+  userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  title: { type: String, required: true, trim: true },
+  platform: { type: String, required: true, trim: true }, // Free text, e.g. "Nintendo Switch" or "itch.io"
+  format: { type: String, enum: ['physical', 'digital'], default: 'digital' },
+  coverImage: { type: String },
+  playtimeMinutes: { type: Number, default: 0, min: 0 },
+  lastPlayed: { type: Date },
+  status: { type: String, enum: ['installed', 'not_installed', 'owned'], default: 'owned' }, // Same values as the library's Game.status
+  genre: [{ type: String }],
+  releaseYear: { type: Number },
+  notes: { type: String },
+}, { timestamps: true });
+
+const ManualGame = mongoose.model('ManualGame', manualGameSchema);
+
+module.exports = ManualGame;
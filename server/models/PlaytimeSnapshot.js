@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// Playtime gained by one game between two syncs of an account, stored in a MongoDB time-series
+// collection. Platforms only report lifetime totals, so each snapshot is dated at the sync that
+// noticed the change: with daily syncs, "per day" means "since the previous day's sync".
+const playtimeSnapshotSchema = new mongoose.Schema({
+  recordedAt: { type: Date, required: true },
+  meta: {
+    platform: { type: String, required: true },
+    accountKey: { type: String, required: true }, // Same key as SyncJob.accountKey
+    gameId: { type: String, required: true }, // Upstream id, e.g. the Steam appId
+  },
+  title: { type: String },
+  playtimeMinutes: { type: Number, required: true }, // Lifetime total reported by the platform
+  deltaMinutes: { type: Number, required: true }, // Played since the previous snapshot
+  newGame: { type: Boolean }, // The game was not in the library at the previous sync
+}, {
+  timeseries: { timeField: 'recordedAt', metaField: 'meta', granularity: 'hours' },
+});
+
+playtimeSnapshotSchema.index({ 'meta.platform': 1, 'meta.accountKey': 1, recordedAt: 1 });
+
+const PlaytimeSnapshot = mongoose.model('PlaytimeSnapshot', playtimeSnapshotSchema);
+
+module.exports = PlaytimeSnapshot;
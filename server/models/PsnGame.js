@@ -7,10 +7,24 @@ const PsnGameSchema = new mongoose.Schema({
     required: true,
     index: true // Index for faster queries by user
   },
-  npCommunicationId: { // Game ID from PSN (e.g., "NPWR00123_00")
+  npCommunicationId: { // Trophy set ID from PSN (e.g., "NPWR00123_00"); the title ID for games without trophies
     type: String,
     required: true
   },
+  hasTrophies: { // false for played games that have no trophy set
+    type: Boolean,
+    default: true
+  },
+  titleIds: [String], // Title IDs (e.g., "CUSA01433_00", "PPSA01284_00") of the versions the user played
+  category: { // Played games list category of the most recently played version, e.g. "ps5_native_game"
+    type: String
+  },
+  playtimeMinutes: { // Total playDuration of those versions
+    type: Number
+  },
+  firstPlayed: {
+    type: Date
+  },
   trophyTitleName: { // Game name
     type: String,
     required: true
@@ -24,9 +38,15 @@ const PsnGameSchema = new mongoose.Schema({
   trophySetVersion: {
     type: String
   },
+  npServiceName: { // "trophy" for PS3, PS4 and Vita trophy sets, "trophy2" for PS5; needed to read the trophy list
+    type: String
+  },
   lastUpdatedDateTime: { // ISO date string from PSN, when trophy info for this game was last updated for the user
     type: Date
   },
+  lastPlayed: { // lastPlayedDateTime from the user's played games list (PS4/PS5 games only)
+    type: Date
+  },
   definedTrophies: {
     bronze: { type: Number, default: 0 },
     silver: { type: Number, default: 0 },
@@ -5,6 +5,7 @@ const steamGameSchema = new mongoose.Schema({
   appId: { type: Number, required: true, index: true },
   name: { type: String, required: true },
   playtimeForever: { type: Number, required: true },
+  lastPlayed: { type: Date }, // rtime_last_played; unset for games never played
   imgIconURL: { type: String },
   imgLogoURL: { type: String },
   achievements: {
@@ -0,0 +1,37 @@
+const mongoose = require('mongoose');
+
+// One library sync for one linked account. Documents double as the persistent job queue
+// (status 'queued' + runAt) and as the sync history the library routes report on.
+const syncJobSchema = new mongoose.Schema({
+  platform: { type: String, required: true },
+  accountKey: { type: String, required: true }, // See accountKey() on the platform adapter
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed', 'cancelled'], // 'cancelled' when the account was unlinked
+    default: 'queued',
+  },
+  trigger: {
+    type: String,
+    enum: ['schedule', 'request', 'manual'],
+    default: 'schedule',
+  },
+  runAt: { type: Date, default: Date.now }, // Earliest time a worker may claim the job
+  attempts: { type: Number, default: 0 },
+  lockedAt: { type: Date }, // Refreshed while running so crashed workers' jobs can be reclaimed
+  startedAt: { type: Date },
+  finishedAt: { type: Date, index: { expires: '30d' } }, // Finished jobs are pruned after 30 days
+  progress: {
+    processed: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+  },
+  gamesSynced: { type: Number },
+  lastError: { type: String },
+  createdAt: { type: Date, default: Date.now },
+});
+
+syncJobSchema.index({ status: 1, runAt: 1 });
+syncJobSchema.index({ platform: 1, accountKey: 1, createdAt: -1 });
+
+const SyncJob = mongoose.model('SyncJob', syncJobSchema);
+
+module.exports = SyncJob;
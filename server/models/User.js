@@ -1,5 +1,6 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcrypt');
+const encryptedFields = require('./plugins/encryptedFields');
 
 const UserSchema = new mongoose.Schema({
   googleId: {
@@ -27,11 +28,6 @@ const UserSchema = new mongoose.Schema({
     unique: true,
     sparse: true, // Allows multiple documents to have null/undefined for this field if not provided
   },
-  npsso: {
-    type: String,
-    unique: true,
-    sparse: true,
-  },
   psnAccountId: {
     type: String,
     sparse: true,
@@ -40,6 +36,22 @@ const UserSchema = new mongoose.Schema({
     type: String,
     sparse: true,
   },
+  // PSN tokens from the NPSSO exchange when linking; the NPSSO itself is never stored.
+  // Fields marked `encrypted` are stored through the credential vault (see plugins/encryptedFields.js).
+  psnAccessToken: {
+    type: String,
+    encrypted: true,
+  },
+  psnRefreshToken: {
+    type: String,
+    encrypted: true,
+  },
+  psnTokenExpiresAt: {
+    type: Date,
+  },
+  psnRefreshTokenExpiresAt: {
+    type: Date,
+  },
   personaName: {
     type: String,
     trim: true,
@@ -59,6 +71,44 @@ const UserSchema = new mongoose.Schema({
     type: String,
     sparse: true,
   },
+  gogUserId: { // GOG account id, set when the user links GOG through OAuth
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  gogUsername: {
+    type: String,
+  },
+  gogAccessToken: {
+    type: String,
+    encrypted: true,
+  },
+  gogRefreshToken: {
+    type: String,
+    encrypted: true,
+  },
+  gogTokenExpiresAt: {
+    type: Date,
+  },
+  epicAccountId: { // Epic account id, set by the optional Epic OAuth flow
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  epicDisplayName: {
+    type: String,
+  },
+  epicAccessToken: {
+    type: String,
+    encrypted: true,
+  },
+  epicRefreshToken: {
+    type: String,
+    encrypted: true,
+  },
+  epicTokenExpiresAt: {
+    type: Date,
+  },
   lastLoginAt: {
     type: Date,
   },
@@ -71,6 +121,8 @@ const UserSchema = new mongoose.Schema({
   },
 });
 
+UserSchema.plugin(encryptedFields);
+
 // Pre-save hook to hash password
 UserSchema.pre('save', async function (next) {
   // Only hash the password if it has been modified (or is new)
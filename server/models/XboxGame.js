@@ -11,9 +11,9 @@ const xboxGameSchema = new mongoose.Schema({
     currentGamerscore: { type: Number, default: 0 },   // Current gamerscore from this game
     totalGamerscore: { type: Number, default: 0 },     // Total possible gamerscore from this game
   },
+  lastPlayed: { type: Date }, // titleHistory.lastTimePlayed from xbl.io
   lastUpdated: { type: Date, default: Date.now },
   // Potentially add other fields based on what xbl.io API provides, e.g.:
-  // lastPlayed: { type: Date },
   // platform: { type: String }, // e.g., "Xbox One", "Xbox Series X/S"
 });
 
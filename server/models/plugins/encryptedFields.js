@@ -0,0 +1,45 @@
+const vault = require('../../config/credentialVault');
+
+/**
+ * Mongoose plugin that encrypts every path declared with `encrypted: true` through the credential vault.
+ * Values are encrypted by the path's setter (document assignment and update queries alike) and decrypted
+ * by its getter, so code reading `user.gogAccessToken` sees the plaintext while MongoDB only holds
+ * ciphertext. `toObject()`/`toJSON()` do not run getters and keep the ciphertext.
+ *
+ * Adds `Model.encryptedPaths` and `Model.rotateEncryptedFields()`.
+ */
+function encryptedFields(schema) {
+  const paths = [];
+  schema.eachPath((pathName, schemaType) => {
+    if (!schemaType.options.encrypted) return;
+    paths.push(pathName);
+    schemaType.set(value => (value === null || value === undefined || value === '' || vault.isEncrypted(value)
+      ? value
+      : vault.encrypt(value)));
+    schemaType.get(value => (value === null || value === undefined ? value : vault.decrypt(value)));
+  });
+
+  schema.statics.encryptedPaths = paths;
+
+  // Re-encrypts values written with an older key (or stored before encryption) with the current key.
+  // Resolves to the number of documents updated.
+  schema.statics.rotateEncryptedFields = async function rotateEncryptedFields() {
+    if (paths.length === 0) return 0;
+    let updated = 0;
+    const cursor = this.find({ $or: paths.map(pathName => ({ [pathName]: { $type: 'string' } })) }).cursor();
+    for await (const doc of cursor) {
+      const $set = {};
+      for (const pathName of paths) {
+        const stored = doc.get(pathName, null, { getters: false });
+        if (vault.needsReencryption(stored)) $set[pathName] = vault.decrypt(stored);
+      }
+      if (Object.keys($set).length > 0) {
+        await this.updateOne({ _id: doc._id }, { $set });
+        updated += 1;
+      }
+    }
+    return updated;
+  };
+}
+
+module.exports = encryptedFields;
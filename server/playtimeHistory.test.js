@@ -0,0 +1,190 @@
+const PlaytimeSnapshot = require('./models/PlaytimeSnapshot');
+const steamAdapter = require('./adapters/steamAdapter');
+const psnAdapter = require('./adapters/psnAdapter');
+const { findStoredGames } = require('./adapters/libraryCache');
+const {
+  PlaytimeHistoryError,
+  recordPlaytimeSnapshots,
+  storedPlaytime,
+  recordSyncedPlaytime,
+  getPlaytimeHistory,
+} = require('./services/playtimeHistory');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./adapters/libraryCache', () => ({
+  findStoredGames: jest.fn(),
+}));
+
+jest.mock('./models/PlaytimeSnapshot', () => ({
+  insertMany: jest.fn(),
+  aggregate: jest.fn(),
+}));
+
+describe('playtime snapshots', () => {
+  const recordedAt = new Date('2024-06-01T12:00:00Z');
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('records nothing on the first sync of an account', async () => {
+    const written = await recordPlaytimeSnapshots({
+      platform: 'steam',
+      accountKey: '7656',
+      previous: new Map(),
+      current: [{ gameId: 730, title: 'Counter-Strike 2', minutes: 500 }],
+      recordedAt,
+    });
+
+    expect(written).toBe(0);
+    expect(PlaytimeSnapshot.insertMany).not.toHaveBeenCalled();
+  });
+
+  it('records the minutes gained since the previous sync and flags new games', async () => {
+    const written = await recordPlaytimeSnapshots({
+      platform: 'steam',
+      accountKey: '7656',
+      previous: new Map([['730', 440], ['570', 90], ['10', 30]]),
+      current: [
+        { gameId: 730, title: 'Counter-Strike 2', minutes: 500 },
+        { gameId: 570, title: 'Dota 2', minutes: 90 }, // Not played
+        { gameId: 10, title: 'Counter-Strike', minutes: 0 }, // Reset by the platform
+        { gameId: 620, title: 'Portal 2', minutes: 45 }, // New to the library
+        { gameId: 400, title: 'Portal', minutes: 0 }, // New to the library, never played
+      ],
+      recordedAt,
+    });
+
+    expect(written).toBe(3);
+    expect(PlaytimeSnapshot.insertMany).toHaveBeenCalledWith([
+      { recordedAt, meta: { platform: 'steam', accountKey: '7656', gameId: '730' }, title: 'Counter-Strike 2', playtimeMinutes: 500, deltaMinutes: 60 },
+      { recordedAt, meta: { platform: 'steam', accountKey: '7656', gameId: '620' }, title: 'Portal 2', playtimeMinutes: 45, deltaMinutes: 45, newGame: true },
+      { recordedAt, meta: { platform: 'steam', accountKey: '7656', gameId: '400' }, title: 'Portal', playtimeMinutes: 0, deltaMinutes: 0, newGame: true },
+    ]);
+  });
+
+  it('does not fail a sync when snapshots cannot be written', async () => {
+    PlaytimeSnapshot.insertMany.mockRejectedValue(new Error('timeseries unavailable'));
+
+    await expect(recordPlaytimeSnapshots({
+      platform: 'steam',
+      accountKey: '7656',
+      previous: new Map([['730', 440]]),
+      current: [{ gameId: 730, title: 'Counter-Strike 2', minutes: 500 }],
+    })).resolves.toBe(0);
+  });
+
+  it('compares a Steam sync against the playtime stored before it', async () => {
+    findStoredGames.mockResolvedValue([{ appId: 730, name: 'Counter-Strike 2', playtimeForever: 440 }]);
+
+    const previous = await storedPlaytime(steamAdapter, { steamId: '7656' });
+    await recordSyncedPlaytime(steamAdapter, '7656', previous, [
+      { appId: 730, name: 'Counter-Strike 2', playtimeForever: 470, achievements: { unlocked: 0, total: 0 } },
+    ]);
+
+    expect(previous).toEqual(new Map([['730', 440]]));
+    expect(PlaytimeSnapshot.insertMany).toHaveBeenCalledWith([expect.objectContaining({
+      meta: { platform: 'steam', accountKey: '7656', gameId: '730' },
+      deltaMinutes: 30,
+    })]);
+  });
+
+  it('measures a PSN game that got a trophy set against the playtime stored under its title id', async () => {
+    findStoredGames.mockResolvedValue([
+      { npCommunicationId: 'PPSA9', hasTrophies: false, titleIds: ['PPSA9'], trophyTitleName: 'Astro\'s Playroom', playtimeMinutes: 300 },
+    ]);
+
+    const previous = await storedPlaytime(psnAdapter, { user: { _id: 'u1' } });
+    await recordSyncedPlaytime(psnAdapter, 'u1', previous, [
+      { npCommunicationId: 'NPWR9', hasTrophies: true, titleIds: ['PPSA9'], trophyTitleName: 'Astro\'s Playroom', playtimeMinutes: 320 },
+    ]);
+
+    expect(PlaytimeSnapshot.insertMany).toHaveBeenCalledWith([{
+      recordedAt: expect.any(Date),
+      meta: { platform: 'psn', accountKey: 'u1', gameId: 'NPWR9' },
+      title: 'Astro\'s Playroom',
+      playtimeMinutes: 320,
+      deltaMinutes: 20, // Not all 320 minutes as a new game
+    }]);
+  });
+});
+
+describe('getPlaytimeHistory', () => {
+  const user = { _id: 'u1', id: 'u1', steamId: '7656' };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it("sums the user's snapshots per period and platform and lists the most played games", async () => {
+    PlaytimeSnapshot.aggregate
+      .mockResolvedValueOnce([
+        { _id: { period: new Date('2024-06-01T00:00:00Z'), platform: 'steam' }, minutes: 60 },
+        { _id: { period: new Date('2024-06-01T00:00:00Z'), platform: 'gog' }, minutes: 30 },
+        { _id: { period: new Date('2024-06-02T00:00:00Z'), platform: 'steam' }, minutes: 15 },
+      ])
+      .mockResolvedValueOnce([
+        { _id: { platform: 'steam', gameId: '730' }, title: 'Counter-Strike 2', minutes: 75 },
+        { _id: { platform: 'gog', gameId: '1207658924' }, title: 'The Witcher 3: Wild Hunt', minutes: 30 },
+      ]);
+
+    const history = await getPlaytimeHistory(user, { from: '2024-06-01', to: '2024-06-03' });
+
+    const [periodPipeline] = PlaytimeSnapshot.aggregate.mock.calls[0];
+    expect(periodPipeline[0].$match.recordedAt).toEqual({ $gte: new Date('2024-06-01'), $lte: new Date('2024-06-03') });
+    expect(periodPipeline[0].$match.$or).toEqual(expect.arrayContaining([
+      { 'meta.platform': 'steam', 'meta.accountKey': '7656' },
+      { 'meta.platform': 'gog', 'meta.accountKey': 'u1' },
+    ]));
+    expect(periodPipeline[0].$match.$or).not.toContainEqual(expect.objectContaining({ 'meta.platform': 'xbox' })); // Not linked
+    expect(periodPipeline[1].$group._id.period.$dateTrunc).toEqual(expect.objectContaining({ unit: 'day', timezone: 'UTC' }));
+
+    expect(history).toEqual({
+      granularity: 'day',
+      from: '2024-06-01T00:00:00.000Z',
+      to: '2024-06-03T00:00:00.000Z',
+      timezone: 'UTC',
+      totalMinutes: 105,
+      series: [
+        { period: '2024-06-01T00:00:00.000Z', minutes: 90, platforms: { steam: 60, gog: 30 } },
+        { period: '2024-06-02T00:00:00.000Z', minutes: 15, platforms: { steam: 15 } },
+      ],
+      games: [
+        { id: 'steam-730', platform: 'steam', gameId: '730', title: 'Counter-Strike 2', minutes: 75 },
+        { id: 'gog-1207658924', platform: 'gog', gameId: '1207658924', title: 'The Witcher 3: Wild Hunt', minutes: 30 },
+      ],
+    });
+  });
+
+  it('narrows the history to one game of the library', async () => {
+    PlaytimeSnapshot.aggregate.mockResolvedValue([]);
+
+    await getPlaytimeHistory(user, { granularity: 'week', gameId: 'steam-730', timezone: 'Europe/Lisbon' });
+
+    const [[{ $match: match }, { $group: group }]] = PlaytimeSnapshot.aggregate.mock.calls[0];
+    expect(match['meta.gameId']).toBe('730');
+    expect(match.$or).toEqual([{ 'meta.platform': 'steam', 'meta.accountKey': '7656' }]);
+    expect(group._id.period.$dateTrunc).toEqual(expect.objectContaining({ unit: 'week', timezone: 'Europe/Lisbon', startOfWeek: 'monday' }));
+  });
+
+  it('returns an empty history without querying when no account matches', async () => {
+    const history = await getPlaytimeHistory(user, { platform: 'xbox' });
+
+    expect(history).toEqual(expect.objectContaining({ totalMinutes: 0, series: [], games: [] }));
+    expect(PlaytimeSnapshot.aggregate).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid options', async () => {
+    await expect(getPlaytimeHistory(user, { granularity: 'year' })).rejects.toBeInstanceOf(PlaytimeHistoryError);
+    await expect(getPlaytimeHistory(user, { timezone: 'Mars/Olympus' })).rejects.toThrow(/Unknown time zone/);
+    await expect(getPlaytimeHistory(user, { from: 'soon' })).rejects.toThrow(/'from' must be a date/);
+    await expect(getPlaytimeHistory(user, { from: '2024-06-03', to: '2024-06-01' })).rejects.toThrow(/before/);
+    await expect(getPlaytimeHistory(user, { gameId: '730' })).rejects.toThrow(/library game id/);
+  });
+});
@@ -0,0 +1,279 @@
+const psnApi = require('psn-api');
+const User = require('./models/User');
+const PsnGame = require('./models/PsnGame');
+const PlaytimeSnapshot = require('./models/PlaytimeSnapshot');
+const { moveLibraryEntryData } = require('./services/libraryEntries');
+const psnAdapter = require('./adapters/psnAdapter');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('psn-api', () => ({
+  exchangeNpssoForAccessCode: jest.fn(),
+  exchangeAccessCodeForAuthTokens: jest.fn(),
+  exchangeRefreshTokenForAuthTokens: jest.fn(),
+  getUserTitles: jest.fn(),
+  getUserPlayedGames: jest.fn(),
+  getUserTrophiesForSpecificTitle: jest.fn(),
+  getProfileFromAccountId: jest.fn(),
+}));
+
+jest.mock('./models/PsnGame', () => ({
+  find: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/PlaytimeSnapshot', () => ({
+  updateMany: jest.fn(),
+}));
+
+jest.mock('./services/libraryEntries', () => ({
+  moveLibraryEntryData: jest.fn(),
+}));
+
+jest.mock('./models/User', () => ({
+  findById: jest.fn(),
+  updateOne: jest.fn(),
+  collection: {
+    find: jest.fn(),
+    dropIndex: jest.fn(),
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+const idTokenFor = sub => `header.${Buffer.from(JSON.stringify({ sub })).toString('base64url')}.signature`;
+const authorization = (overrides = {}) => ({
+  accessToken: 'access',
+  refreshToken: 'refresh',
+  expiresIn: 3600,
+  refreshTokenExpiresIn: 5183999,
+  idToken: idTokenFor('psn-account-1'),
+  ...overrides,
+});
+
+describe('PSN adapter', () => {
+  let user;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    user = {
+      _id: 'user-object-id',
+      id: 'user-object-id',
+      psnAccountId: 'psn-account-1',
+      psnAccessToken: 'access',
+      psnRefreshToken: 'refresh',
+      psnTokenExpiresAt: new Date(Date.now() + HOUR),
+      psnRefreshTokenExpiresAt: new Date(Date.now() + 24 * HOUR),
+    };
+    PsnGame.find.mockReturnValue({ lean: async () => [] });
+  });
+
+  it('exchanges an NPSSO for the token pair to store, without keeping the NPSSO', async () => {
+    psnApi.exchangeNpssoForAccessCode.mockResolvedValueOnce('v3.code');
+    psnApi.exchangeAccessCodeForAuthTokens.mockResolvedValueOnce(authorization());
+
+    const result = await psnAdapter.exchangeNpsso('the-npsso');
+
+    expect(psnApi.exchangeAccessCodeForAuthTokens).toHaveBeenCalledWith('v3.code');
+    expect(result).toEqual({
+      accountId: 'psn-account-1',
+      accessToken: 'access',
+      fields: {
+        psnAccessToken: 'access',
+        psnRefreshToken: 'refresh',
+        psnTokenExpiresAt: expect.any(Date),
+        psnRefreshTokenExpiresAt: expect.any(Date),
+      },
+    });
+    expect(JSON.stringify(result)).not.toContain('the-npsso');
+  });
+
+  it('uses the stored access token while it is valid', async () => {
+    psnApi.getUserTitles.mockResolvedValueOnce({ trophyTitles: [{ npCommunicationId: 'NPWR1' }] });
+
+    await expect(psnAdapter.fetchLibrary({ user })).resolves.toEqual([{ npCommunicationId: 'NPWR1' }]);
+
+    expect(psnApi.getUserTitles).toHaveBeenCalledWith({ accessToken: 'access' }, 'me');
+    expect(psnApi.exchangeNpssoForAccessCode).not.toHaveBeenCalled();
+    expect(psnApi.exchangeRefreshTokenForAuthTokens).not.toHaveBeenCalled();
+  });
+
+  it('adds the last played date of every page of played games to the matching trophy titles', async () => {
+    psnApi.getUserTitles.mockResolvedValueOnce({
+      trophyTitles: [
+        { npCommunicationId: 'NPWR1', trophyTitleName: 'Astro Bot' },
+        { npCommunicationId: 'NPWR2', trophyTitleName: 'Demon\'s Souls™' },
+        { npCommunicationId: 'NPWR3', trophyTitleName: 'Flower' }, // PS3, not in the played games list
+      ],
+    });
+    psnApi.getUserPlayedGames
+      .mockResolvedValueOnce({ titles: [{ titleId: 'PPSA1', name: 'ASTRO BOT', lastPlayedDateTime: '2024-10-01T20:00:00Z' }], nextOffset: 1 })
+      .mockResolvedValueOnce({ titles: [{ titleId: 'PPSA2', name: 'Demon\'s Souls', lastPlayedDateTime: '2023-02-01T20:00:00Z' }], nextOffset: 0 });
+
+    const titles = await psnAdapter.fetchLibrary({ user });
+
+    expect(psnApi.getUserPlayedGames).toHaveBeenNthCalledWith(2, { accessToken: 'access' }, 'me', expect.objectContaining({ offset: 1 }));
+    expect(titles.map(title => title.lastPlayedDateTime)).toEqual(['2024-10-01T20:00:00Z', '2023-02-01T20:00:00Z', undefined]);
+    expect(psnAdapter.normalize(titles[0], { user }).lastPlayed).toEqual(new Date('2024-10-01T20:00:00Z'));
+  });
+
+  it('merges played games into trophy titles by title id and keeps games without trophies', async () => {
+    psnApi.getUserTitles.mockResolvedValueOnce({
+      trophyTitles: [
+        { npCommunicationId: 'NPWR1', trophyTitleName: 'Ghost of Tsushima', trophyTitlePlatform: 'PS4,PS5' },
+        { npCommunicationId: 'NPWR2', trophyTitleName: 'Bloodborne', trophyTitlePlatform: 'PS4' },
+      ],
+    });
+    psnApi.getUserPlayedGames.mockResolvedValueOnce({
+      titles: [
+        { titleId: 'PPSA1', name: 'Ghost of Tsushima DIRECTOR\'S CUT', category: 'ps5_native_game', playDuration: 'PT10H30M5S', firstPlayedDateTime: '2021-08-20T10:00:00Z', lastPlayedDateTime: '2024-03-01T10:00:00Z' },
+        { titleId: 'CUSA1', name: 'Ghost of Tsushima', category: 'ps4_game', playDuration: 'PT40H', firstPlayedDateTime: '2020-07-17T10:00:00Z', lastPlayedDateTime: '2021-01-01T10:00:00Z' },
+        { titleId: 'CUSA2', name: 'Bloodborne', category: 'ps4_game', playDuration: 'P1DT2H', lastPlayedDateTime: '2019-05-01T10:00:00Z' },
+        { titleId: 'PPSA9', name: 'Astro\'s Playroom', imageUrl: 'astro.png', category: 'ps5_native_game', playDuration: 'PT5H', lastPlayedDateTime: '2023-01-01T10:00:00Z' },
+      ],
+    });
+    // Stored by an earlier sync, so it is not looked up again
+    PsnGame.find.mockReturnValueOnce({ lean: async () => [{ npCommunicationId: 'NPWR2', titleIds: ['CUSA2'] }] });
+    psnApi.getUserTrophiesForSpecificTitle.mockResolvedValueOnce({
+      titles: [
+        { npTitleId: 'PPSA1', trophyTitles: [{ npCommunicationId: 'NPWR1' }] },
+        { npTitleId: 'CUSA1', trophyTitles: [{ npCommunicationId: 'NPWR1' }] },
+        { npTitleId: 'PPSA9', trophyTitles: [] },
+      ],
+    });
+
+    const titles = await psnAdapter.fetchLibrary({ user });
+
+    expect(psnApi.getUserTrophiesForSpecificTitle).toHaveBeenCalledTimes(1);
+    expect(psnApi.getUserTrophiesForSpecificTitle).toHaveBeenCalledWith({ accessToken: 'access' }, 'me', { npTitleIds: 'PPSA1,CUSA1,PPSA9' });
+    expect(PsnGame.find).toHaveBeenCalledWith(
+      { userId: 'user-object-id', hasTrophies: false, npCommunicationId: { $in: ['CUSA2', 'PPSA1', 'CUSA1'] } },
+      { npCommunicationId: 1 }
+    );
+    expect(PsnGame.deleteMany).not.toHaveBeenCalled(); // None of them was stored without trophies
+    expect(titles).toEqual([
+      expect.objectContaining({
+        npCommunicationId: 'NPWR1',
+        titleIds: ['PPSA1', 'CUSA1'],
+        playtimeMinutes: 50 * 60 + 30, // Both versions
+        firstPlayedDateTime: '2020-07-17T10:00:00Z',
+        lastPlayedDateTime: '2024-03-01T10:00:00Z',
+        category: 'ps5_native_game',
+      }),
+      expect.objectContaining({ npCommunicationId: 'NPWR2', titleIds: ['CUSA2'], playtimeMinutes: 26 * 60 }),
+      expect.objectContaining({ npCommunicationId: 'PPSA9', trophyTitleName: 'Astro\'s Playroom', trophyTitlePlatform: 'PS5', hasTrophies: false, playtimeMinutes: 300 }),
+    ]);
+
+    const astro = psnAdapter.normalize(titles[2], { user });
+    expect(astro).toEqual(expect.objectContaining({ hasTrophies: false, titleIds: ['PPSA9'], playtimeMinutes: 300 }));
+    expect(psnAdapter.toGame(astro)).toEqual(expect.objectContaining({
+      id: 'psn-PPSA9',
+      playtime: 5,
+      coverImage: 'astro.png',
+      achievements: { unlocked: 0, total: 0 },
+      genre: ['Unknown Genre'],
+      systems: ['PS5'],
+    }));
+  });
+
+  it('moves a game stored without trophies to its new trophy set, with what the user attached to it', async () => {
+    psnApi.getUserTitles.mockResolvedValueOnce({
+      trophyTitles: [{ npCommunicationId: 'NPWR9', trophyTitleName: 'Astro\'s Playroom', trophyTitlePlatform: 'PS5' }],
+    });
+    psnApi.getUserPlayedGames.mockResolvedValueOnce({
+      titles: [{ titleId: 'PPSA9', name: 'Astro\'s Playroom', category: 'ps5_native_game', playDuration: 'PT5H20M', lastPlayedDateTime: '2024-01-01T10:00:00Z' }],
+    });
+    psnApi.getUserTrophiesForSpecificTitle.mockResolvedValueOnce({
+      titles: [{ npTitleId: 'PPSA9', trophyTitles: [{ npCommunicationId: 'NPWR9' }] }],
+    });
+    PsnGame.find
+      .mockReturnValueOnce({ lean: async () => [] }) // No stored trophy set mappings
+      .mockReturnValueOnce({ lean: async () => [{ npCommunicationId: 'PPSA9' }] }); // Stored by its title id
+
+    const titles = await psnAdapter.fetchLibrary({ user });
+
+    expect(PsnGame.deleteMany).toHaveBeenCalledWith({ userId: 'user-object-id', hasTrophies: false, npCommunicationId: { $in: ['PPSA9'] } });
+    expect(moveLibraryEntryData).toHaveBeenCalledWith(user, 'psn-PPSA9', 'psn-NPWR9');
+    expect(PlaytimeSnapshot.updateMany).toHaveBeenCalledWith(
+      { 'meta.platform': 'psn', 'meta.accountKey': 'user-object-id', 'meta.gameId': 'PPSA9' },
+      { $set: { 'meta.gameId': 'NPWR9' } }
+    );
+    expect(titles).toEqual([expect.objectContaining({ npCommunicationId: 'NPWR9', titleIds: ['PPSA9'], playtimeMinutes: 320 })]);
+    expect(psnAdapter.formerGameIds(psnAdapter.normalize(titles[0], { user }))).toEqual(['PPSA9']);
+  });
+
+  it('keeps the consoles of a trophy set out of the genres', () => {
+    const game = psnAdapter.toGame({ npCommunicationId: 'NPWR1', trophyTitleName: 'Ghost of Tsushima', trophyTitlePlatform: 'PS4,PS5' });
+    const vitaGame = psnAdapter.toGame({ npCommunicationId: 'NPWR3', trophyTitleName: 'Gravity Rush' });
+
+    expect(game.genre).toEqual(['Unknown Genre']);
+    expect(game.systems).toEqual(['PS4', 'PS5']);
+    expect(vitaGame).not.toHaveProperty('systems');
+  });
+
+  it('leaves out played games whose trophy set could not be looked up', async () => {
+    psnApi.getUserTitles.mockResolvedValueOnce({ trophyTitles: [] });
+    psnApi.getUserPlayedGames.mockResolvedValueOnce({ titles: [{ titleId: 'PPSA9', name: 'Astro\'s Playroom', playDuration: 'PT5H' }] });
+    psnApi.getUserTrophiesForSpecificTitle.mockRejectedValueOnce(new Error('Resource not found'));
+
+    await expect(psnAdapter.fetchLibrary({ user })).resolves.toEqual([]);
+  });
+
+  it('still syncs trophy titles when the played games list is private', async () => {
+    psnApi.getUserTitles.mockResolvedValueOnce({ trophyTitles: [{ npCommunicationId: 'NPWR1', trophyTitleName: 'Astro Bot' }] });
+    psnApi.getUserPlayedGames.mockRejectedValueOnce(new Error('Not permitted by access control'));
+
+    await expect(psnAdapter.fetchLibrary({ user })).resolves.toEqual([{ npCommunicationId: 'NPWR1', trophyTitleName: 'Astro Bot' }]);
+  });
+
+  it('refreshes an expired access token and persists the new pair', async () => {
+    user.psnTokenExpiresAt = new Date(Date.now() - HOUR);
+    psnApi.exchangeRefreshTokenForAuthTokens.mockResolvedValueOnce(authorization({ accessToken: 'fresh', refreshToken: 'rotated' }));
+    psnApi.getUserTitles.mockResolvedValueOnce({ trophyTitles: [] });
+
+    await psnAdapter.fetchLibrary({ user });
+
+    expect(psnApi.exchangeRefreshTokenForAuthTokens).toHaveBeenCalledWith('refresh');
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: 'user-object-id', psnRefreshToken: { $exists: true } }, {
+      $set: expect.objectContaining({ psnAccessToken: 'fresh', psnRefreshToken: 'rotated' }),
+    });
+    expect(psnApi.getUserTitles).toHaveBeenCalledWith({ accessToken: 'fresh' }, 'me');
+  });
+
+  it('asks the user to reconnect once the refresh token has expired', async () => {
+    user.psnTokenExpiresAt = new Date(Date.now() - HOUR);
+    user.psnRefreshTokenExpiresAt = new Date(Date.now() - HOUR);
+
+    await expect(psnAdapter.fetchLibrary({ user })).rejects.toMatchObject({ status: 401 });
+    expect(psnApi.exchangeRefreshTokenForAuthTokens).not.toHaveBeenCalled();
+  });
+
+  it('only syncs users holding a refresh token', async () => {
+    expect(psnAdapter.accountForUser({ _id: 'u1', psnAccountId: 'psn-account-1' })).toBeNull();
+    User.findById.mockResolvedValueOnce(user);
+    await expect(psnAdapter.accountFromKey('user-object-id')).resolves.toEqual({ user });
+  });
+
+  it('replaces NPSSO tokens stored by older versions with a token pair', async () => {
+    User.collection.find.mockReturnValueOnce({
+      toArray: jest.fn().mockResolvedValue([{ _id: 'u1', npsso: 'valid-npsso' }, { _id: 'u2', npsso: 'expired-npsso' }]),
+    });
+    User.collection.dropIndex.mockRejectedValueOnce(new Error('index not found'));
+    psnApi.exchangeNpssoForAccessCode
+      .mockResolvedValueOnce('v3.code')
+      .mockRejectedValueOnce(new Error('NPSSO code is expired or invalid'));
+    psnApi.exchangeAccessCodeForAuthTokens.mockResolvedValueOnce(authorization());
+
+    await expect(psnAdapter.migrateLegacyNpsso()).resolves.toBe(2);
+
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: 'u1' }, {
+      $unset: { npsso: '' },
+      $set: expect.objectContaining({ psnRefreshToken: 'refresh' }),
+    }, { strict: false });
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: 'u2' }, { $unset: { npsso: '' } }, { strict: false });
+  });
+});
@@ -0,0 +1,176 @@
+const request = require('supertest');
+const express = require('express');
+const psnApi = require('psn-api');
+const User = require('./models/User');
+const PsnGame = require('./models/PsnGame');
+const Achievement = require('./models/Achievement');
+const psnRoutes = require('./routes/psn');
+const { PsnTrophiesError, getPsnTrophies } = require('./services/psnTrophies');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('psn-api', () => ({
+  exchangeRefreshTokenForAuthTokens: jest.fn(),
+  getTitleTrophyGroups: jest.fn(),
+  getTitleTrophies: jest.fn(),
+  getUserTrophiesEarnedForTitle: jest.fn(),
+}));
+
+jest.mock('./models/PsnGame', () => ({
+  findOne: jest.fn(),
+}));
+
+jest.mock('./models/User', () => ({
+  findById: jest.fn(),
+}));
+
+jest.mock('./models/Achievement', () => ({
+  bulkWrite: jest.fn(),
+}));
+
+jest.mock('./services/syncScheduler', () => ({
+  getStoredLibrary: jest.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+const storedGame = (overrides = {}) => ({
+  npCommunicationId: 'NPWR20188_00',
+  trophyTitleName: 'Horizon Forbidden West',
+  trophyTitlePlatform: 'PS5',
+  npServiceName: 'trophy2',
+  ...overrides,
+});
+
+const mockTrophySet = () => {
+  psnApi.getTitleTrophyGroups.mockResolvedValue({
+    trophyGroups: [
+      { trophyGroupId: 'default', trophyGroupName: 'Horizon Forbidden West', trophyGroupIconUrl: 'hfw.png' },
+      { trophyGroupId: '001', trophyGroupName: 'Burning Shores', trophyGroupIconUrl: 'shores.png' },
+    ],
+  });
+  psnApi.getTitleTrophies.mockResolvedValue({
+    trophies: [
+      { trophyId: 0, trophyType: 'platinum', trophyName: 'Horizon Forbidden West', trophyDetail: 'Collect all trophies.', trophyIconUrl: 'plat.png', trophyHidden: false, trophyGroupId: 'default' },
+      { trophyId: 1, trophyType: 'bronze', trophyName: 'Ready to Ride', trophyDetail: 'Override a Charger.', trophyIconUrl: 'ride.png', trophyHidden: true, trophyGroupId: 'default' },
+      { trophyId: 90, trophyType: 'gold', trophyName: 'Burning Shores Completed', trophyDetail: 'Complete the expansion.', trophyIconUrl: 'bs.png', trophyHidden: false, trophyGroupId: '001' },
+    ],
+  });
+  psnApi.getUserTrophiesEarnedForTitle.mockResolvedValue({
+    trophies: [
+      { trophyId: 0, earned: false, trophyEarnedRate: '8.1' },
+      { trophyId: 1, earned: true, earnedDateTime: '2024-03-02T18:00:00Z', trophyEarnedRate: '92.4' },
+      { trophyId: 90, earned: false, trophyEarnedRate: '12.0' },
+    ],
+  });
+};
+
+describe('PSN trophy lists', () => {
+  let user;
+  let app;
+
+  beforeAll(() => {
+    app = express();
+    app.use((req, res, next) => {
+      req.user = user && { id: user.id };
+      next();
+    });
+    app.use('/api/psn', psnRoutes);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    user = {
+      _id: 'user-object-id',
+      id: 'user-object-id',
+      psnAccessToken: 'access',
+      psnRefreshToken: 'refresh',
+      psnTokenExpiresAt: new Date(Date.now() + HOUR),
+      psnRefreshTokenExpiresAt: new Date(Date.now() + 24 * HOUR),
+    };
+    User.findById.mockResolvedValue(user);
+    PsnGame.findOne.mockReturnValue({ lean: async () => storedGame() });
+  });
+
+  it('merges earned trophies into the trophy list, grouped into the base game and DLC packs', async () => {
+    mockTrophySet();
+
+    const list = await getPsnTrophies(user, 'NPWR20188_00');
+
+    expect(psnApi.getTitleTrophies).toHaveBeenCalledWith({ accessToken: 'access' }, 'NPWR20188_00', 'all', { npServiceName: 'trophy2' });
+    expect(list.groups).toEqual([
+      { id: 'default', name: 'Horizon Forbidden West', iconUrl: 'hfw.png', isDlc: false, earned: 1, total: 2 },
+      { id: '001', name: 'Burning Shores', iconUrl: 'shores.png', isDlc: true, earned: 0, total: 1 },
+    ]);
+    expect(list.trophies[1]).toEqual({
+      id: '1',
+      platform: 'psn',
+      gameId: 'NPWR20188_00',
+      name: 'Ready to Ride',
+      description: 'Override a Charger.',
+      grade: 'bronze',
+      iconUrl: 'ride.png',
+      hidden: true,
+      isUnlocked: true,
+      unlockedTime: '2024-03-02T18:00:00.000Z',
+      points: undefined,
+      rarityPercent: 92.4,
+      groupId: 'default',
+    });
+    expect(list.trophies[2]).toEqual(expect.objectContaining({ isUnlocked: false, unlockedTime: undefined, groupId: '001' }));
+    expect(Achievement.bulkWrite.mock.calls[0][0]).toHaveLength(3);
+    expect(Achievement.bulkWrite.mock.calls[0][0][1].updateOne.filter).toEqual({ platform: 'psn', accountKey: 'user-object-id', gameId: 'NPWR20188_00', externalId: '1' });
+  });
+
+  it('reads PS4 trophy sets synced before the service name was stored from the "trophy" service', async () => {
+    PsnGame.findOne.mockReturnValue({ lean: async () => storedGame({ trophyTitlePlatform: 'PS4', npServiceName: undefined }) });
+    mockTrophySet();
+
+    await getPsnTrophies(user, 'NPWR20188_00');
+
+    expect(psnApi.getTitleTrophyGroups).toHaveBeenCalledWith({ accessToken: 'access' }, 'NPWR20188_00', { npServiceName: 'trophy' });
+  });
+
+  it('rejects games outside the library and games without trophies', async () => {
+    PsnGame.findOne.mockReturnValueOnce({ lean: async () => null });
+    await expect(getPsnTrophies(user, 'NPWR00000_00')).rejects.toBeInstanceOf(PsnTrophiesError);
+
+    PsnGame.findOne.mockReturnValueOnce({ lean: async () => storedGame({ npCommunicationId: 'PPSA01284_00', hasTrophies: false }) });
+    await expect(getPsnTrophies(user, 'PPSA01284_00')).rejects.toThrow(/has no trophies/);
+    expect(psnApi.getTitleTrophies).not.toHaveBeenCalled();
+  });
+
+  it('GET /api/psn/games/:npCommunicationId/trophies returns the list', async () => {
+    mockTrophySet();
+
+    const response = await request(app).get('/api/psn/games/NPWR20188_00/trophies');
+
+    expect(response.status).toBe(200);
+    expect(response.body.title).toBe('Horizon Forbidden West');
+    expect(response.body.trophies).toHaveLength(3);
+  });
+
+  it('answers 404 for games outside the library', async () => {
+    PsnGame.findOne.mockReturnValue({ lean: async () => null });
+
+    const response = await request(app).get('/api/psn/games/NPWR00000_00/trophies');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('asks to reconnect when PSN rejects the session', async () => {
+    psnApi.getTitleTrophyGroups.mockRejectedValue(new Error('authentication_error'));
+    psnApi.getTitleTrophies.mockResolvedValue({ trophies: [] });
+    psnApi.getUserTrophiesEarnedForTitle.mockResolvedValue({ trophies: [] });
+
+    const response = await request(app).get('/api/psn/games/NPWR20188_00/trophies');
+
+    expect(response.status).toBe(401);
+    expect(response.body.error).toMatch(/reconnect/);
+  });
+});
@@ -290,9 +290,7 @@ router.get('/logout', async (req, res, next) => { // Made async
 });
 
 // --- Xbox Connection Route ---
-const axios = require('axios'); // For calling Xbox API
-const XBL_API_KEY = process.env.XBL_API_KEY;
-const XBL_API_BASE_URL = 'https://xbl.io/api/v2';
+const xboxAdapter = require('../adapters/xboxAdapter');
 
 router.post('/xbox/connect', async (req, res) => {
     if (!req.user) {
@@ -310,31 +308,12 @@ router.post('/xbox/connect', async (req, res) => {
         // Optional: Verify XUID and get profile details from Xbox Live API
         let gamertag = req.body.gamertag; // Use provided gamertag if any
 
-        if (XBL_API_KEY) {
+        if (xboxAdapter.isConfigured()) {
             try {
-                const profileUrl = `${XBL_API_BASE_URL}/account/${xuid}`;
-                logger.debug(`Fetching Xbox profile from: ${profileUrl}`);
-                const response = await axios.get(profileUrl, {
-                    headers: {
-                        'X-Authorization': XBL_API_KEY,
-                        'Accept': 'application/json',
-                        'Accept-Language': 'en-US'
-                    }
-                });
-
-                if (response.data && response.data.profileUsers && response.data.profileUsers.length > 0) {
-                    const profile = response.data.profileUsers[0];
-                    if (profile.settings) {
-                        const gamertagSetting = profile.settings.find(s => s.id === 'Gamertag');
-                        if (gamertagSetting) {
-                            gamertag = gamertagSetting.value;
-                            logger.info(`Successfully fetched Xbox gamertag '${gamertag}' for XUID ${xuid}.`);
-                        }
-                    }
-                } else {
-                    logger.warn(`Could not verify XUID ${xuid} or fetch gamertag. Response was not as expected.`);
-                    // Decide if this is a hard failure or proceed with user-provided/no gamertag
-                    // For now, let's proceed but log it.
+                const profile = await xboxAdapter.fetchProfile({ xuid });
+                if (profile.displayName) {
+                    gamertag = profile.displayName;
+                    logger.info(`Successfully fetched Xbox gamertag '${gamertag}' for XUID ${xuid}.`);
                 }
             } catch (apiError) {
                 logger.error(`Error calling Xbox API to verify XUID ${xuid}:`, {
@@ -348,7 +327,7 @@ router.post('/xbox/connect', async (req, res) => {
                 } else if (apiError.response && apiError.response.status === 401) {
                     friendlyMessage = 'Xbox API request unauthorized. Server configuration issue.';
                 }
-                return res.status(apiError.response?.status || 500).json({ message: friendlyMessage });
+                return res.status(apiError.response?.status || apiError.status || 500).json({ message: friendlyMessage });
             }
         } else {
             logger.warn('XBL_API_KEY not set. Proceeding without Xbox profile verification/gamertag fetch.');
@@ -373,7 +352,7 @@ router.post('/xbox/connect', async (req, res) => {
                 xboxGamertag: gamertag || '', // Store fetched/provided gamertag or empty string
             },
             { new: true }
-        ).select('-password -npsso'); // Exclude sensitive fields
+        ).select('-password -psnAccessToken -psnRefreshToken -gogAccessToken -gogRefreshToken -epicAccessToken -epicRefreshToken'); // Exclude sensitive fields
 
         if (!updatedUser) {
             logger.warn(`User not found during Xbox connect process for ID: ${req.user.id}`);
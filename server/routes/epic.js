@@ -0,0 +1,139 @@
+const crypto = require('crypto');
+const express = require('express');
+const logger = require('../config/logger');
+const appBaseUrl = require('../config/appBaseUrl');
+const User = require('../models/User');
+const epicAdapter = require('../adapters/epicAdapter');
+const { findStoredGames, upsertGame } = require('../adapters/libraryCache');
+const { getStoredLibrary, enqueueSync } = require('../services/syncScheduler');
+
+const router = express.Router();
+
+// Heroic/Legendary exports of large libraries are well over express.json()'s 100kb default,
+// so the frontend uploads the file as text/plain and it is parsed here.
+const IMPORT_BODY_LIMIT = '10mb';
+
+const ensureAuthenticated = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'User not authenticated' });
+  }
+  next();
+};
+
+// GET /api/epic/games - Stored Epic games (imported or synced). `sync` is null for import-only libraries.
+router.get('/games', ensureAuthenticated, async (req, res) => {
+  const account = { user: req.user };
+  try {
+    const { games, sync } = epicAdapter.accountForUser(req.user)
+      ? await getStoredLibrary(epicAdapter, account)
+      : { games: await findStoredGames(epicAdapter, account), sync: null };
+    res.json({
+      games: games.map(epicAdapter.toResponse),
+      sync,
+      oauthAvailable: epicAdapter.isConfigured(),
+    });
+  } catch (error) {
+    logger.error(`Error loading stored Epic games for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to load Epic games.', details: { message: error.message } });
+  }
+});
+
+// POST /api/epic/import - Imports a Legendary (`legendary list --json`, installed.json) or
+// Heroic (legendary_library.json) library export. Accepts the file as text/plain or a JSON body.
+router.post('/import', ensureAuthenticated, express.text({ limit: IMPORT_BODY_LIMIT }), async (req, res) => {
+  let data = req.body;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch (parseError) {
+      return res.status(400).json({ error: 'The uploaded file is not valid JSON.', details: { message: parseError.message } });
+    }
+  }
+
+  const account = { user: req.user };
+  const games = epicAdapter.parseLibraryExport(data, account);
+  if (!games) {
+    return res.status(400).json({ error: 'Unrecognised Epic library export. Upload the JSON exported by Legendary or Heroic.' });
+  }
+  if (games.length === 0) {
+    return res.status(400).json({ error: 'The Epic library export does not contain any games.' });
+  }
+
+  try {
+    const saved = [];
+    for (const game of games) {
+      const stored = await upsertGame(epicAdapter, account, game);
+      if (stored) saved.push(stored);
+    }
+    logger.info(`Imported ${saved.length}/${games.length} Epic games for user ${req.user.id}.`);
+    res.json({
+      message: `Imported ${saved.length} Epic games.`,
+      imported: saved.length,
+      failed: games.length - saved.length,
+      games: (await findStoredGames(epicAdapter, account)).map(epicAdapter.toResponse),
+    });
+  } catch (error) {
+    logger.error(`Error importing Epic library for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to import Epic library.', details: { message: error.message } });
+  }
+});
+
+// GET /api/epic/connect - Starts the optional Epic OAuth flow
+router.get('/connect', ensureAuthenticated, (req, res) => {
+  if (!epicAdapter.isConfigured()) {
+    return res.status(503).json({ error: 'Epic sign-in is not configured on this server. Import a Legendary or Heroic export instead.' });
+  }
+  const state = crypto.randomBytes(16).toString('hex');
+  req.session.epicOAuthState = state;
+  res.redirect(epicAdapter.authorizationUrl(state));
+});
+
+// GET /api/epic/callback - Epic redirects here with ?code=&state=
+router.get('/callback', ensureAuthenticated, async (req, res) => {
+  const redirectBase = `${appBaseUrl()}/dashboard`;
+  const { code, state, error } = req.query;
+  const expectedState = req.session.epicOAuthState;
+  delete req.session.epicOAuthState;
+
+  if (error) {
+    logger.warn(`Epic OAuth was not completed for user ${req.user.id}: ${error}`);
+    return res.redirect(`${redirectBase}?epic_error=${encodeURIComponent(String(error))}`);
+  }
+  if (!code || !state || state !== expectedState) {
+    logger.warn(`Epic OAuth callback with missing code or mismatched state for user ${req.user.id}.`);
+    return res.redirect(`${redirectBase}?epic_error=invalid_state`);
+  }
+
+  try {
+    const fields = await epicAdapter.exchangeCode(String(code));
+    const existing = await User.findOne({ epicAccountId: fields.epicAccountId, _id: { $ne: req.user._id } });
+    if (existing) {
+      logger.warn(`User ${req.user.id} attempted to link Epic account ${fields.epicAccountId} already linked to user ${existing._id}.`);
+      return res.redirect(`${redirectBase}?epic_error=account_in_use`);
+    }
+
+    const user = await User.findByIdAndUpdate(req.user._id, fields, { new: true });
+    try {
+      const profile = await epicAdapter.fetchProfile({ user });
+      if (profile.displayName) {
+        user.epicDisplayName = profile.displayName;
+        await user.save();
+      }
+    } catch (profileError) {
+      // Not fatal: the library still syncs without a display name.
+      logger.warn(`Could not fetch Epic profile for user ${user.id}: ${profileError.message}`);
+    }
+
+    await enqueueSync(epicAdapter, { user }, { trigger: 'manual' });
+    logger.info(`Epic account ${fields.epicAccountId} linked to user ${user.id}.`);
+    res.redirect(`${redirectBase}?epic_login_success=true`);
+  } catch (exchangeError) {
+    logger.error(`Epic OAuth code exchange failed for user ${req.user.id}:`, {
+      errorMessage: exchangeError.message,
+      status: exchangeError.response ? exchangeError.response.status : undefined,
+    });
+    res.redirect(`${redirectBase}?epic_error=token_exchange_failed`);
+  }
+});
+
+module.exports = router;
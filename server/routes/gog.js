@@ -1,45 +1,234 @@
+const crypto = require('crypto');
 const express = require('express');
-const axios = require('axios');
 const logger = require('../config/logger'); // Corrected logger path
+const appBaseUrl = require('../config/appBaseUrl');
+const User = require('../models/User');
+const gogAdapter = require('../adapters/gogAdapter');
+const { translateUpstreamError } = require('../adapters/upstreamErrors');
+const { findStoredGames } = require('../adapters/libraryCache');
+const { getStoredLibrary, enqueueSync } = require('../services/syncScheduler');
+const galaxyImport = require('../services/galaxyImport');
+const GalaxyGame = require('../models/GalaxyGame');
 
 const router = express.Router();
 
-router.get('/user/:gogUserId/games', async (req, res) => {
-  const { gogUserId } = req.params;
-  logger.info(`Fetching GOG games for user ${gogUserId}`);
-
-  try {
-    // Construct GOG API URL
-    const apiUrl = 'https://embed.gog.com/user/data/games';
-    logger.info(`Calling GOG API: ${apiUrl}`);
-
-    const response = await axios.get(apiUrl);
-
-    if (response.data && response.data.games) {
-      logger.info(`Received ${response.data.games.length} games from GOG API for user ${gogUserId}`);
-      const transformedGames = response.data.games.map(game => ({
-        appID: game.id,
-        name: game.title,
-        playtimeForever: 0, // GOG API might not provide this
-        imgIconURL: game.image ? `https:${game.image}_196.jpg` : '', // Construct full URL
-        achievements: { unlocked: 0, total: 0 }, // GOG API might not provide this
-      }));
-      res.json(transformedGames);
-    } else {
-      logger.warn(`No games data found in GOG API response for user ${gogUserId}`);
-      res.status(404).json({ message: 'No games found for this GOG user or API structure changed.' });
+// An import holds galaxy-2.0.db in memory twice (the upload and sql.js' copy), so uploads are capped
+// and imports run one per user and only a few at a time. Databases with thousands of games stay well below 64 MB.
+const GALAXY_UPLOAD_LIMIT = '64mb';
+const MAX_CONCURRENT_GALAXY_IMPORTS = 2;
+const galaxyImportsInProgress = new Set(); // User ids
+
+const readGalaxyUpload = express.raw({ type: () => true, limit: GALAXY_UPLOAD_LIMIT });
+
+const ensureAuthenticated = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'User not authenticated' });
+  }
+  next();
+};
+
+// Accepts either the bare code or the whole login-success URL the user copied from GOG.
+function extractCode(input) {
+  const value = String(input || '').trim();
+  if (!value.includes('code=')) return value;
+  try {
+    return new URL(value).searchParams.get('code') || '';
+  } catch (urlError) {
+    return new URLSearchParams(value.slice(value.indexOf('?') + 1)).get('code') || '';
+  }
+}
+
+class GogLinkConflictError extends Error {}
+
+// Exchanges the code, stores the tokens on the user and queues the first library sync.
+async function linkGogAccount(userId, code) {
+  const fields = await gogAdapter.exchangeCode(code);
+  const existing = fields.gogUserId
+    ? await User.findOne({ gogUserId: fields.gogUserId, _id: { $ne: userId } })
+    : null;
+  if (existing) {
+    throw new GogLinkConflictError(`GOG account ${fields.gogUserId} is already linked to user ${existing._id}.`);
+  }
+
+  const user = await User.findByIdAndUpdate(userId, fields, { new: true });
+  try {
+    const profile = await gogAdapter.fetchProfile({ user });
+    if (profile.displayName) {
+      user.gogUsername = profile.displayName;
+      await user.save();
+    }
+  } catch (profileError) {
+    // Not fatal: the library still syncs without a username.
+    logger.warn(`Could not fetch GOG profile for user ${user.id}: ${profileError.message}`);
+  }
+
+  await enqueueSync(gogAdapter, { user }, { trigger: 'manual' });
+  logger.info(`GOG account ${user.gogUserId} linked to user ${user.id}.`);
+  return user;
+}
+
+// GET /api/gog/games - Serves the stored GOG library; syncing happens in the background.
+// `sync` is null when the games only come from a GOG Galaxy import.
+router.get('/games', ensureAuthenticated, async (req, res) => {
+  const account = { user: req.user };
+  try {
+    const { games, sync } = gogAdapter.accountForUser(req.user)
+      ? await getStoredLibrary(gogAdapter, account)
+      : { games: await findStoredGames(gogAdapter, account), sync: null };
+    res.json({ games: games.map(gogAdapter.toResponse), sync });
+  } catch (error) {
+    logger.error(`Error loading stored GOG games for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to load GOG games.', details: { message: error.message } });
+  }
+});
+
+// GET /api/gog/connect - Sends the user to the GOG login page
+router.get('/connect', ensureAuthenticated, (req, res) => {
+  if (!gogAdapter.isConfigured()) {
+    return res.status(503).json({ error: 'GOG client credentials are not configured on the server.' });
+  }
+  req.session.gogOAuthState = crypto.randomBytes(16).toString('hex');
+  const url = new URL(gogAdapter.authorizationUrl());
+  // GOG echoes `state` back only to our own callback; its login-success page ignores it.
+  if (gogAdapter.redirectsToServer()) url.searchParams.set('state', req.session.gogOAuthState);
+  res.redirect(url.toString());
+});
+
+// GET /api/gog/callback - GOG redirects here with ?code= when GOG_OAUTH_CALLBACK_URL is registered for the client
+router.get('/callback', ensureAuthenticated, async (req, res) => {
+  const redirectBase = `${appBaseUrl()}/dashboard`;
+  const { code, state, error } = req.query;
+  const expectedState = req.session.gogOAuthState;
+  delete req.session.gogOAuthState;
+
+  if (error) {
+    logger.warn(`GOG OAuth was not completed for user ${req.user.id}: ${error}`);
+    return res.redirect(`${redirectBase}?gog_error=${encodeURIComponent(String(error))}`);
+  }
+  if (!code || !state || state !== expectedState) {
+    logger.warn(`GOG OAuth callback with missing code or mismatched state for user ${req.user.id}.`);
+    return res.redirect(`${redirectBase}?gog_error=invalid_state`);
+  }
+
+  try {
+    await linkGogAccount(req.user._id, String(code));
+    res.redirect(`${redirectBase}?gog_login_success=true`);
+  } catch (linkError) {
+    logger.error(`GOG OAuth code exchange failed for user ${req.user.id}:`, { errorMessage: linkError.message });
+    const reason = linkError instanceof GogLinkConflictError ? 'account_in_use' : 'token_exchange_failed';
+    res.redirect(`${redirectBase}?gog_error=${reason}`);
+  }
+});
+
+// POST /api/gog/connect - Links GOG with a code copied from GOG's login-success page ({ code })
+router.post('/connect', ensureAuthenticated, async (req, res) => {
+  if (!gogAdapter.isConfigured()) {
+    return res.status(503).json({ error: 'GOG client credentials are not configured on the server.' });
+  }
+  const code = extractCode(req.body && req.body.code);
+  if (!code) {
+    return res.status(400).json({ error: 'GOG login code is required.' });
+  }
+
+  try {
+    const user = await linkGogAccount(req.user._id, code);
+    res.json({
+      message: 'GOG account connected successfully',
+      gogUser: { userId: user.gogUserId, username: user.gogUsername },
+    });
+  } catch (error) {
+    if (error instanceof GogLinkConflictError) {
+      logger.warn(`User ${req.user.id} attempted to link a GOG account already in use: ${error.message}`);
+      return res.status(409).json({ error: 'This GOG account is already linked to a different user account in Game Nexus Unifier.' });
     }
+    const { status, body } = translateUpstreamError(error, gogAdapter, 'connect GOG account');
+    logger.error(`Error connecting GOG account for user ${req.user.id}:`, { status, errorMessage: error.message });
+    res.status(status).json(body);
+  }
+});
+
+// GET /api/gog/galaxy - Games from the last GOG Galaxy import, across every platform linked in Galaxy
+router.get('/galaxy', ensureAuthenticated, async (req, res) => {
+  try {
+    const games = await GalaxyGame.find({ userId: req.user._id }).sort({ title: 1 });
+    res.json({
+      games: games.map(galaxyImport.toResponse),
+      importedAt: games.length > 0 ? games[0].importedAt : null,
+    });
   } catch (error) {
-    logger.error(`Error fetching GOG games for user ${gogUserId}: ${error.message}`);
-    if (error.response) {
-      logger.error(`GOG API response error: Status ${error.response.status}, Data: ${JSON.stringify(error.response.data)}`);
-      res.status(error.response.status).json({ message: 'Error fetching data from GOG API.', details: error.response.data });
-    } else if (error.request) {
-      logger.error('GOG API no response received');
-      res.status(503).json({ message: 'No response from GOG API.' });
-    } else {
-      res.status(500).json({ message: 'Internal server error while fetching GOG games.' });
+    logger.error(`Error loading GOG Galaxy games for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to load GOG Galaxy games.', details: { message: error.message } });
+  }
+});
+
+// Claims an import slot before the upload is read; the import route gives it back once its work has settled.
+function claimGalaxyImport(req, res, next) {
+  const userId = String(req.user._id);
+  if (galaxyImportsInProgress.has(userId)) {
+    return res.status(409).json({ error: 'A GOG Galaxy import is already running for your account. Wait for it to finish.' });
+  }
+  if (galaxyImportsInProgress.size >= MAX_CONCURRENT_GALAXY_IMPORTS) {
+    res.set('Retry-After', '60');
+    return res.status(503).json({ error: 'The server is busy importing other GOG Galaxy databases. Try again in a minute.' });
+  }
+
+  galaxyImportsInProgress.add(userId);
+  next();
+}
+
+// Resolves with the body parser's error, if any; req.body holds the upload otherwise
+const readGalaxyDatabaseUpload = (req, res) => new Promise(resolve => readGalaxyUpload(req, res, resolve));
+
+async function importGalaxyUpload(req, res) {
+  const uploadError = await readGalaxyDatabaseUpload(req, res);
+  if (uploadError) {
+    if (uploadError.type === 'entity.too.large') {
+      return res.status(413).json({ error: `The GOG Galaxy database is larger than ${GALAXY_UPLOAD_LIMIT}.` });
+    }
+    logger.warn(`Could not read the GOG Galaxy upload of user ${req.user.id}: ${uploadError.message}`);
+    return res.status(uploadError.status || 400).json({ error: 'Could not read the uploaded GOG Galaxy database.', details: { message: uploadError.message } });
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: 'Upload the galaxy-2.0.db file as the request body.' });
+  }
+
+  let games;
+  try {
+    games = await galaxyImport.readGalaxyDatabase(req.body);
+  } catch (error) {
+    if (error instanceof galaxyImport.GalaxyDatabaseError) {
+      return res.status(400).json({ error: error.message, details: {} });
     }
+    logger.error(`Error reading GOG Galaxy database for user ${req.user.id}:`, { errorMessage: error.message });
+    return res.status(500).json({ error: 'Failed to read the GOG Galaxy database.', details: { message: error.message } });
+  }
+  if (games.length === 0) {
+    return res.status(400).json({ error: 'The GOG Galaxy database does not contain any owned games.' });
+  }
+
+  try {
+    const { imported, gogGames } = await galaxyImport.importGalaxyGames(req.user, games);
+    const stored = await GalaxyGame.find({ userId: req.user._id }).sort({ title: 1 });
+    res.json({
+      message: `Imported ${imported} games from GOG Galaxy (${gogGames} from GOG).`,
+      imported,
+      gogGames,
+      games: stored.map(galaxyImport.toResponse),
+    });
+  } catch (error) {
+    logger.error(`Error importing GOG Galaxy database for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to import the GOG Galaxy database.', details: { message: error.message } });
+  }
+}
+
+// POST /api/gog/galaxy/import - Imports a GOG Galaxy 2.0 database (galaxy-2.0.db) uploaded as the raw request body.
+// Playtime, last played and achievements are merged into the GOG library; other platforms' games are kept in GalaxyGame.
+// The import slot is held until the import has finished, even when the client goes away before that.
+router.post('/galaxy/import', ensureAuthenticated, claimGalaxyImport, async (req, res) => {
+  try {
+    await importGalaxyUpload(req, res);
+  } finally {
+    galaxyImportsInProgress.delete(String(req.user._id));
   }
 });
 
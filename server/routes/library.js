@@ -0,0 +1,311 @@
+const express = require('express');
+const logger = require('../config/logger');
+const { LibraryGroupingError, getUnifiedLibrary, mergeLibraryGames, splitLibraryGame } = require('../services/library');
+const { LibraryExportError, exportLibrary } = require('../services/libraryExport');
+const { PlaytimeHistoryError, getPlaytimeHistory } = require('../services/playtimeHistory');
+const { ActivityFeedError, getActivityFeed } = require('../services/activityFeed');
+const { GameProgressError, setPlayStatus } = require('../services/gameProgress');
+const { GameReviewError, saveReview, deleteReview } = require('../services/gameReviews');
+const { GameTagError, editTags } = require('../services/gameTags');
+const {
+  CollectionError,
+  listCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  changeCollectionGames,
+} = require('../services/collections');
+const { CollectionRuleError } = require('../services/collectionRules');
+const {
+  ManualGameError,
+  listManualGames,
+  createManualGame,
+  updateManualGame,
+  deleteManualGame,
+} = require('../services/manualGames');
+
+const router = express.Router();
+
+const ensureAuthenticated = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'User not authenticated' });
+  }
+  next();
+};
+
+// GET /api/library - The logged-in user's games from every platform, already normalized, plus
+// per-platform status. ?steamId= / ?xuid= add a public Steam/Xbox library the user has not linked,
+// like the platform routes and /api/sync/events accept.
+const libraryLookups = query => {
+  const lookups = {};
+  if (query.steamId) lookups.steam = { steamId: String(query.steamId) };
+  if (query.xuid) lookups.xbox = { xuid: String(query.xuid) };
+  return lookups;
+};
+
+router.get('/', ensureAuthenticated, async (req, res) => {
+  const lookups = libraryLookups(req.query);
+
+  try {
+    res.json(await getUnifiedLibrary(req.user, { lookups }));
+  } catch (error) {
+    logger.error(`Error building the unified library for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to load your game library.', details: { message: error.message } });
+  }
+});
+
+// GET /api/library/export?format=csv|json|xlsx - The unified library as a file download, one row per
+// game with its platforms, playtime, achievements, gamerscore, trophies, statuses and tags. Accepts
+// ?steamId= / ?xuid= like GET /.
+router.get('/export', ensureAuthenticated, async (req, res) => {
+  try {
+    const { contentType, filename, body } = await exportLibrary(req.user, String(req.query.format || 'csv'), {
+      lookups: libraryLookups(req.query),
+    });
+    res.set('Content-Type', contentType);
+    res.attachment(filename);
+    res.send(body);
+  } catch (error) {
+    if (error instanceof LibraryExportError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error(`Error exporting the library for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to export your game library.', details: { message: error.message } });
+  }
+});
+
+// GET /api/library/playtime - Playtime gained per period, from the snapshots recorded on every
+// sync. Query: granularity (day|week|month), from, to (dates), platform or gameId (e.g.
+// steam-292030) and tz (IANA time zone the periods start in). Accepts ?steamId= / ?xuid= like GET /.
+router.get('/playtime', ensureAuthenticated, async (req, res) => {
+  const { granularity, from, to, platform, gameId, tz } = req.query;
+  const query = { granularity, from, to, platform, gameId, timezone: tz };
+  Object.keys(query).forEach(key => query[key] === undefined && delete query[key]);
+
+  try {
+    res.json(await getPlaytimeHistory(req.user, query, { lookups: libraryLookups(req.query) }));
+  } catch (error) {
+    if (error instanceof PlaytimeHistoryError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error(`Error loading the playtime history for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to load your playtime history.', details: { message: error.message } });
+  }
+});
+
+// GET /api/library/activity - Achievements unlocked and games played or added, newest first.
+// Query: platform or gameId (e.g. steam-292030), limit (page size) and before (the nextCursor of
+// the previous page). Accepts ?steamId= / ?xuid= like GET /.
+router.get('/activity', ensureAuthenticated, async (req, res) => {
+  const { platform, gameId, before, limit } = req.query;
+  const query = { platform, gameId, before, limit };
+  Object.keys(query).forEach(key => query[key] === undefined && delete query[key]);
+
+  try {
+    res.json(await getActivityFeed(req.user, query, { lookups: libraryLookups(req.query) }));
+  } catch (error) {
+    if (error instanceof ActivityFeedError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error(`Error loading the activity feed for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to load your activity.', details: { message: error.message } });
+  }
+});
+
+const sendGroupingError = (res, error, req, action) => {
+  if (error instanceof LibraryGroupingError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(`Error trying to ${action} library games for user ${req.user.id}:`, { errorMessage: error.message });
+  res.status(500).json({ error: `Failed to ${action} the games.`, details: { message: error.message } });
+};
+
+// POST /api/library/merge - Body: { gameIds: [...] }. Shows the given entries (e.g. steam-292030,
+// gog-1207664643) as one game, overriding the automatic title matching.
+router.post('/merge', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await mergeLibraryGames(req.user, req.body && req.body.gameIds));
+  } catch (error) {
+    sendGroupingError(res, error, req, 'merge');
+  }
+});
+
+// POST /api/library/split - Body: { gameId }. Shows the entry as a game of its own.
+router.post('/split', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await splitLibraryGame(req.user, req.body && req.body.gameId));
+  } catch (error) {
+    sendGroupingError(res, error, req, 'split');
+  }
+});
+
+// PUT /api/library/status - Body: { gameIds: [...], playStatus }. Sets the user's play status
+// (wishlist, backlog, playing, completed, hundred_percent, abandoned) of a game, given every entry
+// id of it; a null playStatus clears it.
+router.put('/status', ensureAuthenticated, async (req, res) => {
+  const { gameIds, playStatus } = req.body || {};
+  try {
+    res.json(await setPlayStatus(req.user, gameIds, playStatus));
+  } catch (error) {
+    if (error instanceof GameProgressError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error(`Error setting the play status of library games for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to save the play status.', details: { message: error.message } });
+  }
+});
+
+const sendReviewError = (res, error, req, action) => {
+  if (error instanceof GameReviewError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(`Error trying to ${action} a game review for user ${req.user.id}:`, { errorMessage: error.message });
+  res.status(500).json({ error: `Failed to ${action} the review.`, details: { message: error.message } });
+};
+
+// PUT /api/library/review - Body: { gameIds: [...], score?, review?, notes?, finishedAt? }. Saves
+// the user's review of a game, given every entry id of it: a 1-10 score, a markdown review,
+// private notes and the date it was finished. Fields left out are removed from the review.
+router.put('/review', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await saveReview(req.user, req.body));
+  } catch (error) {
+    sendReviewError(res, error, req, 'save');
+  }
+});
+
+// DELETE /api/library/review - Body: { gameIds: [...] }.
+router.delete('/review', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await deleteReview(req.user, req.body));
+  } catch (error) {
+    sendReviewError(res, error, req, 'delete');
+  }
+});
+
+// POST /api/library/tags - Body: { gameIds: [...], add?: [...], remove?: [...] }. Adds and removes
+// free-form tags on every game given, with every entry id of each.
+router.post('/tags', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await editTags(req.user, req.body));
+  } catch (error) {
+    if (error instanceof GameTagError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error(`Error editing the tags of library games for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to save the tags.', details: { message: error.message } });
+  }
+});
+
+const sendCollectionError = (res, error, req, action) => {
+  if (error instanceof CollectionError || error instanceof CollectionRuleError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(`Error trying to ${action} a collection for user ${req.user.id}:`, { errorMessage: error.message });
+  res.status(500).json({ error: `Failed to ${action} the collection.`, details: { message: error.message } });
+};
+
+// GET /api/library/collections - The user's collections with the library entry ids in each.
+// GET / already includes them; this lists them on their own.
+router.get('/collections', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json({ collections: await listCollections(req.user) });
+  } catch (error) {
+    sendCollectionError(res, error, req, 'list');
+  }
+});
+
+// POST /api/library/collections - Body: { name, description?, gameIds? }, or { name, description?,
+// rules } for a smart collection (see services/collectionRules.js). Answers 201, or 409 when the
+// user already has a collection with that name.
+router.post('/collections', ensureAuthenticated, async (req, res) => {
+  try {
+    res.status(201).json(await createCollection(req.user, req.body));
+  } catch (error) {
+    sendCollectionError(res, error, req, 'create');
+  }
+});
+
+// PATCH /api/library/collections/:id - Body: { name?, description?, rules? }.
+router.patch('/collections/:id', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await updateCollection(req.user, req.params.id, req.body));
+  } catch (error) {
+    sendCollectionError(res, error, req, 'update');
+  }
+});
+
+// DELETE /api/library/collections/:id - The games themselves stay in the library.
+router.delete('/collections/:id', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await deleteCollection(req.user, req.params.id));
+  } catch (error) {
+    sendCollectionError(res, error, req, 'delete');
+  }
+});
+
+// POST /api/library/collections/:id/games - Body: { gameIds: [...] }, every entry id of the games
+// to add. DELETE with the same body takes them out. Answers 400 for smart collections.
+router.post('/collections/:id/games', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await changeCollectionGames(req.user, req.params.id, req.body && req.body.gameIds));
+  } catch (error) {
+    sendCollectionError(res, error, req, 'update');
+  }
+});
+
+router.delete('/collections/:id/games', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await changeCollectionGames(req.user, req.params.id, req.body && req.body.gameIds, { remove: true }));
+  } catch (error) {
+    sendCollectionError(res, error, req, 'update');
+  }
+});
+
+const sendManualGameError = (res, error, req, action) => {
+  if (error instanceof ManualGameError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(`Error trying to ${action} a manual game for user ${req.user.id}:`, { errorMessage: error.message });
+  res.status(500).json({ error: `Failed to ${action} the game.`, details: { message: error.message } });
+};
+
+// GET /api/library/manual - The games the user added by hand, as library entries (manual-<id>).
+// GET / already includes them; this lists them on their own.
+router.get('/manual', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json({ games: await listManualGames(req.user) });
+  } catch (error) {
+    sendManualGameError(res, error, req, 'list');
+  }
+});
+
+// POST /api/library/manual - Body: { title, platform, format?, coverImage?, playtimeMinutes?,
+// lastPlayed?, status?, genre?, releaseYear?, notes? }. Answers 201 with the new library entry.
+router.post('/manual', ensureAuthenticated, async (req, res) => {
+  try {
+    res.status(201).json(await createManualGame(req.user, req.body));
+  } catch (error) {
+    sendManualGameError(res, error, req, 'add');
+  }
+});
+
+// PATCH /api/library/manual/:id - Updates the fields sent; null clears an optional one.
+router.patch('/manual/:id', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await updateManualGame(req.user, req.params.id, req.body));
+  } catch (error) {
+    sendManualGameError(res, error, req, 'update');
+  }
+});
+
+// DELETE /api/library/manual/:id
+router.delete('/manual/:id', ensureAuthenticated, async (req, res) => {
+  try {
+    res.json(await deleteManualGame(req.user, req.params.id));
+  } catch (error) {
+    sendManualGameError(res, error, req, 'delete');
+  }
+});
+
+module.exports = router;
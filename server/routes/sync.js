@@ -0,0 +1,119 @@
+const express = require('express');
+const logger = require('../config/logger');
+const { getAdapter } = require('../adapters');
+const { syncedAdapters, getSyncStatus, enqueueSync } = require('../services/syncScheduler');
+const { subscribeToSyncEvents } = require('../services/syncEvents');
+
+const router = express.Router();
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Keeps proxies from closing idle event streams
+
+const ensureAuthenticated = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'User not authenticated' });
+  }
+  next();
+};
+
+// Accounts a dashboard may follow: the user's linked accounts plus the public Steam/Xbox ids the
+// library routes accept (?steamId=, ?xuid=), so unlinked lookups get live progress too.
+function eventAccounts(req) {
+  const accounts = new Map();
+  const add = (adapter, account) => {
+    const accountKey = adapter.accountKey(account);
+    accounts.set(`${adapter.platform}:${accountKey}`, { adapter, account, accountKey });
+  };
+  if (req.user) {
+    syncedAdapters().forEach(adapter => {
+      const account = adapter.accountForUser(req.user);
+      if (account) add(adapter, account);
+    });
+  }
+  if (req.query.steamId) add(getAdapter('steam'), { steamId: String(req.query.steamId) });
+  if (req.query.xuid) add(getAdapter('xbox'), { xuid: String(req.query.xuid) });
+  return [...accounts.values()];
+}
+
+const writeEvent = (res, type, data) => {
+  res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// GET /api/sync/events - Server-Sent Events stream of library sync progress.
+// Sends one 'status' event per followed account on connect, then started/progress/completed/failed events.
+router.get('/events', async (req, res) => {
+  const accounts = eventAccounts(req);
+  if (accounts.length === 0) {
+    return res.status(400).json({ error: 'No accounts to follow. Log in or pass steamId / xuid.' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable nginx response buffering
+  });
+  res.flushHeaders();
+
+  const unsubscribe = subscribeToSyncEvents(
+    accounts.map(({ adapter, accountKey }) => ({ platform: adapter.platform, accountKey })),
+    event => writeEvent(res, event.type, event)
+  );
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  for (const { adapter, account, accountKey } of accounts) {
+    try {
+      const sync = await getSyncStatus(adapter, account);
+      writeEvent(res, 'status', { platform: adapter.platform, accountKey, sync });
+    } catch (error) {
+      logger.error(`Error fetching initial ${adapter.label} sync status for event stream:`, { errorMessage: error.message });
+    }
+  }
+});
+
+// GET /api/sync/status - Sync status of every platform linked to the current user
+router.get('/status', ensureAuthenticated, async (req, res) => {
+  try {
+    const statuses = {};
+    for (const adapter of syncedAdapters()) {
+      const account = adapter.accountForUser(req.user);
+      if (account) {
+        statuses[adapter.platform] = await getSyncStatus(adapter, account);
+      }
+    }
+    res.json(statuses);
+  } catch (error) {
+    logger.error(`Error fetching sync status for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: 'Failed to fetch sync status.', details: { message: error.message } });
+  }
+});
+
+// POST /api/sync/:platform - Queues an immediate library sync for one of the user's linked platforms
+router.post('/:platform', ensureAuthenticated, async (req, res) => {
+  const adapter = getAdapter(req.params.platform);
+  if (!adapter) {
+    return res.status(404).json({ error: `Unknown platform '${req.params.platform}'.` });
+  }
+  if (!adapter.model) {
+    return res.status(400).json({ error: `${adapter.label} libraries are not synced in the background.` });
+  }
+
+  const account = adapter.accountForUser(req.user);
+  if (!account) {
+    return res.status(400).json({ error: `${adapter.label} account not connected.` });
+  }
+
+  try {
+    await enqueueSync(adapter, account, { trigger: 'manual' });
+    const sync = await getSyncStatus(adapter, account);
+    res.status(202).json({ message: `${adapter.label} library sync queued.`, sync });
+  } catch (error) {
+    logger.error(`Error queueing ${adapter.label} sync for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: `Failed to queue ${adapter.label} library sync.`, details: { message: error.message } });
+  }
+});
+
+module.exports = router;
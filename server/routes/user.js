@@ -3,6 +3,8 @@ const router = express.Router();
 const bcrypt = require('bcrypt');
 const User = require('../models/User'); // Import User model
 const logger = require('../config/logger');
+const { getAdapter } = require('../adapters');
+const { AccountLinkError, unlinkAccount } = require('../services/accountLinks');
 
 // Middleware to ensure user is authenticated
 const ensureAuthenticated = (req, res, next) => {
@@ -18,7 +20,7 @@ router.get('/me', ensureAuthenticated, (req, res) => {
   // req.user is populated by Passport's deserializeUser
   // We select only the fields safe to send to the frontend.
   // Added email and name, as they are now part of the User model
-  const { _id, steamId, googleId, email, name, personaName, avatar, profileUrl, createdAt, psnAccountId, psnOnlineId } = req.user;
+  const { _id, steamId, googleId, email, name, personaName, avatar, profileUrl, createdAt, psnAccountId, psnOnlineId, xboxUserId, xboxGamertag, gogUserId, gogUsername, epicAccountId, epicDisplayName } = req.user;
 
   const profileData = {
     id: _id, // Expose user ID
@@ -30,7 +32,13 @@ router.get('/me', ensureAuthenticated, (req, res) => {
     profileUrl,
     createdAt,
     psnAccountId,    // Add this
-    psnOnlineId      // Add this
+    psnOnlineId,     // Add this
+    xboxUserId,
+    xboxGamertag,
+    gogUserId,
+    gogUsername,
+    epicAccountId,
+    epicDisplayName
   };
 
   logger.debug('Authenticated user profile requested.', { userId: req.user.id });
@@ -87,4 +95,23 @@ router.post('/change-password', ensureAuthenticated, async (req, res) => {
   }
 });
 
+// DELETE /api/user/platforms/:platform - Unlinks a platform account and deletes its stored games
+router.delete('/platforms/:platform', ensureAuthenticated, async (req, res) => {
+  const adapter = getAdapter(req.params.platform);
+  if (!adapter || !adapter.linkFields) {
+    return res.status(404).json({ error: `Unknown platform '${req.params.platform}'.` });
+  }
+
+  try {
+    await unlinkAccount(adapter, req.user);
+    res.json({ message: `${adapter.label} account disconnected.` });
+  } catch (error) {
+    if (error instanceof AccountLinkError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error(`Error unlinking ${adapter.label} for user ${req.user.id}:`, { errorMessage: error.message });
+    res.status(500).json({ error: `Failed to disconnect ${adapter.label}.`, details: { message: error.message } });
+  }
+});
+
 module.exports = router;
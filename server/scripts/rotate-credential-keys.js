@@ -0,0 +1,27 @@
+// Re-encrypts stored platform credentials with the first key in CREDENTIAL_ENCRYPTION_KEYS.
+// Also encrypts credentials stored in plaintext by versions before the vault existed.
+// Usage: npm run rotate-credential-keys
+const path = require('path');
+const dotenv = require('dotenv');
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+const mongoose = require('mongoose');
+const connectDB = require('../config/db');
+const logger = require('../config/logger');
+const User = require('../models/User');
+
+async function rotate() {
+  await connectDB();
+  try {
+    const updated = await User.rotateEncryptedFields();
+    logger.info(`Re-encrypted platform credentials of ${updated} users.`);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+rotate().catch(error => {
+  logger.error('Credential key rotation failed:', { errorMessage: error.message });
+  process.exitCode = 1;
+});
@@ -6,6 +6,9 @@ const cors = require('cors'); // Import CORS
 const path = require('path'); // Added for serving static files
 const connectDB = require('./config/db');
 const logger = require('./config/logger');
+const { redactSecrets } = require('./config/redact');
+const { startSyncWorker } = require('./services/syncScheduler');
+const psnAdapter = require('./adapters/psnAdapter');
 
 dotenv.config();
 console.log('[DEBUG] server.js: dotenv.config() called.');
@@ -100,7 +103,7 @@ app.use((req, res, next) => {
     let sessionDetails = 'No session';
     if (req.session) {
       try {
-        sessionDetails = JSON.stringify(req.session, (key, value) => {
+        sessionDetails = JSON.stringify(redactSecrets(req.session), (key, value) => {
           // Could filter or shorten parts of the session if too verbose
           if (key === 'cookie') return '[Cookie Object]'; // Example: avoid logging full cookie details
           return value;
@@ -114,7 +117,8 @@ app.use((req, res, next) => {
     let userDetails = 'No user from session';
     if (req.user) {
         try {
-            userDetails = JSON.stringify(req.user, null, 2);
+            // Never dump the raw user: it carries password hashes and platform credentials.
+            userDetails = JSON.stringify(redactSecrets(req.user), null, 2);
         } catch(e) {
             userDetails = 'Error stringifying user';
         }
@@ -208,6 +212,24 @@ app.use('/api/psn', psnRoutes);
 logger.info('PSN routes mounted under /api/psn.');
 console.log('[DEBUG] server.js: PSN routes mounted.');
 
+// Import and use Epic Games routes
+const epicRoutes = require('./routes/epic');
+app.use('/api/epic', epicRoutes);
+logger.info('Epic routes mounted under /api/epic.');
+console.log('[DEBUG] server.js: Epic routes mounted.');
+
+// Import and use library sync routes
+const syncRoutes = require('./routes/sync');
+app.use('/api/sync', syncRoutes);
+logger.info('Sync routes mounted under /api/sync.');
+console.log('[DEBUG] server.js: Sync routes mounted.');
+
+// Import and use the unified library route
+const libraryRoutes = require('./routes/library');
+app.use('/api/library', libraryRoutes);
+logger.info('Library routes mounted under /api/library.');
+console.log('[DEBUG] server.js: Library routes mounted.');
+
 console.log('[DEBUG] server.js: Core API routes defined.');
 
 // Serve static files from the React app build directory
@@ -249,6 +271,17 @@ async function main() {
         logger.info(`Server listening at http://localhost:${determinedPort}`);
         console.log(`[DEBUG] server.js: Server is listening on port ${determinedPort}. Callback executed.`);
       });
+
+      // Keep linked libraries synced in the background. Set SYNC_WORKER_DISABLED=true on
+      // extra instances so only one process works the queue.
+      if (process.env.SYNC_WORKER_DISABLED !== 'true') {
+        // Swap any NPSSO stored by older versions for PSN tokens before the worker schedules PSN syncs.
+        psnAdapter.migrateLegacyNpsso()
+          .catch(error => logger.error('Failed to migrate stored PSN NPSSO tokens:', { errorMessage: error.message }))
+          .finally(startSyncWorker);
+      } else {
+        logger.info('Library sync worker disabled via SYNC_WORKER_DISABLED.');
+      }
     } else {
       console.log('[DEBUG] server.js: Skipping app.listen because NODE_ENV is "test".');
       logger.info('[DEBUG] server.js: Skipping app.listen because NODE_ENV is "test".');
@@ -1,19 +1,16 @@
 const request = require('supertest');
 const axios = require('axios');
-const SteamGame = require('../models/SteamGame'); // Actual path to model
 const logger = require('./config/logger'); // To potentially spy on logger.error
 
 // Mock axios
 jest.mock('axios');
 
-// Mock Mongoose model SteamGame
-// We mock the static methods find and findOneAndUpdate
-const mockSteamGameFind = jest.fn();
-const mockSteamGameFindOneAndUpdate = jest.fn();
-
-jest.mock('../models/SteamGame', () => ({
-  find: mockSteamGameFind,
-  findOneAndUpdate: mockSteamGameFindOneAndUpdate,
+// The games route only reads what the background sync stored, so the scheduler is mocked here.
+// Syncing itself is covered in syncScheduler.test.js and adapters.test.js.
+const mockGetStoredLibrary = jest.fn();
+jest.mock('./services/syncScheduler', () => ({
+  getStoredLibrary: mockGetStoredLibrary,
+  startSyncWorker: jest.fn(),
 }));
 
 // Mock logger to spy on error calls if needed, or suppress console output during tests
@@ -49,8 +46,7 @@ describe('Steam API Endpoints', () => {
   beforeEach(() => {
     // Reset mocks before each test
     axios.get.mockReset();
-    mockSteamGameFind.mockReset();
-    mockSteamGameFindOneAndUpdate.mockReset();
+    mockGetStoredLibrary.mockReset();
     mockActualGetUserSummary.mockReset(); // If testing other endpoints
     logger.error.mockClear(); // Clear logger spy
     logger.info.mockClear();
@@ -81,202 +77,57 @@ describe('Steam API Endpoints', () => {
     });
   });
 
-  // Updated tests for GET /api/steam/user/:steamid/games
-  describe('GET /api/steam/user/:steamid/games (Owned Games with Cache)', () => {
-    const mockGameDataFromSteam = [
-      { appid: 10, name: 'Game 1', playtime_forever: 100, img_icon_url: 'icon1', img_logo_url: 'logo1' },
-      { appid: 20, name: 'Game 2', playtime_forever: 200, img_icon_url: 'icon2', img_logo_url: 'logo2' },
+  describe('GET /api/steam/user/:steamid/games (stored library + background sync)', () => {
+    const storedGames = [
+      { steamId: STEAM_ID_VALID, appId: 10, name: 'Game 1', playtimeForever: 100, imgIconURL: 'icon1', imgLogoURL: 'logo1', achievements: { unlocked: 1, total: 1 } },
+      { steamId: STEAM_ID_VALID, appId: 20, name: 'Game 2', playtimeForever: 200, imgIconURL: 'icon2', imgLogoURL: 'logo2', achievements: { unlocked: 0, total: 0 } },
     ];
-    const mockAchievementsDataGame1 = { playerstats: { achievements: [{ name: 'ACH1', achieved: 1 }], success: true } };
-    const mockAchievementsDataGame2NoStats = { playerstats: { success: false, error: "Requested app has no stats" } };
-
-
     const formattedGamesOutput = [
       { appID: 10, name: 'Game 1', playtimeForever: 100, imgIconURL: 'icon1', imgLogoURL: 'logo1', achievements: { unlocked: 1, total: 1 } },
-      { appID: 20, name: 'Game 2', playtimeForever: 200, imgIconURL: 'icon2', imgLogoURL: 'logo2', achievements: { unlocked: 0, total: 0 } }, // Default if no achievements
+      { appID: 20, name: 'Game 2', playtimeForever: 200, imgIconURL: 'icon2', imgLogoURL: 'logo2', achievements: { unlocked: 0, total: 0 } },
     ];
+    const idleSync = { state: 'completed', inProgress: false, progress: { processed: 2, total: 2 }, lastSyncedAt: new Date().toISOString(), lastError: null };
 
-    it('should return games from cache if available and fresh', async () => {
-      const now = new Date();
-      const cachedGames = formattedGamesOutput.map(g => ({ ...g, steamId: STEAM_ID_VALID, appId: g.appID, lastUpdated: now }));
-      mockSteamGameFind.mockResolvedValue(cachedGames);
+    it('should return stored games with the sync status without calling the Steam API', async () => {
+      mockGetStoredLibrary.mockResolvedValue({ games: storedGames, sync: idleSync });
 
       const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(formattedGamesOutput);
-      expect(mockSteamGameFind).toHaveBeenCalledWith({
-        steamId: STEAM_ID_VALID,
-        lastUpdated: { $gte: expect.any(Date) },
-      });
+      expect(response.body).toEqual({ games: formattedGamesOutput, sync: idleSync });
+      expect(mockGetStoredLibrary).toHaveBeenCalledWith(expect.objectContaining({ platform: 'steam' }), { steamId: STEAM_ID_VALID });
       expect(axios.get).not.toHaveBeenCalled();
     });
 
-    it('should fetch from API, save to DB, and return games if cache is empty', async () => {
-      mockSteamGameFind.mockResolvedValue([]); // Cache miss
-      axios.get
-        .mockResolvedValueOnce({ data: { response: { games: mockGameDataFromSteam } } }) // Owned games
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame1 }) // Achievements game 1
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame2NoStats }); // Achievements game 2 (no stats)
-
-      mockSteamGameFindOneAndUpdate.mockImplementation(async (query, update) => {
-        return {...update, ...query}; // Simulate returning the updated/inserted doc
-      });
+    it('should return an empty library and an in-progress sync for an account that was never synced', async () => {
+      const queuedSync = { state: 'queued', inProgress: true, progress: { processed: 0, total: 0 }, lastSyncedAt: null, lastError: null };
+      mockGetStoredLibrary.mockResolvedValue({ games: [], sync: queuedSync });
 
       const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual(formattedGamesOutput);
-      expect(mockSteamGameFind).toHaveBeenCalledTimes(1);
-      expect(axios.get).toHaveBeenCalledTimes(1 + mockGameDataFromSteam.length); // 1 for games, N for achievements
-      expect(mockSteamGameFindOneAndUpdate).toHaveBeenCalledTimes(mockGameDataFromSteam.length);
-      mockGameDataFromSteam.forEach(game => {
-        expect(mockSteamGameFindOneAndUpdate).toHaveBeenCalledWith(
-          { steamId: STEAM_ID_VALID, appId: game.appid },
-          expect.objectContaining({
-            name: game.name,
-            playtimeForever: game.playtime_forever,
-            lastUpdated: expect.any(Date),
-          }),
-          { upsert: true, new: true, setDefaultsOnInsert: true }
-        );
-      });
-    });
-
-    it('should fetch from API if cache is stale, save to DB, and return games', async () => {
-      const staleTimestamp = new Date(Date.now() - 48 * 60 * 60 * 1000); // 48 hours ago
-      const staleCachedGames = formattedGamesOutput.map(g => ({ ...g, steamId: STEAM_ID_VALID, appId: g.appID, lastUpdated: staleTimestamp }));
-
-      // Mock find to initially return stale games, then an empty array for the specific freshness query
-      // This simulates the route first checking generally, then specifically for fresh items
-      mockSteamGameFind.mockImplementation(query => {
-        if (query.lastUpdated && query.lastUpdated.$gte) {
-          // This is the freshness query. If we want to simulate "stale", this should return []
-          const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-          if (query.lastUpdated.$gte.getTime() > twentyFourHoursAgo.getTime() - 10000) { // Check if the query is for fresh items
-             return Promise.resolve([]); // No fresh items
-          }
-        }
-        return Promise.resolve(staleCachedGames); // General query might return stale items
-      });
-
-
-      axios.get
-        .mockResolvedValueOnce({ data: { response: { games: mockGameDataFromSteam } } }) // Owned games
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame1 })
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame2NoStats });
-
-      mockSteamGameFindOneAndUpdate.mockResolvedValue({});
-
-
-      const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
-
-      expect(response.status).toBe(200);
-      expect(response.body).toEqual(formattedGamesOutput);
-      expect(mockSteamGameFind).toHaveBeenCalledWith({
-          steamId: STEAM_ID_VALID,
-          lastUpdated: { $gte: expect.any(Date) }
-      });
-      expect(axios.get).toHaveBeenCalledTimes(1 + mockGameDataFromSteam.length);
-      expect(mockSteamGameFindOneAndUpdate).toHaveBeenCalledTimes(mockGameDataFromSteam.length);
+      expect(response.body).toEqual({ games: [], sync: queuedSync });
+      expect(axios.get).not.toHaveBeenCalled();
     });
 
-
-    it('should handle Steam API error when fetching owned games', async () => {
-      mockSteamGameFind.mockResolvedValue([]); // Cache miss
-      axios.get.mockRejectedValueOnce(new Error('Steam API Down')); // Error on first axios call (owned games)
+    it('should return 500 if the stored library cannot be read', async () => {
+      mockGetStoredLibrary.mockRejectedValue(new Error('DB Read Error'));
 
       const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
 
       expect(response.status).toBe(500);
-      expect(response.body.error).toContain('Failed to fetch games');
-      expect(mockSteamGameFindOneAndUpdate).not.toHaveBeenCalled();
+      expect(response.body.error).toBe('Failed to load Steam games.');
+      expect(logger.error).toHaveBeenCalledWith('Error loading stored Steam games:', expect.objectContaining({ errorMessage: 'DB Read Error' }));
     });
 
-    it('should handle Steam API error when fetching achievements (and still save partial data)', async () => {
-        mockSteamGameFind.mockResolvedValue([]); // Cache miss
-        axios.get
-            .mockResolvedValueOnce({ data: { response: { games: [mockGameDataFromSteam[0]] } } }) // Only one game for simplicity
-            .mockRejectedValueOnce(new Error('Achievement API error for game 1')); // Error for achievements
-
-        mockSteamGameFindOneAndUpdate.mockResolvedValue({});
-
-        const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
-
-        expect(response.status).toBe(200);
-        // Expect game data, but achievements will be default { unlocked: 0, total: 0 }
-        expect(response.body[0].appID).toBe(mockGameDataFromSteam[0].appid);
-        expect(response.body[0].achievements).toEqual({ unlocked: 0, total: 0 });
-        expect(logger.warn).toHaveBeenCalledWith(
-            `Failed to fetch achievements for game ${mockGameDataFromSteam[0].appid}: Achievement API error for game 1`,
-            expect.anything()
-        );
-        expect(mockSteamGameFindOneAndUpdate).toHaveBeenCalledTimes(1); // Still tries to save the game info
-    });
-
-
-    it('should proceed to API if DB read fails during cache check', async () => {
-      mockSteamGameFind.mockRejectedValueOnce(new Error('DB Read Error')); // DB error on cache check
-      axios.get
-        .mockResolvedValueOnce({ data: { response: { games: mockGameDataFromSteam } } })
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame1 })
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame2NoStats });
-      mockSteamGameFindOneAndUpdate.mockResolvedValue({});
-
-      const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
-
-      expect(response.status).toBe(200);
-      expect(response.body).toEqual(formattedGamesOutput);
-      expect(logger.error).toHaveBeenCalledWith('Error fetching games from MongoDB cache:', expect.anything());
-      expect(axios.get).toHaveBeenCalledTimes(1 + mockGameDataFromSteam.length);
-      expect(mockSteamGameFindOneAndUpdate).toHaveBeenCalledTimes(mockGameDataFromSteam.length);
-    });
-
-    it('should return API data and log error if DB write fails during save', async () => {
-      mockSteamGameFind.mockResolvedValue([]); // Cache miss
-      axios.get
-        .mockResolvedValueOnce({ data: { response: { games: mockGameDataFromSteam } } })
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame1 })
-        .mockResolvedValueOnce({ data: mockAchievementsDataGame2NoStats });
-      mockSteamGameFindOneAndUpdate.mockRejectedValue(new Error('DB Write Error')); // Error on save
-
-      const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
-
-      expect(response.status).toBe(200); // Should still return data to user
-      expect(response.body).toEqual(formattedGamesOutput);
-      expect(mockSteamGameFindOneAndUpdate).toHaveBeenCalledTimes(mockGameDataFromSteam.length);
-      // Expect logger.error to have been called for each game that failed to save
-      expect(logger.error).toHaveBeenCalledTimes(mockGameDataFromSteam.length);
-      expect(logger.error).toHaveBeenCalledWith(
-        `Failed to save game ${mockGameDataFromSteam[0].appid} to MongoDB for steamId ${STEAM_ID_VALID}:`,
-        expect.objectContaining({ errorMessage: 'DB Write Error' })
-      );
-    });
-     it('should return empty array if API returns no games for user', async () => {
-      mockSteamGameFind.mockResolvedValue([]); // Cache miss
-      axios.get.mockResolvedValueOnce({ data: { response: { game_count: 0, games: [] } } }); // API says no games
+    it('should return 500 if the Steam API key is not configured', async () => {
+      delete process.env.STEAM_API_KEY;
 
       const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
 
-      expect(response.status).toBe(200);
-      expect(response.body).toEqual([]);
-      expect(mockSteamGameFindOneAndUpdate).not.toHaveBeenCalled(); // Nothing to save
-    });
-
-    it('should handle unexpected API response structure', async () => {
-        mockSteamGameFind.mockResolvedValue([]); // Cache miss
-        axios.get.mockResolvedValueOnce({ data: { unexpected_response: {} } }); // Malformed response
-
-        const response = await request(app).get(`/api/steam/user/${STEAM_ID_VALID}/games`);
-
-        expect(response.status).toBe(500);
-        expect(response.body.error).toContain('Failed to fetch games or process data');
-        expect(logger.warn).toHaveBeenCalledWith(
-            'Steam API response structure was not as expected or empty.',
-            expect.anything()
-        );
+      expect(response.status).toBe(500);
+      expect(response.body.error).toBe('Steam API key not configured on server.');
+      expect(mockGetStoredLibrary).not.toHaveBeenCalled();
     });
-
-
   });
 });
@@ -0,0 +1,64 @@
+const logger = require('../config/logger');
+const SyncJob = require('../models/SyncJob');
+const PlaytimeSnapshot = require('../models/PlaytimeSnapshot');
+const Achievement = require('../models/Achievement');
+const User = require('../models/User');
+const { cancelSyncs } = require('./syncScheduler');
+
+class AccountLinkError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = 'AccountLinkError';
+    this.status = status;
+  }
+}
+
+// Steam is also a sign-in method; unlinking it must not leave the user without a way back in.
+function canSignInWithoutSteam(user) {
+  return !!(user.password || user.googleId);
+}
+
+// The linked account, or for an imported-only library (e.g. an Epic export) the user who owns it.
+async function accountToUnlink(adapter, user) {
+  const account = adapter.linkedAccount(user);
+  if (account || !adapter.hasImportedGames) return account;
+  return await adapter.hasImportedGames(user) ? { user } : null;
+}
+
+/**
+ * Removes a platform link (or an imported library) from a user: clears the adapter's linkFields,
+ * cancels the account's queued and running syncs, then deletes the platform's stored and imported
+ * games, achievements and playtime history and the finished sync jobs. Cancelled jobs are kept so a
+ * running sync sees it was cancelled and stops before writing the purged data back. Resolves to
+ * the updated User document.
+ */
+async function unlinkAccount(adapter, user) {
+  const account = await accountToUnlink(adapter, user);
+  if (!account) {
+    throw new AccountLinkError(`${adapter.label} account not connected.`, 400);
+  }
+  if (adapter.platform === 'steam' && !canSignInWithoutSteam(user)) {
+    throw new AccountLinkError('Steam is the only way you sign in. Set a password before disconnecting it.', 409);
+  }
+
+  const $unset = Object.fromEntries(adapter.linkFields.map(field => [field, '']));
+  const updatedUser = await User.findByIdAndUpdate(user._id, { $unset }, { new: true });
+
+  const accountKey = adapter.accountKey(account);
+  await cancelSyncs(adapter, accountKey);
+  const [games, jobs] = await Promise.all([
+    adapter.model.deleteMany(adapter.ownerFilter(account)),
+    SyncJob.deleteMany({ platform: adapter.platform, accountKey, status: { $in: ['completed', 'failed'] } }),
+    PlaytimeSnapshot.deleteMany({ 'meta.platform': adapter.platform, 'meta.accountKey': accountKey }),
+    Achievement.deleteMany({ platform: adapter.platform, accountKey }),
+    adapter.deleteImportedGames && adapter.deleteImportedGames(account),
+  ]);
+  logger.info(`Unlinked ${adapter.label} (${adapter.describeAccount(account)}) from user ${user._id}: removed ${games.deletedCount} games and ${jobs.deletedCount} sync jobs.`);
+
+  return updatedUser;
+}
+
+module.exports = {
+  AccountLinkError,
+  unlinkAccount,
+};
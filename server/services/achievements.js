@@ -0,0 +1,139 @@
+const logger = require('../config/logger');
+const Achievement = require('../models/Achievement');
+const { SyncCancelledError } = require('../adapters/libraryCache');
+
+// Per-game list calls a sync may make when the library itself only carries counts (Xbox, PSN).
+// xbl.io allows a few hundred requests an hour, so the rest waits for the next sync.
+const MAX_LIST_FETCHES_PER_SYNC = 25;
+
+const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const withoutUndefined = object => Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined));
+
+/**
+ * Upserts the normalized achievements of one game (see adapter.toAchievements) for an account.
+ * Fields a source does not report are left as stored, so a sync listing only unlocks keeps the
+ * icons and rarity stored by a detailed view. Failures are logged, never thrown.
+ *
+ * @returns {Promise<number>} Number of achievements written.
+ */
+async function storeAchievements(adapter, accountKey, gameId, achievements) {
+  if (!achievements || achievements.length === 0) return 0;
+  const owner = { platform: adapter.platform, accountKey: String(accountKey), gameId: String(gameId) };
+  try {
+    await Achievement.bulkWrite(achievements.map(({ externalId, ...fields }) => ({
+      updateOne: {
+        filter: { ...owner, externalId: String(externalId) },
+        update: { $set: withoutUndefined(fields) },
+        upsert: true,
+      },
+    })), { ordered: false });
+    return achievements.length;
+  } catch (error) {
+    logger.error(`Failed to store ${adapter.label} achievements of game ${gameId} for ${accountKey}:`, { errorMessage: error.message });
+    return 0;
+  }
+}
+
+// Unlocked achievements stored per game of an account, to tell which lists changed since.
+async function storedUnlockCounts(adapter, accountKey) {
+  const counts = await Achievement.aggregate([
+    { $match: { platform: adapter.platform, accountKey: String(accountKey) } },
+    { $group: { _id: '$gameId', unlocked: { $sum: { $cond: ['$unlocked', 1, 0] } } } },
+  ]);
+  return new Map(counts.map(({ _id, unlocked }) => [_id, unlocked]));
+}
+
+// Games whose stored list is missing or behind the unlock count the library reports, most recently played first.
+async function gamesDueForAchievements(adapter, accountKey, games) {
+  const stored = await storedUnlockCounts(adapter, accountKey);
+  return games
+    .map(game => ({ game, entry: adapter.toGame(game) }))
+    .filter(({ game, entry }) => entry.achievements.total > 0
+      && stored.get(String(game[adapter.gameKey])) !== entry.achievements.unlocked)
+    .sort((a, b) => new Date(b.entry.lastPlayed) - new Date(a.entry.lastPlayed))
+    .slice(0, MAX_LIST_FETCHES_PER_SYNC)
+    .map(({ game }) => game);
+}
+
+/**
+ * Stores the achievements of a synced library. Platforms that fetch every game's achievements
+ * during the sync (Steam) hand those lists over in `fetchedLists` (game id -> raw achievements);
+ * for the others the lists of games whose unlock count changed are fetched here. Platforms
+ * without toAchievements() have no per-achievement data. Failures are logged, never thrown; only
+ * a cancelled sync (`isCancelled` resolving to true before a game is stored) rejects, with a SyncCancelledError.
+ *
+ * @returns {Promise<number>} Number of achievements written.
+ */
+async function syncAchievements(adapter, account, accountKey, games, fetchedLists = new Map(), { isCancelled } = {}) {
+  if (!adapter.toAchievements) return 0;
+  const stopIfCancelled = async () => {
+    if (isCancelled && await isCancelled()) throw new SyncCancelledError();
+  };
+  let written = 0;
+  try {
+    if (!adapter.achievementsInLibrary) {
+      for (const [gameId, rawAchievements] of fetchedLists) {
+        await stopIfCancelled();
+        written += await storeAchievements(adapter, accountKey, gameId, adapter.toAchievements(rawAchievements));
+      }
+      return written;
+    }
+
+    for (const game of await gamesDueForAchievements(adapter, accountKey, games)) {
+      const gameId = game[adapter.gameKey];
+      await stopIfCancelled();
+      try {
+        const rawAchievements = await adapter.fetchAchievements(account, gameId, game);
+        written += await storeAchievements(adapter, accountKey, gameId, adapter.toAchievements(rawAchievements));
+        await delay(adapter.achievementDelayMs || 0);
+      } catch (error) {
+        logger.warn(`Failed to fetch the ${adapter.label} achievements of game ${gameId} for ${adapter.describeAccount(account)}: ${error.message}`);
+      }
+    }
+  } catch (error) {
+    if (error instanceof SyncCancelledError) throw error;
+    logger.warn(`Could not store the ${adapter.label} achievements of ${adapter.describeAccount(account)}: ${error.message}`);
+  }
+  return written;
+}
+
+/**
+ * The achievement shape every detailed achievement route returns (the frontend's `Achievement`
+ * type in src/types/achievementTypes.ts), from a stored or normalized achievement.
+ */
+function toResponse(achievement) {
+  return {
+    id: String(achievement.externalId),
+    platform: achievement.platform,
+    gameId: achievement.gameId !== undefined ? String(achievement.gameId) : undefined,
+    name: achievement.name || String(achievement.externalId),
+    description: achievement.description || '',
+    isUnlocked: !!achievement.unlocked,
+    iconUrl: achievement.iconUrl,
+    hidden: !!achievement.hidden,
+    points: achievement.points,
+    grade: achievement.grade,
+    rarityPercent: achievement.rarityPercent,
+    unlockedTime: achievement.unlocked && achievement.unlockedAt ? new Date(achievement.unlockedAt).toISOString() : undefined,
+    groupId: achievement.groupId,
+  };
+}
+
+/**
+ * Fetches, stores and returns the current achievements of one game, for the detailed achievement
+ * routes of platforms that read them live. Upstream errors are thrown for the route to translate.
+ */
+async function refreshGameAchievements(adapter, account, gameId, game) {
+  const achievements = adapter.toAchievements(await adapter.fetchAchievements(account, gameId, game));
+  await storeAchievements(adapter, adapter.accountKey(account), gameId, achievements);
+  return achievements.map(achievement => toResponse({ ...achievement, platform: adapter.platform, gameId }));
+}
+
+module.exports = {
+  MAX_LIST_FETCHES_PER_SYNC,
+  storeAchievements,
+  syncAchievements,
+  toResponse,
+  refreshGameAchievements,
+};
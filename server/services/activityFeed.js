@@ -0,0 +1,165 @@
+const Achievement = require('../models/Achievement');
+const PlaytimeSnapshot = require('../models/PlaytimeSnapshot');
+const { getAdapter } = require('../adapters');
+const { toResponse: achievementResponse } = require('./achievements');
+const { historyAccounts } = require('./playtimeHistory');
+
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+class ActivityFeedError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'ActivityFeedError';
+    this.status = status;
+  }
+}
+
+// Cursors are "<ISO date>_<ObjectId>" of the last item of a page: items sort by date, then by id,
+// so a sync that stored hundreds of snapshots at the same instant still pages cleanly.
+const toCursor = item => `${item.date}_${item.sourceId}`;
+
+function parseCursor(before) {
+  if (before === undefined) return null;
+  const [date, id] = String(before).split('_');
+  const at = new Date(date);
+  if (Number.isNaN(at.getTime()) || !/^[0-9a-f]{24}$/i.test(id || '')) {
+    throw new ActivityFeedError("'before' must be the nextCursor of a previous page.");
+  }
+  return { at, id };
+}
+
+function parseOptions({ platform, gameId, before, limit }) {
+  let game = null;
+  if (gameId !== undefined) {
+    const separator = String(gameId).indexOf('-');
+    if (separator <= 0) throw new ActivityFeedError("'gameId' must be a library game id, e.g. steam-292030.");
+    game = { platform: String(gameId).slice(0, separator), gameId: String(gameId).slice(separator + 1) };
+  }
+  const platformFilter = game ? game.platform : platform;
+  if (platformFilter !== undefined && !getAdapter(platformFilter)) {
+    throw new ActivityFeedError(`Unknown platform '${platformFilter}'.`);
+  }
+
+  let pageSize = DEFAULT_PAGE_SIZE;
+  if (limit !== undefined) {
+    pageSize = Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new ActivityFeedError(`'limit' must be a whole number from 1 to ${MAX_PAGE_SIZE}.`);
+    }
+  }
+  return { platform: platformFilter, game, cursor: parseCursor(before), pageSize };
+}
+
+// Items strictly after the cursor in the feed's order (date, then id, both descending).
+const olderThan = (field, cursor) => ({
+  $or: [{ [field]: { $lt: cursor.at } }, { [field]: cursor.at, _id: { $lt: cursor.id } }],
+});
+
+function findUnlocks(accounts, { game, cursor }, limit) {
+  const query = {
+    $or: accounts.map(({ platform, accountKey }) => ({ platform, accountKey })),
+    unlocked: true,
+    unlockedAt: { $ne: null },
+  };
+  if (game) query.gameId = game.gameId;
+  if (cursor) query.$and = [olderThan('unlockedAt', cursor)];
+  return Achievement.find(query).sort({ unlockedAt: -1, _id: -1 }).limit(limit).lean();
+}
+
+function findSnapshots(accounts, { game, cursor }, limit) {
+  const query = {
+    $or: accounts.map(({ platform, accountKey }) => ({ 'meta.platform': platform, 'meta.accountKey': accountKey })),
+    $and: [{ $or: [{ deltaMinutes: { $gt: 0 } }, { newGame: true }] }],
+  };
+  if (game) query['meta.gameId'] = game.gameId;
+  if (cursor) query.$and.push(olderThan('recordedAt', cursor));
+  return PlaytimeSnapshot.find(query).sort({ recordedAt: -1, _id: -1 }).limit(limit).lean();
+}
+
+// The stored library entries (GET /api/library shape) of the games a page mentions, by library id.
+async function libraryGames(accounts, items) {
+  const entries = new Map();
+  await Promise.all(accounts.map(async ({ platform, adapter, account }) => {
+    const gameIds = [...new Set(items.filter(item => item.platform === platform).map(item => item.gameId))];
+    if (gameIds.length === 0) return;
+    const games = await adapter.model.find({ ...adapter.ownerFilter(account), [adapter.gameKey]: { $in: gameIds } });
+    games.forEach(game => {
+      const entry = adapter.toGame(game);
+      entries.set(entry.id, entry);
+    });
+  }));
+  return entries;
+}
+
+/**
+ * The user's activity across platforms, newest first: achievements and trophies unlocked (from the
+ * Achievement collection), and games played or added to the library between syncs (from the
+ * playtime snapshots). Filters: `platform`, or `gameId` (a library game id). Pages hold `limit`
+ * items; pass a page's `nextCursor` as `before` for the next one.
+ *
+ * @returns {Promise<object>} `{ items: [{ id, type: 'achievement'|'played'|'added', date, platform,
+ *   game: { id, gameId, title, coverImage }, achievement?, minutes? }], nextCursor }`
+ */
+async function getActivityFeed(user, query = {}, { lookups } = {}) {
+  const options = parseOptions(query);
+  const accounts = historyAccounts(user, lookups).filter(account => !options.platform || account.platform === options.platform);
+  if (accounts.length === 0) return { items: [], nextCursor: null };
+
+  // One extra item per source tells whether another page follows
+  const [unlocks, snapshots] = await Promise.all([
+    findUnlocks(accounts, options, options.pageSize + 1),
+    findSnapshots(accounts, options, options.pageSize + 1),
+  ]);
+
+  const merged = [
+    ...unlocks.map(achievement => ({
+      sourceId: String(achievement._id),
+      type: 'achievement',
+      date: new Date(achievement.unlockedAt).toISOString(),
+      platform: achievement.platform,
+      gameId: achievement.gameId,
+      achievement: achievementResponse(achievement),
+    })),
+    ...snapshots.map(snapshot => ({
+      sourceId: String(snapshot._id),
+      type: snapshot.newGame ? 'added' : 'played',
+      date: new Date(snapshot.recordedAt).toISOString(),
+      platform: snapshot.meta.platform,
+      gameId: snapshot.meta.gameId,
+      title: snapshot.title,
+      minutes: snapshot.deltaMinutes,
+    })),
+  ].sort((a, b) => b.date.localeCompare(a.date) || b.sourceId.localeCompare(a.sourceId));
+
+  const page = merged.slice(0, options.pageSize);
+  const games = await libraryGames(accounts, page);
+  const items = page.map(({ sourceId, type, date, platform, gameId, title, achievement, minutes }) => {
+    const entry = games.get(`${platform}-${gameId}`);
+    const item = {
+      id: `${type === 'achievement' ? 'achievement' : 'playtime'}-${sourceId}`,
+      type,
+      date,
+      platform,
+      game: {
+        id: `${platform}-${gameId}`,
+        gameId,
+        title: (entry && entry.title) || title || gameId, // Games since removed from the library keep their stored title
+        coverImage: entry ? entry.coverImage : undefined,
+      },
+    };
+    if (achievement) item.achievement = achievement;
+    if (minutes !== undefined) item.minutes = minutes;
+    return item;
+  });
+
+  return {
+    items,
+    nextCursor: merged.length > options.pageSize ? toCursor(page[page.length - 1]) : null,
+  };
+}
+
+module.exports = {
+  ActivityFeedError,
+  getActivityFeed,
+};
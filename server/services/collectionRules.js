@@ -0,0 +1,160 @@
+// Rules of smart collections (models/GameCollection.js): saved filters over the normalized library
+// game fields (adapters/libraryGame.js), e.g. "Steam games with more than 50% of the achievements
+// and under 5 hours played" or "PSN games missing only the platinum". The games of a smart
+// collection are worked out again every time the library is loaded.
+
+const { adapters } = require('../adapters');
+
+const MAX_CONDITIONS = 20;
+const MAX_VALUES = 50;
+const UNKNOWN_GENRE = 'Unknown Genre';
+
+const NUMBER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'];
+const LIST_OPERATORS = ['in', 'nin']; // The field has any / none of the values
+
+const compareNumbers = {
+  eq: (a, b) => a === b,
+  ne: (a, b) => a !== b,
+  gt: (a, b) => a > b,
+  gte: (a, b) => a >= b,
+  lt: (a, b) => a < b,
+  lte: (a, b) => a <= b,
+};
+
+const achievementsOf = game => game.achievements || { unlocked: 0, total: 0 };
+const hasAchievements = game => achievementsOf(game).total > 0;
+
+/**
+ * The fields rules can use. `read` gives a library entry's value, or undefined when the platform
+ * does not report it (games without achievements, unknown genre or release year); conditions on an
+ * unknown value never match. List fields with `values` only accept those values.
+ */
+const RULE_FIELDS = {
+  platform: {
+    type: 'list',
+    values: [...Object.keys(adapters), 'manual'],
+    read: game => [game.platform],
+  },
+  status: {
+    type: 'list',
+    values: ['installed', 'not_installed', 'downloading', 'owned'],
+    read: game => [game.status],
+  },
+  genre: {
+    type: 'list',
+    read: game => {
+      const genres = (game.genre || []).filter(genre => genre !== UNKNOWN_GENRE);
+      return genres.length > 0 ? genres.map(genre => genre.toLowerCase()) : undefined;
+    },
+  },
+  playtime: { type: 'number', read: game => game.playtime }, // Hours
+  releaseYear: { type: 'number', read: game => game.releaseYear || undefined },
+  achievementsUnlocked: {
+    type: 'number',
+    read: game => (hasAchievements(game) ? achievementsOf(game).unlocked : undefined),
+  },
+  achievementsRemaining: {
+    type: 'number',
+    read: game => (hasAchievements(game) ? achievementsOf(game).total - achievementsOf(game).unlocked : undefined),
+  },
+  achievementPercent: {
+    type: 'number',
+    read: game => (hasAchievements(game) ? (achievementsOf(game).unlocked / achievementsOf(game).total) * 100 : undefined),
+  },
+  // PSN trophy grades with at least one trophy left to earn
+  trophiesMissing: {
+    type: 'list',
+    values: ['platinum', 'gold', 'silver', 'bronze'],
+    read: game => {
+      const { earnedTrophies, definedTrophies } = achievementsOf(game);
+      if (!definedTrophies) return undefined;
+      return Object.keys(definedTrophies).filter(grade => definedTrophies[grade] > ((earnedTrophies && earnedTrophies[grade]) || 0));
+    },
+  },
+};
+
+class CollectionRuleError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'CollectionRuleError';
+    this.status = status;
+  }
+}
+
+function parseCondition(condition, index) {
+  const { field, operator, value } = condition || {};
+  const position = `Condition ${index + 1}`;
+  const definition = RULE_FIELDS[field];
+  if (!definition) {
+    throw new CollectionRuleError(`${position}: 'field' must be one of ${Object.keys(RULE_FIELDS).join(', ')}.`);
+  }
+
+  if (definition.type === 'number') {
+    if (!NUMBER_OPERATORS.includes(operator)) {
+      throw new CollectionRuleError(`${position}: 'operator' must be one of ${NUMBER_OPERATORS.join(', ')} for ${field}.`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new CollectionRuleError(`${position}: 'value' must be a number for ${field}.`);
+    }
+    return { field, operator, value };
+  }
+
+  if (!LIST_OPERATORS.includes(operator)) {
+    throw new CollectionRuleError(`${position}: 'operator' must be one of ${LIST_OPERATORS.join(', ')} for ${field}.`);
+  }
+  const values = Array.isArray(value) && value.every(item => typeof item === 'string')
+    ? [...new Set(value.map(item => item.trim()).filter(Boolean))]
+    : [];
+  if (values.length === 0 || values.length > MAX_VALUES) {
+    throw new CollectionRuleError(`${position}: 'value' must be a list of 1 to ${MAX_VALUES} ${field} values.`);
+  }
+  if (definition.values) {
+    const unknown = values.find(item => !definition.values.includes(item));
+    if (unknown) throw new CollectionRuleError(`${position}: unknown ${field} "${unknown}".`);
+  }
+  return { field, operator, value: field === 'genre' ? values.map(item => item.toLowerCase()) : values };
+}
+
+/**
+ * Validates the rules of a smart collection. Body: { match?: 'all' | 'any', conditions: [{ field,
+ * operator, value }] }; numeric fields take a number, list fields a list of values.
+ */
+function parseRules(rules) {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    throw new CollectionRuleError("'rules' must be an object with a list of 'conditions'.");
+  }
+  const match = rules.match === undefined ? 'all' : rules.match;
+  if (match !== 'all' && match !== 'any') throw new CollectionRuleError("'match' must be 'all' or 'any'.");
+  if (!Array.isArray(rules.conditions) || rules.conditions.length === 0 || rules.conditions.length > MAX_CONDITIONS) {
+    throw new CollectionRuleError(`'conditions' must be a list of 1 to ${MAX_CONDITIONS} conditions.`);
+  }
+  return { match, conditions: rules.conditions.map(parseCondition) };
+}
+
+function matchesCondition(game, { field, operator, value }) {
+  const definition = RULE_FIELDS[field];
+  const actual = definition ? definition.read(game) : undefined;
+  if (actual === undefined) return false;
+  if (definition.type === 'number') return compareNumbers[operator](actual, value);
+  const hasAny = value.some(item => actual.includes(item));
+  return operator === 'in' ? hasAny : !hasAny;
+}
+
+/**
+ * Whether a library entry matches stored rules. Rules apply to each platform entry on its own, so
+ * "Steam games under 5 hours" looks at the Steam playtime of a game owned on several platforms.
+ */
+function matchesRules(game, rules) {
+  const conditions = (rules && rules.conditions) || [];
+  if (conditions.length === 0) return false;
+  return rules.match === 'any'
+    ? conditions.some(condition => matchesCondition(game, condition))
+    : conditions.every(condition => matchesCondition(game, condition));
+}
+
+module.exports = {
+  RULE_FIELDS,
+  CollectionRuleError,
+  parseRules,
+  matchesRules,
+};
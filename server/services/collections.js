@@ -0,0 +1,197 @@
+const mongoose = require('mongoose');
+const logger = require('../config/logger');
+const GameCollection = require('../models/GameCollection');
+const { isLibraryGameId } = require('../adapters/libraryGame');
+const { parseRules, matchesRules } = require('./collectionRules');
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_GAME_IDS = 1000;
+const DUPLICATE_KEY_ERROR = 11000;
+
+class CollectionError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'CollectionError';
+    this.status = status;
+  }
+}
+
+function parseName(name) {
+  if (typeof name !== 'string' || name.trim() === '') throw new CollectionError("'name' is required.");
+  if (name.trim().length > MAX_NAME_LENGTH) throw new CollectionError(`'name' can be at most ${MAX_NAME_LENGTH} characters.`);
+  return name.trim();
+}
+
+// undefined clears the description
+function parseDescription(description) {
+  if (description === null || description === '') return undefined;
+  if (typeof description !== 'string') throw new CollectionError("'description' must be text.");
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new CollectionError(`'description' can be at most ${MAX_DESCRIPTION_LENGTH} characters.`);
+  }
+  return description;
+}
+
+function parseGameIds(gameIds) {
+  if (!Array.isArray(gameIds) || !gameIds.every(isLibraryGameId)) {
+    throw new CollectionError('gameIds must be a list of library game ids.');
+  }
+  const uniqueIds = [...new Set(gameIds)];
+  if (uniqueIds.length > MAX_GAME_IDS) {
+    throw new CollectionError(`At most ${MAX_GAME_IDS} games can be changed at once.`);
+  }
+  return uniqueIds;
+}
+
+function parseId(id) {
+  if (!mongoose.Types.ObjectId.isValid(String(id))) throw new CollectionError('Collection not found.', 404);
+  return String(id);
+}
+
+// Collection names are unique per user (see models/GameCollection.js)
+async function saving(name, save) {
+  try {
+    return await save();
+  } catch (error) {
+    if (error.code === DUPLICATE_KEY_ERROR) throw new CollectionError(`You already have a collection named "${name}".`, 409);
+    throw error;
+  }
+}
+
+function toCollection(collection) {
+  return {
+    id: String(collection._id),
+    name: collection.name,
+    description: collection.description,
+    gameIds: collection.gameIds || [],
+    rules: collection.rules,
+    createdAt: collection.createdAt,
+    updatedAt: collection.updatedAt,
+  };
+}
+
+async function listCollections(user) {
+  const collections = await GameCollection.find({ userId: user._id }).sort({ name: 1 }).lean();
+  return collections.map(toCollection);
+}
+
+// Body: { name, description?, gameIds? } or, for a smart collection, { name, description?, rules }
+async function createCollection(user, body) {
+  const { name, description, gameIds, rules } = body || {};
+  if (rules !== undefined && gameIds !== undefined) {
+    throw new CollectionError('The games of a smart collection come from its rules; leave out gameIds.');
+  }
+  const fields = { userId: user._id, name: parseName(name), gameIds: gameIds === undefined ? [] : parseGameIds(gameIds) };
+  const parsedDescription = description === undefined ? undefined : parseDescription(description);
+  if (parsedDescription !== undefined) fields.description = parsedDescription;
+  if (rules !== undefined) fields.rules = parseRules(rules);
+
+  const collection = await saving(fields.name, () => GameCollection.create(fields));
+  logger.info(`Created collection ${collection._id} for user ${user.id}.`);
+  return toCollection(collection);
+}
+
+// Body: { name?, description?, rules? }; a null or empty description clears it. New rules make the
+// collection a smart one (its own games are dropped), and null rules make it an empty regular one.
+async function updateCollection(user, id, body) {
+  const { name, description, rules } = body || {};
+  const $set = {};
+  const $unset = {};
+  if (name !== undefined) $set.name = parseName(name);
+  if (description !== undefined) {
+    const parsed = parseDescription(description);
+    if (parsed === undefined) $unset.description = '';
+    else $set.description = parsed;
+  }
+  if (rules === null) {
+    $unset.rules = '';
+  } else if (rules !== undefined) {
+    $set.rules = parseRules(rules);
+  }
+  if (rules !== undefined) $set.gameIds = [];
+  if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) {
+    throw new CollectionError("Give a new 'name', 'description' or 'rules'.");
+  }
+
+  const update = {};
+  if (Object.keys($set).length > 0) update.$set = $set;
+  if (Object.keys($unset).length > 0) update.$unset = $unset;
+  const collection = await saving($set.name, () => GameCollection.findOneAndUpdate(
+    { _id: parseId(id), userId: user._id },
+    update,
+    { new: true, runValidators: true }
+  ).lean());
+  if (!collection) throw new CollectionError('Collection not found.', 404);
+  return toCollection(collection);
+}
+
+async function deleteCollection(user, id) {
+  const collection = await GameCollection.findOneAndDelete({ _id: parseId(id), userId: user._id }).lean();
+  if (!collection) throw new CollectionError('Collection not found.', 404);
+  logger.info(`Deleted collection ${collection._id} for user ${user.id}.`);
+  return { id: String(collection._id) };
+}
+
+/**
+ * Adds games to a collection, or takes them out with `remove`. Callers pass every entry id of the
+ * games, so a game owned on several platforms is in or out with all of them. Smart collections
+ * cannot be changed this way.
+ */
+async function changeCollectionGames(user, id, gameIds, { remove = false } = {}) {
+  const ids = parseGameIds(gameIds);
+  if (ids.length === 0) throw new CollectionError('Select at least one game.');
+
+  const filter = { _id: parseId(id), userId: user._id };
+  const update = remove ? { $pullAll: { gameIds: ids } } : { $addToSet: { gameIds: { $each: ids } } };
+  const collection = await GameCollection.findOneAndUpdate({ ...filter, rules: { $exists: false } }, update, { new: true }).lean();
+  if (!collection) {
+    if (await GameCollection.exists(filter)) {
+      throw new CollectionError('The games of a smart collection come from its rules; edit the rules instead.');
+    }
+    throw new CollectionError('Collection not found.', 404);
+  }
+  return toCollection(collection);
+}
+
+/**
+ * Fills in the `gameIds` of smart collections: the ids of the library entries matching their rules,
+ * looked up in grouped library games (services/gameMatching.js). Regular collections are returned
+ * as they are.
+ */
+function resolveCollections(collections, games) {
+  const entries = games.flatMap(game => game.entries || [game]);
+  return collections.map(collection => (collection.rules
+    ? { ...collection, gameIds: entries.filter(entry => matchesRules(entry, collection.rules)).map(entry => entry.id) }
+    : collection));
+}
+
+/**
+ * Adds `collectionIds` to grouped library games (services/gameMatching.js): the collections any of
+ * their entries is in.
+ */
+function withCollections(games, collections) {
+  const collectionIdsByGameId = new Map();
+  collections.forEach(collection => {
+    (collection.gameIds || []).forEach(gameId => {
+      if (!collectionIdsByGameId.has(gameId)) collectionIdsByGameId.set(gameId, new Set());
+      collectionIdsByGameId.get(gameId).add(String(collection._id));
+    });
+  });
+  return games.map(game => {
+    const collectionIds = new Set((game.entries || [game]).flatMap(entry => [...(collectionIdsByGameId.get(entry.id) || [])]));
+    return collectionIds.size > 0 ? { ...game, collectionIds: [...collectionIds] } : game;
+  });
+}
+
+module.exports = {
+  CollectionError,
+  toCollection,
+  listCollections,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  changeCollectionGames,
+  resolveCollections,
+  withCollections,
+};
@@ -0,0 +1,270 @@
+const initSqlJs = require('sql.js');
+const logger = require('../config/logger');
+const GalaxyGame = require('../models/GalaxyGame');
+const GogGame = require('../models/GogGame');
+const { recordPlaytimeSnapshots } = require('./playtimeHistory');
+
+// Galaxy prefixes release keys with its integration name; these map onto the platforms we sync.
+const PLATFORM_BY_PREFIX = {
+  gog: 'gog',
+  steam: 'steam',
+  xboxone: 'xbox',
+  xbox360: 'xbox',
+  psn: 'psn',
+  epic: 'epic',
+};
+const REQUIRED_TABLES = ['LibraryReleases', 'GamePieces', 'GamePieceTypes'];
+
+// Thrown when the upload is not a readable GOG Galaxy 2.0 database.
+class GalaxyDatabaseError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'GalaxyDatabaseError';
+    this.status = 400;
+  }
+}
+
+let sqlJsPromise = null;
+const loadSqlJs = () => {
+  if (!sqlJsPromise) sqlJsPromise = initSqlJs();
+  return sqlJsPromise;
+};
+
+function queryRows(db, sql) {
+  const rows = [];
+  const statement = db.prepare(sql);
+  try {
+    while (statement.step()) rows.push(statement.getAsObject());
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+const tableNames = db => new Set(queryRows(db, "SELECT name FROM sqlite_master WHERE type = 'table'").map(row => row.name));
+const columnNames = (db, table) => new Set(queryRows(db, `PRAGMA table_info(${table})`).map(row => row.name));
+
+function parseJson(value) {
+  try {
+    return JSON.parse(value);
+  } catch (parseError) {
+    return null;
+  }
+}
+
+// Galaxy stores UTC timestamps as "YYYY-MM-DD HH:MM:SS" without a zone.
+function parseGalaxyDate(value) {
+  if (!value) return undefined;
+  const text = String(value);
+  const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(text) ? text : `${text.replace(' ', 'T')}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function parseReleaseKey(releaseKey) {
+  const separator = releaseKey.indexOf('_');
+  if (separator <= 0) return null;
+  const prefix = releaseKey.slice(0, separator);
+  return { platform: PLATFORM_BY_PREFIX[prefix] || prefix, platformGameId: releaseKey.slice(separator + 1) };
+}
+
+// Title, cover and linked releases per release key. The user's own edits (`title`, `images`) win over
+// Galaxy's originals. `allGameReleases` lists the release keys of the same game on every platform.
+function readGamePieces(db) {
+  const pieces = new Map();
+  const rows = queryRows(db, `
+    SELECT gp.releaseKey AS releaseKey, gpt.type AS type, gp.value AS value
+    FROM GamePieces gp JOIN GamePieceTypes gpt ON gp.gamePieceTypeId = gpt.id
+    WHERE gpt.type IN ('originalTitle', 'title', 'originalImages', 'images', 'allGameReleases')
+  `);
+  for (const { releaseKey, type, value } of rows) {
+    const data = parseJson(value);
+    if (!data) continue;
+    const piece = pieces.get(releaseKey) || {};
+    if (type === 'title' || (type === 'originalTitle' && !piece.title)) {
+      piece.title = data.title || piece.title;
+    } else if (type === 'images' || (type === 'originalImages' && !piece.coverImage)) {
+      piece.coverImage = data.verticalCover || data.background || data.squareIcon || piece.coverImage;
+    } else if (type === 'allGameReleases' && Array.isArray(data.releases)) {
+      piece.relatedReleaseKeys = data.releases.filter(key => key && key !== releaseKey).map(String);
+    }
+    pieces.set(releaseKey, piece);
+  }
+  return pieces;
+}
+
+// Achievement counts per release key. Galaxy keeps the definitions in Achievements and, depending on
+// the client version, the unlocks either in UserAchievements or as an unlock time on the row itself.
+function readAchievements(db, tables) {
+  const counts = new Map();
+  if (!tables.has('Achievements')) return counts;
+  const columns = columnNames(db, 'Achievements');
+  const keyColumn = ['releaseKey', 'gameReleaseKey'].find(column => columns.has(column));
+  if (!keyColumn) return counts;
+
+  let sql;
+  if (tables.has('UserAchievements') && columnNames(db, 'UserAchievements').has('achievementId')) {
+    sql = `
+      SELECT a.${keyColumn} AS releaseKey, COUNT(DISTINCT a.id) AS total, COUNT(DISTINCT ua.achievementId) AS unlocked
+      FROM Achievements a LEFT JOIN UserAchievements ua ON ua.achievementId = a.id
+      GROUP BY a.${keyColumn}
+    `;
+  } else if (columns.has('unlockTime')) {
+    sql = `SELECT ${keyColumn} AS releaseKey, COUNT(*) AS total, COUNT(unlockTime) AS unlocked FROM Achievements GROUP BY ${keyColumn}`;
+  } else {
+    return counts;
+  }
+  for (const { releaseKey, total, unlocked } of queryRows(db, sql)) {
+    counts.set(releaseKey, { unlocked: Number(unlocked) || 0, total: Number(total) || 0 });
+  }
+  return counts;
+}
+
+/**
+ * Reads the owned games out of a GOG Galaxy 2.0 database (galaxy-2.0.db), with playtime, last played
+ * time and achievement counts for every platform linked in Galaxy. DLCs are skipped.
+ *
+ * @param {Buffer|Uint8Array} buffer - The uploaded SQLite file.
+ * @returns {Promise<object[]>} `{ releaseKey, platform, platformGameId, title, coverImage, playtimeMinutes, lastPlayed, achievements, relatedReleaseKeys }`
+ * @throws {GalaxyDatabaseError} When the file is not a GOG Galaxy 2.0 database.
+ */
+async function readGalaxyDatabase(buffer) {
+  const SQL = await loadSqlJs();
+  let db;
+  try {
+    db = new SQL.Database(buffer);
+  } catch (openError) {
+    throw new GalaxyDatabaseError('The uploaded file is not a SQLite database.');
+  }
+
+  try {
+    let tables;
+    try {
+      tables = tableNames(db);
+    } catch (readError) {
+      throw new GalaxyDatabaseError('The uploaded file is not a SQLite database.');
+    }
+    const missing = REQUIRED_TABLES.filter(table => !tables.has(table));
+    if (missing.length > 0) {
+      throw new GalaxyDatabaseError(`Not a GOG Galaxy 2.0 database (missing ${missing.join(', ')}). Upload galaxy-2.0.db.`);
+    }
+
+    const pieces = readGamePieces(db);
+    const achievements = readAchievements(db, tables);
+    const playtime = new Map(tables.has('GameTimes')
+      ? queryRows(db, 'SELECT releaseKey, SUM(minutesInGame) AS minutes FROM GameTimes GROUP BY releaseKey')
+        .map(row => [row.releaseKey, Number(row.minutes) || 0])
+      : []);
+    const lastPlayed = new Map(tables.has('LastPlayedDates')
+      ? queryRows(db, 'SELECT gameReleaseKey, MAX(lastPlayedDate) AS lastPlayedDate FROM LastPlayedDates GROUP BY gameReleaseKey')
+        .map(row => [row.gameReleaseKey, parseGalaxyDate(row.lastPlayedDate)])
+      : []);
+    const dlcs = new Set(tables.has('ReleaseProperties') && columnNames(db, 'ReleaseProperties').has('isDlc')
+      ? queryRows(db, 'SELECT releaseKey FROM ReleaseProperties WHERE isDlc = 1').map(row => row.releaseKey)
+      : []);
+
+    const games = [];
+    for (const { releaseKey } of queryRows(db, 'SELECT DISTINCT releaseKey FROM LibraryReleases')) {
+      const parsedKey = releaseKey && parseReleaseKey(String(releaseKey));
+      if (!parsedKey || dlcs.has(releaseKey)) continue;
+      const piece = pieces.get(releaseKey) || {};
+      games.push({
+        releaseKey,
+        ...parsedKey,
+        title: piece.title,
+        coverImage: piece.coverImage,
+        playtimeMinutes: playtime.get(releaseKey) || 0,
+        lastPlayed: lastPlayed.get(releaseKey),
+        achievements: achievements.get(releaseKey) || { unlocked: 0, total: 0 },
+        relatedReleaseKeys: piece.relatedReleaseKeys || [],
+      });
+    }
+    return games;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Replaces the user's Galaxy games with a fresh import and merges the GOG releases into their
+ * GogGame library. Playtime, last played and achievements are overwritten; titles and covers
+ * only fill in GOG games that have not been synced from the GOG API.
+ */
+async function importGalaxyGames(user, games) {
+  const importedAt = new Date();
+  if (games.length > 0) {
+    await GalaxyGame.bulkWrite(games.map(game => ({
+      updateOne: {
+        filter: { userId: user._id, releaseKey: game.releaseKey },
+        update: { $set: { ...game, importedAt } },
+        upsert: true,
+      },
+    })));
+  }
+  await GalaxyGame.deleteMany({ userId: user._id, releaseKey: { $nin: games.map(game => game.releaseKey) } });
+
+  const gogGames = games.filter(game => game.platform === 'gog' && /^\d+$/.test(game.platformGameId));
+  if (gogGames.length > 0) {
+    // GOG playtime only comes from these imports, so this is where its history is recorded. Games
+    // imported for the first time are left out: their hours could have been played at any time.
+    const previouslyImported = await GogGame.find({
+      userId: user._id,
+      productId: { $in: gogGames.map(game => Number(game.platformGameId)) },
+      galaxyImportedAt: { $ne: null },
+    }).lean();
+    const previousPlaytime = new Map(previouslyImported.map(game => [String(game.productId), game.playtimeMinutes || 0]));
+
+    await GogGame.bulkWrite(gogGames.map(game => ({
+      updateOne: {
+        filter: { userId: user._id, productId: Number(game.platformGameId) },
+        update: {
+          $set: {
+            playtimeMinutes: game.playtimeMinutes,
+            lastPlayed: game.lastPlayed,
+            achievements: game.achievements,
+            galaxyImportedAt: importedAt,
+          },
+          $setOnInsert: {
+            title: game.title || `GOG product ${game.platformGameId}`,
+            image: game.coverImage,
+            lastUpdated: importedAt,
+          },
+        },
+        upsert: true,
+      },
+    })));
+
+    await recordPlaytimeSnapshots({
+      platform: 'gog',
+      accountKey: String(user._id), // gogAdapter.accountKey
+      previous: previousPlaytime,
+      current: gogGames
+        .filter(game => previousPlaytime.has(game.platformGameId))
+        .map(game => ({ gameId: game.platformGameId, title: game.title, minutes: game.playtimeMinutes })),
+      recordedAt: importedAt,
+    });
+  }
+
+  logger.info(`Imported ${games.length} GOG Galaxy games (${gogGames.length} GOG) for user ${user.id}.`);
+  return { imported: games.length, gogGames: gogGames.length, importedAt };
+}
+
+function toResponse(game) {
+  return {
+    releaseKey: game.releaseKey,
+    platform: game.platform,
+    platformGameId: game.platformGameId,
+    title: game.title,
+    coverImage: game.coverImage,
+    playtimeMinutes: game.playtimeMinutes || 0,
+    lastPlayed: game.lastPlayed,
+    achievements: game.achievements || { unlocked: 0, total: 0 },
+  };
+}
+
+module.exports = {
+  GalaxyDatabaseError,
+  parseReleaseKey,
+  readGalaxyDatabase,
+  importGalaxyGames,
+  toResponse,
+};
@@ -0,0 +1,174 @@
+// Groups the per-platform library entries of the same game (The Witcher 3 on Steam, GOG and Xbox)
+// into one canonical game. Entries match on their normalized title or on external ids that link
+// them (e.g. GOG Galaxy's list of releases of a game); manual overrides from GameGroupOverride
+// take precedence over both.
+
+// Edition names that do not make a different game; stripped from the end of titles before matching.
+const EDITION_SUFFIXES = [
+  'game of the year edition',
+  'game of the year',
+  'goty edition',
+  'goty',
+  'complete edition',
+  'definitive edition',
+  'enhanced edition',
+  'digital deluxe edition',
+  'deluxe edition',
+  'standard edition',
+  'ultimate edition',
+  'gold edition',
+  'windows 10 edition',
+  'windows 10',
+  'windows edition',
+  'pc edition',
+  'for windows 10',
+];
+
+// The order platforms are preferred in when entries tie on playtime.
+const PLATFORM_ORDER = ['steam', 'gog', 'epic', 'xbox', 'psn'];
+
+const NEVER_PLAYED_TIME = 0;
+
+/**
+ * Matching key for a title: lower case, without accents, trademark signs, punctuation and
+ * trailing edition names. "The Witcher® 3: Wild Hunt – Game of the Year Edition" and
+ * "The Witcher 3: Wild Hunt" both become "the witcher 3 wild hunt".
+ */
+function normalizeTitle(title) {
+  const simplified = String(title || '')
+    .replace(/[™®©]/g, '') // Before NFKD, which turns ™ into "TM"
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+  let key = simplified;
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    for (const suffix of EDITION_SUFFIXES) {
+      if (key.endsWith(` ${suffix}`)) {
+        key = key.slice(0, -suffix.length - 1).trim();
+        stripped = true;
+      }
+    }
+  }
+  return key || simplified;
+}
+
+// Minimal union-find over entry ids.
+function createGroups(ids) {
+  const parent = new Map(ids.map(id => [id, id]));
+  const find = id => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root);
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a, b) => {
+    if (!parent.has(a) || !parent.has(b)) return;
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  };
+  return { find, union };
+}
+
+const platformRank = platform => {
+  const index = PLATFORM_ORDER.indexOf(platform);
+  return index === -1 ? PLATFORM_ORDER.length : index;
+};
+
+// The entry whose cover, title and actions represent the canonical game: the most played one.
+function primaryEntry(entries) {
+  return [...entries].sort((a, b) => (b.playtime - a.playtime) || (platformRank(a.platform) - platformRank(b.platform)))[0];
+}
+
+function canonicalGame(entries) {
+  const sortedEntries = [...entries].sort((a, b) => platformRank(a.platform) - platformRank(b.platform) || a.id.localeCompare(b.id));
+  const primary = primaryEntry(sortedEntries);
+  const lastPlayedTime = Math.max(...entries.map(entry => new Date(entry.lastPlayed).getTime() || NEVER_PLAYED_TIME));
+  const withCover = sortedEntries.find(entry => entry.coverImage && entry.coverImage !== '/placeholder.svg');
+  const withGenre = sortedEntries.find(entry => entry.genre.length > 0 && entry.genre[0] !== 'Unknown Genre');
+
+  // Metadata (services/gameMetadata.js) may only be known for some of the platforms
+  const details = {};
+  ['releaseDate', 'developers', 'publishers', 'description'].forEach(field => {
+    const source = [primary, ...sortedEntries].find(entry => entry[field] && entry[field].length !== 0);
+    if (source) details[field] = source[field];
+  });
+
+  return {
+    ...primary,
+    ...details,
+    coverImage: primary.coverImage !== '/placeholder.svg' || !withCover ? primary.coverImage : withCover.coverImage,
+    playtime: entries.reduce((sum, entry) => sum + entry.playtime, 0),
+    lastPlayed: new Date(lastPlayedTime).toISOString(),
+    status: entries.some(entry => entry.status === 'installed') ? 'installed' : primary.status,
+    genre: primary.genre[0] !== 'Unknown Genre' || !withGenre ? primary.genre : withGenre.genre,
+    releaseYear: primary.releaseYear || Math.max(...entries.map(entry => entry.releaseYear || 0)),
+    entries: sortedEntries,
+  };
+}
+
+/**
+ * Groups library entries (libraryGame() objects) into canonical games.
+ *
+ * @param {object[]} games - Entries from every platform; ids are `${platform}-${gameId}`.
+ * @param {object} [options]
+ * @param {string[][]} [options.links] - Entry ids known to be the same game (external ids).
+ * @param {object[]} [options.overrides] - `{ gameId, groupKey }`: entries with an override are only
+ *   grouped with entries that have the same groupKey, never by title or links.
+ * @returns {object[]} Canonical games: the primary entry's fields with summed playtime, the latest
+ *   lastPlayed and every entry in `entries`. A canonical game's id is its primary entry's id.
+ */
+function groupGames(games, { links = [], overrides = [] } = {}) {
+  const groupKeyById = new Map(overrides.map(override => [override.gameId, override.groupKey]));
+  const { find, union } = createGroups(games.map(game => game.id));
+  const gameIds = new Set(games.map(game => game.id));
+  const isAutomatic = id => gameIds.has(id) && !groupKeyById.has(id);
+
+  const firstByKey = new Map();
+  const unionByKey = (key, id) => {
+    if (firstByKey.has(key)) union(firstByKey.get(key), id);
+    else firstByKey.set(key, id);
+  };
+
+  games.forEach(game => {
+    if (isAutomatic(game.id)) unionByKey(`title:${normalizeTitle(game.title)}`, game.id);
+    else unionByKey(`override:${groupKeyById.get(game.id)}`, game.id);
+  });
+  links.forEach(linkedIds => {
+    const automaticIds = linkedIds.filter(isAutomatic);
+    automaticIds.slice(1).forEach(id => union(automaticIds[0], id));
+  });
+
+  const entriesByRoot = new Map();
+  games.forEach(game => {
+    const root = find(game.id);
+    if (!entriesByRoot.has(root)) entriesByRoot.set(root, []);
+    entriesByRoot.get(root).push(game);
+  });
+  return [...entriesByRoot.values()].map(canonicalGame);
+}
+
+/**
+ * The user's record (play status, review...) of a grouped game. Records are saved on every entry
+ * of a game, so entries that had their own before being merged disagree; the one saved last wins.
+ *
+ * @param {object} game - A canonical game from groupGames(), or a single entry.
+ * @param {Map<string, object>} recordsByEntryId - Records with an `updatedAt`, by library entry id.
+ */
+function latestEntryRecord(game, recordsByEntryId) {
+  const records = (game.entries || [game]).map(entry => recordsByEntryId.get(entry.id)).filter(Boolean);
+  if (records.length === 0) return null;
+  return records.reduce((a, b) => (new Date(b.updatedAt) > new Date(a.updatedAt) ? b : a));
+}
+
+module.exports = {
+  normalizeTitle,
+  groupGames,
+  latestEntryRecord,
+};
@@ -0,0 +1,130 @@
+const logger = require('../config/logger');
+const GameMetadata = require('../models/GameMetadata');
+const { activeProviders } = require('../metadata');
+
+const FOUND_TTL_MS = 30 * 24 * 60 * 60 * 1000; // Metadata rarely changes
+const NOT_FOUND_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Retry unknown games sooner, providers may have added them
+const MAX_QUEUED_LOOKUPS = 5000;
+
+const delay = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// Library entries (libraryGame() objects) carry the upstream id as appId.
+const metadataKey = entry => `${entry.platform}-${entry.appId}`;
+
+function isFresh(metadata, now = Date.now()) {
+  if (!metadata || !metadata.fetchedAt) return false;
+  const ttl = metadata.found ? FOUND_TTL_MS : NOT_FOUND_TTL_MS;
+  return now - new Date(metadata.fetchedAt).getTime() < ttl;
+}
+
+/**
+ * Cached GameMetadata documents for the given library entries, keyed by `${platform}-${appId}`.
+ * Never calls a provider; see queueMetadataLookups for that.
+ */
+async function getCachedMetadata(entries) {
+  const idsByPlatform = new Map();
+  entries.forEach(entry => {
+    if (!idsByPlatform.has(entry.platform)) idsByPlatform.set(entry.platform, new Set());
+    idsByPlatform.get(entry.platform).add(entry.appId);
+  });
+  if (idsByPlatform.size === 0) return new Map();
+
+  const documents = await GameMetadata.find({
+    $or: [...idsByPlatform].map(([platform, ids]) => ({ platform, gameId: { $in: [...ids] } })),
+  }).lean();
+  return new Map(documents.map(metadata => [`${metadata.platform}-${metadata.gameId}`, metadata]));
+}
+
+// Fills the Game fields the platforms leave empty (genre, releaseYear) and adds the rest.
+function applyMetadata(game, metadata) {
+  if (!metadata || !metadata.found) return game;
+  return {
+    ...game,
+    genre: metadata.genres && metadata.genres.length > 0 ? metadata.genres : game.genre,
+    releaseYear: metadata.releaseYear || game.releaseYear,
+    releaseDate: metadata.releaseDate ? new Date(metadata.releaseDate).toISOString() : undefined,
+    developers: metadata.developers || [],
+    publishers: metadata.publishers || [],
+    description: metadata.description || undefined,
+  };
+}
+
+/**
+ * Asks the providers in order and stores the first answer. A game no provider knows is stored as
+ * `found: false`; when a provider fails instead, nothing is stored so the lookup is retried later.
+ *
+ * @param {object} entry - `{ platform, gameId, title }`
+ * @returns {Promise<object|null>} The saved GameMetadata document, or null when a provider failed.
+ */
+async function refreshMetadata(entry, providers = activeProviders()) {
+  let providerFailed = false;
+  for (const provider of providers.filter(candidate => candidate.supports(entry))) {
+    try {
+      const metadata = await provider.lookup(entry);
+      if (metadata) {
+        return saveMetadata(entry, { ...metadata, found: true, provider: provider.name });
+      }
+    } catch (error) {
+      providerFailed = true;
+      logger.warn(`Metadata provider '${provider.name}' failed for ${entry.platform} game ${entry.gameId}: ${error.message}`);
+    }
+  }
+  if (providerFailed) return null;
+  return saveMetadata(entry, { found: false, provider: null, genres: [], developers: [], publishers: [] });
+}
+
+function saveMetadata(entry, fields) {
+  return GameMetadata.findOneAndUpdate(
+    { platform: entry.platform, gameId: entry.gameId },
+    { $set: { ...fields, title: entry.title, fetchedAt: new Date() } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean();
+}
+
+// Lookups waiting for the in-process queue, keyed by `${platform}-${gameId}`. One lookup runs at a
+// time so upstream providers see a steady, rate-limited trickle however many libraries are loaded.
+const pendingLookups = new Map();
+let draining = null;
+
+async function drainQueue() {
+  while (pendingLookups.size > 0) {
+    const [key, entry] = pendingLookups.entries().next().value;
+    const providers = activeProviders();
+    try {
+      await refreshMetadata(entry, providers);
+    } catch (error) {
+      logger.error(`Failed to save metadata for ${entry.platform} game ${entry.gameId}:`, { errorMessage: error.message });
+    }
+    pendingLookups.delete(key);
+    const pause = Math.max(0, ...providers.filter(provider => provider.supports(entry)).map(provider => provider.requestDelayMs || 0));
+    if (pause > 0 && pendingLookups.size > 0) await delay(pause);
+  }
+}
+
+/**
+ * Queues metadata lookups for library entries in the background. Resolves when the queue is
+ * empty; callers serving a request do not wait for it.
+ */
+function queueMetadataLookups(entries) {
+  entries.forEach(entry => {
+    const lookup = { platform: entry.platform, gameId: entry.appId, title: entry.title };
+    const key = metadataKey(entry);
+    if (pendingLookups.has(key) || pendingLookups.size >= MAX_QUEUED_LOOKUPS) return;
+    pendingLookups.set(key, lookup);
+  });
+  if (!draining) {
+    draining = drainQueue().finally(() => {
+      draining = null;
+    });
+  }
+  return draining;
+}
+
+module.exports = {
+  metadataKey,
+  isFresh,
+  getCachedMetadata,
+  applyMetadata,
+  refreshMetadata,
+  queueMetadataLookups,
+};
@@ -0,0 +1,67 @@
+const logger = require('../config/logger');
+const GameProgress = require('../models/GameProgress');
+const { isLibraryGameId } = require('../adapters/libraryGame');
+const { latestEntryRecord } = require('./gameMatching');
+
+const PLAY_STATUSES = ['wishlist', 'backlog', 'playing', 'completed', 'hundred_percent', 'abandoned'];
+const MAX_GAME_IDS = 100;
+
+class GameProgressError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'GameProgressError';
+    this.status = status;
+  }
+}
+
+/**
+ * Sets the play status of a game, or clears it when `playStatus` is null. Callers pass every
+ * entry of the game (like POST /api/library/merge), so the status follows the game when its
+ * entries are merged, split or its most played platform changes.
+ */
+async function setPlayStatus(user, gameIds, playStatus) {
+  if (!Array.isArray(gameIds) || gameIds.length === 0 || !gameIds.every(isLibraryGameId)) {
+    throw new GameProgressError('gameIds must be a list of library game ids.');
+  }
+  const uniqueIds = [...new Set(gameIds)];
+  if (uniqueIds.length > MAX_GAME_IDS) {
+    throw new GameProgressError(`At most ${MAX_GAME_IDS} games can be updated at once.`);
+  }
+  if (playStatus !== null && !PLAY_STATUSES.includes(playStatus)) {
+    throw new GameProgressError(`playStatus must be one of ${PLAY_STATUSES.join(', ')}, or null to clear it.`);
+  }
+
+  if (playStatus === null) {
+    await GameProgress.deleteMany({ userId: user._id, gameId: { $in: uniqueIds } });
+  } else {
+    const updatedAt = new Date();
+    await GameProgress.bulkWrite(uniqueIds.map(gameId => ({
+      updateOne: {
+        filter: { userId: user._id, gameId },
+        update: { $set: { playStatus, updatedAt } },
+        upsert: true,
+      },
+    })));
+  }
+  logger.info(`Set the play status of ${uniqueIds.length} library games to ${playStatus} for user ${user.id}.`);
+  return { gameIds: uniqueIds, playStatus };
+}
+
+/**
+ * Adds `playStatus` to grouped library games (services/gameMatching.js). A game whose entries had
+ * different statuses before they were merged takes the one set last.
+ */
+function withPlayStatus(games, progress) {
+  const progressById = new Map(progress.map(record => [record.gameId, record]));
+  return games.map(game => {
+    const latest = latestEntryRecord(game, progressById);
+    return latest ? { ...game, playStatus: latest.playStatus } : game;
+  });
+}
+
+module.exports = {
+  PLAY_STATUSES,
+  GameProgressError,
+  setPlayStatus,
+  withPlayStatus,
+};
@@ -0,0 +1,122 @@
+const logger = require('../config/logger');
+const GameReview = require('../models/GameReview');
+const { isLibraryGameId } = require('../adapters/libraryGame');
+const { latestEntryRecord } = require('./gameMatching');
+
+const MAX_GAME_IDS = 100;
+const MAX_REVIEW_LENGTH = 20000;
+const MAX_NOTES_LENGTH = 5000;
+const REVIEW_FIELDS = ['score', 'review', 'notes', 'finishedAt'];
+
+class GameReviewError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'GameReviewError';
+    this.status = status;
+  }
+}
+
+const isBlank = value => value === undefined || value === null || value === '';
+
+// Every entry of the game, like POST /api/library/merge
+function parseGameIds(gameIds) {
+  if (!Array.isArray(gameIds) || gameIds.length === 0 || !gameIds.every(isLibraryGameId)) {
+    throw new GameReviewError('gameIds must be a list of library game ids.');
+  }
+  const uniqueIds = [...new Set(gameIds)];
+  if (uniqueIds.length > MAX_GAME_IDS) {
+    throw new GameReviewError(`At most ${MAX_GAME_IDS} games can be updated at once.`);
+  }
+  return uniqueIds;
+}
+
+function optionalText(value, name, maxLength) {
+  if (isBlank(value)) return undefined;
+  if (typeof value !== 'string') throw new GameReviewError(`'${name}' must be text.`);
+  if (value.length > maxLength) throw new GameReviewError(`'${name}' can be at most ${maxLength} characters.`);
+  return value.trim() === '' ? undefined : value;
+}
+
+// The review as stored; blank fields are left out so they are removed from the record
+function parseReview(body) {
+  const review = {};
+  if (!isBlank(body.score)) {
+    const score = Number(body.score);
+    if (!Number.isInteger(score) || score < 1 || score > 10) {
+      throw new GameReviewError("'score' must be a whole number from 1 to 10.");
+    }
+    review.score = score;
+  }
+  const text = optionalText(body.review, 'review', MAX_REVIEW_LENGTH);
+  if (text !== undefined) review.review = text;
+  const notes = optionalText(body.notes, 'notes', MAX_NOTES_LENGTH);
+  if (notes !== undefined) review.notes = notes;
+  if (!isBlank(body.finishedAt)) {
+    const finishedAt = new Date(String(body.finishedAt));
+    if (Number.isNaN(finishedAt.getTime())) throw new GameReviewError("'finishedAt' must be a date.");
+    review.finishedAt = finishedAt;
+  }
+  if (Object.keys(review).length === 0) {
+    throw new GameReviewError('Give a score, a review, notes or a finish date; use DELETE to remove the review.');
+  }
+  return review;
+}
+
+/**
+ * Saves the user's review of a game on every entry id given, replacing the previous one: fields
+ * left out or blank are removed. Body: { gameIds, score?, review?, notes?, finishedAt? }.
+ */
+async function saveReview(user, body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new GameReviewError('The request body must be a JSON object.');
+  }
+  const gameIds = parseGameIds(body.gameIds);
+  const review = parseReview(body);
+  const cleared = Object.fromEntries(REVIEW_FIELDS.filter(field => review[field] === undefined).map(field => [field, '']));
+  const updatedAt = new Date();
+
+  await GameReview.bulkWrite(gameIds.map(gameId => ({
+    updateOne: {
+      filter: { userId: user._id, gameId },
+      update: {
+        $set: { ...review, updatedAt },
+        ...(Object.keys(cleared).length > 0 ? { $unset: cleared } : {}),
+      },
+      upsert: true,
+    },
+  })));
+  logger.info(`Saved the review of ${gameIds.length} library games for user ${user.id}.`);
+  return { gameIds, review: { ...review, updatedAt } };
+}
+
+async function deleteReview(user, body) {
+  const gameIds = parseGameIds(body && body.gameIds);
+  await GameReview.deleteMany({ userId: user._id, gameId: { $in: gameIds } });
+  logger.info(`Deleted the review of ${gameIds.length} library games for user ${user.id}.`);
+  return { gameIds };
+}
+
+/**
+ * Adds `review` ({ score, review, notes, finishedAt, updatedAt }) to grouped library games
+ * (services/gameMatching.js); a game whose entries had different reviews takes the one saved last.
+ */
+function withReviews(games, reviews) {
+  const reviewsById = new Map(reviews.map(record => [record.gameId, record]));
+  return games.map(game => {
+    const latest = latestEntryRecord(game, reviewsById);
+    if (!latest) return game;
+    const review = { updatedAt: new Date(latest.updatedAt).toISOString() };
+    REVIEW_FIELDS.forEach(field => {
+      if (latest[field] !== undefined && latest[field] !== null) review[field] = latest[field];
+    });
+    if (review.finishedAt) review.finishedAt = new Date(review.finishedAt).toISOString();
+    return { ...game, review };
+  });
+}
+
+module.exports = {
+  GameReviewError,
+  saveReview,
+  deleteReview,
+  withReviews,
+};
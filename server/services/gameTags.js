@@ -0,0 +1,83 @@
+const logger = require('../config/logger');
+const GameTags = require('../models/GameTags');
+const { isLibraryGameId } = require('../adapters/libraryGame');
+
+const MAX_GAME_IDS = 1000; // Tags are assigned in bulk, to every entry of every selected game
+const MAX_TAGS_PER_REQUEST = 20;
+const MAX_TAG_LENGTH = 40;
+
+class GameTagError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'GameTagError';
+    this.status = status;
+  }
+}
+
+function parseTags(tags, name) {
+  if (tags === undefined) return [];
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new GameTagError(`'${name}' must be a list of tags.`);
+  }
+  // Inner whitespace is collapsed so "co-op  local" and "co-op local" are the same tag
+  const parsed = [...new Set(tags.map(tag => tag.trim().replace(/\s+/g, ' ')).filter(Boolean))];
+  if (parsed.length > MAX_TAGS_PER_REQUEST || parsed.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new GameTagError(`'${name}' can hold at most ${MAX_TAGS_PER_REQUEST} tags of ${MAX_TAG_LENGTH} characters.`);
+  }
+  return parsed;
+}
+
+/**
+ * Adds and removes tags on many games at once. Body: { gameIds, add?, remove? }, with every entry
+ * id of the selected games, like POST /api/library/merge.
+ */
+async function editTags(user, body) {
+  const { gameIds } = body || {};
+  if (!Array.isArray(gameIds) || gameIds.length === 0 || !gameIds.every(isLibraryGameId)) {
+    throw new GameTagError('gameIds must be a list of library game ids.');
+  }
+  const uniqueIds = [...new Set(gameIds)];
+  if (uniqueIds.length > MAX_GAME_IDS) {
+    throw new GameTagError(`At most ${MAX_GAME_IDS} games can be tagged at once.`);
+  }
+  const add = parseTags(body.add, 'add');
+  const remove = parseTags(body.remove, 'remove').filter(tag => !add.includes(tag));
+  if (add.length === 0 && remove.length === 0) {
+    throw new GameTagError("Give the tags to 'add' or 'remove'.");
+  }
+
+  const updatedAt = new Date();
+  // $addToSet and $pull cannot change the same field in one update
+  if (add.length > 0) {
+    await GameTags.bulkWrite(uniqueIds.map(gameId => ({
+      updateOne: {
+        filter: { userId: user._id, gameId },
+        update: { $addToSet: { tags: { $each: add } }, $set: { updatedAt } },
+        upsert: true,
+      },
+    })));
+  }
+  if (remove.length > 0) {
+    await GameTags.updateMany(
+      { userId: user._id, gameId: { $in: uniqueIds } },
+      { $pull: { tags: { $in: remove } }, $set: { updatedAt } }
+    );
+  }
+  logger.info(`Edited the tags of ${uniqueIds.length} library games for user ${user.id}.`);
+  return { gameIds: uniqueIds, add, remove };
+}
+
+// Adds `tags` to grouped library games (services/gameMatching.js): the tags of all their entries.
+function withTags(games, tagRecords) {
+  const tagsById = new Map(tagRecords.map(record => [record.gameId, record.tags || []]));
+  return games.map(game => {
+    const tags = [...new Set((game.entries || [game]).flatMap(entry => tagsById.get(entry.id) || []))];
+    return tags.length > 0 ? { ...game, tags: tags.sort((a, b) => a.localeCompare(b)) } : game;
+  });
+}
+
+module.exports = {
+  GameTagError,
+  editTags,
+  withTags,
+};
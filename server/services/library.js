@@ -0,0 +1,224 @@
+const mongoose = require('mongoose');
+const logger = require('../config/logger');
+const GalaxyGame = require('../models/GalaxyGame');
+const GameGroupOverride = require('../models/GameGroupOverride');
+const ManualGame = require('../models/ManualGame');
+const GameProgress = require('../models/GameProgress');
+const GameReview = require('../models/GameReview');
+const GameTags = require('../models/GameTags');
+const GameCollection = require('../models/GameCollection');
+const { findStoredGames } = require('../adapters/libraryCache');
+const { libraryGame, isLibraryGameId } = require('../adapters/libraryGame');
+const { syncedAdapters, ensureFreshSync } = require('./syncScheduler');
+const { parseReleaseKey } = require('./galaxyImport');
+const { groupGames } = require('./gameMatching');
+const { metadataKey, isFresh, getCachedMetadata, applyMetadata, queueMetadataLookups } = require('./gameMetadata');
+const { toGame: manualLibraryGame } = require('./manualGames');
+const { withPlayStatus } = require('./gameProgress');
+const { withReviews } = require('./gameReviews');
+const { withTags } = require('./gameTags');
+const { toCollection, resolveCollections, withCollections } = require('./collections');
+
+const MAX_MERGED_GAMES = 100;
+
+class LibraryGroupingError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'LibraryGroupingError';
+    this.status = status;
+  }
+}
+
+// Galaxy platforms the library shows; games from Galaxy's other integrations are left out.
+// GOG releases are not listed because the Galaxy import already merges them into GogGame.
+const GALAXY_LIBRARY_PLATFORMS = ['steam', 'xbox', 'psn', 'epic'];
+
+/**
+ * The account whose stored games are listed for a platform, and whether it is the user's own link.
+ * `lookups` are public ids (e.g. { xbox: { xuid } }) used when the user has not linked that platform.
+ */
+function libraryAccount(adapter, user, lookups) {
+  const linked = adapter.accountForUser(user);
+  if (linked) return { account: linked, linked: true, synced: true };
+  if (lookups[adapter.platform]) return { account: lookups[adapter.platform], linked: false, synced: true };
+  // Imported games (Epic exports, Galaxy databases) belong to the user even without a link.
+  if (adapter.ownedByUser) return { account: { user }, linked: !!adapter.linkedAccount(user), synced: false };
+  return null;
+}
+
+async function loadPlatform(adapter, user, lookups) {
+  const status = { platform: adapter.platform, label: adapter.label, linked: false, gameCount: 0, sync: null, error: null };
+  const source = libraryAccount(adapter, user, lookups);
+  if (!source) return { games: [], status };
+
+  status.linked = source.linked;
+  try {
+    const [stored, sync] = await Promise.all([
+      findStoredGames(adapter, source.account),
+      source.synced ? ensureFreshSync(adapter, source.account) : null,
+    ]);
+    const games = stored.map(game => adapter.toGame(game));
+    status.gameCount = games.length;
+    status.sync = sync;
+    return { games, status };
+  } catch (error) {
+    // One platform failing must not hide the others; its error is reported in the status instead.
+    logger.error(`Error loading stored ${adapter.label} games for the library of user ${user.id}:`, { errorMessage: error.message });
+    status.error = `Failed to load ${adapter.label} games.`;
+    return { games: [], status };
+  }
+}
+
+// Fills in what the platform APIs leave out (playtime, last played, achievements) from the user's
+// GOG Galaxy import, and adds the Galaxy games of platforms that are not linked here.
+function withGalaxyStats(games, galaxyGames) {
+  const galaxyById = new Map(
+    galaxyGames
+      .filter(galaxyGame => GALAXY_LIBRARY_PLATFORMS.includes(galaxyGame.platform))
+      .map(galaxyGame => [`${galaxyGame.platform}-${galaxyGame.platformGameId}`, galaxyGame])
+  );
+  if (galaxyById.size === 0) return games;
+
+  const merged = games.map(game => {
+    const galaxyGame = galaxyById.get(game.id);
+    if (!galaxyGame) return game;
+    galaxyById.delete(game.id);
+    const neverPlayed = new Date(game.lastPlayed).getTime() <= 0;
+    return {
+      ...game,
+      playtime: game.playtime || Math.round((galaxyGame.playtimeMinutes || 0) / 60),
+      lastPlayed: neverPlayed && galaxyGame.lastPlayed ? new Date(galaxyGame.lastPlayed).toISOString() : game.lastPlayed,
+      achievements: game.achievements.total > 0 ? game.achievements : galaxyGame.achievements,
+    };
+  });
+
+  const galaxyOnly = [...galaxyById.values()].map(galaxyGame => libraryGame({
+    platform: galaxyGame.platform,
+    gameId: galaxyGame.platformGameId,
+    title: galaxyGame.title || 'Unknown Game',
+    coverImage: galaxyGame.coverImage,
+    playtimeMinutes: galaxyGame.playtimeMinutes || 0,
+    lastPlayed: galaxyGame.lastPlayed,
+    achievements: galaxyGame.achievements,
+    status: 'not_installed',
+  }));
+  return [...merged, ...galaxyOnly];
+}
+
+// Galaxy knows which releases on different platforms are the same game; each list becomes a match
+// for the grouping, in library entry ids.
+function galaxyLinks(galaxyGames) {
+  return galaxyGames
+    .filter(galaxyGame => galaxyGame.relatedReleaseKeys && galaxyGame.relatedReleaseKeys.length > 0)
+    .map(galaxyGame => [galaxyGame.releaseKey, ...galaxyGame.relatedReleaseKeys]
+      .map(releaseKey => parseReleaseKey(releaseKey))
+      .filter(Boolean)
+      .map(({ platform, platformGameId }) => `${platform}-${platformGameId}`));
+}
+
+// Genres, release dates, developers and descriptions from the GameMetadata cache. Games without
+// fresh metadata are queued for a background lookup and show up enriched on a later load.
+async function withMetadata(entries, user) {
+  let cached;
+  try {
+    cached = await getCachedMetadata(entries);
+  } catch (error) {
+    logger.warn(`Could not load game metadata for the library of user ${user.id}: ${error.message}`);
+    return entries;
+  }
+  const stale = entries.filter(entry => !isFresh(cached.get(metadataKey(entry))));
+  if (stale.length > 0) queueMetadataLookups(stale);
+  return entries.map(entry => applyMetadata(entry, cached.get(metadataKey(entry))));
+}
+
+/**
+ * Every stored game of the user across all platforms, normalized by each adapter's toGame(),
+ * enriched with cached metadata and grouped into canonical games (services/gameMatching.js), plus per-platform status:
+ * `{ games, platforms: { [platform]: { label, linked, gameCount, sync, error } } }`.
+ * Each game lists its per-platform entries in `entries`. Games the user added by hand
+ * (services/manualGames.js) are grouped along, with the details the user entered instead of metadata.
+ * Games the user gave a play status (services/gameProgress.js) carry it in `playStatus`, and
+ * reviewed games (services/gameReviews.js) their review in `review`. Games also carry their `tags`
+ * (services/gameTags.js) and the `collectionIds` of the user's collections they are in, which are
+ * listed in `collections` (services/collections.js); smart collections get their games from their
+ * rules on every call (services/collectionRules.js).
+ * Like the platform routes it never calls upstream APIs; stale libraries get a sync queued instead.
+ */
+async function getUnifiedLibrary(user, { lookups = {} } = {}) {
+  const [results, galaxyGames, overrides, manualGames, progress, reviews, tags, collections] = await Promise.all([
+    Promise.all(syncedAdapters().map(adapter => loadPlatform(adapter, user, lookups))),
+    GalaxyGame.find({ userId: user._id }).lean(),
+    GameGroupOverride.find({ userId: user._id }).lean(),
+    ManualGame.find({ userId: user._id }).lean(),
+    GameProgress.find({ userId: user._id }).lean(),
+    GameReview.find({ userId: user._id }).lean(),
+    GameTags.find({ userId: user._id }).lean(),
+    GameCollection.find({ userId: user._id }).sort({ name: 1 }).lean(),
+  ]);
+
+  const platforms = {};
+  results.forEach(({ status }) => {
+    platforms[status.platform] = status;
+  });
+  const entries = [
+    ...await withMetadata(withGalaxyStats(results.flatMap(result => result.games), galaxyGames), user),
+    ...manualGames.map(manualLibraryGame),
+  ];
+  const grouped = groupGames(entries, { links: galaxyLinks(galaxyGames), overrides });
+  const resolvedCollections = resolveCollections(collections, grouped);
+  const games = withCollections(withTags(withReviews(withPlayStatus(grouped, progress), reviews), tags), resolvedCollections)
+    .sort((a, b) => a.title.localeCompare(b.title));
+  return { games, platforms, collections: resolvedCollections.map(toCollection) };
+}
+
+async function saveGroupKey(user, gameIds, groupKey) {
+  const updatedAt = new Date();
+  await GameGroupOverride.bulkWrite(gameIds.map(gameId => ({
+    updateOne: {
+      filter: { userId: user._id, gameId },
+      update: { $set: { groupKey, updatedAt } },
+      upsert: true,
+    },
+  })));
+}
+
+/**
+ * Shows the given library entries as one game from now on, whatever their titles. Callers pass
+ * every entry of the games being merged, so entries grouped automatically are not left behind.
+ */
+async function mergeLibraryGames(user, gameIds) {
+  if (!Array.isArray(gameIds) || !gameIds.every(isLibraryGameId)) {
+    throw new LibraryGroupingError('gameIds must be a list of library game ids.');
+  }
+  const uniqueIds = [...new Set(gameIds)];
+  if (uniqueIds.length < 2) {
+    throw new LibraryGroupingError('Select at least two games to merge.');
+  }
+  if (uniqueIds.length > MAX_MERGED_GAMES) {
+    throw new LibraryGroupingError(`At most ${MAX_MERGED_GAMES} games can be merged at once.`);
+  }
+
+  const groupKey = new mongoose.Types.ObjectId().toString();
+  await saveGroupKey(user, uniqueIds, groupKey);
+  logger.info(`Merged ${uniqueIds.length} library games for user ${user.id}.`);
+  return { gameIds: uniqueIds, groupKey };
+}
+
+// Takes one entry out of the game it was grouped with; the rest of that game stays together.
+async function splitLibraryGame(user, gameId) {
+  if (!isLibraryGameId(gameId)) {
+    throw new LibraryGroupingError('gameId must be a library game id.');
+  }
+
+  const groupKey = new mongoose.Types.ObjectId().toString();
+  await saveGroupKey(user, [gameId], groupKey);
+  logger.info(`Split library game ${gameId} for user ${user.id}.`);
+  return { gameIds: [gameId], groupKey };
+}
+
+module.exports = {
+  LibraryGroupingError,
+  getUnifiedLibrary,
+  mergeLibraryGames,
+  splitLibraryGame,
+};
@@ -0,0 +1,47 @@
+const GameGroupOverride = require('../models/GameGroupOverride');
+const GameProgress = require('../models/GameProgress');
+const GameReview = require('../models/GameReview');
+const GameTags = require('../models/GameTags');
+const GameCollection = require('../models/GameCollection');
+
+// What users attach to one library entry (e.g. psn-NPWR00123_00): merge and split corrections,
+// play status, review and tags, one document each, plus the entry's places in collections.
+const ENTRY_MODELS = [GameGroupOverride, GameProgress, GameReview, GameTags];
+
+// Deletes everything attached to a library entry that is gone for good.
+async function deleteLibraryEntryData(user, libraryId) {
+  await Promise.all([
+    ...ENTRY_MODELS.map(Model => Model.deleteMany({ userId: user._id, gameId: libraryId })),
+    GameCollection.updateMany({ userId: user._id }, { $pull: { gameIds: libraryId } }),
+  ]);
+}
+
+// Moves one document to the new id, unless the entry already has its own, which is kept.
+async function moveEntryDocument(Model, user, fromId, toId) {
+  if (await Model.exists({ userId: user._id, gameId: toId })) {
+    return Model.deleteMany({ userId: user._id, gameId: fromId });
+  }
+  return Model.updateOne({ userId: user._id, gameId: fromId }, { $set: { gameId: toId } });
+}
+
+async function moveCollectionPlaces(user, fromId, toId) {
+  // Collections that already hold the new id only lose the old one; the rest get it in its place.
+  await GameCollection.updateMany({ userId: user._id, gameIds: { $all: [fromId, toId] } }, { $pull: { gameIds: fromId } });
+  await GameCollection.updateMany({ userId: user._id, gameIds: fromId }, { $set: { 'gameIds.$': toId } });
+}
+
+/**
+ * Moves everything attached to a library entry to the id the same game is listed under now, e.g.
+ * when a PSN game stored under its title id gets a trophy set (see psnAdapter.fetchLibrary).
+ */
+async function moveLibraryEntryData(user, fromId, toId) {
+  await Promise.all([
+    ...ENTRY_MODELS.map(Model => moveEntryDocument(Model, user, fromId, toId)),
+    moveCollectionPlaces(user, fromId, toId),
+  ]);
+}
+
+module.exports = {
+  deleteLibraryEntryData,
+  moveLibraryEntryData,
+};
@@ -0,0 +1,143 @@
+const ExcelJS = require('exceljs');
+const { getUnifiedLibrary } = require('./library');
+
+const EXPORT_FORMATS = ['csv', 'json', 'xlsx'];
+const TROPHY_GRADES = ['platinum', 'gold', 'silver', 'bronze'];
+const NEVER_PLAYED_TIME = 0;
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+class LibraryExportError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'LibraryExportError';
+    this.status = status;
+  }
+}
+
+// Manual games are listed under the platform the user typed in
+const platformName = (entry, platforms) => (entry.platform === 'manual'
+  ? entry.platformName || 'Other'
+  : (platforms[entry.platform] && platforms[entry.platform].label) || entry.platform);
+
+const sum = (entries, read) => entries.reduce((total, entry) => total + (read(entry) || 0), 0);
+
+/**
+ * One export record per library game (getUnifiedLibrary() games, grouped across platforms). The
+ * achievements, gamerscore and trophies of a game owned on several platforms are added up over all
+ * of them; gamerscore and trophies are null when no platform of the game reports them.
+ */
+function exportRecord(game, platforms) {
+  const entries = game.entries && game.entries.length > 0 ? game.entries : [game];
+  const xboxEntries = entries.filter(entry => entry.achievements && entry.achievements.totalGamerscore !== undefined);
+  const trophyEntries = entries.filter(entry => entry.achievements && entry.achievements.definedTrophies);
+  const trophies = key => Object.fromEntries(TROPHY_GRADES.map(grade => [grade, sum(trophyEntries, entry => entry.achievements[key][grade])]));
+  const lastPlayedTime = new Date(game.lastPlayed).getTime() || NEVER_PLAYED_TIME;
+
+  return {
+    id: game.id,
+    title: game.title,
+    platforms: [...new Set(entries.map(entry => platformName(entry, platforms)))],
+    playtimeHours: game.playtime,
+    lastPlayed: lastPlayedTime === NEVER_PLAYED_TIME ? null : game.lastPlayed,
+    achievements: {
+      unlocked: sum(entries, entry => entry.achievements && entry.achievements.unlocked),
+      total: sum(entries, entry => entry.achievements && entry.achievements.total),
+    },
+    gamerscore: xboxEntries.length > 0
+      ? {
+        current: sum(xboxEntries, entry => entry.achievements.currentGamerscore),
+        total: sum(xboxEntries, entry => entry.achievements.totalGamerscore),
+      }
+      : null,
+    trophies: trophyEntries.length > 0 ? { earned: trophies('earnedTrophies'), total: trophies('definedTrophies') } : null,
+    installStatus: game.status,
+    playStatus: game.playStatus || null,
+    tags: game.tags || [],
+  };
+}
+
+// Columns of the CSV and spreadsheet exports, read from export records
+const COLUMNS = [
+  ['Title', record => record.title],
+  ['Platforms', record => record.platforms.join(', ')],
+  ['Playtime (hours)', record => record.playtimeHours],
+  ['Last played', record => (record.lastPlayed ? record.lastPlayed.slice(0, 10) : null)],
+  ['Achievements unlocked', record => record.achievements.unlocked],
+  ['Achievements total', record => record.achievements.total],
+  ['Gamerscore', record => record.gamerscore && record.gamerscore.current],
+  ['Gamerscore total', record => record.gamerscore && record.gamerscore.total],
+  ...TROPHY_GRADES.flatMap(grade => {
+    const name = grade[0].toUpperCase() + grade.slice(1);
+    return [
+      [`${name} trophies`, record => record.trophies && record.trophies.earned[grade]],
+      [`${name} trophies total`, record => record.trophies && record.trophies.total[grade]],
+    ];
+  }),
+  ['Install status', record => record.installStatus],
+  ['Play status', record => record.playStatus],
+  ['Tags', record => record.tags.join(', ')],
+  ['Library id', record => record.id],
+];
+
+const tableRows = records => [
+  COLUMNS.map(([name]) => name),
+  ...records.map(record => COLUMNS.map(([, read]) => read(record))),
+];
+
+// Text that spreadsheet apps would run as a formula (=, +, -, @) gets a leading apostrophe
+const csvCell = value => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// UTF-8 with a byte order mark, so Excel reads accented titles correctly
+const toCsv = rows => `\uFEFF${rows.map(row => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+
+// One sheet with the header row kept in view when scrolling. Text cells are written as strings,
+// never as formulas, so titles starting with = need no escaping here.
+async function toXlsx(sheetName, rows) {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.addRows(rows);
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * The user's unified library as a file to download: `{ contentType, filename, body }`, with one
+ * row (or JSON object) per game.
+ *
+ * @param {string} format - csv, json or xlsx
+ * @param {object} [options]
+ * @param {object} [options.lookups] - Passed on to getUnifiedLibrary()
+ * @param {Date} [options.now] - Date in the file name
+ */
+async function exportLibrary(user, format, { lookups = {}, now = new Date() } = {}) {
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new LibraryExportError(`'format' must be one of ${EXPORT_FORMATS.join(', ')}.`);
+  }
+
+  const { games, platforms } = await getUnifiedLibrary(user, { lookups });
+  const records = games.map(game => exportRecord(game, platforms));
+  const filename = `game-library-${now.toISOString().slice(0, 10)}.${format}`;
+
+  let body;
+  if (format === 'json') body = JSON.stringify({ exportedAt: now.toISOString(), games: records }, null, 2);
+  else if (format === 'csv') body = toCsv(tableRows(records));
+  else body = await toXlsx('Game library', tableRows(records));
+
+  return { contentType: CONTENT_TYPES[format], filename, body };
+}
+
+module.exports = {
+  EXPORT_FORMATS,
+  LibraryExportError,
+  exportRecord,
+  exportLibrary,
+};
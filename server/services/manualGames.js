@@ -0,0 +1,199 @@
+const mongoose = require('mongoose');
+const logger = require('../config/logger');
+const ManualGame = require('../models/ManualGame');
+const { libraryGame } = require('../adapters/libraryGame');
+const { deleteLibraryEntryData } = require('./libraryEntries');
+
+// The library platform of every manual game; the user's own platform name is in `platformName`.
+const MANUAL_PLATFORM = 'manual';
+
+const FORMATS = ['physical', 'digital'];
+const STATUSES = ['installed', 'not_installed', 'owned'];
+const MAX_TITLE_LENGTH = 200;
+const MAX_PLATFORM_LENGTH = 60;
+const MAX_GENRES = 10;
+const MAX_GENRE_LENGTH = 50;
+const MAX_NOTES_LENGTH = 5000;
+const MIN_RELEASE_YEAR = 1950;
+const MAX_RELEASE_YEAR = 2100;
+
+class ManualGameError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'ManualGameError';
+    this.status = status;
+  }
+}
+
+const isBlank = value => value === null || value === '';
+
+function requiredText(value, name, maxLength) {
+  if (typeof value !== 'string' || value.trim() === '') throw new ManualGameError(`'${name}' is required.`);
+  if (value.trim().length > maxLength) throw new ManualGameError(`'${name}' can be at most ${maxLength} characters.`);
+  return value.trim();
+}
+
+// Each writable field: its validator, returning the value to store (undefined clears the field).
+const fieldParsers = {
+  title: value => requiredText(value, 'title', MAX_TITLE_LENGTH),
+  platform: value => requiredText(value, 'platform', MAX_PLATFORM_LENGTH),
+  format: value => {
+    if (!FORMATS.includes(value)) throw new ManualGameError(`'format' must be ${FORMATS.join(' or ')}.`);
+    return value;
+  },
+  status: value => {
+    if (!STATUSES.includes(value)) throw new ManualGameError(`'status' must be ${STATUSES.join(', ')}.`);
+    return value;
+  },
+  coverImage: value => {
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string' || !/^https?:\/\/\S+$/i.test(value.trim())) {
+      throw new ManualGameError("'coverImage' must be an http(s) URL.");
+    }
+    return value.trim();
+  },
+  playtimeMinutes: value => {
+    const minutes = Number(value);
+    if (isBlank(value) || !Number.isInteger(minutes) || minutes < 0) {
+      throw new ManualGameError("'playtimeMinutes' must be a whole number of minutes.");
+    }
+    return minutes;
+  },
+  lastPlayed: value => {
+    if (isBlank(value)) return undefined;
+    const date = new Date(String(value));
+    if (Number.isNaN(date.getTime())) throw new ManualGameError("'lastPlayed' must be a date.");
+    return date;
+  },
+  genre: value => {
+    if (!Array.isArray(value) || value.some(genre => typeof genre !== 'string')) {
+      throw new ManualGameError("'genre' must be a list of genres.");
+    }
+    const genres = [...new Set(value.map(genre => genre.trim()).filter(Boolean))];
+    if (genres.length > MAX_GENRES || genres.some(genre => genre.length > MAX_GENRE_LENGTH)) {
+      throw new ManualGameError(`'genre' can hold at most ${MAX_GENRES} genres of ${MAX_GENRE_LENGTH} characters.`);
+    }
+    return genres;
+  },
+  releaseYear: value => {
+    if (isBlank(value)) return undefined;
+    const year = Number(value);
+    if (!Number.isInteger(year) || year < MIN_RELEASE_YEAR || year > MAX_RELEASE_YEAR) {
+      throw new ManualGameError(`'releaseYear' must be a year from ${MIN_RELEASE_YEAR} to ${MAX_RELEASE_YEAR}.`);
+    }
+    return year;
+  },
+  notes: value => {
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string') throw new ManualGameError("'notes' must be text.");
+    if (value.length > MAX_NOTES_LENGTH) throw new ManualGameError(`'notes' can be at most ${MAX_NOTES_LENGTH} characters.`);
+    return value;
+  },
+};
+
+/**
+ * Validates a request body into a MongoDB update. Only the fields present are touched, so PATCH
+ * requests can send one field; `null` or '' clears an optional field. Creating requires a title
+ * and a platform.
+ */
+function parseFields(body, { creating = false } = {}) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ManualGameError('The request body must be a JSON object.');
+  }
+  const unknown = Object.keys(body).filter(key => !fieldParsers[key]);
+  if (unknown.length > 0) throw new ManualGameError(`Unknown fields: ${unknown.join(', ')}.`);
+  if (creating) {
+    ['title', 'platform'].forEach(field => {
+      if (body[field] === undefined) throw new ManualGameError(`'${field}' is required.`);
+    });
+  }
+
+  const $set = {};
+  const $unset = {};
+  Object.entries(body).forEach(([field, value]) => {
+    if (value === undefined) return;
+    const parsed = fieldParsers[field](value);
+    if (parsed === undefined) $unset[field] = '';
+    else $set[field] = parsed;
+  });
+  return { $set, $unset };
+}
+
+// Manual games are looked up by their MongoDB id; `manual-<id>` library ids are accepted too.
+function parseId(id) {
+  const rawId = String(id || '').replace(new RegExp(`^${MANUAL_PLATFORM}-`), '');
+  if (!mongoose.Types.ObjectId.isValid(rawId)) throw new ManualGameError('Manual game not found.', 404);
+  return rawId;
+}
+
+/**
+ * A ManualGame document as a GET /api/library entry. It keeps what only manual games have: the
+ * user's platform name, whether the copy is physical, and the notes.
+ */
+function toGame(game) {
+  return {
+    ...libraryGame({
+      platform: MANUAL_PLATFORM,
+      gameId: game._id,
+      title: game.title,
+      coverImage: game.coverImage,
+      playtimeMinutes: game.playtimeMinutes,
+      lastPlayed: game.lastPlayed,
+      status: game.status,
+      genre: game.genre,
+      releaseYear: game.releaseYear,
+    }),
+    platformName: game.platform,
+    format: game.format,
+    notes: game.notes,
+  };
+}
+
+async function listManualGames(user) {
+  const games = await ManualGame.find({ userId: user._id }).sort({ title: 1 }).lean();
+  return games.map(toGame);
+}
+
+async function createManualGame(user, body) {
+  const { $set } = parseFields(body, { creating: true });
+  const game = await ManualGame.create({ ...$set, userId: user._id });
+  logger.info(`Added manual game ${game._id} for user ${user.id}.`);
+  return toGame(game);
+}
+
+async function updateManualGame(user, id, body) {
+  const { $set, $unset } = parseFields(body);
+  const update = {};
+  if (Object.keys($set).length > 0) update.$set = $set;
+  if (Object.keys($unset).length > 0) update.$unset = $unset;
+
+  const game = await ManualGame.findOneAndUpdate(
+    { _id: parseId(id), userId: user._id },
+    update,
+    { new: true, runValidators: true }
+  ).lean();
+  if (!game) throw new ManualGameError('Manual game not found.', 404);
+  return toGame(game);
+}
+
+async function deleteManualGame(user, id) {
+  const gameId = parseId(id);
+  const game = await ManualGame.findOneAndDelete({ _id: gameId, userId: user._id }).lean();
+  if (!game) throw new ManualGameError('Manual game not found.', 404);
+  // Merge and split corrections, the play status, review, tags and collection places of the game
+  // would otherwise outlive it
+  const libraryId = `${MANUAL_PLATFORM}-${gameId}`;
+  await deleteLibraryEntryData(user, libraryId);
+  logger.info(`Deleted manual game ${gameId} for user ${user.id}.`);
+  return { id: libraryId };
+}
+
+module.exports = {
+  MANUAL_PLATFORM,
+  ManualGameError,
+  toGame,
+  listManualGames,
+  createManualGame,
+  updateManualGame,
+  deleteManualGame,
+};
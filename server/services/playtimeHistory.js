@@ -0,0 +1,223 @@
+const logger = require('../config/logger');
+const PlaytimeSnapshot = require('../models/PlaytimeSnapshot');
+const { adapters } = require('../adapters');
+const { findStoredGames } = require('../adapters/libraryCache');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Range shown when the request does not give one, per granularity
+const DEFAULT_RANGE_DAYS = { day: 30, week: 12 * 7, month: 365 };
+const MAX_RANGE_DAYS = 5 * 365;
+const TOP_GAMES = 10;
+
+class PlaytimeHistoryError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.name = 'PlaytimeHistoryError';
+    this.status = status;
+  }
+}
+
+/**
+ * Stores the playtime each game gained since the previous sync. `previous` maps game ids to the
+ * lifetime minutes stored before the sync; when it is empty (first sync) nothing is recorded,
+ * since there is no telling when the existing hours were played. Games new to the library count
+ * in full and are flagged `newGame`, even when never played, for the activity feed. Failures are
+ * logged, never thrown: history must not break a sync.
+ *
+ * @param {object} params
+ * @param {string} params.platform
+ * @param {string} params.accountKey
+ * @param {Map<string, number>} params.previous
+ * @param {{ gameId: string|number, title: string, minutes: number }[]} params.current
+ * @returns {Promise<number>} Number of snapshots written.
+ */
+async function recordPlaytimeSnapshots({ platform, accountKey, previous, current, recordedAt = new Date() }) {
+  if (previous.size === 0) return 0;
+  const snapshots = current
+    .filter(game => typeof game.minutes === 'number')
+    .map(game => {
+      const before = previous.get(String(game.gameId));
+      const snapshot = {
+        recordedAt,
+        meta: { platform, accountKey, gameId: String(game.gameId) },
+        title: game.title,
+        playtimeMinutes: game.minutes,
+        deltaMinutes: before === undefined ? game.minutes : game.minutes - before,
+      };
+      return before === undefined ? { ...snapshot, newGame: true } : snapshot;
+    })
+    .filter(snapshot => snapshot.deltaMinutes > 0 || snapshot.newGame); // Totals only grow; a drop means the platform reset them
+
+  if (snapshots.length === 0) return 0;
+  try {
+    await PlaytimeSnapshot.insertMany(snapshots);
+    return snapshots.length;
+  } catch (error) {
+    logger.warn(`Failed to record ${platform} playtime snapshots for ${accountKey}: ${error.message}`);
+    return 0;
+  }
+}
+
+// Lifetime playtime per game as stored before a sync overwrites it (adapters with playtimeMinutes only).
+async function storedPlaytime(adapter, account) {
+  const playtime = new Map();
+  if (!adapter.playtimeMinutes) return playtime;
+  try {
+    const games = await findStoredGames(adapter, account);
+    (games || []).forEach(game => {
+      const minutes = adapter.playtimeMinutes(game);
+      if (typeof minutes === 'number') playtime.set(String(game[adapter.gameKey]), minutes);
+    });
+  } catch (error) {
+    logger.warn(`Could not read stored ${adapter.label} playtime for ${adapter.describeAccount(account)}: ${error.message}`);
+  }
+  return playtime;
+}
+
+// `previous` with the playtime of games stored under another id before the sync (formerGameIds) under their id now.
+function carryOverPlaytime(adapter, previous, games) {
+  if (!adapter.formerGameIds) return previous;
+  const carried = new Map(previous);
+  games.forEach(game => {
+    const gameId = String(game[adapter.gameKey]);
+    const formerIds = adapter.formerGameIds(game).filter(formerId => previous.has(formerId));
+    if (carried.has(gameId) || formerIds.length === 0) return;
+    carried.set(gameId, formerIds.reduce((sum, formerId) => sum + previous.get(formerId), 0));
+  });
+  return carried;
+}
+
+// Snapshots for the games a sync just stored, against the playtime read by storedPlaytime().
+function recordSyncedPlaytime(adapter, accountKey, previous, games) {
+  if (!adapter.playtimeMinutes) return Promise.resolve(0);
+  return recordPlaytimeSnapshots({
+    platform: adapter.platform,
+    accountKey,
+    previous: carryOverPlaytime(adapter, previous, games),
+    current: games.map(game => {
+      const libraryEntry = adapter.toGame(game);
+      return { gameId: game[adapter.gameKey], title: libraryEntry.title, minutes: adapter.playtimeMinutes(game) };
+    }),
+  });
+}
+
+// The accounts whose history belongs to the user: linked ones, plus per-user libraries (GOG imports).
+function historyAccounts(user, lookups = {}) {
+  // Stored platforms only, like syncScheduler.syncedAdapters() (which requires this module)
+  return Object.values(adapters)
+    .filter(adapter => adapter.model)
+    .map(adapter => {
+      const account = adapter.accountForUser(user) || lookups[adapter.platform] || (adapter.ownedByUser ? { user } : null);
+      return account ? { platform: adapter.platform, accountKey: adapter.accountKey(account), adapter, account } : null;
+    })
+    .filter(Boolean);
+}
+
+function parseDate(value, name) {
+  if (value === undefined) return null;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) throw new PlaytimeHistoryError(`'${name}' must be a date.`);
+  return date;
+}
+
+function parseOptions({ granularity = 'day', from, to, platform, gameId, timezone = 'UTC' }) {
+  if (!DEFAULT_RANGE_DAYS[granularity]) {
+    throw new PlaytimeHistoryError("'granularity' must be day, week or month.");
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch (error) {
+    throw new PlaytimeHistoryError(`Unknown time zone '${timezone}'.`);
+  }
+  const end = parseDate(to, 'to') || new Date();
+  const start = parseDate(from, 'from') || new Date(end.getTime() - DEFAULT_RANGE_DAYS[granularity] * DAY_MS);
+  if (start > end) throw new PlaytimeHistoryError("'from' must be before 'to'.");
+  if (end - start > MAX_RANGE_DAYS * DAY_MS) throw new PlaytimeHistoryError(`The range can span at most ${MAX_RANGE_DAYS} days.`);
+
+  let game = null;
+  if (gameId !== undefined) {
+    const separator = String(gameId).indexOf('-');
+    if (separator <= 0) throw new PlaytimeHistoryError("'gameId' must be a library game id, e.g. steam-292030.");
+    game = { platform: String(gameId).slice(0, separator), gameId: String(gameId).slice(separator + 1) };
+  }
+  return { granularity, start, end, platform: game ? game.platform : platform, game, timezone };
+}
+
+/**
+ * Playtime gained per period (day, week or month) from the user's snapshots, split by platform,
+ * plus the most played games of the range. Filters: `platform`, or `gameId` (a library game id).
+ *
+ * @returns {Promise<object>} `{ granularity, from, to, timezone, totalMinutes,
+ *   series: [{ period, minutes, platforms: { [platform]: minutes } }],
+ *   games: [{ id, platform, gameId, title, minutes }] }`
+ */
+async function getPlaytimeHistory(user, query = {}, { lookups } = {}) {
+  const { granularity, start, end, platform, game, timezone } = parseOptions(query);
+  const accounts = historyAccounts(user, lookups).filter(account => !platform || account.platform === platform);
+  const response = { granularity, from: start.toISOString(), to: end.toISOString(), timezone, totalMinutes: 0, series: [], games: [] };
+  if (accounts.length === 0) return response;
+
+  const match = {
+    recordedAt: { $gte: start, $lte: end },
+    deltaMinutes: { $gt: 0 }, // Unplayed games added to the library only show in the activity feed
+    $or: accounts.map(account => ({ 'meta.platform': account.platform, 'meta.accountKey': account.accountKey })),
+  };
+  if (game) match['meta.gameId'] = game.gameId;
+
+  const [periods, games] = await Promise.all([
+    PlaytimeSnapshot.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: {
+            period: { $dateTrunc: { date: '$recordedAt', unit: granularity, timezone, startOfWeek: 'monday' } },
+            platform: '$meta.platform',
+          },
+          minutes: { $sum: '$deltaMinutes' },
+        },
+      },
+      { $sort: { '_id.period': 1 } },
+    ]),
+    PlaytimeSnapshot.aggregate([
+      { $match: match },
+      { $sort: { recordedAt: 1 } },
+      {
+        $group: {
+          _id: { platform: '$meta.platform', gameId: '$meta.gameId' },
+          title: { $last: '$title' },
+          minutes: { $sum: '$deltaMinutes' },
+        },
+      },
+      { $sort: { minutes: -1 } },
+      { $limit: TOP_GAMES },
+    ]),
+  ]);
+
+  const byPeriod = new Map();
+  periods.forEach(({ _id, minutes }) => {
+    const period = new Date(_id.period).toISOString();
+    if (!byPeriod.has(period)) byPeriod.set(period, { period, minutes: 0, platforms: {} });
+    const entry = byPeriod.get(period);
+    entry.minutes += minutes;
+    entry.platforms[_id.platform] = (entry.platforms[_id.platform] || 0) + minutes;
+  });
+  response.series = [...byPeriod.values()];
+  response.totalMinutes = response.series.reduce((sum, entry) => sum + entry.minutes, 0);
+  response.games = games.map(({ _id, title, minutes }) => ({
+    id: `${_id.platform}-${_id.gameId}`,
+    platform: _id.platform,
+    gameId: _id.gameId,
+    title: title || _id.gameId,
+    minutes,
+  }));
+  return response;
+}
+
+module.exports = {
+  PlaytimeHistoryError,
+  recordPlaytimeSnapshots,
+  storedPlaytime,
+  recordSyncedPlaytime,
+  historyAccounts,
+  getPlaytimeHistory,
+};
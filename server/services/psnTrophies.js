@@ -0,0 +1,69 @@
+const psnAdapter = require('../adapters/psnAdapter');
+const PsnGame = require('../models/PsnGame');
+const { storeAchievements, toResponse } = require('./achievements');
+
+const BASE_GAME_GROUP = psnAdapter.baseTrophyGroup;
+
+class PsnTrophiesError extends Error {
+  constructor(message, status = 404) {
+    super(message);
+    this.name = 'PsnTrophiesError';
+    this.status = status;
+  }
+}
+
+/**
+ * Sorts the trophies of a set into their groups, base game first and then each DLC pack in PSN's
+ * order. Groups PSN did not list (older trophy sets without group data) are added from the
+ * trophies' own group ids.
+ */
+function trophyGroups(groups, trophies) {
+  const groupsById = new Map(groups.map(group => [group.trophyGroupId, group]));
+  const groupIds = [...new Set([...groups.map(group => group.trophyGroupId), ...trophies.map(trophy => trophy.groupId)])]
+    .sort((a, b) => (a === BASE_GAME_GROUP ? -1 : b === BASE_GAME_GROUP ? 1 : 0));
+
+  return groupIds.map(id => {
+    const group = groupsById.get(id) || {};
+    const groupTrophies = trophies.filter(trophy => trophy.groupId === id);
+    return {
+      id,
+      name: group.trophyGroupName || (id === BASE_GAME_GROUP ? 'Base game' : `DLC ${id}`),
+      iconUrl: group.trophyGroupIconUrl,
+      isDlc: id !== BASE_GAME_GROUP,
+      earned: groupTrophies.filter(trophy => trophy.unlocked).length,
+      total: groupTrophies.length,
+    };
+  });
+}
+
+/**
+ * The full trophy list of one game in the user's stored PSN library, read live from PSN and stored
+ * in the Achievement collection. Games outside the library, and played games without a trophy set,
+ * are rejected with a PsnTrophiesError; PSN failures are thrown as they are for the route to translate.
+ */
+async function getPsnTrophies(user, npCommunicationId) {
+  const game = await PsnGame.findOne({ userId: user._id, npCommunicationId }).lean();
+  if (!game) {
+    throw new PsnTrophiesError(`No PSN game ${npCommunicationId} in your library.`);
+  }
+  if (game.hasTrophies === false) {
+    throw new PsnTrophiesError(`${game.trophyTitleName} has no trophies.`);
+  }
+
+  const list = await psnAdapter.fetchAchievements({ user }, npCommunicationId, game);
+  const trophies = psnAdapter.toAchievements(list);
+  await storeAchievements(psnAdapter, psnAdapter.accountKey({ user }), npCommunicationId, trophies);
+  return {
+    npCommunicationId,
+    title: game.trophyTitleName,
+    platform: game.trophyTitlePlatform,
+    groups: trophyGroups(list.groups, trophies),
+    trophies: trophies.map(trophy => toResponse({ ...trophy, platform: 'psn', gameId: npCommunicationId })),
+  };
+}
+
+module.exports = {
+  PsnTrophiesError,
+  trophyGroups,
+  getPsnTrophies,
+};
@@ -0,0 +1,107 @@
+const logger = require('../config/logger');
+const steamAdapter = require('../adapters/steamAdapter');
+const Achievement = require('../models/Achievement');
+const { storeAchievements, toResponse: toAchievementResponse } = require('./achievements');
+
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000; // Unlocks change while playing; schemas and rarity barely do
+
+// A stored list is as old as its least recently read achievement. Syncs only list unlocks, so
+// achievements without detailsFetchedAt were never read with their schema and rarity.
+const listFetchedAt = achievements =>
+  Math.min(...achievements.map(achievement => new Date(achievement.detailsFetchedAt || achievement.updatedAt || 0).getTime()));
+
+const isFresh = (achievements, maxAgeMs, now = Date.now()) => achievements.length > 0
+  && achievements.every(achievement => achievement.detailsFetchedAt)
+  && now - listFetchedAt(achievements) < maxAgeMs;
+
+// Schema and rarity only decorate the list, so a failure there is logged and the list served without them.
+async function optional(promise, what, appId) {
+  try {
+    return await promise;
+  } catch (error) {
+    logger.warn(`Could not fetch the ${what} of Steam app ${appId}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Builds the achievement list of a game from the Steam Web API, as Achievement documents
+ * (services/achievements.js): the schema's achievements in order, each with the player's unlock
+ * and the global unlock percentage. Achievements the schema does not know (or every one, when the
+ * schema failed) keep their API name as name. Locked achievements show the grey icon.
+ */
+function mergeAchievements(playerAchievements, schema, percentages) {
+  const unlocks = new Map(playerAchievements.map(achievement => [achievement.apiname, achievement]));
+  const definitions = schema && schema.length > 0
+    ? schema
+    : playerAchievements.map(achievement => ({ name: achievement.apiname }));
+
+  return definitions.map((definition, position) => {
+    const unlock = unlocks.get(definition.name);
+    const unlocked = !!(unlock && unlock.achieved);
+    const percent = percentages ? percentages[definition.name] : undefined;
+    return {
+      externalId: definition.name,
+      name: definition.displayName || definition.name,
+      description: definition.description || undefined,
+      iconUrl: (unlocked ? definition.icon : definition.icongray || definition.icon) || undefined,
+      hidden: definition.hidden === 1,
+      unlocked,
+      unlockedAt: unlocked && unlock.unlocktime ? new Date(unlock.unlocktime * 1000) : undefined,
+      rarityPercent: Number.isFinite(percent) ? percent : undefined,
+      position,
+    };
+  });
+}
+
+// The shape GET /api/steam/user/:steamId/game/:appId/achievements returns.
+function toResponse(appId, achievements) {
+  return {
+    appId,
+    fetchedAt: new Date(listFetchedAt(achievements)).toISOString(),
+    achievements: achievements.map(achievement => toAchievementResponse({ ...achievement, platform: 'steam', gameId: String(appId) })),
+  };
+}
+
+/**
+ * The detailed achievements of one game for a Steam account, from the Achievement collection
+ * when they were read from Steam less than `maxAgeMs` ago, otherwise from GetPlayerAchievements,
+ * GetSchemaForGame and GetGlobalAchievementPercentagesForApp. When Steam fails, the stored
+ * achievements are served instead; without any the upstream error is thrown for the route to translate.
+ */
+async function getSteamAchievements(steamId, appId, { maxAgeMs = CACHE_TTL_MS } = {}) {
+  let stored = [];
+  try {
+    stored = await Achievement.find({ platform: 'steam', accountKey: String(steamId), gameId: String(appId) })
+      .sort({ position: 1, _id: 1 })
+      .lean();
+  } catch (dbError) {
+    logger.error(`Error reading stored Steam achievements of app ${appId} for steamId ${steamId}:`, { errorMessage: dbError.message });
+  }
+  if (isFresh(stored, maxAgeMs)) return toResponse(appId, stored);
+
+  let achievements;
+  try {
+    const [playerAchievements, schema, percentages] = await Promise.all([
+      steamAdapter.fetchAchievements({ steamId }, appId),
+      optional(steamAdapter.fetchAchievementSchema(appId), 'achievement schema', appId),
+      optional(steamAdapter.fetchGlobalAchievementPercentages(appId), 'global achievement percentages', appId),
+    ]);
+    const detailsFetchedAt = new Date();
+    achievements = mergeAchievements(playerAchievements, schema, percentages)
+      .map(achievement => ({ ...achievement, detailsFetchedAt }));
+  } catch (error) {
+    if (stored.length === 0) throw error;
+    logger.warn(`Serving stored Steam achievements of app ${appId} for steamId ${steamId}: ${error.message}`);
+    return toResponse(appId, stored);
+  }
+
+  await storeAchievements(steamAdapter, steamId, appId, achievements);
+  return toResponse(appId, achievements);
+}
+
+module.exports = {
+  CACHE_TTL_MS,
+  mergeAchievements,
+  getSteamAchievements,
+};
@@ -0,0 +1,31 @@
+const { EventEmitter } = require('events');
+
+/**
+ * In-process bus for library sync progress. The sync worker publishes, the SSE route
+ * (GET /api/sync/events) relays to browsers. Events only reach clients connected to the process
+ * running the worker; clients elsewhere still see progress through the library routes' `sync` field.
+ *
+ * Every event is `{ type, platform, accountKey, ...details }` where type is one of
+ * 'started', 'progress', 'completed' or 'failed'.
+ */
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // One listener per open dashboard
+
+function publishSyncEvent(type, platform, accountKey, details = {}) {
+  emitter.emit('sync', { type, platform, accountKey, ...details });
+}
+
+// Calls `listener` for events whose `${platform}:${accountKey}` is in `accounts`. Returns an unsubscribe function.
+function subscribeToSyncEvents(accounts, listener) {
+  const keys = new Set(accounts.map(({ platform, accountKey }) => `${platform}:${accountKey}`));
+  const handler = event => {
+    if (keys.has(`${event.platform}:${event.accountKey}`)) listener(event);
+  };
+  emitter.on('sync', handler);
+  return () => emitter.off('sync', handler);
+}
+
+module.exports = {
+  publishSyncEvent,
+  subscribeToSyncEvents,
+};
@@ -0,0 +1,315 @@
+const logger = require('../config/logger');
+const SyncJob = require('../models/SyncJob');
+const User = require('../models/User');
+const { adapters, getAdapter } = require('../adapters');
+const { DEFAULT_CACHE_TTL_MS, SyncCancelledError, findStoredGames, syncLibrary } = require('../adapters/libraryCache');
+const { translateUpstreamError } = require('../adapters/upstreamErrors');
+const { publishSyncEvent } = require('./syncEvents');
+const { storedPlaytime, recordSyncedPlaytime } = require('./playtimeHistory');
+const { syncAchievements } = require('./achievements');
+
+const SYNC_INTERVAL_MS = DEFAULT_CACHE_TTL_MS; // How old a library may get before it is synced again
+const POLL_INTERVAL_MS = 5 * 1000; // How often the worker looks for due jobs
+const SCHEDULE_INTERVAL_MS = 15 * 60 * 1000; // How often linked accounts are checked for due syncs
+const STALE_LOCK_MS = 30 * 60 * 1000; // Running jobs without a heartbeat for this long are requeued
+const FAILURE_COOLDOWN_MS = 15 * 60 * 1000; // Library requests do not retry a failed sync sooner than this
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const PROGRESS_SAVE_EVERY = 25; // Games between progress writes
+
+const ACTIVE_STATUSES = ['queued', 'running'];
+
+// Platforms the scheduler keeps in sync: only those whose games are persisted.
+function syncedAdapters() {
+  return Object.values(adapters).filter(adapter => adapter.model);
+}
+
+function formatStatus(latestJob, lastCompletedJob) {
+  const state = latestJob ? latestJob.status : 'idle';
+  return {
+    state,
+    inProgress: ACTIVE_STATUSES.includes(state),
+    progress: latestJob && latestJob.progress
+      ? { processed: latestJob.progress.processed, total: latestJob.progress.total }
+      : { processed: 0, total: 0 },
+    lastSyncedAt: lastCompletedJob ? lastCompletedJob.finishedAt : null,
+    lastError: latestJob && state !== 'completed' ? latestJob.lastError || null : null,
+  };
+}
+
+async function findLatestJobs(adapter, accountKey) {
+  const filter = { platform: adapter.platform, accountKey };
+  const [latestJob, lastCompletedJob] = await Promise.all([
+    SyncJob.findOne(filter).sort({ createdAt: -1 }),
+    SyncJob.findOne({ ...filter, status: 'completed' }).sort({ finishedAt: -1 }),
+  ]);
+  return { latestJob, lastCompletedJob };
+}
+
+/**
+ * Summarises the sync state of one account for API responses:
+ * `{ state, inProgress, progress: { processed, total }, lastSyncedAt, lastError }`.
+ * `state` is 'idle' when the account has never been synced.
+ */
+async function getSyncStatus(adapter, account) {
+  const { latestJob, lastCompletedJob } = await findLatestJobs(adapter, adapter.accountKey(account));
+  return formatStatus(latestJob, lastCompletedJob);
+}
+
+/**
+ * Queues a sync for an account unless one is already waiting. A running job is reused for
+ * scheduled and request-triggered syncs; manual syncs queue a follow-up so changes made while
+ * the current run is in flight are picked up.
+ */
+async function enqueueSync(adapter, account, { trigger = 'schedule', runAt = new Date() } = {}) {
+  const accountKey = adapter.accountKey(account);
+  const filter = { platform: adapter.platform, accountKey };
+
+  if (trigger !== 'manual') {
+    const runningJob = await SyncJob.findOne({ ...filter, status: 'running' });
+    if (runningJob) return runningJob;
+  }
+
+  // Upsert so concurrent requests share one queued job; $min pulls a backed-off retry forward.
+  const job = await SyncJob.findOneAndUpdate(
+    { ...filter, status: 'queued' },
+    { $setOnInsert: { trigger, createdAt: new Date() }, $min: { runAt } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  logger.info(`Queued ${adapter.label} library sync (${job.trigger}) for ${adapter.describeAccount(account)}`);
+  return job;
+}
+
+function isDue(latestJob, lastCompletedJob, now = Date.now()) {
+  if (latestJob && ACTIVE_STATUSES.includes(latestJob.status)) return false;
+  if (latestJob && latestJob.status === 'failed' && now - latestJob.finishedAt < FAILURE_COOLDOWN_MS) return false;
+  return !lastCompletedJob || now - lastCompletedJob.finishedAt >= SYNC_INTERVAL_MS;
+}
+
+// Queues a sync when the account's stored library is missing or older than SYNC_INTERVAL_MS.
+async function ensureFreshSync(adapter, account, { trigger = 'request' } = {}) {
+  const accountKey = adapter.accountKey(account);
+  let { latestJob, lastCompletedJob } = await findLatestJobs(adapter, accountKey);
+  if (isDue(latestJob, lastCompletedJob)) {
+    latestJob = await enqueueSync(adapter, account, { trigger });
+  }
+  return formatStatus(latestJob, lastCompletedJob);
+}
+
+/**
+ * What the library routes serve: every stored game for the account plus its sync status.
+ * Never calls the upstream API; a sync is queued instead when the stored data is stale.
+ */
+async function getStoredLibrary(adapter, account) {
+  const [games, sync] = await Promise.all([
+    findStoredGames(adapter, account),
+    ensureFreshSync(adapter, account),
+  ]);
+  return { games, sync };
+}
+
+// Atomically moves the oldest due job to 'running' so concurrent workers never share one.
+async function claimNextJob() {
+  const now = new Date();
+  return SyncJob.findOneAndUpdate(
+    { status: 'queued', runAt: { $lte: now } },
+    {
+      $set: { status: 'running', startedAt: now, lockedAt: now, progress: { processed: 0, total: 0 } },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+// Puts jobs back in the queue whose worker stopped sending heartbeats (e.g. the server restarted mid-sync).
+async function requeueStaleJobs() {
+  const result = await SyncJob.updateMany(
+    { status: 'running', lockedAt: { $lt: new Date(Date.now() - STALE_LOCK_MS) } },
+    { $set: { status: 'queued', runAt: new Date() } }
+  );
+  if (result.modifiedCount > 0) {
+    logger.warn(`Requeued ${result.modifiedCount} library sync jobs that stopped reporting progress.`);
+  }
+}
+
+/**
+ * Cancels the queued and running syncs of an account, e.g. before its data is purged on unlink.
+ * A running job notices at its next write (see runJob) and stops without writing anything else.
+ * Resolves to the number of jobs cancelled.
+ */
+async function cancelSyncs(adapter, accountKey) {
+  const result = await SyncJob.updateMany(
+    { platform: adapter.platform, accountKey, status: { $in: ACTIVE_STATUSES } },
+    { $set: { status: 'cancelled', finishedAt: new Date() } }
+  );
+  return result.modifiedCount;
+}
+
+// Whether the job was cancelled (or removed) since the worker claimed it
+async function isJobCancelled(job) {
+  const current = await SyncJob.findById(job._id).select('status').lean();
+  return !current || current.status === 'cancelled';
+}
+
+// Updates a job only while it is still running, so a cancelled job stays cancelled
+const updateRunningJob = (job, update) => SyncJob.updateOne({ _id: job._id, status: 'running' }, update);
+
+async function failJob(job, adapter, message, { retry }) {
+  const willRetry = retry && job.attempts < MAX_ATTEMPTS;
+  publishSyncEvent('failed', job.platform, job.accountKey, { error: message, willRetry });
+  if (willRetry) {
+    const runAt = new Date(Date.now() + RETRY_DELAY_MS * job.attempts);
+    await updateRunningJob(job, { $set: { status: 'queued', runAt, lastError: message } });
+    logger.warn(`${adapter.label} library sync for ${job.accountKey} failed (attempt ${job.attempts}/${MAX_ATTEMPTS}), retrying at ${runAt.toISOString()}: ${message}`);
+    return;
+  }
+  await updateRunningJob(job, { $set: { status: 'failed', finishedAt: new Date(), lastError: message } });
+  logger.error(`${adapter.label} library sync for ${job.accountKey} failed: ${message}`);
+}
+
+/**
+ * Runs one claimed job to completion. Upstream failures are recorded on the job (and retried
+ * with a growing delay when they look transient) rather than thrown. Before each write the job is
+ * checked for cancellation, so an account unlinked mid-sync does not get its purged data back.
+ */
+async function runJob(job) {
+  const adapter = getAdapter(job.platform);
+  if (!adapter || !adapter.model) {
+    await failJob(job, { label: job.platform }, `Platform '${job.platform}' cannot be synced.`, { retry: false });
+    return;
+  }
+  if (!adapter.isConfigured()) {
+    await failJob(job, adapter, `${adapter.label} API credentials are not configured on the server.`, { retry: false });
+    return;
+  }
+
+  try {
+    const account = await adapter.accountFromKey(job.accountKey);
+    if (!account) {
+      await failJob(job, adapter, `${adapter.label} account is no longer linked.`, { retry: false });
+      return;
+    }
+
+    logger.info(`Starting ${adapter.label} library sync for ${adapter.describeAccount(account)} (job ${job._id})`);
+    // Read before the sync overwrites the totals, to record what was played in between
+    const previousPlaytime = await storedPlaytime(adapter, account);
+    publishSyncEvent('started', job.platform, job.accountKey);
+    let cancelled = false;
+    const isCancelled = async () => {
+      cancelled = cancelled || await isJobCancelled(job);
+      return cancelled;
+    };
+    const stopIfCancelled = async () => {
+      if (await isCancelled()) throw new SyncCancelledError();
+    };
+    const onGame = (game, { processed, total, achievementsFetched, errors }) => {
+      if (cancelled) return;
+      // Every game is streamed so dashboards can render it right away; the job document is saved in batches.
+      // `libraryGame` is the same game in the GET /api/library shape.
+      publishSyncEvent('progress', job.platform, job.accountKey, {
+        processed, total, achievementsFetched, errors, game: adapter.toResponse(game), libraryGame: adapter.toGame(game),
+      });
+      if (processed % PROGRESS_SAVE_EVERY !== 0 && processed !== total) return;
+      updateRunningJob(job, { $set: { progress: { processed, total }, lockedAt: new Date() } })
+        .then(result => { if (result.matchedCount === 0) cancelled = true; })
+        .catch(err => logger.warn(`Failed to save progress for sync job ${job._id}: ${err.message}`));
+    };
+    const achievementLists = new Map();
+    const onAchievements = (gameId, achievements) => achievementLists.set(gameId, achievements);
+    const games = await syncLibrary(adapter, account, { onGame, onAchievements, isCancelled });
+    await stopIfCancelled();
+    await recordSyncedPlaytime(adapter, job.accountKey, previousPlaytime, games);
+    await syncAchievements(adapter, account, job.accountKey, games, achievementLists, { isCancelled });
+
+    await updateRunningJob(job, {
+      $set: {
+        status: 'completed',
+        finishedAt: new Date(),
+        gamesSynced: games.length,
+        progress: { processed: games.length, total: games.length },
+        lastError: null,
+      },
+    });
+    publishSyncEvent('completed', job.platform, job.accountKey, { gamesSynced: games.length });
+    logger.info(`Finished ${adapter.label} library sync for ${adapter.describeAccount(account)}: ${games.length} games.`);
+  } catch (error) {
+    if (error instanceof SyncCancelledError) {
+      logger.info(`${adapter.label} library sync for ${job.accountKey} was cancelled (job ${job._id}).`);
+      return;
+    }
+    const { status, body } = translateUpstreamError(error, adapter);
+    // Rate limits, upstream outages and network errors are worth retrying; bad credentials are not.
+    await failJob(job, adapter, body.error, { retry: status === 429 || status >= 500 });
+  }
+}
+
+// Queues syncs for every linked account whose library is due.
+async function scheduleDueSyncs() {
+  const users = await User.find({
+    $or: [{ steamId: { $ne: null } }, { xboxUserId: { $ne: null } }, { psnRefreshToken: { $ne: null } }, { gogRefreshToken: { $ne: null } }, { epicRefreshToken: { $ne: null } }],
+  });
+  for (const user of users) {
+    for (const adapter of syncedAdapters()) {
+      const account = adapter.accountForUser(user);
+      if (!account) continue;
+      try {
+        await ensureFreshSync(adapter, account, { trigger: 'schedule' });
+      } catch (error) {
+        logger.error(`Failed to schedule ${adapter.label} library sync for user ${user.id}:`, { errorMessage: error.message });
+      }
+    }
+  }
+}
+
+/**
+ * Starts the in-process worker: polls the queue every POLL_INTERVAL_MS and, every
+ * SCHEDULE_INTERVAL_MS, requeues abandoned jobs and queues due syncs for linked accounts.
+ * Jobs run one at a time to stay within upstream rate limits. Returns a stop function.
+ */
+function startSyncWorker({ pollIntervalMs = POLL_INTERVAL_MS, scheduleIntervalMs = SCHEDULE_INTERVAL_MS } = {}) {
+  let busy = false;
+  let lastScheduledAt = 0;
+
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      if (Date.now() - lastScheduledAt >= scheduleIntervalMs) {
+        lastScheduledAt = Date.now();
+        await requeueStaleJobs();
+        await scheduleDueSyncs();
+      }
+      let job = await claimNextJob();
+      while (job) {
+        await runJob(job);
+        job = await claimNextJob();
+      }
+    } catch (error) {
+      logger.error('Library sync worker error:', { errorMessage: error.message, stack: error.stack });
+    } finally {
+      busy = false;
+    }
+  };
+
+  const timer = setInterval(tick, pollIntervalMs);
+  if (timer.unref) timer.unref(); // Do not keep the process alive just for the worker
+  tick();
+  logger.info(`Library sync worker started (polling every ${pollIntervalMs}ms).`);
+
+  return () => clearInterval(timer);
+}
+
+module.exports = {
+  SYNC_INTERVAL_MS,
+  syncedAdapters,
+  getSyncStatus,
+  enqueueSync,
+  cancelSyncs,
+  ensureFreshSync,
+  getStoredLibrary,
+  claimNextJob,
+  requeueStaleJobs,
+  runJob,
+  scheduleDueSyncs,
+  startSyncWorker,
+};
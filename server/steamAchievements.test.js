@@ -0,0 +1,178 @@
+const request = require('supertest');
+const express = require('express');
+const axios = require('axios');
+const Achievement = require('./models/Achievement');
+const steamRoutes = require('./routes/steam');
+const { getSteamAchievements } = require('./services/steamAchievements');
+
+jest.mock('axios');
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/Achievement', () => ({
+  find: jest.fn(),
+  bulkWrite: jest.fn(),
+}));
+
+jest.mock('./services/syncScheduler', () => ({
+  getStoredLibrary: jest.fn(),
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+// Achievement.find(...).sort(...).lean() resolving to the stored achievements
+const storedAchievements = achievements => ({ sort: () => ({ lean: async () => achievements }) });
+
+// Answers the three Steam Web API calls the achievement list is built from.
+const steamResponses = ({ player, schema, global }) => url => {
+  if (url.includes('GetPlayerAchievements')) return player();
+  if (url.includes('GetSchemaForGame')) return schema();
+  if (url.includes('GetGlobalAchievementPercentagesForApp')) return global();
+  throw new Error(`Unexpected URL ${url}`);
+};
+
+const playerAchievements = () => Promise.resolve({
+  data: {
+    playerstats: {
+      achievements: [
+        { apiname: 'ACH_WIN_ONE_GAME', achieved: 1, unlocktime: 1717243200 },
+        { apiname: 'ACH_WIN_100_GAMES', achieved: 0, unlocktime: 0 },
+      ],
+    },
+  },
+});
+
+const achievementSchema = () => Promise.resolve({
+  data: {
+    game: {
+      availableGameStats: {
+        achievements: [
+          { name: 'ACH_WIN_ONE_GAME', displayName: 'Winner', description: 'Win one game.', hidden: 0, icon: 'win.jpg', icongray: 'win_gray.jpg' },
+          { name: 'ACH_WIN_100_GAMES', displayName: 'Champion', hidden: 1, icon: 'champ.jpg', icongray: 'champ_gray.jpg' },
+        ],
+      },
+    },
+  },
+});
+
+const globalPercentages = () => Promise.resolve({
+  data: { achievementpercentages: { achievements: [{ name: 'ACH_WIN_ONE_GAME', percent: '63.2' }, { name: 'ACH_WIN_100_GAMES', percent: 1.5 }] } },
+});
+
+describe('Steam detailed achievements', () => {
+  let app;
+  let originalApiKey;
+
+  beforeAll(() => {
+    originalApiKey = process.env.STEAM_API_KEY;
+    process.env.STEAM_API_KEY = 'test-key';
+    app = express();
+    app.use('/api/steam', steamRoutes);
+  });
+
+  afterAll(() => {
+    process.env.STEAM_API_KEY = originalApiKey;
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    Achievement.find.mockReturnValue(storedAchievements([]));
+    Achievement.bulkWrite.mockResolvedValue({});
+  });
+
+  it('merges unlocks with the schema and global rarity, and stores them as achievements', async () => {
+    axios.get.mockImplementation(steamResponses({ player: playerAchievements, schema: achievementSchema, global: globalPercentages }));
+
+    const result = await getSteamAchievements('7656', 440);
+
+    expect(result.achievements).toEqual([
+      expect.objectContaining({ id: 'ACH_WIN_ONE_GAME', platform: 'steam', gameId: '440', name: 'Winner', description: 'Win one game.', isUnlocked: true, iconUrl: 'win.jpg', hidden: false, rarityPercent: 63.2, unlockedTime: '2024-06-01T12:00:00.000Z' }),
+      expect.objectContaining({ id: 'ACH_WIN_100_GAMES', name: 'Champion', description: '', isUnlocked: false, iconUrl: 'champ_gray.jpg', hidden: true, rarityPercent: 1.5, unlockedTime: undefined }),
+    ]);
+    expect(Achievement.find).toHaveBeenCalledWith({ platform: 'steam', accountKey: '7656', gameId: '440' });
+    const [winner, champion] = Achievement.bulkWrite.mock.calls[0][0].map(operation => operation.updateOne);
+    expect(winner).toEqual(expect.objectContaining({
+      filter: { platform: 'steam', accountKey: '7656', gameId: '440', externalId: 'ACH_WIN_ONE_GAME' },
+      update: { $set: expect.objectContaining({ name: 'Winner', rarityPercent: 63.2, position: 0, detailsFetchedAt: expect.any(Date) }) },
+      upsert: true,
+    }));
+    expect(champion.update.$set).toEqual(expect.objectContaining({ iconUrl: 'champ_gray.jpg', rarityPercent: 1.5, position: 1 }));
+  });
+
+  it('serves achievements read from Steam within the last hours without calling Steam', async () => {
+    const fetchedAt = new Date(Date.now() - HOUR);
+    Achievement.find.mockReturnValue(storedAchievements([
+      { platform: 'steam', accountKey: '7656', gameId: '440', externalId: 'ACH_WIN_ONE_GAME', name: 'Winner', unlocked: true, rarityPercent: 63.2, detailsFetchedAt: fetchedAt },
+    ]));
+
+    const result = await getSteamAchievements('7656', 440);
+
+    expect(result.fetchedAt).toBe(fetchedAt.toISOString());
+    expect(result.achievements).toEqual([expect.objectContaining({ id: 'ACH_WIN_ONE_GAME', isUnlocked: true, rarityPercent: 63.2 })]);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('reads Steam again when a sync stored the achievements without their schema and rarity', async () => {
+    Achievement.find.mockReturnValue(storedAchievements([
+      { platform: 'steam', accountKey: '7656', gameId: '440', externalId: 'ACH_WIN_ONE_GAME', unlocked: true, updatedAt: new Date() },
+    ]));
+    axios.get.mockImplementation(steamResponses({ player: playerAchievements, schema: achievementSchema, global: globalPercentages }));
+
+    const result = await getSteamAchievements('7656', 440);
+
+    expect(axios.get).toHaveBeenCalled();
+    expect(result.achievements[0]).toEqual(expect.objectContaining({ name: 'Winner', rarityPercent: 63.2 }));
+  });
+
+  it('still lists the unlocks when the schema and rarity cannot be fetched', async () => {
+    const unavailable = () => Promise.reject(new Error('503'));
+    axios.get.mockImplementation(steamResponses({ player: playerAchievements, schema: unavailable, global: unavailable }));
+
+    const result = await getSteamAchievements('7656', 440);
+
+    expect(result.achievements.map(achievement => [achievement.name, achievement.isUnlocked, achievement.rarityPercent]))
+      .toEqual([['ACH_WIN_ONE_GAME', true, undefined], ['ACH_WIN_100_GAMES', false, undefined]]);
+  });
+
+  it('falls back to the stored achievements when Steam fails', async () => {
+    Achievement.find.mockReturnValue(storedAchievements([
+      { platform: 'steam', accountKey: '7656', gameId: '440', externalId: 'ACH_WIN_ONE_GAME', unlocked: false, detailsFetchedAt: new Date(Date.now() - 48 * HOUR) },
+    ]));
+    axios.get.mockRejectedValue(Object.assign(new Error('timeout'), { request: {} }));
+
+    const result = await getSteamAchievements('7656', 440);
+
+    expect(result.achievements).toHaveLength(1);
+    expect(Achievement.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('GET /api/steam/user/:steamId/game/:appId/achievements returns the list', async () => {
+    axios.get.mockImplementation(steamResponses({ player: playerAchievements, schema: achievementSchema, global: globalPercentages }));
+
+    const response = await request(app).get('/api/steam/user/7656/game/440/achievements');
+
+    expect(response.status).toBe(200);
+    expect(response.body.appId).toBe(440);
+    expect(response.body.achievements).toHaveLength(2);
+  });
+
+  it('rejects app ids that are not numbers', async () => {
+    const response = await request(app).get('/api/steam/user/7656/game/abc/achievements');
+
+    expect(response.status).toBe(400);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it('translates Steam errors when nothing is stored', async () => {
+    axios.get.mockRejectedValue(Object.assign(new Error('Forbidden'), { response: { status: 403, data: { playerstats: { error: 'Profile is not public', success: false } } } }));
+
+    const response = await request(app).get('/api/steam/user/7656/game/440/achievements');
+
+    expect(response.status).toBe(403);
+    expect(response.body.error).toEqual(expect.any(String));
+  });
+});
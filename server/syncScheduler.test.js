@@ -0,0 +1,345 @@
+const SyncJob = require('./models/SyncJob');
+const User = require('./models/User');
+const steamAdapter = require('./adapters/steamAdapter');
+const libraryCache = require('./adapters/libraryCache');
+const Achievement = require('./models/Achievement');
+const PlaytimeSnapshot = require('./models/PlaytimeSnapshot');
+const { unlinkAccount } = require('./services/accountLinks');
+const {
+  enqueueSync,
+  ensureFreshSync,
+  getStoredLibrary,
+  runJob,
+  scheduleDueSyncs,
+} = require('./services/syncScheduler');
+const { subscribeToSyncEvents } = require('./services/syncEvents');
+
+jest.mock('./config/logger', () => ({
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+}));
+
+jest.mock('./models/SyncJob', () => ({
+  findOne: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+  findById: jest.fn(),
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/User', () => ({
+  find: jest.fn(),
+  findById: jest.fn(),
+  findByIdAndUpdate: jest.fn(),
+}));
+
+jest.mock('./models/Achievement', () => ({
+  bulkWrite: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./models/PlaytimeSnapshot', () => ({
+  insertMany: jest.fn(),
+  deleteMany: jest.fn(),
+}));
+
+jest.mock('./adapters/libraryCache', () => ({
+  ...jest.requireActual('./adapters/libraryCache'),
+  findStoredGames: jest.fn(),
+  syncLibrary: jest.fn(),
+}));
+
+const STEAM_ID = '76561197960287930';
+const HOUR = 60 * 60 * 1000;
+
+// SyncJob.findById(...).select(...).lean() resolves to a job with the status returned by `getStatus`.
+const mockJobStatus = getStatus => {
+  SyncJob.findById.mockImplementation(() => ({
+    select: () => ({ lean: async () => ({ status: getStatus() }) }),
+  }));
+};
+
+// SyncJob.findOne(...).sort(...) resolves to the next queued value.
+const mockFindOneResults = (...results) => {
+  results.forEach(result => {
+    SyncJob.findOne.mockReturnValueOnce({ sort: jest.fn().mockResolvedValue(result) });
+  });
+};
+
+describe('syncScheduler', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env.STEAM_API_KEY = 'TEST_STEAM_API_KEY';
+    SyncJob.updateOne.mockResolvedValue({ matchedCount: 1 });
+    mockJobStatus(() => 'running');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enqueueSync', () => {
+    it('reuses a running job for request-triggered syncs', async () => {
+      const running = { _id: 'job1', status: 'running' };
+      SyncJob.findOne.mockResolvedValueOnce(running);
+
+      const job = await enqueueSync(steamAdapter, { steamId: STEAM_ID }, { trigger: 'request' });
+
+      expect(job).toBe(running);
+      expect(SyncJob.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('upserts a single queued job per account', async () => {
+      SyncJob.findOne.mockResolvedValueOnce(null);
+      SyncJob.findOneAndUpdate.mockResolvedValueOnce({ _id: 'job2', status: 'queued', trigger: 'schedule' });
+
+      await enqueueSync(steamAdapter, { steamId: STEAM_ID });
+
+      expect(SyncJob.findOneAndUpdate).toHaveBeenCalledWith(
+        { platform: 'steam', accountKey: STEAM_ID, status: 'queued' },
+        { $setOnInsert: { trigger: 'schedule', createdAt: expect.any(Date) }, $min: { runAt: expect.any(Date) } },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      );
+    });
+
+    it('queues a follow-up job for manual syncs even while one is running', async () => {
+      SyncJob.findOneAndUpdate.mockResolvedValueOnce({ _id: 'job3', status: 'queued', trigger: 'manual' });
+
+      await enqueueSync(steamAdapter, { steamId: STEAM_ID }, { trigger: 'manual' });
+
+      expect(SyncJob.findOne).not.toHaveBeenCalled();
+      expect(SyncJob.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ensureFreshSync', () => {
+    it('queues a sync for an account that was never synced', async () => {
+      mockFindOneResults(null, null);
+      SyncJob.findOne.mockResolvedValueOnce(null); // No running job
+      SyncJob.findOneAndUpdate.mockResolvedValueOnce({ status: 'queued', trigger: 'request', progress: { processed: 0, total: 0 } });
+
+      const sync = await ensureFreshSync(steamAdapter, { steamId: STEAM_ID });
+
+      expect(sync).toEqual({ state: 'queued', inProgress: true, progress: { processed: 0, total: 0 }, lastSyncedAt: null, lastError: null });
+    });
+
+    it('does not queue a sync when the last one finished recently', async () => {
+      const completed = { status: 'completed', finishedAt: new Date(Date.now() - HOUR), progress: { processed: 3, total: 3 } };
+      mockFindOneResults(completed, completed);
+
+      const sync = await ensureFreshSync(steamAdapter, { steamId: STEAM_ID });
+
+      expect(sync.state).toBe('completed');
+      expect(sync.lastSyncedAt).toBe(completed.finishedAt);
+      expect(SyncJob.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('does not retry a recently failed sync on every request', async () => {
+      const failed = { status: 'failed', finishedAt: new Date(), lastError: 'Steam API request unauthorized.' };
+      mockFindOneResults(failed, null);
+
+      const sync = await ensureFreshSync(steamAdapter, { steamId: STEAM_ID });
+
+      expect(sync).toEqual(expect.objectContaining({ state: 'failed', inProgress: false, lastError: 'Steam API request unauthorized.' }));
+      expect(SyncJob.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('queues a sync when the last completed one is older than a day', async () => {
+      const completed = { status: 'completed', finishedAt: new Date(Date.now() - 25 * HOUR) };
+      mockFindOneResults(completed, completed);
+      SyncJob.findOne.mockResolvedValueOnce(null);
+      SyncJob.findOneAndUpdate.mockResolvedValueOnce({ status: 'queued', trigger: 'request' });
+
+      const sync = await ensureFreshSync(steamAdapter, { steamId: STEAM_ID });
+
+      expect(sync.state).toBe('queued');
+      expect(sync.lastSyncedAt).toBe(completed.finishedAt);
+    });
+  });
+
+  it('getStoredLibrary serves stored games without syncing inline', async () => {
+    const completed = { status: 'completed', finishedAt: new Date() };
+    mockFindOneResults(completed, completed);
+    libraryCache.findStoredGames.mockResolvedValueOnce([{ appId: 10, name: 'Game 1' }]);
+
+    const { games, sync } = await getStoredLibrary(steamAdapter, { steamId: STEAM_ID });
+
+    expect(games).toEqual([{ appId: 10, name: 'Game 1' }]);
+    expect(sync.inProgress).toBe(false);
+    expect(libraryCache.syncLibrary).not.toHaveBeenCalled();
+  });
+
+  describe('runJob', () => {
+    const job = { _id: 'job1', platform: 'steam', accountKey: STEAM_ID, attempts: 1 };
+
+    it('syncs the library and marks the job completed', async () => {
+      libraryCache.syncLibrary.mockImplementationOnce(async (adapter, account, { onGame }) => {
+        onGame({}, { processed: 1, total: 1 });
+        return [{ appId: 10 }];
+      });
+
+      await runJob(job);
+
+      expect(libraryCache.syncLibrary).toHaveBeenCalledWith(steamAdapter, { steamId: STEAM_ID }, {
+        onGame: expect.any(Function),
+        onAchievements: expect.any(Function),
+        isCancelled: expect.any(Function),
+      });
+      expect(SyncJob.updateOne).toHaveBeenCalledWith(
+        { _id: 'job1', status: 'running' },
+        { $set: { progress: { processed: 1, total: 1 }, lockedAt: expect.any(Date) } }
+      );
+      expect(SyncJob.updateOne).toHaveBeenLastCalledWith({ _id: 'job1', status: 'running' }, {
+        $set: expect.objectContaining({ status: 'completed', gamesSynced: 1, lastError: null }),
+      });
+    });
+
+    it('stores the achievements fetched while syncing', async () => {
+      libraryCache.syncLibrary.mockImplementationOnce(async (adapter, account, { onAchievements }) => {
+        onAchievements(10, [{ apiname: 'ACH_WIN', name: 'Winner', achieved: 1, unlocktime: 1717243200 }]);
+        onAchievements(20, []); // No stats
+        return [{ appId: 10 }, { appId: 20 }];
+      });
+
+      await runJob(job);
+
+      expect(Achievement.bulkWrite).toHaveBeenCalledTimes(1);
+      expect(Achievement.bulkWrite.mock.calls[0][0]).toEqual([{
+        updateOne: {
+          filter: { platform: 'steam', accountKey: STEAM_ID, gameId: '10', externalId: 'ACH_WIN' },
+          update: { $set: { name: 'Winner', unlocked: true, unlockedAt: new Date('2024-06-01T12:00:00Z') } },
+          upsert: true,
+        },
+      }]);
+    });
+
+    it('streams started, per-game progress and completed events for the account', async () => {
+      const events = [];
+      const unsubscribe = subscribeToSyncEvents([{ platform: 'steam', accountKey: STEAM_ID }], event => events.push(event));
+      const otherAccountEvents = [];
+      const unsubscribeOther = subscribeToSyncEvents([{ platform: 'steam', accountKey: 'someone-else' }], event => otherAccountEvents.push(event));
+      libraryCache.syncLibrary.mockImplementationOnce(async (adapter, account, { onGame }) => {
+        const game = { steamId: STEAM_ID, appId: 10, name: 'Game 1', playtimeForever: 5, achievements: { unlocked: 1, total: 2 } };
+        onGame(game, { processed: 1, total: 2, achievementsFetched: 1, errors: 0 });
+        onGame({ ...game, appId: 20, name: 'Game 2' }, { processed: 2, total: 2, achievementsFetched: 1, errors: 1 });
+        return [game, { ...game, appId: 20 }];
+      });
+
+      await runJob(job);
+      unsubscribe();
+      unsubscribeOther();
+
+      expect(events.map(event => event.type)).toEqual(['started', 'progress', 'progress', 'completed']);
+      expect(events[1]).toEqual(expect.objectContaining({
+        platform: 'steam',
+        accountKey: STEAM_ID,
+        processed: 1,
+        total: 2,
+        achievementsFetched: 1,
+        errors: 0,
+        game: expect.objectContaining({ appID: 10, name: 'Game 1' }), // Same shape as the Steam games route
+        libraryGame: expect.objectContaining({ id: 'steam-10', title: 'Game 1', platform: 'steam' }),
+      }));
+      expect(events[2].errors).toBe(1);
+      expect(events[3].gamesSynced).toBe(2);
+      expect(otherAccountEvents).toEqual([]);
+    });
+
+    it('streams a failed event that says whether the job will be retried', async () => {
+      const events = [];
+      const unsubscribe = subscribeToSyncEvents([{ platform: 'steam', accountKey: STEAM_ID }], event => events.push(event));
+      libraryCache.syncLibrary.mockRejectedValueOnce({ response: { status: 429, data: {} } });
+
+      await runJob(job);
+      unsubscribe();
+
+      expect(events[events.length - 1]).toEqual(expect.objectContaining({ type: 'failed', willRetry: true }));
+    });
+
+    it('requeues transient upstream failures with a delay', async () => {
+      libraryCache.syncLibrary.mockRejectedValueOnce({ response: { status: 503, data: {} } });
+
+      await runJob(job);
+
+      expect(SyncJob.updateOne).toHaveBeenCalledWith({ _id: 'job1', status: 'running' }, {
+        $set: { status: 'queued', runAt: expect.any(Date), lastError: 'Failed to fetch Steam games. Steam Web API responded with status 503.' },
+      });
+    });
+
+    it('fails permanently on client errors', async () => {
+      libraryCache.syncLibrary.mockRejectedValueOnce({ response: { status: 403, data: {} } });
+
+      await runJob(job);
+
+      expect(SyncJob.updateOne).toHaveBeenCalledWith({ _id: 'job1', status: 'running' }, {
+        $set: expect.objectContaining({ status: 'failed', finishedAt: expect.any(Date) }),
+      });
+    });
+
+    it('stops writing once the account is unlinked in the middle of a sync', async () => {
+      const { syncLibrary } = jest.requireActual('./adapters/libraryCache');
+      let status = 'running';
+      mockJobStatus(() => status);
+      SyncJob.updateMany.mockImplementation(async () => {
+        status = 'cancelled';
+        return { modifiedCount: 1 };
+      });
+      SyncJob.deleteMany.mockResolvedValue({ deletedCount: 0 });
+      User.findByIdAndUpdate.mockResolvedValue({ _id: 'u1' });
+      libraryCache.syncLibrary.mockImplementationOnce(syncLibrary);
+      libraryCache.findStoredGames.mockResolvedValueOnce([{ appId: 10, playtimeForever: 60 }]);
+      const saveGame = jest.spyOn(steamAdapter.model, 'findOneAndUpdate').mockResolvedValue({});
+      const deleteGames = jest.spyOn(steamAdapter.model, 'deleteMany').mockResolvedValue({ deletedCount: 1 });
+      jest.spyOn(steamAdapter, 'fetchLibrary').mockResolvedValue([
+        { appid: 10, name: 'Game 1', playtime_forever: 90 },
+        { appid: 20, name: 'Game 2', playtime_forever: 30 },
+      ]);
+      jest.spyOn(steamAdapter, 'fetchAchievements')
+        .mockResolvedValueOnce([{ apiname: 'ACH_WIN', achieved: 1, unlocktime: 1717243200 }])
+        .mockImplementationOnce(async () => {
+          await unlinkAccount(steamAdapter, { _id: 'u1', steamId: STEAM_ID, googleId: 'g1' });
+          return [];
+        });
+
+      await runJob(job);
+
+      expect(SyncJob.updateMany).toHaveBeenCalledWith(
+        { platform: 'steam', accountKey: STEAM_ID, status: { $in: ['queued', 'running'] } },
+        { $set: { status: 'cancelled', finishedAt: expect.any(Date) } }
+      );
+      expect(deleteGames).toHaveBeenCalledWith({ steamId: STEAM_ID });
+      expect(saveGame).not.toHaveBeenCalled();
+      expect(PlaytimeSnapshot.insertMany).not.toHaveBeenCalled();
+      expect(Achievement.bulkWrite).not.toHaveBeenCalled();
+      expect(SyncJob.updateOne).not.toHaveBeenCalledWith(expect.anything(), {
+        $set: expect.objectContaining({ status: expect.any(String) }),
+      });
+    });
+
+    it('fails without calling upstream when the API key is missing', async () => {
+      delete process.env.STEAM_API_KEY;
+
+      await runJob(job);
+
+      expect(libraryCache.syncLibrary).not.toHaveBeenCalled();
+      expect(SyncJob.updateOne).toHaveBeenCalledWith({ _id: 'job1', status: 'running' }, {
+        $set: expect.objectContaining({ status: 'failed', lastError: 'Steam API credentials are not configured on the server.' }),
+      });
+    });
+  });
+
+  it('scheduleDueSyncs checks every linked platform of every user', async () => {
+    User.find.mockResolvedValueOnce([{ id: 'u1', steamId: STEAM_ID, xboxUserId: 'xuid1' }]);
+    const completed = { status: 'completed', finishedAt: new Date() };
+    SyncJob.findOne.mockReturnValue({ sort: jest.fn().mockResolvedValue(completed) });
+
+    await scheduleDueSyncs();
+
+    const accountKeys = SyncJob.findOne.mock.calls.map(([filter]) => `${filter.platform}:${filter.accountKey}`);
+    expect(accountKeys).toEqual(expect.arrayContaining([`steam:${STEAM_ID}`, 'xbox:xuid1']));
+    expect(accountKeys.some(key => key.startsWith('psn:'))).toBe(false);
+  });
+});
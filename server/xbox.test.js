@@ -4,7 +4,11 @@ const { MongoMemoryServer } = require('mongodb-memory-server');
 const mongoose = require('mongoose');
 const axios = require('axios');
 const XboxGame = require('./models/XboxGame');
+const SyncJob = require('./models/SyncJob');
+const Achievement = require('./models/Achievement');
 const xboxRoutes = require('./routes/xbox');
+const xboxAdapter = require('./adapters/xboxAdapter');
+const { enqueueSync, claimNextJob, runJob } = require('./services/syncScheduler');
 const logger = require('./config/logger'); // Will be mocked
 
 jest.mock('axios'); // Mock axios
@@ -51,92 +55,63 @@ describe('/api/xbox/user/:xuid/games', () => {
 
   beforeEach(async () => {
     await XboxGame.deleteMany({});
+    await SyncJob.deleteMany({});
     jest.clearAllMocks();
   });
 
   const mockXuid = '1234567890123456';
-  const mockXblGameData = {
-    titles: [
-      {
-        titleId: '123',
-        name: 'Halo Infinite',
-        displayImage: 'halo.jpg',
-        achievement: { currentAchievements: 50, totalAchievements: 100, currentGamerscore: 500, totalGamerscore: 1000 },
-      },
-      {
-        titleId: '456',
-        name: 'Forza Horizon 5',
-        displayImage: 'forza.jpg',
-        achievement: { currentAchievements: 20, totalAchievements: 80, currentGamerscore: 200, totalGamerscore: 800 },
-      },
-    ],
-  };
 
-  it('should fetch games successfully from xbl.io API (no cache)', async () => {
-    axios.get.mockResolvedValueOnce({ data: mockXblGameData });
+  it('should serve stored games and queue a background sync for a never-synced account', async () => {
+    await XboxGame.create({
+      xuid: mockXuid,
+      titleId: '789',
+      name: 'Stored Game',
+      displayImage: 'stored.jpg',
+      achievements: { currentAchievements: 10, totalAchievements: 20, currentGamerscore: 100, totalGamerscore: 200 },
+    });
 
     const response = await request(app).get(`/api/xbox/user/${mockXuid}/games`);
 
     expect(response.status).toBe(200);
-    expect(response.body).toHaveLength(mockXblGameData.titles.length);
-    expect(response.body[0].name).toBe(mockXblGameData.titles[0].name);
-    expect(axios.get).toHaveBeenCalledTimes(1);
-    // Check that the URL for achievements was called, and headers were passed
-    expect(axios.get).toHaveBeenCalledWith(
-      `https://xbl.io/api/v2/achievements/player/${mockXuid}`,
-      expect.objectContaining({
-        headers: expect.objectContaining({
-          'X-Authorization': process.env.XBL_API_KEY,
-          'Accept': 'application/json',
-        }),
-      })
-    );
+    expect(response.body.games).toHaveLength(1);
+    expect(response.body.games[0].name).toBe('Stored Game');
+    expect(response.body.sync).toEqual(expect.objectContaining({ state: 'queued', inProgress: true, lastSyncedAt: null }));
+    expect(axios.get).not.toHaveBeenCalled();
 
-    const dbGames = await XboxGame.find({ xuid: mockXuid });
-    expect(dbGames).toHaveLength(mockXblGameData.titles.length);
-    expect(dbGames[0].name).toBe(mockXblGameData.titles[0].name);
-    expect(dbGames[0].achievements.currentGamerscore).toBe(mockXblGameData.titles[0].achievement.currentGamerscore);
+    const jobs = await SyncJob.find({ platform: 'xbox', accountKey: mockXuid });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0].trigger).toBe('request');
   });
 
-  it('should serve games from cache if available and fresh', async () => {
-    const gameToCache = new XboxGame({
-      xuid: mockXuid,
-      titleId: '789',
-      name: 'Cached Game',
-      displayImage: 'cache.jpg',
-      achievements: { currentAchievements: 10, totalAchievements: 20, currentGamerscore: 100, totalGamerscore: 200 },
-      lastUpdated: new Date(),
-    });
-    await gameToCache.save();
+  it('should not queue another sync while one is already queued', async () => {
+    await request(app).get(`/api/xbox/user/${mockXuid}/games`);
+    const response = await request(app).get(`/api/xbox/user/${mockXuid}/games`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.games).toEqual([]);
+    expect(await SyncJob.countDocuments({ platform: 'xbox', accountKey: mockXuid })).toBe(1);
+  });
+
+  it('should not queue a sync when the library was synced recently', async () => {
+    const finishedAt = new Date();
+    await SyncJob.create({ platform: 'xbox', accountKey: mockXuid, status: 'completed', finishedAt });
 
     const response = await request(app).get(`/api/xbox/user/${mockXuid}/games`);
 
     expect(response.status).toBe(200);
-    expect(response.body).toHaveLength(1);
-    expect(response.body[0].name).toBe('Cached Game');
-    expect(axios.get).not.toHaveBeenCalled();
-    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining(`Serving 1 Xbox games from cache for xuid: ${mockXuid}`));
+    expect(response.body.sync).toEqual(expect.objectContaining({ state: 'completed', inProgress: false, lastSyncedAt: finishedAt.toISOString() }));
+    expect(await SyncJob.countDocuments({ platform: 'xbox', accountKey: mockXuid })).toBe(1);
   });
 
-  it('should fetch from API if cache is stale', async () => {
+  it('should queue a sync when the last one finished more than 24 hours ago', async () => {
     const twentyFiveHoursAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
-    const gameToCache = new XboxGame({
-      xuid: mockXuid,
-      titleId: '789',
-      name: 'Stale Cached Game',
-      achievements: { currentAchievements: 10, totalAchievements: 20, currentGamerscore: 100, totalGamerscore: 200 },
-      lastUpdated: twentyFiveHoursAgo,
-    });
-    await gameToCache.save();
-
-    axios.get.mockResolvedValueOnce({ data: mockXblGameData });
+    await SyncJob.create({ platform: 'xbox', accountKey: mockXuid, status: 'completed', finishedAt: twentyFiveHoursAgo, createdAt: twentyFiveHoursAgo });
 
     const response = await request(app).get(`/api/xbox/user/${mockXuid}/games`);
+
     expect(response.status).toBe(200);
-    expect(response.body).toHaveLength(mockXblGameData.titles.length);
-    expect(response.body[0].name).toBe(mockXblGameData.titles[0].name);
-    expect(axios.get).toHaveBeenCalledTimes(1);
-    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining(`No fresh Xbox games in cache for xuid: ${mockXuid}. Fetching from xbl.io API.`));
+    expect(response.body.sync).toEqual(expect.objectContaining({ state: 'queued', inProgress: true, lastSyncedAt: twentyFiveHoursAgo.toISOString() }));
+    expect(await SyncJob.countDocuments({ platform: 'xbox', accountKey: mockXuid, status: 'queued' })).toBe(1);
   });
 
   it('should return 400 if XUID is not provided', async () => {
@@ -264,7 +239,179 @@ describe('/api/xbox/user/:xuid/games', () => {
 
 });
 
+describe('Xbox background library sync', () => {
+  const mockXuid = '1234567890123456';
+  const mockXblGameData = {
+    titles: [
+      {
+        titleId: '123',
+        name: 'Halo Infinite',
+        displayImage: 'halo.jpg',
+        achievement: { currentAchievements: 50, totalAchievements: 100, currentGamerscore: 500, totalGamerscore: 1000 },
+        titleHistory: { lastTimePlayed: '2024-05-20T18:00:00.000Z', visible: true, canHide: false },
+      },
+      {
+        titleId: '456',
+        name: 'Forza Horizon 5',
+        displayImage: 'forza.jpg',
+        achievement: { currentAchievements: 20, totalAchievements: 80, currentGamerscore: 200, totalGamerscore: 800 },
+      },
+    ],
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+    if (!process.env.XBL_API_KEY) {
+      process.env.XBL_API_KEY = 'test_xbl_api_key_default';
+    }
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await XboxGame.deleteMany({});
+    await SyncJob.deleteMany({});
+    jest.clearAllMocks();
+  });
+
+  const runQueuedSync = async () => {
+    await enqueueSync(xboxAdapter, { xuid: mockXuid }, { trigger: 'manual' });
+    const job = await claimNextJob();
+    await runJob(job);
+    return SyncJob.findById(job._id);
+  };
+
+  it('should fetch games from xbl.io, store them and complete the job', async () => {
+    axios.get.mockResolvedValueOnce({ data: mockXblGameData });
+
+    const job = await runQueuedSync();
+
+    expect(job.status).toBe('completed');
+    expect(job.gamesSynced).toBe(2);
+    expect(job.progress.toObject()).toEqual({ processed: 2, total: 2 });
+    expect(axios.get).toHaveBeenCalledWith(
+      `https://xbl.io/api/v2/achievements/player/${mockXuid}`,
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Authorization': process.env.XBL_API_KEY,
+          'Accept': 'application/json',
+        }),
+      })
+    );
+
+    const dbGames = await XboxGame.find({ xuid: mockXuid }).sort({ name: 1 });
+    expect(dbGames).toHaveLength(2);
+    expect(dbGames[0].name).toBe('Forza Horizon 5');
+    expect(dbGames[1].achievements.currentGamerscore).toBe(500);
+    expect(dbGames[1].lastPlayed).toEqual(new Date('2024-05-20T18:00:00.000Z'));
+    expect(dbGames[0].lastPlayed).toBeUndefined();
+  });
+
+  it('should complete with no games when xbl.io returns no titles', async () => {
+    axios.get.mockResolvedValueOnce({ data: { titles: [] } });
+
+    const job = await runQueuedSync();
+
+    expect(job.status).toBe('completed');
+    expect(job.gamesSynced).toBe(0);
+    expect(logger.info).toHaveBeenCalledWith(expect.stringContaining(`No Xbox games with achievements found for xuid: ${mockXuid}`));
+  });
+
+  it('should fail without retrying on xbl.io 401 Unauthorized', async () => {
+    axios.get.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 401, data: { error_message: 'Invalid API Key or access denied.' } },
+    });
+
+    const job = await runQueuedSync();
+
+    expect(job.status).toBe('failed');
+    expect(job.lastError).toContain('Xbox API request unauthorized.');
+    expect(job.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it('should fail without retrying on xbl.io 403 Forbidden (private profile)', async () => {
+    axios.get.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 403, data: { error_message: 'User profile is private or does not allow access.' } },
+    });
+
+    const job = await runQueuedSync();
+
+    expect(job.status).toBe('failed');
+    expect(job.lastError).toContain('Access to Xbox API forbidden.');
+  });
+
+  it('should requeue the job with a delay on xbl.io 429 Too Many Requests', async () => {
+    axios.get.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 429, data: { error_message: 'Rate limit exceeded.' } },
+    });
+
+    const job = await runQueuedSync();
+
+    expect(job.status).toBe('queued');
+    expect(job.attempts).toBe(1);
+    expect(job.runAt.getTime()).toBeGreaterThan(Date.now());
+    expect(job.lastError).toContain('Too many requests to Xbox API.');
+    expect(await claimNextJob()).toBeNull(); // Not due yet
+  });
+
+  it('should requeue the job on network errors (no response)', async () => {
+    axios.get.mockRejectedValueOnce({ isAxiosError: true, request: {}, message: 'Network Error' });
+
+    const job = await runQueuedSync();
+
+    expect(job.status).toBe('queued');
+    expect(job.lastError).toContain('No response from xbl.io API.');
+  });
+
+  it('should record unexpected xbl.io response structures', async () => {
+    axios.get.mockResolvedValueOnce({ data: { message: 'Some unexpected response' } });
+
+    const job = await runQueuedSync();
+
+    expect(job.lastError).toContain('Unexpected response structure from xbl.io API.');
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('xbl.io API response structure was not as expected'), expect.any(Object));
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    axios.get.mockRejectedValue(new Error('Some random error'));
+    await enqueueSync(xboxAdapter, { xuid: mockXuid });
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await SyncJob.updateMany({ status: 'queued' }, { $set: { runAt: new Date(0) } }); // Skip the retry delay
+      await runJob(await claimNextJob());
+    }
+
+    const [job] = await SyncJob.find({ platform: 'xbox', accountKey: mockXuid });
+    expect(job.status).toBe('failed');
+    expect(job.attempts).toBe(3);
+    expect(job.lastError).toContain('Failed to fetch Xbox games from xbl.io.');
+    axios.get.mockReset();
+  });
+});
+
 describe('/api/xbox/user/:xuid/game/:titleId/achievements', () => {
+  // Detailed achievements are stored in the Achievement collection
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    await mongoose.connect(mongoServer.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await Achievement.deleteMany({});
+  });
+
   const mockXuid = '1234567890123456';
   const mockTitleId = 'mockGameTitleId123';
   const mockApiDetailedAchievements = [
@@ -278,7 +425,12 @@ describe('/api/xbox/user/:xuid/game/:titleId/achievements', () => {
     const response = await request(app).get(`/api/xbox/user/${mockXuid}/game/${mockTitleId}/achievements`);
 
     expect(response.status).toBe(200);
-    expect(response.body).toEqual(mockApiDetailedAchievements); // Backend returns raw data for now
+    // Mapped onto the shared achievement shape and stored in the Achievement collection
+    expect(response.body).toEqual([
+      expect.objectContaining({ id: 'ach1', platform: 'xbox', gameId: mockTitleId, name: 'First Achievement', isUnlocked: true, points: 10 }),
+      expect.objectContaining({ id: 'ach2', name: 'Second Achievement', description: 'Then this one.', isUnlocked: false, points: 20 }),
+    ]);
+    expect(await Achievement.countDocuments({ platform: 'xbox', accountKey: mockXuid, gameId: mockTitleId })).toBe(2);
     expect(axios.get).toHaveBeenCalledWith(
       `https://xbl.io/api/v2/achievements/player/${mockXuid}/${mockTitleId}`,
       expect.objectContaining({
@@ -308,9 +460,9 @@ describe('/api/xbox/user/:xuid/game/:titleId/achievements', () => {
     });
     const response = await request(app).get(`/api/xbox/user/${mockXuid}/game/${mockTitleId}/achievements`);
     expect(response.status).toBe(404);
-    // The route now uses the error_message from xbl.io if available, then a fallback
+    // The shared translator appends the error_message from xbl.io to the platform's 404 message
     expect(response.body.error).toEqual(expect.stringContaining(apiErrorMsg)); // Check if it includes original message
-    expect(response.body.error).toEqual(expect.stringContaining(`Detailed achievements not found for xuid ${mockXuid}, titleId ${mockTitleId}`)); // Check for the fallback part
+    expect(response.body.error).toEqual(expect.stringContaining('Xbox user profile not found')); // Check for the shared 404 message
     expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("API responded with status 404"), expect.any(Object));
   });
 
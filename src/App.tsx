@@ -14,6 +14,7 @@ import { AuthProvider, useAuth } from "./contexts/AuthContext";
 import { SteamProvider } from "./contexts/SteamContext";
 import { GogProvider } from "./contexts/GogContext";
 import { XboxProvider } from "./contexts/XboxContext";
+import { EpicProvider } from "./contexts/EpicContext";
 
 const queryClient = new QueryClient();
 
@@ -87,13 +88,15 @@ const App = () => (
         <GogProvider>
           <XboxProvider>
             <PsnProvider>
-              <TooltipProvider>
-                <Toaster />
-                <Sonner />
-                <BrowserRouter>
-                  <AppRoutes />
-                </BrowserRouter>
-              </TooltipProvider>
+              <EpicProvider>
+                <TooltipProvider>
+                  <Toaster />
+                  <Sonner />
+                  <BrowserRouter>
+                    <AppRoutes />
+                  </BrowserRouter>
+                </TooltipProvider>
+              </EpicProvider>
             </PsnProvider>
           </XboxProvider>
         </GogProvider>
@@ -0,0 +1,239 @@
+import { useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/contexts/AuthContext";
+import { platformInfo } from "@/config/platformConfig";
+import { Game } from "@/types/gameTypes";
+import { ActivityFeedResponse, ActivityItem } from "@/types/activityTypes";
+import { Activity, AlertTriangle, Clock, Loader2, PlusCircle, Trophy, X } from "lucide-react";
+
+const PAGE_SIZE = 30;
+
+// Games added by hand have no synced history to show
+const platforms = (Object.keys(platformInfo) as Game['platform'][]).filter(key => key !== 'manual');
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const platformName = (platform: Game['platform']) => platformInfo[platform]?.name || platform;
+
+// Items of the same local day, in feed order
+const groupByDay = (items: ActivityItem[]) => {
+  const days: { key: string; label: string; items: ActivityItem[] }[] = [];
+  items.forEach(item => {
+    const date = new Date(item.date);
+    const key = date.toDateString();
+    if (days.length === 0 || days[days.length - 1].key !== key) {
+      days.push({
+        key,
+        label: date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }),
+        items: [],
+      });
+    }
+    days[days.length - 1].items.push(item);
+  });
+  return days;
+};
+
+const ActivityIcon = ({ item }: { item: ActivityItem }) => {
+  if (item.type === 'achievement') {
+    return <Trophy className={`h-4 w-4 ${item.achievement?.grade === 'platinum' ? 'text-sky-500' : 'text-yellow-500'}`} />;
+  }
+  if (item.type === 'added') return <PlusCircle className="h-4 w-4 text-green-500" />;
+  return <Clock className="h-4 w-4 text-muted-foreground" />;
+};
+
+interface ActivityEntryProps {
+  item: ActivityItem;
+  onSelectGame: (game: ActivityItem['game']) => void;
+}
+
+const ActivityEntry = ({ item, onSelectGame }: ActivityEntryProps) => {
+  const gameButton = (
+    <button type="button" className="font-medium hover:underline" onClick={() => onSelectGame(item.game)}>
+      {item.game.title}
+    </button>
+  );
+  const achievement = item.achievement;
+
+  let text: ReactNode;
+  if (item.type === 'achievement' && achievement?.grade === 'platinum') {
+    text = <>Earned a Platinum in {gameButton}</>;
+  } else if (item.type === 'achievement' && achievement?.grade) {
+    text = <>Earned the {achievement.grade.charAt(0).toUpperCase() + achievement.grade.slice(1)} trophy <strong>{achievement.name}</strong> in {gameButton}</>;
+  } else if (item.type === 'achievement') {
+    text = <>Unlocked <strong>{achievement?.name}</strong> in {gameButton} on {platformName(item.platform)}</>;
+  } else if (item.type === 'added') {
+    text = <>Added {gameButton} to the library on {platformName(item.platform)}{item.minutes ? `, ${formatMinutes(item.minutes)} played` : ''}</>;
+  } else {
+    text = <>Played {gameButton} for {formatMinutes(item.minutes || 0)} on {platformName(item.platform)}</>;
+  }
+
+  return (
+    <li className="flex items-start gap-3 py-2">
+      {achievement?.iconUrl || item.game.coverImage ? (
+        <img
+          src={achievement?.iconUrl || item.game.coverImage}
+          alt=""
+          className="h-10 w-10 rounded object-cover flex-shrink-0"
+          onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+        />
+      ) : (
+        <div className="h-10 w-10 rounded bg-muted flex-shrink-0" />
+      )}
+      <div className="flex-grow text-sm">
+        <p className="flex items-center gap-1.5 flex-wrap">
+          <ActivityIcon item={item} />
+          <span>{text}</span>
+        </p>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          {new Date(item.date).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+          {achievement?.rarityPercent !== undefined && achievement.rarityPercent > 0 && ` · ${achievement.rarityPercent.toFixed(1)}% of players`}
+        </p>
+      </div>
+    </li>
+  );
+};
+
+export const ActivityFeed = () => {
+  const { user } = useAuth();
+  const [platform, setPlatform] = useState<Game['platform'] | null>(null);
+  const [selectedGame, setSelectedGame] = useState<ActivityItem['game'] | null>(null);
+  const [items, setItems] = useState<ActivityItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const latestRequest = useRef(0); // Pages of a previous filter arriving late are dropped
+
+  const userId = user?.id || null;
+
+  const loadPage = useCallback(async (before: string | null) => {
+    const request = ++latestRequest.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (selectedGame) params.set('gameId', selectedGame.id);
+      else if (platform) params.set('platform', platform);
+      if (before) params.set('before', before);
+      const response = await fetch(`/api/library/activity?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error: ${response.status}`);
+      }
+      const page: ActivityFeedResponse = await response.json();
+      if (request !== latestRequest.current) return;
+      setItems(prev => (before ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (request !== latestRequest.current) return;
+      setError(err instanceof Error ? err.message : 'Failed to load your activity');
+      console.error(err);
+    } finally {
+      if (request === latestRequest.current) setIsLoading(false);
+    }
+  }, [platform, selectedGame]);
+
+  // First page, again whenever a filter changes
+  useEffect(() => {
+    if (!userId) return;
+    setItems([]);
+    setNextCursor(null);
+    loadPage(null);
+  }, [userId, loadPage]);
+
+  // Infinite scroll: the next page loads once the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || isLoading || error || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadPage(nextCursor);
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, isLoading, error, loadPage]);
+
+  if (!user) return null;
+
+  const selectPlatform = (value: Game['platform'] | null) => {
+    setSelectedGame(null);
+    setPlatform(value);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            Activity
+          </CardTitle>
+          <CardDescription>Achievements unlocked and games played or added, across your platforms</CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          <Button size="sm" variant={platform === null && !selectedGame ? 'default' : 'outline'} onClick={() => selectPlatform(null)}>
+            All
+          </Button>
+          {platforms.map(key => (
+            <Button
+              key={key}
+              size="sm"
+              variant={platform === key && !selectedGame ? 'default' : 'outline'}
+              onClick={() => selectPlatform(key)}
+            >
+              {platformInfo[key].name}
+            </Button>
+          ))}
+          {selectedGame && (
+            <Badge variant="secondary" className="ml-2 gap-1">
+              {selectedGame.title}
+              <button type="button" aria-label="Show every game" onClick={() => setSelectedGame(null)}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 && !isLoading && !error && (
+          <p className="text-sm text-muted-foreground py-4">
+            No activity yet. Unlocks appear once achievements are synced; games played or added show up from your second sync onwards.
+          </p>
+        )}
+        <div className="space-y-4">
+          {groupByDay(items).map(day => (
+            <section key={day.key} aria-label={day.label}>
+              <h3 className="text-sm font-semibold border-b pb-1 mb-1">{day.label}</h3>
+              <ul className="divide-y">
+                {day.items.map(item => <ActivityEntry key={item.id} item={item} onSelectGame={setSelectedGame} />)}
+              </ul>
+            </section>
+          ))}
+        </div>
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive py-4">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+            <Button size="sm" variant="outline" onClick={() => loadPage(items.length > 0 ? nextCursor : null)}>Retry</Button>
+          </div>
+        )}
+        {isLoading && (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading activity...
+          </div>
+        )}
+        <div ref={sentinelRef} />
+        {nextCursor && !isLoading && !error && (
+          <div className="flex justify-center pt-2">
+            <Button size="sm" variant="ghost" onClick={() => loadPage(nextCursor)}>Load more</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,132 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CollectionRuleCondition, CollectionRuleField, CollectionRules } from "@/types/gameTypes";
+import { defaultRuleCondition, listOperators, numberOperators, ruleFieldInfo } from "@/config/collectionRuleConfig";
+import { Plus, X } from "lucide-react";
+
+interface CollectionRulesEditorProps {
+  rules: CollectionRules;
+  onChange: (rules: CollectionRules) => void;
+}
+
+const MAX_CONDITIONS = 20; // Same limit as the server
+
+const selectClassName = "h-9 rounded-md border border-input bg-background px-2 text-sm";
+
+// The conditions of a smart collection, one row each: field, comparison and value.
+export const CollectionRulesEditor = ({ rules, onChange }: CollectionRulesEditorProps) => {
+  const updateCondition = (index: number, condition: CollectionRuleCondition) => {
+    onChange({ ...rules, conditions: rules.conditions.map((other, i) => (i === index ? condition : other)) });
+  };
+
+  const removeCondition = (index: number) => {
+    onChange({ ...rules, conditions: rules.conditions.filter((_, i) => i !== index) });
+  };
+
+  const toggleValue = (index: number, value: string, checked: boolean) => {
+    const condition = rules.conditions[index];
+    const values = Array.isArray(condition.value) ? condition.value : [];
+    updateCondition(index, { ...condition, value: checked ? [...values, value] : values.filter(other => other !== value) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        aria-label="Match"
+        className={selectClassName}
+        value={rules.match}
+        onChange={(e) => onChange({ ...rules, match: e.target.value as CollectionRules['match'] })}
+      >
+        <option value="all">Games matching all conditions</option>
+        <option value="any">Games matching any condition</option>
+      </select>
+
+      {rules.conditions.map((condition, index) => {
+        const info = ruleFieldInfo[condition.field];
+        const position = index + 1;
+        return (
+          <div key={index} className="space-y-2 rounded-md border p-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                aria-label={`Field of condition ${position}`}
+                className={selectClassName}
+                value={condition.field}
+                onChange={(e) => updateCondition(index, defaultRuleCondition(e.target.value as CollectionRuleField))}
+              >
+                {(Object.keys(ruleFieldInfo) as CollectionRuleField[]).map(field => (
+                  <option key={field} value={field}>{ruleFieldInfo[field].name}</option>
+                ))}
+              </select>
+              <select
+                aria-label={`Comparison of condition ${position}`}
+                className={selectClassName}
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as CollectionRuleCondition['operator'] })}
+              >
+                {(info.type === 'number' ? numberOperators : listOperators).map(operator => (
+                  <option key={operator.value} value={operator.value}>{operator.name}</option>
+                ))}
+              </select>
+              {info.type === 'number' && (
+                <span className="flex items-center gap-1">
+                  <Input
+                    aria-label={`Value of condition ${position}`}
+                    type="number"
+                    className="h-9 w-24"
+                    value={typeof condition.value === 'number' ? condition.value : ''}
+                    onChange={(e) => updateCondition(index, { ...condition, value: Number(e.target.value) })}
+                  />
+                  {info.unit && <span className="text-sm text-muted-foreground">{info.unit}</span>}
+                </span>
+              )}
+              {info.type === 'list' && !info.options && (
+                <Input
+                  aria-label={`Value of condition ${position}`}
+                  placeholder="RPG, Puzzle"
+                  className="h-9 w-40"
+                  value={Array.isArray(condition.value) ? condition.value.join(', ') : ''}
+                  onChange={(e) => updateCondition(index, { ...condition, value: e.target.value.split(',').map(value => value.trimStart()) })}
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 ml-auto"
+                onClick={() => removeCondition(index)}
+                aria-label={`Remove condition ${position}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {info.type === 'list' && info.options && (
+              <div className="flex flex-wrap gap-3" role="group" aria-label={`Values of condition ${position}`}>
+                {info.options.map(option => (
+                  <label key={option.value} className="flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={Array.isArray(condition.value) && condition.value.includes(option.value)}
+                      onChange={(e) => toggleValue(index, option.value, e.target.checked)}
+                    />
+                    {option.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange({ ...rules, conditions: [...rules.conditions, defaultRuleCondition('platform')] })}
+        disabled={rules.conditions.length >= MAX_CONDITIONS}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add condition
+      </Button>
+    </div>
+  );
+};
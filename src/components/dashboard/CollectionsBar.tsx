@@ -0,0 +1,197 @@
+import { useState, useEffect, FormEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CollectionRulesEditor } from "./CollectionRulesEditor";
+import { CollectionRules, Game, GameCollection } from "@/types/gameTypes";
+import { defaultRuleCondition } from "@/config/collectionRuleConfig";
+import { toast } from "@/components/ui/use-toast";
+import { FolderPlus, Library, Loader2, Pencil, Sparkles, Trash2 } from "lucide-react";
+
+interface CollectionsBarProps {
+  collections: GameCollection[];
+  games: Game[]; // To count the games of each collection
+  selectedCollectionId: string | null;
+  onSelect: (collectionId: string | null) => void;
+  onChanged: () => void; // Called after a collection is created, renamed or deleted so the library can be reloaded
+}
+
+// The user's collections, browsed one at a time like a library of their own. Games are added to
+// them from the library's selection mode, or come from the rules of smart collections.
+export const CollectionsBar = ({ collections, games, selectedCollectionId, onSelect, onChanged }: CollectionsBarProps) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<GameCollection | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [rules, setRules] = useState<CollectionRules | null>(null); // null for a regular collection
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const selected = collections.find(collection => collection.id === selectedCollectionId) || null;
+
+  useEffect(() => {
+    setConfirmingDelete(false);
+  }, [selectedCollectionId]);
+
+  const openDialog = (collection: GameCollection | null) => {
+    setEditing(collection);
+    setName(collection?.name || '');
+    setDescription(collection?.description || '');
+    setRules(collection?.rules || null);
+    setIsDialogOpen(true);
+  };
+
+  const send = async (path: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object) => {
+    const response = await fetch(path, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Error: ${response.status}`);
+    return data;
+  };
+
+  const run = async (action: () => Promise<void>, successMessage: string, failureMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast({ title: successMessage });
+      onChanged();
+    } catch (err) {
+      toast({
+        title: failureMessage,
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (editing) {
+      run(async () => {
+        // Rules are only sent when the collection is or was a smart one; null makes it a regular one
+        const changedRules = rules || editing.rules ? { rules } : {};
+        await send(`/api/library/collections/${encodeURIComponent(editing.id)}`, 'PATCH', { name, description: description || null, ...changedRules });
+        setIsDialogOpen(false);
+      }, `Saved ${name.trim()}`, 'Could not save the collection');
+    } else {
+      run(async () => {
+        const created: GameCollection = await send('/api/library/collections', 'POST', {
+          name,
+          description: description || undefined,
+          rules: rules || undefined,
+        });
+        setIsDialogOpen(false);
+        onSelect(created.id);
+      }, `Created ${name.trim()}`, 'Could not create the collection');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    run(async () => {
+      await send(`/api/library/collections/${encodeURIComponent(selected.id)}`, 'DELETE');
+      onSelect(null);
+    }, `Deleted ${selected.name}`, 'Could not delete the collection');
+  };
+
+  const gameCount = (collection: GameCollection) =>
+    games.filter(game => game.collectionIds?.includes(collection.id)).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1" aria-label="Collections">
+        <Button size="sm" variant={selected ? 'ghost' : 'secondary'} onClick={() => onSelect(null)} aria-pressed={!selected}>
+          <Library className="h-4 w-4 mr-1" />
+          All games
+        </Button>
+        {collections.map(collection => (
+          <Button
+            key={collection.id}
+            size="sm"
+            variant={selected?.id === collection.id ? 'secondary' : 'ghost'}
+            onClick={() => onSelect(collection.id)}
+            aria-pressed={selected?.id === collection.id}
+          >
+            {collection.rules && <Sparkles className="h-3 w-3 mr-1" aria-label="Smart collection" />}
+            {collection.name}
+            <Badge variant="outline" className="ml-1">{gameCount(collection)}</Badge>
+          </Button>
+        ))}
+        <Button size="sm" variant="ghost" onClick={() => openDialog(null)}>
+          <FolderPlus className="h-4 w-4 mr-1" />
+          New collection
+        </Button>
+      </div>
+
+      {selected && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+          <div>
+            <h2 className="font-semibold">{selected.name}</h2>
+            {selected.description && <p className="text-sm text-muted-foreground">{selected.description}</p>}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => openDialog(selected)}>
+              <Pencil className="h-4 w-4 mr-1" />
+              {selected.rules ? 'Edit rules' : 'Rename'}
+            </Button>
+            <Button size="sm" variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              {confirmingDelete ? 'Confirm delete' : 'Delete collection'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.name}` : 'New collection'}</DialogTitle>
+            <DialogDescription>
+              {rules
+                ? 'A smart collection lists every game matching its rules, and stays up to date as your library changes.'
+                : 'Add games to it from the library with "Select games".'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="collection-name">Name</Label>
+              <Input id="collection-name" required placeholder="Co-op with Sam" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collection-description">Description</Label>
+              <Textarea id="collection-description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!rules}
+                onChange={(e) => setRules(e.target.checked ? { match: 'all', conditions: [defaultRuleCondition('platform')] } : null)}
+              />
+              Smart collection: pick the games with rules
+            </label>
+            {rules && <CollectionRulesEditor rules={rules} onChange={setRules} />}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={isSaving || !name.trim() || (rules && rules.conditions.length === 0)}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editing ? 'Save' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
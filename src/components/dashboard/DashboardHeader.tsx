@@ -1,11 +1,13 @@
 
 import { Link } from "react-router-dom"; // Import Link
 import { Button } from "@/components/ui/button";
-import { Gamepad2, Settings, Library, Plug } from "lucide-react";
+import { Gamepad2, Settings, Library, Plug, Activity } from "lucide-react";
+
+export type DashboardView = 'library' | 'activity' | 'connections';
 
 interface DashboardHeaderProps {
-  activeView: 'library' | 'connections';
-  onViewChange: (view: 'library' | 'connections') => void;
+  activeView: DashboardView;
+  onViewChange: (view: DashboardView) => void;
 }
 
 export const DashboardHeader = ({ activeView, onViewChange }: DashboardHeaderProps) => {
@@ -30,6 +32,14 @@ export const DashboardHeader = ({ activeView, onViewChange }: DashboardHeaderPro
               <Library className="h-4 w-4" />
               <span>Library</span>
             </Button>
+            <Button
+              variant={activeView === 'activity' ? 'default' : 'ghost'}
+              onClick={() => onViewChange('activity')}
+              className="flex items-center space-x-2"
+            >
+              <Activity className="h-4 w-4" />
+              <span>Activity</span>
+            </Button>
             <Button
               variant={activeView === 'connections' ? 'default' : 'ghost'}
               onClick={() => onViewChange('connections')}
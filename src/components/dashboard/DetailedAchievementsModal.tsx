@@ -2,15 +2,83 @@ import React from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogClose } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { XboxDetailedAchievement } from '@/contexts/XboxContext'; // Adjust path if necessary
+import { Achievement, TrophyGrade } from '@/types/achievementTypes';
+import { PsnTrophyGroup } from '@/contexts/PsnContext';
+import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { AlertTriangle, CheckCircle2, ImageOff } from 'lucide-react'; // Added ImageOff
 
+// Locked hidden Steam achievements come without a description
+const achievementDescription = (ach: Achievement) => {
+  if (ach.description) return ach.description;
+  return ach.hidden ? 'Hidden achievement' : 'No description available.';
+};
+
+const gradeColors: Record<TrophyGrade, string> = {
+  platinum: 'text-sky-600 dark:text-sky-400',
+  gold: 'text-yellow-600 dark:text-yellow-400',
+  silver: 'text-slate-500 dark:text-slate-300',
+  bronze: 'text-orange-700 dark:text-orange-400',
+};
+
+// One row of the list; Xbox achievements show their gamerscore and PSN trophies their grade
+const AchievementItem = ({ ach }: { ach: Achievement }) => (
+  <li
+    className={`p-3 border rounded-lg flex items-start space-x-4 transition-colors
+                ${ach.isUnlocked
+                  ? 'border-green-200 dark:border-green-700 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-800/30'
+                  : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/20 hover:bg-slate-50 dark:hover:bg-slate-700/30'}`}
+  >
+    {ach.iconUrl ? (
+      <img
+        src={ach.iconUrl}
+        alt={ach.name}
+        className="w-14 h-14 md:w-16 md:h-16 rounded-md object-cover flex-shrink-0 border dark:border-slate-600"
+        onError={(e) => {
+          // Hide image and show placeholder if error
+          const placeholder = e.currentTarget.nextElementSibling as HTMLElement;
+          if (placeholder && placeholder.classList.contains('icon-placeholder')) {
+            placeholder.style.display = 'flex';
+          }
+          e.currentTarget.style.display = 'none';
+        }}
+      />
+    ) : null}
+    {/* Placeholder for missing iconUrl or on error */}
+    <div
+      className={`icon-placeholder w-14 h-14 md:w-16 md:h-16 rounded-md bg-slate-200 dark:bg-slate-700 flex-shrink-0 items-center justify-center text-slate-400 dark:text-slate-500 ${ach.iconUrl ? 'hidden' : 'flex'}`}
+    >
+      <ImageOff size={24} />
+    </div>
+
+    <div className="flex-grow">
+      <h4 className={`font-semibold text-sm md:text-base ${ach.isUnlocked ? 'text-green-700 dark:text-green-400' : 'text-slate-800 dark:text-slate-200'}`}>
+        {ach.name}
+        {ach.isUnlocked && <CheckCircle2 className="inline h-4 w-4 md:h-5 md:w-5 text-green-500 dark:text-green-400 ml-1.5 align-text-bottom" />}
+      </h4>
+      <p className="text-xs md:text-sm text-slate-600 dark:text-slate-400 mt-0.5">{achievementDescription(ach)}</p>
+      <div className="text-xs text-slate-500 dark:text-slate-500 mt-1.5 space-x-2">
+        {ach.points !== undefined && <span className="font-medium">{ach.points} GS</span>}
+        {ach.grade && <span className={`font-medium ${gradeColors[ach.grade]}`}>{ach.grade.charAt(0).toUpperCase() + ach.grade.slice(1)}</span>}
+        {ach.rarityPercent !== undefined && ach.rarityPercent > 0 && (
+          <span className={ach.points !== undefined || ach.grade ? 'border-l border-slate-300 dark:border-slate-600 pl-2' : ''}>{ach.rarityPercent.toFixed(1)}% Rarity</span>
+        )}
+        {ach.isUnlocked && ach.unlockedTime && (
+          <span className="border-l border-slate-300 dark:border-slate-600 pl-2">
+            Unlocked: {new Date(ach.unlockedTime).toLocaleDateString()}
+          </span>
+        )}
+      </div>
+    </div>
+  </li>
+);
+
 interface DetailedAchievementsModalProps {
   isOpen: boolean;
   onClose: () => void;
   gameName: string;
-  achievements: XboxDetailedAchievement[] | null;
+  achievements: Achievement[] | null;
+  groups?: PsnTrophyGroup[]; // PSN trophy groups; with more than one, the list is split into the base game and DLC packs
   isLoading: boolean;
   error: string | null;
 }
@@ -20,6 +88,7 @@ export const DetailedAchievementsModal: React.FC<DetailedAchievementsModalProps>
   onClose,
   gameName,
   achievements,
+  groups,
   isLoading,
   error,
 }) => {
@@ -54,62 +123,34 @@ export const DetailedAchievementsModal: React.FC<DetailedAchievementsModalProps>
               <p className="text-sm">{error}</p>
             </div>
           )}
-          {!isLoading && !error && achievements && achievements.length === 0 && (
+          {!isLoading && !error && (!achievements || achievements.length === 0) && (
             <p className="text-center text-muted-foreground p-6">No achievements found for this game.</p>
           )}
           {!isLoading && !error && achievements && achievements.length > 0 && (
-            <ul className="space-y-2 p-1">
-              {achievements.map((ach) => (
-                <li
-                  key={ach.id}
-                  className={`p-3 border rounded-lg flex items-start space-x-4 transition-colors
-                              ${ach.isUnlocked
-                                ? 'border-green-200 dark:border-green-700 bg-green-50 dark:bg-green-900/20 hover:bg-green-100 dark:hover:bg-green-800/30'
-                                : 'border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/20 hover:bg-slate-50 dark:hover:bg-slate-700/30'}`}
-                >
-                  {ach.iconUrl ? (
-                    <img
-                      src={ach.iconUrl}
-                      alt={ach.name}
-                      className="w-14 h-14 md:w-16 md:h-16 rounded-md object-cover flex-shrink-0 border dark:border-slate-600"
-                      onError={(e) => {
-                        // Hide image and show placeholder if error
-                        const placeholder = e.currentTarget.nextElementSibling as HTMLElement;
-                        if (placeholder && placeholder.classList.contains('icon-placeholder')) {
-                          placeholder.style.display = 'flex';
-                        }
-                        e.currentTarget.style.display = 'none';
-                      }}
-                    />
-                  ) : null}
-                  {/* Placeholder for missing iconUrl or on error */}
-                  <div
-                    className={`icon-placeholder w-14 h-14 md:w-16 md:h-16 rounded-md bg-slate-200 dark:bg-slate-700 flex-shrink-0 items-center justify-center text-slate-400 dark:text-slate-500 ${ach.iconUrl ? 'hidden' : 'flex'}`}
-                  >
-                    <ImageOff size={24} />
-                  </div>
-
-                  <div className="flex-grow">
-                    <h4 className={`font-semibold text-sm md:text-base ${ach.isUnlocked ? 'text-green-700 dark:text-green-400' : 'text-slate-800 dark:text-slate-200'}`}>
-                      {ach.name}
-                      {ach.isUnlocked && <CheckCircle2 className="inline h-4 w-4 md:h-5 md:w-5 text-green-500 dark:text-green-400 ml-1.5 align-text-bottom" />}
-                    </h4>
-                    <p className="text-xs md:text-sm text-slate-600 dark:text-slate-400 mt-0.5">{ach.description || ach.howToUnlock || 'No description available.'}</p>
-                    <div className="text-xs text-slate-500 dark:text-slate-500 mt-1.5 space-x-2">
-                      <span className="font-medium">{ach.gamerscore} GS</span>
-                      {ach.rarityPercent !== undefined && ach.rarityPercent > 0 && (
-                        <span className="border-l border-slate-300 dark:border-slate-600 pl-2">{ach.rarityPercent.toFixed(1)}% Rarity</span>
-                      )}
-                      {ach.isUnlocked && ach.unlockedTime && (
-                        <span className="border-l border-slate-300 dark:border-slate-600 pl-2">
-                          Unlocked: {new Date(ach.unlockedTime).toLocaleDateString()}
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                </li>
-              ))}
-            </ul>
+            groups && groups.length > 1 ? (
+              <div className="space-y-4 p-1">
+                {groups.map(group => {
+                  const groupAchievements = achievements.filter(ach => ach.groupId === group.id);
+                  if (groupAchievements.length === 0) return null;
+                  return (
+                    <section key={group.id} aria-label={group.name}>
+                      <h3 className="flex items-center gap-2 text-sm font-semibold mb-2">
+                        {group.name}
+                        {group.isDlc && <Badge variant="secondary">DLC</Badge>}
+                        <span className="ml-auto text-xs font-normal text-muted-foreground">{group.earned}/{group.total}</span>
+                      </h3>
+                      <ul className="space-y-2">
+                        {groupAchievements.map(ach => <AchievementItem key={ach.id} ach={ach} />)}
+                      </ul>
+                    </section>
+                  );
+                })}
+              </div>
+            ) : (
+              <ul className="space-y-2 p-1">
+                {achievements.map(ach => <AchievementItem key={ach.id} ach={ach} />)}
+              </ul>
+            )
           )}
         </ScrollArea>
         <DialogFooter className="mt-auto pt-4">
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Button, buttonVariants } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { XCircle } from "lucide-react";
+
+interface DisconnectPlatformButtonProps {
+  platformName: string;
+  onConfirm: () => Promise<void>; // The context's disconnect function; it reports its own errors
+  disabled?: boolean;
+  details?: string; // Extra sentence about what else is removed, e.g. imported games
+}
+
+// "Disconnect" button that asks for confirmation before unlinking a platform and deleting its stored games.
+export const DisconnectPlatformButton = ({ platformName, onConfirm, disabled, details }: DisconnectPlatformButtonProps) => {
+  const [isDisconnecting, setIsDisconnecting] = useState(false);
+
+  const handleConfirm = async () => {
+    setIsDisconnecting(true);
+    try {
+      await onConfirm();
+    } finally {
+      setIsDisconnecting(false);
+    }
+  };
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" className="w-full" disabled={disabled || isDisconnecting}>
+          <XCircle className="h-4 w-4 mr-2" />
+          {isDisconnecting ? 'Disconnecting...' : `Disconnect ${platformName}`}
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Disconnect {platformName}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your {platformName} games will be removed from your library and stop syncing.
+            {details ? ` ${details}` : ''} You can connect the account again at any time.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleConfirm} className={buttonVariants({ variant: "destructive" })}>
+            Disconnect
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
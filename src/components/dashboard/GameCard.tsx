@@ -2,25 +2,43 @@ import { useState } from "react";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Game } from "@/types/gameTypes";
-import { platformInfo } from "@/config/platformConfig";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Game, PlayStatus } from "@/types/gameTypes";
+import { platformInfo, platformLabel } from "@/config/platformConfig";
+import { playStatusInfo } from "@/config/playStatusConfig";
 // ListChecks removed as Trophy is used instead for View Achievements button
-import { Clock, Trophy, Play, Download, MoreVertical } from "lucide-react";
+import { Clock, Trophy, Play, Download, MoreVertical, Split, Pencil, Disc, Star, BookOpen } from "lucide-react";
 import { AspectRatio } from "@/components/ui/aspect-ratio";
 import { useXbox } from "@/contexts/XboxContext";
+import { useSteam } from "@/contexts/SteamContext";
+import { usePsn } from "@/contexts/PsnContext";
 import { DetailedAchievementsModal } from "./DetailedAchievementsModal";
 
 interface GameCardProps {
   game: Game;
+  onSplit?: (entryId: string) => void; // Shows a "Split" action on each platform of a merged game
+  selectable?: boolean; // Shows a checkbox to pick the game for merging, tagging or a collection
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
+  onEdit?: (entry: Game) => void; // Shows an "Edit" action for a game the user added by hand
+  onPlayStatusChange?: (playStatus: PlayStatus | null) => void; // Shows the play status picker
+  onOpenDetails?: () => void; // Shows a "Details & review" action
 }
 
-export const GameCard = ({ game }: GameCardProps) => {
-  const platform = platformInfo[game.platform];
+export const GameCard = ({ game, onSplit, selectable, selected, onSelectedChange, onEdit, onPlayStatusChange, onOpenDetails }: GameCardProps) => {
+  // Games owned on several platforms carry one entry per platform
+  const entries = game.entries && game.entries.length > 0 ? game.entries : [game];
+  const ownedPlatforms = [...new Set(entries.map(entry => entry.platform === 'manual' ? `manual:${platformLabel(entry)}` : entry.platform))];
+  const manualEntry = entries.find(entry => entry.platform === 'manual');
+  const isPhysical = entries.some(entry => entry.format === 'physical');
+  const systems = [...new Set(entries.flatMap(entry => entry.systems ?? []))];
   const achievementProgress = game.achievements && typeof game.achievements.unlocked === 'number' && game.achievements.total > 0
     ? Math.round((game.achievements.unlocked / game.achievements.total) * 100)
     : 0;
   const isSteamGame = game.platform === 'steam' && game.appId;
   const isXboxGame = game.platform === 'xbox';
+  // Played PSN games without a trophy set have nothing to list
+  const isPsnTrophyGame = game.platform === 'psn' && game.appId && game.achievements && game.achievements.total > 0;
   const steamStoreUrl = isSteamGame ? `https://store.steampowered.com/app/${game.appId}` : '';
 
   const {
@@ -30,11 +48,19 @@ export const GameCard = ({ game }: GameCardProps) => {
     isLoadingDetailedAchievements,
     errorDetailedAchievements
   } = useXbox();
+  const steam = useSteam();
+  const psn = usePsn();
 
   const [isAchievementsModalOpen, setIsAchievementsModalOpen] = useState(false);
 
   const handleViewAchievementsClick = () => {
-    if (isXboxGame && currentXuid && game.id) {
+    if (isSteamGame && steam.steamId) {
+      steam.fetchDetailedSteamAchievements(steam.steamId, game.appId);
+      setIsAchievementsModalOpen(true);
+    } else if (isPsnTrophyGame && psn.isConnected) {
+      psn.fetchPsnTrophies(game.appId);
+      setIsAchievementsModalOpen(true);
+    } else if (isXboxGame && currentXuid && game.id) {
       const titleId = game.id.startsWith('xbox-') ? game.id.substring(5) : game.id;
       fetchDetailedXboxAchievements(currentXuid, titleId);
       setIsAchievementsModalOpen(true);
@@ -74,6 +100,26 @@ export const GameCard = ({ game }: GameCardProps) => {
     // Future: Add logic for other platforms or a generic "view game" action
   };
 
+  const platformBadges = [
+    ...ownedPlatforms.map(key => key.startsWith('manual:') ? (
+      <Badge key={key} className={`${platformInfo.manual.color} text-white`}>{key.slice('manual:'.length)}</Badge>
+    ) : platformInfo[key] && (
+      <Badge key={key} className={`${platformInfo[key].color} text-white`}>{platformInfo[key].name}</Badge>
+    )),
+    ...systems.map(system => <Badge key={`system:${system}`} variant="outline">{system}</Badge>),
+    isPhysical && (
+      <Badge key="physical" variant="secondary" className="gap-1"><Disc className="h-3 w-3" />Physical</Badge>
+    ),
+    game.playStatus && playStatusInfo[game.playStatus] && (
+      <Badge key="play-status" className={`${playStatusInfo[game.playStatus].color} text-white`}>{playStatusInfo[game.playStatus].name}</Badge>
+    ),
+    game.review?.score && (
+      <Badge key="score" variant="secondary" className="gap-1" aria-label={`Rated ${game.review.score} out of 10`}>
+        <Star className="h-3 w-3" />{game.review.score}
+      </Badge>
+    ),
+  ];
+
   // Determine the titleId for Xbox achievements, stripping the "xbox-" prefix
   const xboxTitleId = isXboxGame && game.id.startsWith('xbox-') ? game.id.substring(5) : game.id;
 
@@ -92,7 +138,7 @@ export const GameCard = ({ game }: GameCardProps) => {
                   />
                 </AspectRatio>
                 <div className="absolute top-2 left-2 flex items-center space-x-2">
-                  {platform && <Badge className={`${platform.color} text-white`}>{platform.name}</Badge>}
+                  {platformBadges}
                   <div className={`w-2 h-2 rounded-full ${getStatusColor(game.status)}`} />
                 </div>
                 {/* <Button
@@ -115,7 +161,7 @@ export const GameCard = ({ game }: GameCardProps) => {
                 />
               </AspectRatio>
               <div className="absolute top-2 left-2 flex items-center space-x-2">
-                {platform && <Badge className={`${platform.color} text-white`}>{platform.name}</Badge>}
+                {platformBadges}
                 {game.status && <div className={`w-2 h-2 rounded-full ${getStatusColor(game.status)}`} />}
               </div>
               {/* <Button
@@ -150,6 +196,20 @@ export const GameCard = ({ game }: GameCardProps) => {
                 })()}
               </p>
             )}
+              {game.developers && game.developers.length > 0 && (
+                <p className="text-xs text-muted-foreground">{game.developers.join(', ')}</p>
+              )}
+              {game.description && (
+                <p className="text-xs text-muted-foreground mt-1 line-clamp-2" title={game.description}>{game.description}</p>
+              )}
+              {game.tags && game.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1" aria-label="Tags">
+                  {game.tags.map(tag => <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>)}
+                </div>
+              )}
+              {manualEntry?.notes && (
+                <p className="text-xs italic text-muted-foreground mt-1 line-clamp-3 whitespace-pre-line" title={manualEntry.notes}>{manualEntry.notes}</p>
+              )}
             </div>
 
             <div className="flex items-center justify-between text-xs text-muted-foreground mt-2"> {/* Changed to text-xs and mt-2 */}
@@ -170,21 +230,81 @@ export const GameCard = ({ game }: GameCardProps) => {
                 Last played: {new Date(game.lastPlayed).toLocaleDateString()}
               </div>
             )}
+
+            {entries.length > 1 && (
+              <ul className="mt-2 space-y-1 border-t pt-2 text-xs text-muted-foreground" aria-label="Owned on">
+                {entries.map(entry => (
+                  <li key={entry.id} className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-foreground">{platformLabel(entry)}</span>
+                    <span className="flex items-center gap-2">
+                      <span>{formatPlaytime(entry.playtime)}</span>
+                      {entry.achievements.total > 0 && <span>{entry.achievements.unlocked}/{entry.achievements.total}</span>}
+                      {onSplit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => onSplit(entry.id)}
+                          aria-label={`Split the ${platformLabel(entry)} version into its own game`}
+                        >
+                          <Split className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </CardContent>
       
         <CardFooter className="pt-2 px-4 pb-4 mt-auto"> {/* Added pt-2, mt-auto */}
           <div className="w-full space-y-2">
-            {isXboxGame && (
+            {selectable && (
+              <label className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={!!selected}
+                  onCheckedChange={(checked) => onSelectedChange?.(checked === true)}
+                  aria-label={`Select ${game.title}`}
+                />
+                <span>Select</span>
+              </label>
+            )}
+            {onPlayStatusChange && (
+              <select
+                aria-label={`Play status of ${game.title}`}
+                className="flex h-9 w-full rounded-md border border-input bg-background px-3 text-sm"
+                value={game.playStatus || ''}
+                onChange={(e) => onPlayStatusChange((e.target.value || null) as PlayStatus | null)}
+              >
+                <option value="">No play status</option>
+                {Object.entries(playStatusInfo).map(([value, info]) => (
+                  <option key={value} value={value}>{info.name}</option>
+                ))}
+              </select>
+            )}
+            {onOpenDetails && (
+              <Button variant="outline" size="sm" className="w-full" onClick={onOpenDetails}>
+                <BookOpen className="h-4 w-4 mr-2" />
+                {game.review ? 'Details & review' : 'Details & write a review'}
+              </Button>
+            )}
+            {manualEntry && onEdit && (
+              <Button variant="outline" size="sm" className="w-full" onClick={() => onEdit(manualEntry)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            )}
+            {(isXboxGame || isSteamGame || isPsnTrophyGame) && (
               <Button
                 variant="outline"
                 size="sm"
                 className="w-full"
                 onClick={handleViewAchievementsClick}
-                disabled={!currentXuid}
+                disabled={isXboxGame ? !currentXuid : isSteamGame ? !steam.steamId : !psn.isConnected}
               >
                 <Trophy className="h-4 w-4 mr-2" />
-                View Achievements
+                {isPsnTrophyGame ? 'View Trophies' : 'View Achievements'}
               </Button>
             )}
             <Button
@@ -215,6 +335,27 @@ export const GameCard = ({ game }: GameCardProps) => {
           error={errorDetailedAchievements[xboxTitleId] || null}
         />
       )}
+      {isSteamGame && (
+        <DetailedAchievementsModal
+          isOpen={isAchievementsModalOpen}
+          onClose={() => setIsAchievementsModalOpen(false)}
+          gameName={game.title}
+          achievements={steam.detailedAchievements[game.appId] || null}
+          isLoading={!!steam.isLoadingDetailedAchievements[game.appId]}
+          error={steam.errorDetailedAchievements[game.appId] || null}
+        />
+      )}
+      {isPsnTrophyGame && (
+        <DetailedAchievementsModal
+          isOpen={isAchievementsModalOpen}
+          onClose={() => setIsAchievementsModalOpen(false)}
+          gameName={game.title}
+          achievements={psn.trophyLists[game.appId]?.trophies || null}
+          groups={psn.trophyLists[game.appId]?.groups}
+          isLoading={!!psn.isLoadingTrophies[game.appId]}
+          error={psn.errorTrophies[game.appId] || null}
+        />
+      )}
     </>
   );
 };
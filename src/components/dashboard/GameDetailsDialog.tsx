@@ -0,0 +1,190 @@
+import { useState, useEffect, FormEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Game } from "@/types/gameTypes";
+import { platformLabel } from "@/config/platformConfig";
+import { playStatusInfo } from "@/config/playStatusConfig";
+import { toast } from "@/components/ui/use-toast";
+import { MarkdownText } from "./MarkdownText";
+import { Eye, Loader2, Pencil, Star, Trash2 } from "lucide-react";
+
+interface GameDetailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  game: Game | null;
+  onSaved: () => void; // Called after the review is saved or deleted so the library can be reloaded
+}
+
+interface ReviewForm {
+  score: string; // '' for no score
+  review: string;
+  notes: string;
+  finishedAt: string; // yyyy-mm-dd from the date input
+}
+
+const SCORES = Array.from({ length: 10 }, (_, index) => 10 - index);
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const initialForm = (game: Game | null): ReviewForm => ({
+  score: game?.review?.score ? String(game.review.score) : '',
+  review: game?.review?.review || '',
+  notes: game?.review?.notes || '',
+  finishedAt: game?.review?.finishedAt ? game.review.finishedAt.slice(0, 10) : '',
+});
+
+export const GameDetailsDialog = ({ open, onOpenChange, game, onSaved }: GameDetailsDialogProps) => {
+  const [form, setForm] = useState<ReviewForm>(() => initialForm(game));
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the stored review every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForm(initialForm(game));
+      setIsPreviewing(false);
+    }
+  }, [open, game]);
+
+  if (!game) return null;
+
+  const entries = game.entries && game.entries.length > 0 ? game.entries : [game];
+  const gameIds = entries.map(entry => entry.id);
+  const hasReview = !!game.review;
+  const isEmpty = !form.score && !form.review.trim() && !form.notes.trim() && !form.finishedAt;
+
+  const setField = <K extends keyof ReviewForm>(field: K, value: ReviewForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const send = async (method: 'PUT' | 'DELETE', body: object, successMessage: string, failureMessage: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/library/review', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error: ${response.status}`);
+      }
+      toast({ title: successMessage });
+      onOpenChange(false);
+      onSaved();
+    } catch (err) {
+      toast({
+        title: failureMessage,
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    send('PUT', {
+      gameIds,
+      score: form.score ? Number(form.score) : null,
+      review: form.review,
+      notes: form.notes,
+      finishedAt: form.finishedAt ? new Date(`${form.finishedAt}T00:00:00`).toISOString() : null,
+    }, `Saved your review of ${game.title}`, 'Could not save the review');
+  };
+
+  const handleDelete = () => {
+    send('DELETE', { gameIds }, `Deleted your review of ${game.title}`, 'Could not delete the review');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{game.title}</DialogTitle>
+          <DialogDescription className="flex flex-wrap items-center gap-2">
+            {entries.map(entry => (
+              <span key={entry.id}>{platformLabel(entry)} · {entry.playtime}h</span>
+            ))}
+            {game.playStatus && <Badge variant="secondary">{playStatusInfo[game.playStatus]?.name}</Badge>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4">
+          {game.coverImage && game.coverImage !== '/placeholder.svg' && (
+            <img src={game.coverImage} alt="" className="w-40 h-auto rounded object-cover flex-shrink-0 hidden sm:block" />
+          )}
+          <div className="space-y-1 text-sm text-muted-foreground">
+            {game.developers && game.developers.length > 0 && <p>{game.developers.join(', ')}</p>}
+            {game.releaseYear > 0 && <p>Released {game.releaseYear}</p>}
+            {game.description && <p className="line-clamp-4">{game.description}</p>}
+            {game.achievements.total > 0 && <p>{game.achievements.unlocked}/{game.achievements.total} achievements</p>}
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Star className="h-4 w-4" />
+            Your review
+          </h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="review-score">Score</Label>
+              <select id="review-score" className={selectClassName} value={form.score} onChange={(e) => setField('score', e.target.value)}>
+                <option value="">No score</option>
+                {SCORES.map(score => <option key={score} value={score}>{score}/10</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="review-finished">Finished on</Label>
+              <Input id="review-finished" type="date" value={form.finishedAt} onChange={(e) => setField('finishedAt', e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="review-text">Review</Label>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsPreviewing(previewing => !previewing)}>
+                {isPreviewing ? <Pencil className="h-4 w-4 mr-1" /> : <Eye className="h-4 w-4 mr-1" />}
+                {isPreviewing ? 'Write' : 'Preview'}
+              </Button>
+            </div>
+            {isPreviewing ? (
+              <div className="min-h-[120px] rounded-md border p-3" data-testid="review-preview">
+                {form.review.trim() ? <MarkdownText source={form.review} /> : <p className="text-sm text-muted-foreground">Nothing to preview</p>}
+              </div>
+            ) : (
+              <Textarea
+                id="review-text"
+                rows={6}
+                placeholder="Markdown: **bold**, *italic*, # headings, - lists"
+                value={form.review}
+                onChange={(e) => setField('review', e.target.value)}
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-notes">Private notes</Label>
+            <Textarea id="review-notes" rows={3} value={form.notes} onChange={(e) => setField('notes', e.target.value)} />
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            {hasReview ? (
+              <Button type="button" variant="destructive" onClick={handleDelete} disabled={isSaving}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete review
+              </Button>
+            ) : <span />}
+            <Button type="submit" disabled={isSaving || isEmpty}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save review
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
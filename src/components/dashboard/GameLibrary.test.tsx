@@ -1,14 +1,12 @@
 import React from 'react';
-import { render, screen, waitFor, within } from '@testing-library/react';
+import { render, screen, waitFor, within, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { GameLibrary } from './GameLibrary';
-import { Game } from '@/types/gameTypes'; // Assuming Game type is exported
-import { useSteam } from '@/contexts/SteamContext'; // Import useSteam
+import { Game, UnifiedLibraryResponse } from '@/types/gameTypes';
+import { useAuth } from '@/contexts/AuthContext';
+import { useXbox } from '@/contexts/XboxContext';
 import fetchMock from 'jest-fetch-mock';
 
-// Define SteamUserProfile for mockSteamProfile if needed for explicit typing, mirroring SteamContext.tsx
-type SteamUserProfile = { personaName: string; avatarFull: string; profileUrl: string };
-
 // Mock lucide-react icons
 jest.mock('lucide-react', () => {
   const original = jest.requireActual('lucide-react');
@@ -23,227 +21,319 @@ jest.mock('lucide-react', () => {
 
 // Mock GameCard to simplify testing GameLibrary's logic
 jest.mock('./GameCard', () => ({
-  // GameCard: ({ game }: { game: Game }) => (
-  //   <div data-testid={`game-card-${game.id}`} aria-label={game.title}>
-  //     {/* Added comment to ensure diff picks up this block for search if needed */}
-  //     {game.title}
-  //   </div>
-  // ),
-  // New mock:
-  GameCard: (props: { game: Game }) => {
+  GameCard: (props: { game: Game; selectable?: boolean; onSelectedChange?: (selected: boolean) => void }) => {
     mockGameCard(props); // Capture props passed to GameCard
     return (
       <div data-testid={`game-card-${props.game.id}`} aria-label={props.game.title}>
         {props.game.title} - Achievements: {props.game.achievements.unlocked}/{props.game.achievements.total}
+        {props.selectable && <button onClick={() => props.onSelectedChange?.(true)}>Select {props.game.title}</button>}
       </div>
     );
   },
 }));
 
+jest.mock('@/components/ui/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('@/contexts/XboxContext', () => ({
+  useXbox: jest.fn(),
+}));
+
 const mockGameCard = jest.fn();
+const mockUseAuth = useAuth as jest.Mock;
+const mockUseXbox = useXbox as jest.Mock;
+
+// Sync status of a library whose background sync already finished, so no polling kicks in
+const completedSync = { state: 'completed', inProgress: false, progress: { processed: 2, total: 2 }, lastSyncedAt: '2024-01-01T00:00:00.000Z', lastError: null };
 
 const mockGames: Game[] = [
   {
     id: '1',
     title: 'Local Game 1',
-    platform: 'steam', // Changed from 'pc' to a valid platform
-    coverImage: '/placeholder.svg', // Added from Game interface
+    platform: 'steam',
+    coverImage: '/placeholder.svg',
     playtime: 10,
-    lastPlayed: '2024-01-15T10:00:00.000Z', // Added from Game interface
-    achievements: { unlocked: 5, total: 10 }, // Changed 'current' to 'unlocked'
-    status: 'installed', // Changed from 'played' to a valid status
-    genre: ['RPG'], // Changed to string[]
-    releaseYear: 2023, // Changed from releaseDate
+    lastPlayed: '2024-01-15T10:00:00.000Z',
+    achievements: { unlocked: 5, total: 10 },
+    status: 'installed',
+    genre: ['RPG'],
+    releaseYear: 2023,
   },
   {
     id: '2',
     title: 'Local Game 2',
     platform: 'xbox',
-    coverImage: '/placeholder.svg', // Added from Game interface
+    coverImage: '/placeholder.svg',
     playtime: 25,
-    lastPlayed: '2024-03-20T15:30:00.000Z', // Added from Game interface
-    achievements: { unlocked: 1, total: 20 }, // Changed 'current' to 'unlocked'
-    status: 'not_installed', // Changed from 'owned' to a valid status
-    genre: ['Action'], // Changed to string[]
-    releaseYear: 2022, // Changed from releaseDate
+    lastPlayed: '2024-03-20T15:30:00.000Z',
+    achievements: { unlocked: 1, total: 20 },
+    status: 'not_installed',
+    genre: ['Action'],
+    releaseYear: 2022,
   },
 ];
 
-describe('GameLibrary Component', () => {
-// Mock useSteam hook
-jest.mock('@/contexts/SteamContext', () => ({
-  useSteam: jest.fn(),
-}));
-
-const mockUseSteam = useSteam as jest.Mock;
+const libraryGame = (overrides: Partial<Game>): Game => ({
+  id: 'steam-0',
+  appId: '0',
+  title: 'Game',
+  platform: 'steam',
+  coverImage: '/placeholder.svg',
+  playtime: 0,
+  lastPlayed: new Date(0).toISOString(),
+  achievements: { unlocked: 0, total: 0 },
+  status: 'not_installed',
+  genre: ['Unknown Genre'],
+  releaseYear: 0,
+  ...overrides,
+});
 
+const mockLibrary: UnifiedLibraryResponse = {
+  games: [
+    libraryGame({ id: 'steam-730', appId: '730', title: 'Counter-Strike 2', playtime: 200, achievements: { unlocked: 50, total: 167 } }),
+    libraryGame({ id: 'psn-NPWR1', appId: 'NPWR1', title: 'Astro Bot', platform: 'psn', achievements: { unlocked: 4, total: 10 } }),
+  ],
+  platforms: {
+    steam: { platform: 'steam', label: 'Steam', linked: true, gameCount: 1, sync: completedSync, error: null },
+    psn: { platform: 'psn', label: 'PSN', linked: true, gameCount: 1, sync: completedSync, error: null },
+    gog: { platform: 'gog', label: 'GOG', linked: true, gameCount: 0, sync: completedSync, error: null },
+  },
+};
 
 describe('GameLibrary Component', () => {
   beforeEach(() => {
     fetchMock.resetMocks();
     mockGameCard.mockClear(); // Clear mock before each test
-    mockUseSteam.mockReturnValue({
-      steamId: null,
-      steamUser: null,
-      isAuthenticated: false, // Default to not authenticated
-      isLoadingSteamProfile: false,
-      steamProfileError: null,
-    });
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1', steamId: '7656' } });
+    mockUseXbox.mockReturnValue({ currentXuid: null });
   });
 
-  it('should render local games initially when not authenticated', () => {
+  it('should render local games without fetching the library when no user is logged in', () => {
+    mockUseAuth.mockReturnValue({ user: null });
+
     render(<GameLibrary games={mockGames} selectedPlatform="all" onPlatformChange={() => {}} />);
-    expect(screen.getByText('Local Game 1')).toBeInTheDocument();
-    expect(screen.getByText('Local Game 2')).toBeInTheDocument();
-    expect(screen.queryByText('Counter-Strike 2')).not.toBeInTheDocument(); // Steam game should not be there
+
+    expect(screen.getByText(/Local Game 1/)).toBeInTheDocument();
+    expect(screen.getByText(/Local Game 2/)).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
   });
 
-  it('should fetch and display Steam games when steamId and steamUser are in context', async () => {
-    const mockSteamGames = [
-      {
-        appID: 730,
-        name: 'Counter-Strike 2',
-        playtimeForever: 12000,
-        imgIconURL: 'csgo.jpg',
-        imgLogoURL: 'csgo_logo.jpg',
-        achievements: { unlocked: 50, total: 167 }
-      },
-      {
-        appID: 570,
-        name: 'Dota 2',
-        playtimeForever: 30000,
-        imgIconURL: 'dota2.jpg',
-        imgLogoURL: 'dota2_logo.jpg',
-        achievements: { unlocked: 10, total: 50 }
-      },
-    ];
-    fetchMock.mockResponseOnce(JSON.stringify(mockSteamGames));
-    const steamId = 'teststeamid123';
-    const mockSteamProfile: SteamUserProfile = { personaName: 'TestSteam', avatarFull: 'avatar.jpg', profileUrl: 'url' };
-    mockUseSteam.mockReturnValue({
-      steamId: steamId,
-      steamUser: mockSteamProfile,
-      isAuthenticated: true, // User is authenticated
-      isLoadingSteamProfile: false,
-      steamProfileError: null,
-    });
+  it('should display the games of every linked platform from /api/library', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify(mockLibrary));
 
-    render(
-      <GameLibrary
-        games={mockGames}
-        selectedPlatform="all"
-        onPlatformChange={() => {}}
-        // steamId prop removed
-      />
-    );
+    render(<GameLibrary games={mockGames} selectedPlatform="all" onPlatformChange={() => {}} />);
 
     await waitFor(() => {
-      expect(fetchMock).toHaveBeenCalledWith(`/api/steam/user/${steamId}/games`);
+      expect(fetchMock).toHaveBeenCalledWith('/api/library');
     });
-
-    // Check if Steam games are displayed
-    // The GameCard mock now includes achievement text, so we can check for that pattern
     expect(await screen.findByText(/Counter-Strike 2 - Achievements: 50\/167/i)).toBeInTheDocument();
-    expect(await screen.findByText(/Dota 2 - Achievements: 10\/50/i)).toBeInTheDocument();
-    expect(screen.getByText('Local Game 1')).toBeInTheDocument(); // Local games still present
-
-    const steamPlatformButton = await screen.findByRole('button', { name: /Steam/ });
-    expect(steamPlatformButton).toBeInTheDocument();
-    expect(within(steamPlatformButton).getByText('2')).toBeInTheDocument(); // Count for Steam games
-
-    // Example assertion (add this inside the test case):
-    await waitFor(() => { // Ensure games are processed
-      expect(mockGameCard).toHaveBeenCalledWith(
-        expect.objectContaining({
-          game: expect.objectContaining({
-            id: 'steam-730', // ID after transformation by steamGameToGameType
-            title: 'Counter-Strike 2',
-            achievements: { unlocked: 50, total: 167 },
-          }),
-        })
-      );
-      expect(mockGameCard).toHaveBeenCalledWith(
-        expect.objectContaining({
-          game: expect.objectContaining({
-            id: 'steam-570', // ID after transformation by steamGameToGameType
-            title: 'Dota 2',
-            achievements: { unlocked: 10, total: 50 },
-          }),
-        })
-      );
-    });
+    expect(screen.getByText(/Astro Bot - Achievements: 4\/10/i)).toBeInTheDocument();
+    expect(screen.getByText(/Local Game 1/)).toBeInTheDocument(); // Local games still present
+
+    expect(mockGameCard).toHaveBeenCalledWith(expect.objectContaining({
+      game: expect.objectContaining({ id: 'steam-730', title: 'Counter-Strike 2' }),
+    }));
+
+    const steamPlatformButton = screen.getByRole('button', { name: /Steam/ });
+    expect(within(steamPlatformButton).getByText('2')).toBeInTheDocument(); // Local Game 1 + Counter-Strike 2
+    // Linked platforms get a filter even before they have games
+    expect(within(screen.getByRole('button', { name: /GOG/ })).getByText('0')).toBeInTheDocument();
   });
 
-  it('should display an error message if fetching Steam games fails when steamId is in context', async () => {
-    fetchMock.mockResponseOnce(JSON.stringify({ error: 'Failed to load Steam games' }), { status: 500 });
-    const steamId = 'errorsteamid';
-    const mockSteamProfile: SteamUserProfile = { personaName: 'TestSteam', avatarFull: 'avatar.jpg', profileUrl: 'url' };
-    mockUseSteam.mockReturnValue({
-      steamId: steamId,
-      steamUser: mockSteamProfile,
-      isAuthenticated: true,
-      isLoadingSteamProfile: false,
-      steamProfileError: null,
-    });
+  it('should look up an Xbox library loaded by XUID that is not linked', async () => {
+    mockUseXbox.mockReturnValue({ currentXuid: '2533' });
+    fetchMock.mockResponseOnce(JSON.stringify({ games: [], platforms: {} }));
 
-    render(
-      <GameLibrary
-        games={mockGames}
-        selectedPlatform="all"
-        onPlatformChange={() => {}}
-      />
-    );
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
 
     await waitFor(() => {
-      expect(fetchMock).toHaveBeenCalledWith(`/api/steam/user/${steamId}/games`);
+      expect(fetchMock).toHaveBeenCalledWith('/api/library?xuid=2533');
     });
+  });
 
-    expect(await screen.findByText('Error Loading Steam Games')).toBeInTheDocument();
-    expect(await screen.findByText('Failed to load Steam games')).toBeInTheDocument();
+  it('should show a platform that failed to load next to the other games', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({
+      ...mockLibrary,
+      games: [mockLibrary.games[0]],
+      platforms: {
+        ...mockLibrary.platforms,
+        psn: { platform: 'psn', label: 'PSN', linked: true, gameCount: 0, sync: null, error: 'Failed to load PSN games.' },
+      },
+    }));
+
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
+
+    expect(await screen.findByText('Error Loading PSN Games')).toBeInTheDocument();
+    expect(screen.getByText('Failed to load PSN games.')).toBeInTheDocument();
+    expect(screen.getByText(/Counter-Strike 2/)).toBeInTheDocument();
   });
 
-  it('should display loading indicator for Steam games when steamId is in context', async () => {
+  it('should display an error message if the library request fails', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ error: 'Failed to load your game library.' }), { status: 500 });
+
+    render(<GameLibrary games={mockGames} selectedPlatform="all" onPlatformChange={() => {}} />);
+
+    expect(await screen.findByText('Error Loading Your Library')).toBeInTheDocument();
+    expect(screen.getByText('Failed to load your game library.')).toBeInTheDocument();
+  });
+
+  it('should display a loading indicator while the library loads', async () => {
     fetchMock.mockResponseOnce(async () => {
       await new Promise(resolve => setTimeout(resolve, 100));
-      return JSON.stringify([]);
+      return JSON.stringify({ games: [], platforms: {} });
+    });
+
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
+    expect(screen.getByText('Loading your game library...')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.queryByText('Loading your game library...')).not.toBeInTheDocument();
     });
-    const steamId = 'loadingsteamid';
-    const mockSteamProfile: SteamUserProfile = { personaName: 'TestSteam', avatarFull: 'avatar.jpg', profileUrl: 'url' };
-    mockUseSteam.mockReturnValue({
-      steamId: steamId,
-      steamUser: mockSteamProfile,
-      isAuthenticated: true,
-      isLoadingSteamProfile: false,
-      steamProfileError: null,
+  });
+
+  it('should explain an empty linked platform when it is selected', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify(mockLibrary));
+
+    render(<GameLibrary games={[]} selectedPlatform="gog" onPlatformChange={() => {}} />);
+
+    expect(await screen.findByText('No GOG games to display.')).toBeInTheDocument();
+  });
+
+  it('should count a game owned on several platforms under each of them', async () => {
+    const steamEntry = mockLibrary.games[0];
+    const gogEntry = libraryGame({ id: 'gog-9', appId: '9', title: 'Counter-Strike 2', platform: 'gog' });
+    fetchMock.mockResponseOnce(JSON.stringify({
+      ...mockLibrary,
+      games: [{ ...steamEntry, entries: [steamEntry, gogEntry] }],
+    }));
+
+    render(<GameLibrary games={[]} selectedPlatform="gog" onPlatformChange={() => {}} />);
+
+    expect(await screen.findByText(/Counter-Strike 2/)).toBeInTheDocument();
+    expect(within(screen.getByRole('button', { name: /GOG/ })).getByText('1')).toBeInTheDocument();
+    expect(within(screen.getByRole('button', { name: /Steam/ })).getByText('1')).toBeInTheDocument();
+  });
+
+  it('should sort the library by the most recently played game', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({
+      ...mockLibrary,
+      games: [
+        libraryGame({ id: 'steam-1', appId: '1', title: 'Alan Wake 2', lastPlayed: '2024-02-01T00:00:00.000Z' }),
+        libraryGame({ id: 'steam-2', appId: '2', title: 'Balatro' }), // Never played
+        libraryGame({ id: 'psn-3', appId: '3', title: 'Celeste', platform: 'psn', lastPlayed: '2024-06-01T00:00:00.000Z' }),
+      ],
+    }));
+
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
+
+    await screen.findByText(/Alan Wake 2/);
+    const titles = () => screen.getAllByTestId(/^game-card-/).map(card => card.getAttribute('aria-label'));
+    expect(titles()).toEqual(['Alan Wake 2', 'Balatro', 'Celeste']);
+
+    fireEvent.click(screen.getByRole('button', { name: /Recently played/ }));
+
+    expect(titles()).toEqual(['Celeste', 'Alan Wake 2', 'Balatro']);
+  });
+
+  it('should merge the selected games with all of their platform entries', async () => {
+    const steamEntry = mockLibrary.games[0];
+    const xboxEntry = libraryGame({ id: 'xbox-1', appId: '1', title: 'CS2', platform: 'xbox' });
+    fetchMock.mockResponses(
+      JSON.stringify({ ...mockLibrary, games: [{ ...steamEntry, entries: [steamEntry, xboxEntry] }, mockLibrary.games[1]] }),
+      JSON.stringify({ gameIds: ['steam-730', 'xbox-1', 'psn-NPWR1'], groupKey: 'k1' }),
+      JSON.stringify(mockLibrary),
+    );
+
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Select games/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Select Counter-Strike 2' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Select Astro Bot' }));
+    fireEvent.click(screen.getByRole('button', { name: /Merge selected \(2\)/ }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith('/api/library/merge', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ gameIds: ['steam-730', 'xbox-1', 'psn-NPWR1'] }),
+      }));
     });
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3)); // The library is reloaded
+  });
 
-    render(
-      <GameLibrary
-        games={[]}
-        selectedPlatform="all"
-        onPlatformChange={() => {}}
-      />
+  it('should add the selected games to a collection and browse it', async () => {
+    const collection = { id: 'c1', name: 'Co-op nights', gameIds: ['psn-NPWR1'] };
+    const [counterStrike, astroBot] = mockLibrary.games;
+    fetchMock.mockResponses(
+      JSON.stringify({ ...mockLibrary, games: [counterStrike, { ...astroBot, collectionIds: ['c1'] }], collections: [collection] }),
+      JSON.stringify({ ...collection, gameIds: ['psn-NPWR1', 'steam-730'] }),
+      JSON.stringify({ ...mockLibrary, games: [{ ...counterStrike, collectionIds: ['c1'] }, { ...astroBot, collectionIds: ['c1'] }], collections: [collection] }),
     );
-    expect(screen.getByText('Loading Steam games...')).toBeInTheDocument();
+
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Co-op nights/ }));
+    expect(screen.queryByText(/Counter-Strike 2/)).not.toBeInTheDocument();
+    expect(screen.getByText(/Astro Bot/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /All games/ }));
+    fireEvent.click(screen.getByRole('button', { name: /Select games/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Select Counter-Strike 2' }));
+    fireEvent.change(screen.getByRole('combobox', { name: 'Add to collection' }), { target: { value: 'c1' } });
 
     await waitFor(() => {
-      expect(screen.queryByText('Loading Steam games...')).not.toBeInTheDocument();
+      expect(fetchMock).toHaveBeenCalledWith('/api/library/collections/c1/games', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ gameIds: ['steam-730'] }),
+      }));
     });
-    expect(fetchMock).toHaveBeenCalledWith(`/api/steam/user/${steamId}/games`);
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3)); // The library is reloaded
   });
 
-  it('should not fetch Steam games if steamId is null in context', () => {
-    mockUseSteam.mockReturnValue({
-        steamId: null,
-        steamUser: null,
-        isAuthenticated: false,
-        isLoadingSteamProfile: false,
-        steamProfileError: null,
+  it('should tag the selected games and filter by tag', async () => {
+    const [counterStrike, astroBot] = mockLibrary.games;
+    fetchMock.mockResponses(
+      JSON.stringify({ ...mockLibrary, games: [counterStrike, { ...astroBot, tags: ['platformer'] }] }),
+      JSON.stringify({ gameIds: ['steam-730'], add: ['competitive'], remove: [] }),
+      JSON.stringify(mockLibrary),
+    );
+
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
+
+    fireEvent.change(await screen.findByRole('combobox', { name: 'Tag' }), { target: { value: 'platformer' } });
+    expect(screen.queryByText(/Counter-Strike 2/)).not.toBeInTheDocument();
+    fireEvent.change(screen.getByRole('combobox', { name: 'Tag' }), { target: { value: '' } });
+
+    fireEvent.click(screen.getByRole('button', { name: /Select games/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Select Counter-Strike 2' }));
+    fireEvent.change(screen.getByRole('textbox', { name: 'New tag' }), { target: { value: 'competitive' } });
+    fireEvent.click(screen.getByRole('button', { name: /Tag selected/ }));
+
+    await waitFor(() => {
+      expect(fetchMock).toHaveBeenCalledWith('/api/library/tags', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ gameIds: ['steam-730'], add: ['competitive'] }),
+      }));
     });
-    render(<GameLibrary games={mockGames} selectedPlatform="all" onPlatformChange={() => {}} />);
-    expect(fetchMock).not.toHaveBeenCalled();
-    expect(screen.queryByRole('button', { name: /Steam/ })).not.toBeInTheDocument(); // Steam filter should not show
   });
 
-  // TODO: Add tests for filtering behavior when Steam games are present and selectedPlatform changes
+  it('should browse a smart collection without offering it for adding games', async () => {
+    const smart = { id: 'c2', name: 'Short games', gameIds: ['psn-NPWR1'], rules: { match: 'all' as const, conditions: [{ field: 'playtime' as const, operator: 'lt' as const, value: 5 }] } };
+    const [counterStrike, astroBot] = mockLibrary.games;
+    fetchMock.mockResponseOnce(JSON.stringify({ ...mockLibrary, games: [counterStrike, { ...astroBot, collectionIds: ['c2'] }], collections: [smart] }));
+
+    render(<GameLibrary games={[]} selectedPlatform="all" onPlatformChange={() => {}} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /Short games/ }));
+    expect(screen.queryByText(/Counter-Strike 2/)).not.toBeInTheDocument();
+    expect(screen.getByText(/Astro Bot/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Select games/ }));
+    expect(screen.queryByRole('combobox', { name: 'Add to collection' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /Remove from Short games/ })).not.toBeInTheDocument();
+  });
 });
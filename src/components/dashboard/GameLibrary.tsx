@@ -1,243 +1,342 @@
-
-import { useState, useEffect } from "react";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"; // Added CardHeader, CardTitle, CardDescription
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Game } from "@/types/gameTypes";
+import { Game, GameCollection, PlayStatus, UnifiedLibraryResponse } from "@/types/gameTypes";
 import { platformInfo } from "@/config/platformConfig";
+import { playStatusInfo } from "@/config/playStatusConfig";
 type PlatformInfo = typeof platformInfo;
-import { Clock, Trophy, Play, Download, Search, AlertTriangle, Loader2 } from "lucide-react"; // Added AlertTriangle, Loader2
+import { Download, Search, AlertTriangle, Loader2, Combine, ArrowDownAZ, History, Plus, Star, CheckSquare, Tag } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { GameCard } from "./GameCard";
-
-// Basic interface for Steam games (adapt as needed based on actual API response)
-interface SteamGame {
-  appID: number;
-  name: string;
-  playtimeForever: number; // in minutes
-  imgIconURL: string;
-  imgLogoURL?: string; // Often available, good for a larger image if needed
-  achievements: { // Added this field
-    unlocked: number;
-    total: number;
-  };
-}
-
-// Basic interface for GOG games (adapt as needed based on actual API response)
-interface GogGame {
-  appID: string; // GOG uses id, which is a string in the backend
-  name: string;
-  imgIconURL: string;
-  playtimeForever: number; // Defaulted to 0 in backend
-  achievements: {
-    unlocked: number;
-    total: number;
-  };
-}
+import { SyncStatusNotice } from "./SyncStatusNotice";
+import { ManualGameDialog } from "./ManualGameDialog";
+import { GameDetailsDialog } from "./GameDetailsDialog";
+import { CollectionsBar } from "./CollectionsBar";
+import { LibraryExportButton } from "./LibraryExportButton";
+import { LiveSyncProgress, SyncEvent, SYNC_POLL_INTERVAL_MS } from "@/types/syncTypes";
+import { useSyncEvents } from "@/hooks/use-sync-events";
+import { useAuth } from "@/contexts/AuthContext";
+import { useXbox } from "@/contexts/XboxContext";
+import { toast } from "@/components/ui/use-toast";
 
 interface GameLibraryProps {
-  games: Game[]; // Existing games (e.g., from other platforms or manual entries)
+  games?: Game[]; // Extra games shown next to the library (e.g., from other platforms)
   selectedPlatform: string;
   onPlatformChange: (platform: string) => void;
-  // steamId?: string; // Steam ID will now come from context
+  onLibraryChange?: (games: Game[]) => void; // Called with the stored library games whenever they are (re)loaded
 }
 
-import { useSteam } from "@/contexts/SteamContext";
-import { useGog } from "@/contexts/GogContext";
-import { useXbox } from "@/contexts/XboxContext"; // Import useXbox
-import type { XboxGame } from "@/contexts/XboxContext"; // Import XboxGame type
-import { usePsn } from '@/contexts/PsnContext'; // Import usePsn
-import type { PsnGame } from '@/contexts/PsnContext'; // Import PsnGame type
-
-// Helper to convert SteamGame to Game for consistent display, or GameCard could be adapted
-const steamGameToGameType = (steamGame: SteamGame): Game | null => {
-  if (!steamGame || typeof steamGame.appID === 'undefined' || steamGame.appID === null) {
-    console.warn('Skipping Steam game with missing or invalid appID:', steamGame);
-    return null;
-  }
-
-  const gameTitle = steamGame.name || 'Unknown Steam Game';
-  const playtimeHours = typeof steamGame.playtimeForever === 'number' ? Math.round(steamGame.playtimeForever / 60) : 0;
-
-  // Construct image URL safely, using a placeholder if data is missing
-  // The current GameCard uses coverImage. header.jpg is usually available.
-  // imgIconURL is for smaller list icons, not usually for card headers.
-  const coverImg = `https://cdn.akamai.steamstatic.com/steam/apps/${steamGame.appID}/header.jpg`;
-  // If imgIconURL was needed for something else:
-  // const iconUrl = steamGame.imgIconURL || '';
-  // const smallImageUrl = iconUrl ? `https://media.steampowered.com/steamcommunity/public/images/apps/${steamGame.appID}/${iconUrl}.jpg` : 'placeholder_icon.svg';
-
-  // Default values for fields not present in Steam's GetOwnedGames API response
-  const defaultLastPlayed = new Date(0).toISOString(); // Epoch time as a placeholder
-  // const defaultAchievements = { unlocked: 0, total: 0 }; // Removed, as backend provides it
-  const defaultStatus = 'not_installed'; // Or 'owned' - 'not_installed' seems reasonable
-  const defaultGenre: string[] = ['Unknown Genre']; // Default to an array with 'Unknown Genre'
-  const defaultReleaseYear = 0; // Placeholder for unknown year
-
-  return {
-    id: `steam-${steamGame.appID.toString()}`, // Unique ID for React keys
-    appId: steamGame.appID.toString(),
-    title: gameTitle,
-    platform: 'steam',
-    coverImage: coverImg,
-    // imageUrl: coverImg, // Redundant if GameCard uses coverImage, ensure Game uses one primary image prop
-    playtime: playtimeHours,
-    lastPlayed: defaultLastPlayed, // Steam API doesn't provide this in GetOwnedGames
-    achievements: steamGame.achievements, // Use achievements data from backend
-    status: defaultStatus, // Steam API GetOwnedGames doesn't provide installation status
-    genre: defaultGenre, // Steam API GetOwnedGames doesn't provide genre
-    releaseYear: defaultReleaseYear, // Steam API GetOwnedGames doesn't provide release year
-    // Ensure any other fields from the 'Game' interface (from mockGameData.ts) are considered
-  };
+// Hints shown when a linked platform has no games yet
+const EMPTY_PLATFORM_MESSAGES: Partial<Record<Game['platform'], string>> = {
+  steam: 'No Steam games to display or library is private.',
+  xbox: 'No Xbox games to display or profile is private.',
+  psn: 'No PSN games to display or library is empty.',
+  gog: 'No GOG games to display.',
+  epic: 'No Epic games yet. Import a Legendary or Heroic export from Platform Connections.',
+  manual: 'No games added by hand yet. Use "Add game" for other stores and physical copies.',
 };
 
-// Helper to convert GogGame to Game for consistent display
-const gogGameToGameType = (gogGame: GogGame): Game | null => {
-  if (!gogGame || typeof gogGame.appID === 'undefined' || gogGame.appID === null) {
-    console.warn('Skipping GOG game with missing or invalid appID:', gogGame);
-    return null;
-  }
-
-  const gameTitle = gogGame.name || 'Unknown GOG Game';
-  // playtimeForever is already a number (defaulted to 0 in backend)
-  const playtimeHours = gogGame.playtimeForever;
-
-
-  // Default values for fields not present or different in GOG's API response
-  const defaultLastPlayed = new Date(0).toISOString(); // Epoch time as a placeholder
-  const defaultStatus = 'owned'; // GOG games are owned
-  const defaultGenre: string[] = ['Unknown Genre'];
-  const defaultReleaseYear = 0; // Placeholder for unknown year
-
-  return {
-    id: `gog-${gogGame.appID}`, // Unique ID for React keys
-    title: gameTitle,
-    platform: 'gog',
-    coverImage: gogGame.imgIconURL || 'placeholder_cover.svg', // Use imgIconURL as cover, or a placeholder
-    playtime: playtimeHours,
-    lastPlayed: defaultLastPlayed,
-    achievements: gogGame.achievements, // Use achievements data from backend (defaulted)
-    status: defaultStatus,
-    genre: defaultGenre,
-    releaseYear: defaultReleaseYear,
-  };
+type SortOrder = 'title' | 'recent' | 'rating';
+
+// 'none' lists the games without a play status
+type PlayStatusFilter = 'all' | 'none' | PlayStatus;
+
+// Games never played (lastPlayed at the epoch placeholder, or missing) sort last
+const lastPlayedTime = (game: Game) => new Date(game.lastPlayed).getTime() || 0;
+
+// Unrated games sort last
+const reviewScore = (game: Game) => game.review?.score || 0;
+
+const compareGames: Record<SortOrder, (a: Game, b: Game) => number> = {
+  title: (a, b) => (a.title || '').localeCompare(b.title || ''),
+  recent: (a, b) => (lastPlayedTime(b) - lastPlayedTime(a)) || (a.title || '').localeCompare(b.title || ''),
+  rating: (a, b) => (reviewScore(b) - reviewScore(a)) || (a.title || '').localeCompare(b.title || ''),
 };
 
+// Minimum scores offered in the rating filter; 'rated' and 'unrated' go by whether a score was given
+type RatingFilter = 'all' | 'rated' | 'unrated' | '9' | '7' | '5';
+
+const RATING_FILTERS: { key: RatingFilter; name: string }[] = [
+  { key: 'all', name: 'Any rating' },
+  { key: '9', name: 'Rated 9 or more' },
+  { key: '7', name: 'Rated 7 or more' },
+  { key: '5', name: 'Rated 5 or more' },
+  { key: 'rated', name: 'Rated' },
+  { key: 'unrated', name: 'Not rated' },
+];
+
+const matchesRating = (game: Game, filter: RatingFilter) => {
+  if (filter === 'all') return true;
+  if (filter === 'rated') return reviewScore(game) > 0;
+  if (filter === 'unrated') return reviewScore(game) === 0;
+  return reviewScore(game) >= Number(filter);
+};
 
-export const GameLibrary = ({ games, selectedPlatform, onPlatformChange }: GameLibraryProps) => {
-  const { steamId, steamUser } = useSteam();
-  const { gogUserId } = useGog();
-  const { xboxGames: xboxGamesFromContext, isLoading: isLoadingXbox, error: errorXbox } = useXbox(); // Get Xbox data
-  const { psnGames, isLoadingGames: isLoadingPsnGames, errorGames: errorPsnGames, isConnected: isPsnConnected, psnProfile } = usePsn(); // Get PSN data
+// Library entry ids of a game: its own, or those of every platform it was merged from. Changes to
+// a game (merge, play status, tags, collections) are sent for all of them.
+const entryIds = (game: Game): string[] =>
+  (game.entries && game.entries.length > 0 ? game.entries : [game]).map(entry => entry.id);
 
-  const [searchTerm, setSearchTerm] = useState("");
-  const [steamGames, setSteamGames] = useState<SteamGame[]>([]);
-  const [isLoadingSteamGames, setIsLoadingSteamGames] = useState<boolean>(false);
-  const [steamGamesError, setSteamGamesError] = useState<string | null>(null);
+// Every platform a game is owned on; merged library games list theirs in `entries`
+const gamePlatforms = (game: Game): string[] =>
+  game.entries && game.entries.length > 0 ? game.entries.map(entry => entry.platform) : [game.platform];
 
-  // GOG state variables
-  const [gogGames, setGogGames] = useState<GogGame[]>([]);
-  const [isLoadingGogGames, setIsLoadingGogGames] = useState<boolean>(false);
-  const [gogGamesError, setGogGamesError] = useState<string | null>(null);
+// Platform names typed in for the games added by hand, so searching "switch" finds them
+const manualPlatformNames = (game: Game): string[] =>
+  (game.entries && game.entries.length > 0 ? game.entries : [game]).map(entry => entry.platformName).filter(Boolean);
 
-  // No local state for xboxGamesData needed, will map directly from xboxGamesFromContext
+export const GameLibrary = ({ games = [], selectedPlatform, onPlatformChange, onLibraryChange }: GameLibraryProps) => {
+  const { user } = useAuth();
+  // An Xbox library loaded by XUID in Platform Connections is shown even when it is not linked
+  const { currentXuid } = useXbox();
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [sortOrder, setSortOrder] = useState<SortOrder>('title');
+  const [playStatusFilter, setPlayStatusFilter] = useState<PlayStatusFilter>('all');
+  const [ratingFilter, setRatingFilter] = useState<RatingFilter>('all');
+  const [tagFilter, setTagFilter] = useState(''); // '' for any tag
+  // The collection browsed instead of the whole library
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  const [library, setLibrary] = useState<UnifiedLibraryResponse | null>(null);
+  const [isLoadingLibrary, setIsLoadingLibrary] = useState<boolean>(false);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+
+  // Live sync progress and the games streamed so far, per platform
+  const [liveSync, setLiveSync] = useState<Record<string, LiveSyncProgress>>({});
+  const [liveGames, setLiveGames] = useState<Record<string, Game[]>>({});
+
+  // The library games picked while selecting, to merge, tag or put in a collection
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedGames, setSelectedGames] = useState<Game[]>([]);
+  const [isSavingChanges, setIsSavingChanges] = useState(false);
+  const [newTag, setNewTag] = useState('');
+
+  // Games added by hand: the dialog is open for a new game (null) or for the entry being edited
+  const [isManualDialogOpen, setIsManualDialogOpen] = useState(false);
+  const [editingManualGame, setEditingManualGame] = useState<Game | null>(null);
+  // The game shown in the details and review dialog
+  const [detailsGame, setDetailsGame] = useState<Game | null>(null);
+
+  const userId = user?.id || null;
+  const lookupXuid = currentXuid && currentXuid !== user?.xboxUserId ? currentXuid : null;
+
+  // The server answers with whatever it has stored; `silent` refreshes skip the loading state
+  // so polling during a background sync does not blank the library.
+  const fetchLibrary = useCallback(async (silent = false) => {
+    if (!silent) setIsLoadingLibrary(true);
+    setLibraryError(null);
+    try {
+      const response = await fetch(`/api/library${lookupXuid ? `?xuid=${encodeURIComponent(lookupXuid)}` : ''}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error: ${response.status}`);
+      }
+      const data: UnifiedLibraryResponse = await response.json();
+      setLibrary(data);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : 'Failed to load your game library');
+      console.error(err);
+    } finally {
+      if (!silent) setIsLoadingLibrary(false);
+    }
+  }, [lookupXuid]);
 
   useEffect(() => {
-    if (steamId) {
-      const fetchSteamGames = async () => {
-        setIsLoadingSteamGames(true);
-        setSteamGamesError(null);
-        setSteamGames([]);
-        try {
-          const response = await fetch(`/api/steam/user/${steamId}/games`);
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.error || `Error: ${response.status}`);
-          }
-          const data: SteamGame[] = await response.json();
-          setSteamGames(data);
-        } catch (err) {
-          setSteamGamesError(err instanceof Error ? err.message : 'Failed to fetch Steam games');
-          console.error(err);
-        } finally {
-          setIsLoadingSteamGames(false);
-        }
-      };
-      fetchSteamGames();
+    if (userId) {
+      fetchLibrary();
     } else {
-      // Clear Steam games if steamId from context is removed or null
-      setSteamGames([]);
-      setSteamGamesError(null);
+      setLibrary(null);
+      setLibraryError(null);
     }
-  }, [steamId]); // Effect now depends on steamId from context
+  }, [userId, user?.steamId, user?.xboxUserId, user?.psnAccountId, user?.gogUserId, user?.epicAccountId, fetchLibrary]);
 
-  // useEffect to fetch GOG games
   useEffect(() => {
-    // Using gogUserId from context now
-    if (gogUserId) {
-      const fetchGogGames = async () => {
-        setIsLoadingGogGames(true);
-        setGogGamesError(null);
-        setGogGames([]);
-        try {
-          // Ensure the gogUserId from context is used in the API call URL
-          const response = await fetch(`/api/gog/user/${gogUserId}/games`);
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.message || `Error: ${response.status}`);
-          }
-          const data: GogGame[] = await response.json();
-          setGogGames(data);
-        } catch (err) {
-          setGogGamesError(err instanceof Error ? err.message : 'Failed to fetch GOG games');
-          console.error("Error fetching GOG games:", err);
-        } finally {
-          setIsLoadingGogGames(false);
+    onLibraryChange?.(library?.games || []);
+  }, [library, onLibraryChange]);
+
+  const handleSyncEvent = useCallback((event: SyncEvent) => {
+    const { platform } = event;
+    const idle: LiveSyncProgress = { active: false, processed: 0, total: 0, achievementsFetched: 0, errors: 0, lastError: null };
+    switch (event.type) {
+      case 'status':
+        if (!event.sync) return;
+        setLiveSync(prev => ({
+          ...prev,
+          [platform]: {
+            ...idle,
+            active: event.sync.inProgress,
+            processed: event.sync.progress.processed,
+            total: event.sync.progress.total,
+            lastError: event.sync.state === 'failed' ? event.sync.lastError : null,
+          },
+        }));
+        return;
+      case 'started':
+        setLiveSync(prev => ({ ...prev, [platform]: { ...idle, active: true } }));
+        setLiveGames(prev => ({ ...prev, [platform]: [] }));
+        return;
+      case 'progress':
+        setLiveSync(prev => ({
+          ...prev,
+          [platform]: {
+            active: true,
+            processed: event.processed ?? 0,
+            total: event.total ?? 0,
+            achievementsFetched: event.achievementsFetched ?? 0,
+            errors: event.errors ?? 0,
+            lastError: null,
+          },
+        }));
+        if (event.libraryGame) {
+          setLiveGames(prev => ({ ...prev, [platform]: [...(prev[platform] || []), event.libraryGame] }));
         }
-      };
-      fetchGogGames();
-    } else {
-      // Clear GOG games if gogUserId is removed or null
-      setGogGames([]);
-      setGogGamesError(null);
+        return;
+      case 'completed':
+      case 'failed':
+        setLiveSync(prev => ({
+          ...prev,
+          [platform]: { ...(prev[platform] || idle), active: event.type === 'failed' && !!event.willRetry, lastError: event.error || null },
+        }));
+        // Pick up the stored library (and its final sync status) now that the run is over
+        fetchLibrary(true);
+        return;
+    }
+  }, [fetchLibrary]);
+
+  // Changes to several games at once (merge and split, tags, collections); the library is reloaded after each
+  const saveLibraryChange = async (path: string, method: 'POST' | 'DELETE', body: object, successMessage: string, failureMessage: string) => {
+    setIsSavingChanges(true);
+    try {
+      const response = await fetch(`/api/library/${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error: ${response.status}`);
+      }
+      toast({ title: successMessage });
+      await fetchLibrary(true);
+      return true;
+    } catch (err) {
+      toast({
+        title: failureMessage,
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsSavingChanges(false);
     }
-  }, [gogUserId]); // Dependency is now the gogUserId from context
-
-// Helper to convert XboxGame to Game for consistent display
-const mapXboxGameToGenericGame = (xboxGame: XboxGame): Game | null => {
-  if (!xboxGame || !xboxGame.titleId) {
-    console.warn('Skipping Xbox game with missing or invalid titleId:', xboxGame);
-    return null;
-  }
-
-  const gameTitle = xboxGame.name || 'Unknown Xbox Game';
-
-  return {
-    id: `xbox-${xboxGame.titleId}`, // Unique ID for React keys
-    title: gameTitle,
-    platform: 'xbox',
-    coverImage: xboxGame.displayImage || '/placeholder.svg', // Ensure placeholder.svg is in public
-    playtime: 0, // Playtime not available from this Xbox API
-    lastPlayed: xboxGame.lastUpdated || new Date(0).toISOString(), // Use lastUpdated from API, or epoch
-    achievements: {
-      unlocked: xboxGame.achievements.currentAchievements,
-      total: xboxGame.achievements.totalAchievements,
-      currentGamerscore: xboxGame.achievements.currentGamerscore,
-      totalGamerscore: xboxGame.achievements.totalGamerscore,
-    },
-    status: 'owned', // Assume 'owned', can be 'not_installed' if preferred
-    genre: ['Unknown Genre'], // Xbox API (titles) doesn't provide genre
-    releaseYear: 0, // Xbox API (titles) doesn't provide release year
   };
-};
 
-  const allGames = [
-    ...games,
-    ...(steamGames.map(steamGameToGameType).filter(Boolean) as Game[]),
-    ...(gogGames.map(gogGameToGameType).filter(Boolean) as Game[]),
-    ...(xboxGamesFromContext.map(mapXboxGameToGenericGame).filter(Boolean) as Game[]),
-    ...(psnGames.map(psnGameToGameType).filter(Boolean) as Game[]) // Add PSN games
-  ];
+  const stopSelecting = () => {
+    setSelectedGames([]);
+    setIsSelecting(false);
+    setNewTag('');
+  };
+
+  // Merge and split correct the server's automatic matching of the same game across platforms
+  const handleMergeSelected = async () => {
+    const gameIds = selectedGames.flatMap(entryIds);
+    if (await saveLibraryChange('merge', 'POST', { gameIds }, `Merged ${selectedGames.length} games`, 'Could not merge the games')) {
+      stopSelecting();
+    }
+  };
+
+  const handleSplit = (entryId: string) => {
+    saveLibraryChange('split', 'POST', { gameId: entryId }, 'Game split', 'Could not split the game');
+  };
+
+  const handleTagSelected = async () => {
+    const tag = newTag.trim();
+    if (!tag) return;
+    const body = { gameIds: selectedGames.flatMap(entryIds), add: [tag] };
+    if (await saveLibraryChange('tags', 'POST', body, `Tagged ${selectedGames.length} games "${tag}"`, 'Could not tag the games')) {
+      stopSelecting();
+    }
+  };
+
+  const handleCollectionSelected = async (collection: GameCollection, remove: boolean) => {
+    const body = { gameIds: selectedGames.flatMap(entryIds) };
+    const successMessage = remove
+      ? `Removed ${selectedGames.length} games from ${collection.name}`
+      : `Added ${selectedGames.length} games to ${collection.name}`;
+    const path = `collections/${encodeURIComponent(collection.id)}/games`;
+    if (await saveLibraryChange(path, remove ? 'DELETE' : 'POST', body, successMessage, 'Could not change the collection')) {
+      stopSelecting();
+    }
+  };
+
+  // The status is shown right away; a failed save puts the stored one back
+  const savePlayStatus = async (game: Game, playStatus: PlayStatus | null) => {
+    const gameIds = entryIds(game);
+    setLibrary(prev => prev && {
+      ...prev,
+      games: prev.games.map(other => (other.id === game.id ? { ...other, playStatus: playStatus || undefined } : other)),
+    });
+    try {
+      const response = await fetch('/api/library/status', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gameIds, playStatus }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error: ${response.status}`);
+      }
+    } catch (err) {
+      toast({
+        title: 'Could not save the play status',
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+      fetchLibrary(true);
+    }
+  };
+
+  const openManualGameDialog = (entry: Game | null) => {
+    setEditingManualGame(entry);
+    setIsManualDialogOpen(true);
+  };
+
+  const toggleSelected = (game: Game, selected: boolean) => {
+    setSelectedGames(prev => selected ? [...prev, game] : prev.filter(other => other.id !== game.id));
+  };
+
+  const platformStatuses = Object.values(library?.platforms || {});
+  const hasSyncedPlatform = platformStatuses.some(status => status.sync);
+
+  const { connected: syncEventsConnected } = useSyncEvents({
+    enabled: !!userId && (hasSyncedPlatform || !!lookupXuid),
+    steamId: user?.steamId,
+    xuid: lookupXuid,
+    onEvent: handleSyncEvent,
+  });
+
+  // Re-read the stored library while a background sync is still filling it (fallback when the event stream is down)
+  const isSyncing = platformStatuses.some(status => status.sync?.inProgress);
+  useEffect(() => {
+    if (!isSyncing || syncEventsConnected) return;
+    const timer = setTimeout(() => fetchLibrary(true), SYNC_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [library, isSyncing, syncEventsConnected, fetchLibrary]);
+
+  // Stored games plus the ones streamed in by a running sync that the stored list does not have yet
+  const libraryGames = library?.games || [];
+  const storedIds = new Set(libraryGames.flatMap(game => [game.id, ...(game.entries || []).map(entry => entry.id)]));
+  const libraryGameIds = new Set(libraryGames.map(game => game.id));
+  const streamedGames = Object.values(liveGames).flat().filter(game => !storedIds.has(game.id));
+
+  const allGames = [...games, ...libraryGames, ...streamedGames];
+
+  const collections = library?.collections || [];
+  const selectedCollection = collections.find(collection => collection.id === selectedCollectionId) || null;
+  // Games are only added to and removed from regular collections; smart ones follow their rules
+  const regularCollections = collections.filter(collection => !collection.rules);
+  const allTags = [...new Set(allGames.flatMap(game => game.tags || []))].sort((a, b) => a.localeCompare(b));
 
   const currentPlatformInfo: PlatformInfo = {
     ...platformInfo,
@@ -247,11 +346,9 @@ const mapXboxGameToGenericGame = (xboxGame: XboxGame): Game | null => {
   const SsearchTermLowerCase = searchTerm.toLowerCase(); // Pre-calculate for efficiency
 
   const filteredGames = allGames.filter(game => {
-    // Defensive check for game.platform matching selectedPlatform
+    // A merged game matches every platform it is owned on
     const matchesPlatform = selectedPlatform === 'all' ||
-                            (game.platform &&
-                             typeof game.platform === 'string' &&
-                             game.platform.toLowerCase() === selectedPlatform.toLowerCase());
+                            gamePlatforms(game).some(platform => platform.toLowerCase() === selectedPlatform.toLowerCase());
 
     // Defensive check for game.title and game.platform in search term
     let matchesSearch = false;
@@ -259,43 +356,50 @@ const mapXboxGameToGenericGame = (xboxGame: XboxGame): Game | null => {
       matchesSearch = matchesSearch || game.title.toLowerCase().includes(SsearchTermLowerCase);
     }
     // Add platform to search criteria
-    if (game.platform && typeof game.platform === 'string') {
-      matchesSearch = matchesSearch || game.platform.toLowerCase().includes(SsearchTermLowerCase);
-    }
-    // Add genre to search criteria (as an example of expanding search)
-    if (game.genre && typeof game.genre === 'string') {
-        matchesSearch = matchesSearch || game.genre.toLowerCase().includes(SsearchTermLowerCase);
+    matchesSearch = matchesSearch || gamePlatforms(game).some(platform => platform.toLowerCase().includes(SsearchTermLowerCase));
+    matchesSearch = matchesSearch || manualPlatformNames(game).some(name => name.toLowerCase().includes(SsearchTermLowerCase));
+    // Add genre to search criteria
+    if (Array.isArray(game.genre)) {
+      matchesSearch = matchesSearch || game.genre.some(genre => genre.toLowerCase().includes(SsearchTermLowerCase));
     }
+    matchesSearch = matchesSearch || (game.tags || []).some(tag => tag.toLowerCase().includes(SsearchTermLowerCase));
 
+    const matchesCollection = !selectedCollection || !!game.collectionIds?.includes(selectedCollection.id);
+    const matchesTag = !tagFilter || !!game.tags?.includes(tagFilter);
 
-    return matchesPlatform && matchesSearch;
-  });
+    const matchesPlayStatus = playStatusFilter === 'all' ||
+                              (playStatusFilter === 'none' ? !game.playStatus : game.playStatus === playStatusFilter);
+
+    return matchesPlatform && matchesSearch && matchesCollection && matchesTag && matchesPlayStatus &&
+           matchesRating(game, ratingFilter);
+  }).sort(compareGames[sortOrder]);
+
+  const playStatusFilters: { key: PlayStatusFilter; name: string; count: number }[] = [
+    { key: 'all', name: 'Any status', count: allGames.length },
+    ...(Object.keys(playStatusInfo) as PlayStatus[]).map(key => ({
+      key,
+      name: playStatusInfo[key].name,
+      count: allGames.filter(game => game.playStatus === key).length,
+    })),
+    { key: 'none', name: 'No status', count: allGames.filter(game => !game.playStatus).length },
+  ];
 
   const platformFilters = [
     { key: 'all', name: 'All Platforms', count: allGames.length },
     ...Object.entries(currentPlatformInfo).map(([key, info]) => ({
       key,
       name: info.name,
-      count: allGames.filter(game => game.platform === key).length
+      count: allGames.filter(game => gamePlatforms(game).includes(key)).length
     }))
   ].filter(f => {
       if (f.key === 'all') return true;
       if (f.count > 0) return true;
       // Show filter if the user is connected to the platform, even if count is 0 initially
-      if (f.key === 'steam' && steamId && steamUser) return true;
-      if (f.key === 'gog' && gogUserId) return true;
-      // For Xbox, show if an attempt was made (no error) or if games are loaded
-      if (f.key === 'xbox' && (!errorXbox || xboxGamesFromContext.length > 0)) return true;
-      // For PSN, show if connected (implies an attempt was made) or if games are loaded
-      if (f.key === 'psn' && (isPsnConnected || psnGames.length > 0)) return true;
-      return false;
+      return !!library?.platforms[f.key as Game['platform']]?.linked;
     }
   );
- // Simplified filter display logic: always show if platform is known, count will reflect games
- // The filter for platformFilters to only show if count > 0 or 'all' or connected is fine.
- // Let's ensure Xbox filter shows up if context indicates a connection attempt (even if 0 games)
- // The existing filter logic is: platformFilters.filter(f => f.count > 0 || f.key === 'all' || (isConnectedToPlatform_logic_here))
- // For Xbox, isConnected might mean xboxGamesFromContext is populated, or errorXbox is null after a fetch.
+
+  const selectedStatus = library?.platforms[selectedPlatform as Game['platform']];
 
   return (
     <div className="space-y-6">
@@ -315,185 +419,254 @@ const mapXboxGameToGenericGame = (xboxGame: XboxGame): Game | null => {
             </Button>
           ))}
         </div>
-        
-        <div className="relative w-full sm:w-64">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search games..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
-          />
+
+        <div className="flex w-full sm:w-auto flex-wrap items-center gap-2">
+          {userId && (
+            <Button variant="outline" onClick={() => openManualGameDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add game
+            </Button>
+          )}
+          {userId && libraryGames.length > 0 && <LibraryExportButton xuid={lookupXuid} />}
+          {libraryGames.length > 0 && !isSelecting && (
+            <Button variant="outline" onClick={() => setIsSelecting(true)}>
+              <CheckSquare className="h-4 w-4 mr-2" />
+              Select games
+            </Button>
+          )}
+          <div className="flex gap-1">
+            <Button
+              variant={sortOrder === 'title' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSortOrder('title')}
+              aria-pressed={sortOrder === 'title'}
+            >
+              <ArrowDownAZ className="h-4 w-4 mr-1" />
+              Title
+            </Button>
+            <Button
+              variant={sortOrder === 'recent' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSortOrder('recent')}
+              aria-pressed={sortOrder === 'recent'}
+            >
+              <History className="h-4 w-4 mr-1" />
+              Recently played
+            </Button>
+            <Button
+              variant={sortOrder === 'rating' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSortOrder('rating')}
+              aria-pressed={sortOrder === 'rating'}
+            >
+              <Star className="h-4 w-4 mr-1" />
+              Rating
+            </Button>
+          </div>
+          {allTags.length > 0 && (
+            <select
+              aria-label="Tag"
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+            >
+              <option value="">Any tag</option>
+              {allTags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+            </select>
+          )}
+          <select
+            aria-label="Rating"
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+            value={ratingFilter}
+            onChange={(e) => setRatingFilter(e.target.value as RatingFilter)}
+          >
+            {RATING_FILTERS.map(filter => <option key={filter.key} value={filter.key}>{filter.name}</option>)}
+          </select>
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search games..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
         </div>
       </div>
 
-      {isLoadingSteamGames && (
-        <Card>
-          <CardContent className="flex items-center justify-center py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary mr-3" />
-            <p className="text-muted-foreground">Loading Steam games...</p>
-          </CardContent>
-        </Card>
-      )}
-      {steamGamesError && !isLoadingSteamGames && (
-        <Card className="border-destructive">
-          <CardHeader>
-            <CardTitle className="flex items-center text-destructive">
-              <AlertTriangle className="h-5 w-5 mr-2" />
-              Error Loading Steam Games
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-destructive">{steamGamesError}</p>
-            <p className="text-sm text-muted-foreground mt-1">
-              Please ensure your Steam ID is correct and your profile is public. You can reconfigure the Steam connection in Platform Connections.
-            </p>
-          </CardContent>
-        </Card>
+      {userId && library && (
+        <CollectionsBar
+          collections={collections}
+          games={libraryGames}
+          selectedCollectionId={selectedCollection?.id || null}
+          onSelect={setSelectedCollectionId}
+          onChanged={() => fetchLibrary(true)}
+        />
       )}
 
-      {/* GOG Games Loading State */}
-      {isLoadingGogGames && (
-        <Card>
-          <CardContent className="flex items-center justify-center py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary mr-3" />
-            <p className="text-muted-foreground">Loading GOG games...</p>
-          </CardContent>
-        </Card>
+      {/* Bulk actions on the selected library games */}
+      {isSelecting && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-3">
+          <span className="text-sm font-medium">{selectedGames.length} selected</span>
+          <Button size="sm" onClick={handleMergeSelected} disabled={selectedGames.length < 2 || isSavingChanges}>
+            <Combine className="h-4 w-4 mr-2" />
+            Merge selected ({selectedGames.length})
+          </Button>
+          {regularCollections.length > 0 && (
+            <select
+              aria-label="Add to collection"
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              value=""
+              disabled={selectedGames.length === 0 || isSavingChanges}
+              onChange={(e) => {
+                const collection = regularCollections.find(other => other.id === e.target.value);
+                if (collection) handleCollectionSelected(collection, false);
+              }}
+            >
+              <option value="">Add to collection...</option>
+              {regularCollections.map(collection => <option key={collection.id} value={collection.id}>{collection.name}</option>)}
+            </select>
+          )}
+          {selectedCollection && !selectedCollection.rules && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleCollectionSelected(selectedCollection, true)}
+              disabled={selectedGames.length === 0 || isSavingChanges}
+            >
+              Remove from {selectedCollection.name}
+            </Button>
+          )}
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => { e.preventDefault(); handleTagSelected(); }}
+          >
+            <Input
+              aria-label="New tag"
+              placeholder="Tag, e.g. co-op"
+              className="h-9 w-40"
+              maxLength={40}
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={selectedGames.length === 0 || !newTag.trim() || isSavingChanges}>
+              <Tag className="h-4 w-4 mr-2" />
+              Tag selected
+            </Button>
+          </form>
+          <Button size="sm" variant="ghost" onClick={stopSelecting}>
+            Cancel
+          </Button>
+        </div>
       )}
-      {/* GOG Games Error State */}
-      {gogGamesError && !isLoadingGogGames && (
-        <Card className="border-destructive">
-          <CardHeader>
-            <CardTitle className="flex items-center text-destructive">
-              <AlertTriangle className="h-5 w-5 mr-2" />
-              Error Loading GOG Games
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-destructive">{gogGamesError}</p>
-            <p className="text-sm text-muted-foreground mt-1">
-              Could not fetch your GOG games. The GOG integration is experimental. Please try again later.
-            </p>
-          </CardContent>
-        </Card>
+
+      {allGames.length > 0 && (
+        <div className="flex flex-wrap gap-1" aria-label="Play status">
+          {playStatusFilters.map(filter => (
+            <Button
+              key={filter.key}
+              size="sm"
+              variant={playStatusFilter === filter.key ? 'default' : 'ghost'}
+              onClick={() => setPlayStatusFilter(filter.key)}
+              aria-pressed={playStatusFilter === filter.key}
+            >
+              {filter.name}
+              <span className="ml-1 text-xs opacity-70">{filter.count}</span>
+            </Button>
+          ))}
+        </div>
       )}
 
-      {/* Xbox Games Loading State */}
-      {isLoadingXbox && (
+      {platformStatuses.map(status => (
+        <SyncStatusNotice key={status.platform} platformName={status.label} sync={status.sync} live={liveSync[status.platform]} />
+      ))}
+
+      {isLoadingLibrary && (
         <Card>
           <CardContent className="flex items-center justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary mr-3" />
-            <p className="text-muted-foreground">Loading Xbox games...</p>
+            <p className="text-muted-foreground">Loading your game library...</p>
           </CardContent>
         </Card>
       )}
-      {/* Xbox Games Error State */}
-      {errorXbox && !isLoadingXbox && (
+      {libraryError && !isLoadingLibrary && (
         <Card className="border-destructive">
           <CardHeader>
             <CardTitle className="flex items-center text-destructive">
               <AlertTriangle className="h-5 w-5 mr-2" />
-              Error Loading Xbox Games
+              Error Loading Your Library
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-destructive">{errorXbox}</p>
+            <p className="text-destructive">{libraryError}</p>
             <p className="text-sm text-muted-foreground mt-1">
-              Could not fetch your Xbox games. Ensure your XUID is correct and your profile privacy settings allow access.
+              Please try again in a moment. You can check your accounts in Platform Connections.
             </p>
           </CardContent>
         </Card>
       )}
 
-      {/* PSN Games Loading State */}
-      {isLoadingPsnGames && (
-        <Card>
-          <CardContent className="flex items-center justify-center py-12">
-            <Loader2 className="h-8 w-8 animate-spin text-primary mr-3" />
-            <p className="text-muted-foreground">Loading PSN games...</p>
-          </CardContent>
-        </Card>
-      )}
-      {/* PSN Games Error State */}
-      {errorPsnGames && !isLoadingPsnGames && (
-        <Card className="border-destructive">
+      {/* Platforms whose stored games could not be loaded; the rest of the library is still shown */}
+      {!isLoadingLibrary && platformStatuses.filter(status => status.error).map(status => (
+        <Card key={status.platform} className="border-destructive">
           <CardHeader>
             <CardTitle className="flex items-center text-destructive">
               <AlertTriangle className="h-5 w-5 mr-2" />
-              Error Loading PSN Games
+              Error Loading {status.label} Games
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-destructive">{String(errorPsnGames)}</p>
-            <p className="text-sm text-muted-foreground mt-1">
-              Could not fetch your PSN games. Please ensure your account is connected and try again later.
-            </p>
+            <p className="text-destructive">{status.error}</p>
           </CardContent>
         </Card>
-      )}
+      ))}
 
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
         {filteredGames.map((game) => (
-          <GameCard key={game.id} game={game} />
+          <GameCard
+            key={game.id}
+            game={game}
+            onSplit={isSavingChanges ? undefined : handleSplit}
+            selectable={isSelecting && libraryGameIds.has(game.id)}
+            selected={selectedGames.some(other => other.id === game.id)}
+            onSelectedChange={(selected) => toggleSelected(game, selected)}
+            onEdit={openManualGameDialog}
+            onPlayStatusChange={libraryGameIds.has(game.id) ? (playStatus) => savePlayStatus(game, playStatus) : undefined}
+            onOpenDetails={libraryGameIds.has(game.id) ? () => setDetailsGame(game) : undefined}
+          />
         ))}
       </div>
 
-      {filteredGames.length === 0 && !isLoadingSteamGames && !isLoadingGogGames && !isLoadingXbox && !isLoadingPsnGames && (
+      {filteredGames.length === 0 && !isLoadingLibrary && (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <Search className="h-12 w-12 text-muted-foreground mb-4" />
             <h3 className="text-lg font-medium mb-2">No games found</h3>
             <p className="text-muted-foreground text-center">
-              {selectedPlatform === 'steam' && steamId && !steamGamesError && steamGames.length === 0 ? 'No Steam games to display or library is private.' :
-               selectedPlatform === 'gog' && gogUserId && !gogGamesError && gogGames.length === 0 ? 'No GOG games to display.' :
-               selectedPlatform === 'xbox' && !errorXbox && xboxGamesFromContext.length === 0 ? 'No Xbox games to display or profile is private.' :
-               selectedPlatform === 'psn' && isPsnConnected && !errorPsnGames && psnGames.length === 0 ? 'No PSN games to display or library is empty.' :
-               'Try adjusting your search or platform filter.'}
+              {!searchTerm && selectedStatus && !selectedStatus.error && selectedStatus.gameCount === 0
+                ? EMPTY_PLATFORM_MESSAGES[selectedStatus.platform]
+                : selectedCollection && !searchTerm
+                  ? selectedCollection.rules
+                    ? `No games match the rules of ${selectedCollection.name} yet.`
+                    : `No games in ${selectedCollection.name} match. Add some with "Select games".`
+                  : 'Try adjusting your search or platform filter.'}
             </p>
           </CardContent>
         </Card>
       )}
+
+      <ManualGameDialog
+        open={isManualDialogOpen}
+        onOpenChange={setIsManualDialogOpen}
+        game={editingManualGame}
+        onSaved={() => fetchLibrary(true)}
+      />
+      <GameDetailsDialog
+        open={!!detailsGame}
+        onOpenChange={(open) => { if (!open) setDetailsGame(null); }}
+        game={detailsGame}
+        onSaved={() => fetchLibrary(true)}
+      />
     </div>
   );
 };
-
-// Must be defined in the same file or imported if defined elsewhere
-const psnGameToGameType = (psnGame: PsnGame): Game | null => {
-  if (!psnGame || !psnGame.npCommunicationId) {
-    console.warn('Skipping PSN game with missing npCommunicationId:', psnGame);
-    return null;
-  }
-
-  const gameTitle = psnGame.trophyTitleName || 'Unknown PSN Game';
-
-  const playtimeHours = 0; // getUserTitles doesn't typically include playtime
-  const defaultLastPlayed = psnGame.lastUpdatedDateTime || new Date(0).toISOString();
-  const achievements = {
-    unlocked: (psnGame.earnedTrophies?.platinum || 0) +
-              (psnGame.earnedTrophies?.gold || 0) +
-              (psnGame.earnedTrophies?.silver || 0) +
-              (psnGame.earnedTrophies?.bronze || 0),
-    total: (psnGame.definedTrophies?.platinum || 0) +
-           (psnGame.definedTrophies?.gold || 0) +
-           (psnGame.definedTrophies?.silver || 0) +
-           (psnGame.definedTrophies?.bronze || 0),
-  };
-  if (achievements.total === 0 && achievements.unlocked > 0) {
-    achievements.total = achievements.unlocked;
-  }
-
-  return {
-    id: `psn-${psnGame.npCommunicationId}`,
-    appId: psnGame.npCommunicationId,
-    title: gameTitle,
-    platform: 'psn',
-    coverImage: psnGame.trophyTitleIconUrl || '/placeholder.svg',
-    playtime: playtimeHours,
-    lastPlayed: defaultLastPlayed,
-    achievements: achievements,
-    status: 'owned',
-    genre: [psnGame.trophyTitlePlatform || 'Unknown Genre'],
-    releaseYear: 0,
-  };
-};
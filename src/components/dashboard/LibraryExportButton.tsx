@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileDown } from "lucide-react";
+
+type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+const EXPORT_FORMATS: { key: ExportFormat; name: string }[] = [
+  { key: 'csv', name: 'CSV' },
+  { key: 'xlsx', name: 'Excel (.xlsx)' },
+  { key: 'json', name: 'JSON' },
+];
+
+interface LibraryExportButtonProps {
+  xuid?: string | null; // An Xbox library looked up by XUID, exported along like GET /api/library shows it
+}
+
+// Downloads the unified library from GET /api/library/export; the server sends it as an attachment.
+export const LibraryExportButton = ({ xuid }: LibraryExportButtonProps) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const href = `/api/library/export?format=${format}${xuid ? `&xuid=${encodeURIComponent(xuid)}` : ''}`;
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        aria-label="Export format"
+        className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+      >
+        {EXPORT_FORMATS.map(option => <option key={option.key} value={option.key}>{option.name}</option>)}
+      </select>
+      <Button variant="outline" asChild>
+        <a href={href} download>
+          <FileDown className="h-4 w-4 mr-2" />
+          Export
+        </a>
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import { useState, useEffect, FormEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Game, ManualGameFormat, ManualGameInput } from "@/types/gameTypes";
+import { toast } from "@/components/ui/use-toast";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface ManualGameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  game?: Game | null; // The manual entry to edit; a new game is added when absent
+  onSaved: () => void; // Called after a save or a delete so the library can be reloaded
+}
+
+type ManualGameStatus = NonNullable<ManualGameInput['status']>;
+
+interface FormState {
+  title: string;
+  platform: string;
+  format: ManualGameFormat;
+  coverImage: string;
+  playtimeHours: string;
+  lastPlayed: string; // yyyy-mm-dd from the date input
+  status: ManualGameStatus;
+  genre: string; // Comma-separated
+  releaseYear: string;
+  notes: string;
+}
+
+const STATUS_LABELS: Record<ManualGameStatus, string> = {
+  owned: 'Owned',
+  installed: 'Installed',
+  not_installed: 'Not installed',
+};
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+// Library games never played carry the epoch as lastPlayed
+const toDateInput = (value?: string) => {
+  const date = value ? new Date(value) : null;
+  return date && date.getTime() > 0 ? date.toISOString().slice(0, 10) : '';
+};
+
+const initialState = (game?: Game | null): FormState => ({
+  title: game?.title || '',
+  platform: game?.platformName || '',
+  format: game?.format || 'physical',
+  coverImage: game?.coverImage || '',
+  playtimeHours: game?.playtime ? String(game.playtime) : '',
+  lastPlayed: toDateInput(game?.lastPlayed),
+  status: game && game.status !== 'downloading' ? game.status : 'owned',
+  genre: (game?.genre || []).join(', '),
+  releaseYear: game?.releaseYear ? String(game.releaseYear) : '',
+  notes: game?.notes || '',
+});
+
+// The server validates every field; the form only converts them to the API's types
+const toInput = (form: FormState): ManualGameInput => ({
+  title: form.title,
+  platform: form.platform,
+  format: form.format,
+  coverImage: form.coverImage.trim() || null,
+  playtimeMinutes: form.playtimeHours.trim() ? Math.round(Number(form.playtimeHours) * 60) : 0,
+  lastPlayed: form.lastPlayed ? new Date(`${form.lastPlayed}T00:00:00`).toISOString() : null,
+  status: form.status,
+  genre: form.genre.split(',').map(genre => genre.trim()).filter(Boolean),
+  releaseYear: form.releaseYear.trim() ? Number(form.releaseYear) : null,
+  notes: form.notes.trim() ? form.notes : null,
+});
+
+// Edits send only what changed, so the playtime (shown in whole hours) keeps its minutes when untouched
+const changedFields = (input: ManualGameInput, initial: ManualGameInput): ManualGameInput =>
+  Object.fromEntries(Object.entries(input).filter(([field, value]) =>
+    JSON.stringify(value) !== JSON.stringify(initial[field as keyof ManualGameInput])));
+
+export const ManualGameDialog = ({ open, onOpenChange, game, onSaved }: ManualGameDialogProps) => {
+  const [form, setForm] = useState<FormState>(() => initialState(game));
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const isEditing = !!game;
+
+  // Start from the picked game every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForm(initialState(game));
+      setConfirmingDelete(false);
+    }
+  }, [open, game]);
+
+  const setField = <K extends keyof FormState>(field: K, value: FormState[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const send = async (method: 'POST' | 'PATCH' | 'DELETE', body?: ManualGameInput) => {
+    const path = isEditing ? `/api/library/manual/${encodeURIComponent(game.appId || game.id)}` : '/api/library/manual';
+    const response = await fetch(path, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `Error: ${response.status}`);
+    }
+  };
+
+  const run = async (action: () => Promise<void>, successMessage: string, failureMessage: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      toast({ title: successMessage });
+      onOpenChange(false);
+      onSaved();
+    } catch (err) {
+      toast({
+        title: failureMessage,
+        description: err instanceof Error ? err.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const input = toInput(form);
+    run(
+      () => (isEditing ? send('PATCH', changedFields(input, toInput(initialState(game)))) : send('POST', input)),
+      isEditing ? `Saved ${input.title}` : `Added ${input.title} to your library`,
+      isEditing ? 'Could not save the game' : 'Could not add the game'
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    run(() => send('DELETE'), `Removed ${game?.title} from your library`, 'Could not remove the game');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? `Edit ${game.title}` : 'Add a game'}</DialogTitle>
+          <DialogDescription>
+            For games from stores without an integration and for your physical collection. They count in your stats like synced games.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="manual-game-title">Title</Label>
+            <Input id="manual-game-title" required value={form.title} onChange={(e) => setField('title', e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="manual-game-platform">Platform</Label>
+              <Input
+                id="manual-game-platform"
+                required
+                placeholder="Nintendo Switch, itch.io..."
+                value={form.platform}
+                onChange={(e) => setField('platform', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-game-format">Format</Label>
+              <select
+                id="manual-game-format"
+                className={selectClassName}
+                value={form.format}
+                onChange={(e) => setField('format', e.target.value as ManualGameFormat)}
+              >
+                <option value="physical">Physical</option>
+                <option value="digital">Digital</option>
+              </select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="manual-game-cover">Cover image URL</Label>
+            <Input
+              id="manual-game-cover"
+              type="url"
+              placeholder="https://"
+              value={form.coverImage}
+              onChange={(e) => setField('coverImage', e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="manual-game-playtime">Hours played</Label>
+              <Input
+                id="manual-game-playtime"
+                type="number"
+                min="0"
+                step="1"
+                value={form.playtimeHours}
+                onChange={(e) => setField('playtimeHours', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-game-last-played">Last played</Label>
+              <Input
+                id="manual-game-last-played"
+                type="date"
+                value={form.lastPlayed}
+                onChange={(e) => setField('lastPlayed', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-game-status">Status</Label>
+              <select
+                id="manual-game-status"
+                className={selectClassName}
+                value={form.status}
+                onChange={(e) => setField('status', e.target.value as ManualGameStatus)}
+              >
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="manual-game-genre">Genres</Label>
+              <Input
+                id="manual-game-genre"
+                placeholder="Adventure, RPG"
+                value={form.genre}
+                onChange={(e) => setField('genre', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-game-year">Release year</Label>
+              <Input
+                id="manual-game-year"
+                type="number"
+                value={form.releaseYear}
+                onChange={(e) => setField('releaseYear', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="manual-game-notes">Notes</Label>
+            <Textarea
+              id="manual-game-notes"
+              placeholder="Edition, condition, where it is shelved..."
+              value={form.notes}
+              onChange={(e) => setField('notes', e.target.value)}
+            />
+          </div>
+          <DialogFooter className="gap-2 sm:justify-between">
+            {isEditing ? (
+              <Button type="button" variant="destructive" onClick={handleDelete} disabled={isSaving}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                {confirmingDelete ? 'Confirm delete' : 'Delete'}
+              </Button>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isEditing ? 'Save' : 'Add game'}
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
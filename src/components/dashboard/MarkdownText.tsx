@@ -0,0 +1,79 @@
+import { Fragment, ReactNode } from "react";
+
+// The markdown reviews are written in: headings, lists, paragraphs, **bold**, *italic*, `code` and
+// [links](https://...). It is rendered to React elements, never to HTML, so a review cannot inject markup.
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\(https?:\/\/[^\s)]+\))/g;
+
+const renderInline = (text: string): ReactNode[] =>
+  text.split(INLINE_PATTERN).filter(Boolean).map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) return <strong key={index}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) return <em key={index}>{part.slice(1, -1)}</em>;
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={index} className="rounded bg-muted px-1 text-xs">{part.slice(1, -1)}</code>;
+    }
+    const link = /^\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)$/.exec(part);
+    if (link) {
+      return <a key={index} href={link[2]} target="_blank" rel="noopener noreferrer" className="underline">{link[1]}</a>;
+    }
+    return <Fragment key={index}>{part}</Fragment>;
+  });
+
+const HEADING_CLASSES = ['text-lg font-semibold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+type Block =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'paragraph'; lines: string[] };
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  source.replace(/\r\n/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.trimEnd();
+    const last = blocks[blocks.length - 1];
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const listItem = /^\s*(?:([-*])|(\d+)\.)\s+(.*)$/.exec(line);
+
+    if (line.trim() === '') {
+      blocks.push({ type: 'paragraph', lines: [] }); // Ends the current block
+    } else if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (listItem) {
+      const ordered = !!listItem[2];
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(listItem[3]);
+      else blocks.push({ type: 'list', ordered, items: [listItem[3]] });
+    } else if (last?.type === 'paragraph') {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type: 'paragraph', lines: [line] });
+    }
+  });
+  return blocks.filter(block => block.type !== 'paragraph' || block.lines.length > 0);
+};
+
+export const MarkdownText = ({ source, className }: { source: string; className?: string }) => (
+  <div className={`space-y-2 text-sm ${className || ''}`}>
+    {parseBlocks(source).map((block, index) => {
+      if (block.type === 'heading') {
+        return <p key={index} role="heading" aria-level={block.level} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.text)}</p>;
+      }
+      if (block.type === 'list') {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List key={index} className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+            {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+          </List>
+        );
+      }
+      return (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderInline(line)}
+            </Fragment>
+          ))}
+        </p>
+      );
+    })}
+  </div>
+);
@@ -1,5 +1,5 @@
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,11 +7,13 @@ import { useSteam } from "@/contexts/SteamContext";
 import { useGog } from "@/contexts/GogContext";
 import { useXbox } from "@/contexts/XboxContext"; // Import useXbox
 import { usePsn } from "@/contexts/PsnContext"; // Import usePsn
+import { useEpic } from "@/contexts/EpicContext";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plug, CheckCircle, XCircle, ExternalLink, Settings, Gamepad2 } from "lucide-react"; // Import Gamepad2
+import { DisconnectPlatformButton } from "./DisconnectPlatformButton";
+import { Plug, CheckCircle, XCircle, ExternalLink, Settings, Gamepad2, Upload } from "lucide-react"; // Import Gamepad2
 
 interface Platform {
   id: string;
@@ -41,10 +43,10 @@ const platforms: Platform[] = [
   {
     id: 'epic',
     name: 'Epic Games Store',
-    description: 'Access your Epic Games library and player statistics.',
+    description: 'Import your Epic Games library from a Legendary or Heroic export, or sign in with Epic when the server supports it.',
     connected: false,
-    apiDocUrl: 'https://dev.epicgames.com/docs/web-api-ref/',
-    requiredCredentials: ['Client ID', 'Client Secret'],
+    apiDocUrl: 'https://github.com/derrod/legendary',
+    requiredCredentials: ['Legendary/Heroic library export (JSON)'],
     icon: '⚫',
     color: 'bg-gray-800'
   },
@@ -61,10 +63,10 @@ const platforms: Platform[] = [
   {
     id: 'gog',
     name: 'GOG Galaxy',
-    description: 'Access your GOG game library and player data.',
+    description: 'Sign in with GOG to sync your GOG library in the background.',
     connected: false,
-    apiDocUrl: 'https://gogapidocs.readthedocs.io/',
-    requiredCredentials: ['Client ID', 'Client Secret'],
+    apiDocUrl: 'https://gogapidocs.readthedocs.io/en/latest/auth.html',
+    requiredCredentials: ['GOG login code'],
     icon: '🟣',
     color: 'bg-purple-600'
   },
@@ -91,7 +93,7 @@ export const PlatformConnections = () => {
     steamProfileError: contextSteamProfileError,
     // setSteamConnection, // No longer directly setting like this from here
     // fetchSteamProfile, // No longer directly calling this from here after redirect
-    clearSteamConnection,
+    disconnectSteam,
     checkUserSession // Get checkUserSession to refresh context if needed
   } = useSteam();
 
@@ -102,17 +104,31 @@ export const PlatformConnections = () => {
   const [credentials, setCredentials] = useState<Record<string, string>>({});
   const [platformsState, setPlatformsState] = useState<Platform[]>(platforms);
   const [localSteamError, setLocalSteamError] = useState<string | null>(null);
-  const [gogIdInput, setGogIdInput] = useState<string>("");
+  const [gogCodeInput, setGogCodeInput] = useState<string>(""); // Code (or URL) from GOG's login-success page
   const [xuidInput, setXuidInput] = useState<string>(""); // For XUID input
   const [npssoInput, setNpssoInput] = useState<string>(""); // For NPSSO input
+  const [localGogError, setLocalGogError] = useState<string | null>(null);
+  const [localEpicError, setLocalEpicError] = useState<string | null>(null);
+  const epicFileInputRef = useRef<HTMLInputElement>(null);
+  const galaxyFileInputRef = useRef<HTMLInputElement>(null);
 
   // GOG Context
   const {
     gogUserId,
-    connectGogUser,
-    disconnectGogUser,
-    isLoadingGogUserId,
-    gogUserError
+    gogUsername,
+    gogGames,
+    isConnected: isGogConnected,
+    isConnecting: isConnectingGog,
+    isLoadingGames: isLoadingGogGames,
+    errorGames: errorGogGames,
+    gogUserError,
+    galaxyGames,
+    galaxyImportedAt,
+    isImportingGalaxy,
+    openGogLogin,
+    connectGog,
+    disconnectGog,
+    importGalaxyDatabase,
   } = useGog();
 
   // Xbox Context
@@ -120,7 +136,10 @@ export const PlatformConnections = () => {
     xboxGames,
     fetchXboxGames,
     isLoading: isLoadingXbox,
-    error: errorXbox
+    error: errorXbox,
+    linkedXuid,
+    linkedGamertag,
+    disconnectXbox,
   } = useXbox();
 
   // PSN Context
@@ -137,6 +156,20 @@ export const PlatformConnections = () => {
     // fetchPsnGames, // Not called directly from button here
   } = usePsn();
 
+  // Epic Context
+  const {
+    epicGames,
+    isLoadingGames: isLoadingEpicGames,
+    errorGames: errorEpicGames,
+    isImporting: isImportingEpic,
+    isLinked: isEpicLinked,
+    displayName: epicDisplayName,
+    oauthAvailable: isEpicOauthAvailable,
+    importEpicLibrary,
+    connectEpic,
+    disconnectEpic,
+  } = useEpic();
+
   // Effect to handle Steam OpenID callback
   useEffect(() => {
     const queryParams = new URLSearchParams(location.search); // Keep first occurrence
@@ -172,20 +205,56 @@ export const PlatformConnections = () => {
     }
   }, [location.search, navigate, checkUserSession, isAuthenticated, isContextLoadingSteamProfile]); // Added dependencies
 
+  // Effect to handle the GOG and Epic OAuth redirects back to the dashboard
+  useEffect(() => {
+    const queryParams = new URLSearchParams(location.search);
+    const gogError = queryParams.get('gog_error');
+    const epicError = queryParams.get('epic_error');
+    if (gogError) {
+      setLocalGogError(`GOG sign-in failed: ${gogError}`);
+      navigate(location.pathname, { replace: true });
+    } else if (queryParams.get('gog_login_success') === 'true') {
+      setLocalGogError(null);
+      navigate(location.pathname, { replace: true });
+    } else if (epicError) {
+      setLocalEpicError(`Epic sign-in failed: ${epicError}`);
+      navigate(location.pathname, { replace: true });
+    } else if (queryParams.get('epic_login_success') === 'true') {
+      setLocalEpicError(null);
+      navigate(location.pathname, { replace: true });
+    }
+  }, [location.search, location.pathname, navigate]);
+
   // Update platformsState based on context's isAuthenticated for Steam
   useEffect(() => {
     setPlatformsState(prevPlatforms =>
       prevPlatforms.map(p => {
         if (p.id === 'steam') {
-          return { ...p, connected: isAuthenticated };
+          // Logging in with Google or a password does not link Steam
+          return { ...p, connected: isAuthenticated && !!contextSteamId };
         }
         if (p.id === 'gog') {
-          return { ...p, connected: !!gogUserId };
+          return {
+            ...p,
+            connected: isGogConnected,
+            profileInfo: gogUsername || gogUserId,
+            error: gogUserError || errorGogGames,
+            isLoading: isConnectingGog || isLoadingGogGames,
+          };
         }
         if (p.id === 'xbox') {
           // Xbox is connected if there are games and no error
           return { ...p, connected: xboxGames.length > 0 && !errorXbox, isLoading: isLoadingXbox, error: errorXbox, profileInfo: xboxGames.length > 0 ? `${xboxGames.length} games` : null };
         }
+        if (p.id === 'epic') {
+          return {
+            ...p,
+            connected: isEpicLinked || epicGames.length > 0,
+            profileInfo: epicGames.length > 0 ? `${epicGames.length} games` : null,
+            error: errorEpicGames,
+            isLoading: isLoadingEpicGames || isImportingEpic,
+          };
+        }
         if (p.id === 'psn') {
           return {
             ...p,
@@ -199,34 +268,13 @@ export const PlatformConnections = () => {
         return p;
       })
     );
-  }, [isAuthenticated, gogUserId, xboxGames, errorXbox, isLoadingXbox, isPsnConnected, psnProfile, errorConnectPsn, errorPsnGames, isConnectingPsn, isLoadingPsnGames]); // Add PSN dependencies
+  }, [isAuthenticated, contextSteamId, isGogConnected, gogUserId, gogUsername, gogUserError, errorGogGames, isConnectingGog, isLoadingGogGames, xboxGames, errorXbox, isLoadingXbox, isPsnConnected, psnProfile, errorConnectPsn, errorPsnGames, isConnectingPsn, isLoadingPsnGames, isEpicLinked, epicGames, errorEpicGames, isLoadingEpicGames, isImportingEpic]); // Add PSN and Epic dependencies
 
 
   const handleSteamAuthRedirect = () => {
     window.location.href = '/auth/steam'; // Use relative path for proxy
   };
 
-  const handleSteamDisconnect = async () => {
-    try {
-      const response = await fetch('/auth/logout'); // Backend logout
-      if (response.ok) {
-        clearSteamConnection(); // Clear context and localStorage
-        console.log('Successfully logged out from backend and cleared Steam connection.');
-        // Optionally redirect to home or login page via navigate('/')
-      } else {
-        console.error('Backend logout failed. Status:', response.status);
-        setLocalSteamError('Logout failed on the server. Please try again.');
-        // Still clear local connection as a fallback
-        clearSteamConnection();
-      }
-    } catch (error) {
-      console.error('Error during logout request:', error);
-      setLocalSteamError('An error occurred during logout. Please try again.');
-      // Still clear local connection
-      clearSteamConnection();
-    }
-  };
-
   // Generic connect handler for other platforms (if any use the dialog)
   const handleConnect = (platform: Platform) => {
     if (platform.id === 'steam') {
@@ -247,6 +295,21 @@ export const PlatformConnections = () => {
     }
   };
 
+  const handleEpicFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    setLocalEpicError(null);
+    await importEpicLibrary(file);
+  };
+
+  const handleGalaxyFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    await importGalaxyDatabase(file);
+  };
+
   const currentSteamError = localSteamError || contextSteamProfileError;
 
   return (
@@ -265,6 +328,7 @@ export const PlatformConnections = () => {
           const isGog = platform.id === 'gog';
           const isXbox = platform.id === 'xbox';
           const isPsn = platform.id === 'psn';
+          const isEpic = platform.id === 'epic';
 
           // Determine connected status from the centrally updated platformsState
           const currentPlatformState = platformsState.find(p => p.id === platform.id) || platform;
@@ -294,28 +358,33 @@ export const PlatformConnections = () => {
                   </div>
                 </div>
                 <CardDescription>
-                  {isSteam && contextSteamUser ? `Connected as ${contextSteamUser.personaName}. `
+                  {isSteam && contextSteamId && contextSteamUser ? `Connected as ${contextSteamUser.personaName}. `
                     : isSteam && isContextLoadingSteamProfile && !contextSteamUser ? 'Verifying Steam connection...'
-                    : isGog && gogUserId && !isLoadingGogUserId ? `Connected with GOG User ID: ${gogUserId}. `
-                    : isGog && isLoadingGogUserId ? 'Verifying GOG connection...'
+                    : isGog && isGogConnected ? `Connected as ${gogUsername || `GOG user ${gogUserId}`}. `
+                    : isGog && isConnectingGog ? 'Connecting to GOG...'
                     : isXbox && isPlatformConnected ? `Xbox Connected (${xboxGames.length} games loaded). `
                     : isXbox && isLoadingXbox ? 'Loading Xbox games...'
                     : isPsn && isPsnConnected && psnProfile ? `Connected as ${psnProfile.onlineId}. `
                     : isPsn && isConnectingPsn ? 'Connecting to PSN...'
+                    : isEpic && isPlatformConnected ? `Epic library loaded (${epicGames.length} games). `
+                    : isEpic && isImportingEpic ? 'Importing Epic library...'
                     : platform.description}
-                  {isSteam && contextSteamUser && (
+                  {isSteam && contextSteamId && contextSteamUser && (
                     <a href={contextSteamUser.profileUrl} target="_blank" rel="noopener noreferrer" className="text-blue-500 hover:underline ml-1">View Profile</a>
                   )}
                 </CardDescription>
                 {(isSteam && (currentSteamError || contextSteamProfileError)) && (
                   <p className="text-sm text-red-500 bg-red-100 p-2 rounded mt-1">{currentSteamError || contextSteamProfileError}</p>
                 )}
-                {(isGog && gogUserError) && (
-                  <p className="text-sm text-red-500 bg-red-100 p-2 rounded mt-1">{gogUserError}</p>
+                {(isGog && (localGogError || gogUserError || errorGogGames)) && (
+                  <p className="text-sm text-red-500 bg-red-100 p-2 rounded mt-1">{localGogError || gogUserError || errorGogGames}</p>
                 )}
                 {(isXbox && errorXbox) && (
                   <p className="text-sm text-red-500 bg-red-100 p-2 rounded mt-1">{errorXbox}</p>
                 )}
+                {(isEpic && (localEpicError || errorEpicGames)) && (
+                  <p className="text-sm text-red-500 bg-red-100 p-2 rounded mt-1">{localEpicError || errorEpicGames}</p>
+                )}
                 {(isPsn && errorConnectPsn) && (
                   <p className="text-sm text-red-500 bg-red-100 p-2 rounded mt-1">{errorConnectPsn}</p>
                 )}
@@ -327,15 +396,13 @@ export const PlatformConnections = () => {
               <CardContent className="space-y-4">
                 {isSteam && (
                   <div className="flex flex-col sm:flex-row gap-2">
-                    {isAuthenticated && contextSteamUser ? (
+                    {isAuthenticated && contextSteamId && contextSteamUser ? (
                        <div className="flex-1 space-y-2 text-center">
                         {contextSteamUser.avatarFull && (
                            <img src={contextSteamUser.avatarFull} alt={contextSteamUser.personaName} className="w-16 h-16 rounded-full border-2 border-green-500 mx-auto" />
                         )}
                         <p className="text-sm font-medium">{contextSteamUser.personaName}</p>
-                        <Button onClick={handleSteamDisconnect} variant="outline" className="w-full">
-                          <XCircle className="h-4 w-4 mr-2" /> Disconnect Steam
-                        </Button>
+                        <DisconnectPlatformButton platformName="Steam" onConfirm={disconnectSteam} />
                        </div>
                     ) : (
                       <Button
@@ -353,41 +420,91 @@ export const PlatformConnections = () => {
                 {isGog && (
                   // GOG UI
                   <div className="space-y-3">
-                    {gogUserId && !isLoadingGogUserId ? (
+                    {isGogConnected ? (
                       <div className="flex flex-col items-center space-y-2">
-                        <p className="text-sm text-green-600">Connected with GOG User ID: <strong>{gogUserId}</strong></p>
-                        <Button onClick={disconnectGogUser} variant="outline" className="w-full">
-                          <XCircle className="h-4 w-4 mr-2" /> Disconnect GOG
-                        </Button>
+                        <p className="text-sm text-green-600">
+                          Connected as <strong>{gogUsername || gogUserId}</strong> ({gogGames.length} games).
+                        </p>
+                        <p className="text-xs text-muted-foreground">Your GOG library syncs automatically.</p>
+                        <DisconnectPlatformButton
+                          platformName="GOG"
+                          onConfirm={disconnectGog}
+                          disabled={isConnectingGog || isImportingGalaxy}
+                          details="Games imported from a GOG Galaxy database are removed too, for every platform."
+                        />
                       </div>
-                    ) : isLoadingGogUserId ? (
-                      <p className="text-sm text-muted-foreground">Loading GOG status...</p>
                     ) : (
                       <div className="space-y-2">
+                        <Button onClick={openGogLogin} variant="outline" className="w-full">
+                          <ExternalLink className="h-4 w-4 mr-2" /> Sign in with GOG
+                        </Button>
                         <div>
-                          <Label htmlFor="gogUserIdInput">GOG User ID</Label>
+                          <Label htmlFor="gogCodeInput">GOG login code</Label>
                           <Input
-                            id="gogUserIdInput"
+                            id="gogCodeInput"
                             type="text"
-                            placeholder="Enter your GOG User ID"
-                            value={gogIdInput}
-                            onChange={(e) => setGogIdInput(e.target.value)}
+                            placeholder="Paste the code or the whole address"
+                            value={gogCodeInput}
+                            onChange={(e) => setGogCodeInput(e.target.value)}
                             className="mt-1"
+                            disabled={isConnectingGog}
                           />
-                           <p className="text-xs text-muted-foreground mt-1">
-                            Note: This is typically a numerical ID. Public GOG data access is limited.
+                          <p className="text-xs text-muted-foreground mt-1">
+                            After signing in, GOG opens a page whose address ends in <code>?code=...</code>. Paste it here.
                           </p>
                         </div>
-                        <Button onClick={() => connectGogUser(gogIdInput)} className="w-full" disabled={!gogIdInput.trim() || isLoadingGogUserId}>
-                          <Plug className="h-4 w-4 mr-2" /> {isLoadingGogUserId ? 'Connecting...' : 'Connect GOG'}
+                        <Button onClick={() => connectGog(gogCodeInput)} className="w-full" disabled={!gogCodeInput.trim() || isConnectingGog}>
+                          <Plug className="h-4 w-4 mr-2" /> {isConnectingGog ? 'Connecting...' : 'Connect GOG'}
                         </Button>
                       </div>
                     )}
+                    <div className="space-y-2 border-t pt-3">
+                      <Label htmlFor="galaxyDatabaseFile">GOG Galaxy 2.0 database</Label>
+                      <input
+                        id="galaxyDatabaseFile"
+                        ref={galaxyFileInputRef}
+                        type="file"
+                        accept=".db"
+                        className="hidden"
+                        onChange={handleGalaxyFileSelected}
+                      />
+                      <Button
+                        onClick={() => galaxyFileInputRef.current?.click()}
+                        variant="outline"
+                        className="w-full"
+                        disabled={isImportingGalaxy}
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        {isImportingGalaxy ? 'Importing...' : galaxyImportedAt ? 'Re-import GOG Galaxy Database' : 'Import GOG Galaxy Database'}
+                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        {galaxyImportedAt
+                          ? `${galaxyGames.length} games imported on ${new Date(galaxyImportedAt).toLocaleDateString()}. `
+                          : 'Adds playtime, last played and achievements for every platform linked in Galaxy. '}
+                        Pick <code>galaxy-2.0.db</code> from <code>C:\ProgramData\GOG.com\Galaxy\storage</code>.
+                      </p>
+                      {!isGogConnected && galaxyImportedAt && (
+                        <DisconnectPlatformButton
+                          platformName="GOG"
+                          onConfirm={disconnectGog}
+                          disabled={isImportingGalaxy}
+                          details="Games imported from a GOG Galaxy database are removed too, for every platform."
+                        />
+                      )}
+                    </div>
                   </div>
                 )}
 
                 {isXbox && (
                   <div className="space-y-3">
+                    {linkedXuid && (
+                      <div className="flex flex-col items-center space-y-2 border-b pb-3">
+                        <p className="text-sm text-green-600">
+                          Linked to <strong>{linkedGamertag || `XUID ${linkedXuid}`}</strong>. Your Xbox library syncs automatically.
+                        </p>
+                        <DisconnectPlatformButton platformName="Xbox" onConfirm={disconnectXbox} disabled={isLoadingXbox} />
+                      </div>
+                    )}
                     {isPlatformConnected ? ( // Use isPlatformConnected derived from platformsState
                        <div className="flex flex-col items-center space-y-2">
                         <p className="text-sm text-green-600">
@@ -447,9 +564,7 @@ export const PlatformConnections = () => {
                       <div className="flex flex-col items-center space-y-2">
                         <p className="text-sm text-green-600">Connected as PSN ID: <strong>{psnProfile.onlineId}</strong></p>
                         {isLoadingPsnGames && <p className="text-xs text-muted-foreground">Loading PSN games...</p>}
-                        <Button onClick={disconnectPsn} variant="outline" className="w-full" disabled={isConnectingPsn || isLoadingPsnGames}>
-                          <XCircle className="h-4 w-4 mr-2" /> Disconnect PSN
-                        </Button>
+                        <DisconnectPlatformButton platformName="PSN" onConfirm={disconnectPsn} disabled={isConnectingPsn || isLoadingPsnGames} />
                       </div>
                     ) : isConnectingPsn ? (
                       <p className="text-sm text-muted-foreground">Connecting to PSN...</p>
@@ -469,7 +584,7 @@ export const PlatformConnections = () => {
                              Obtain your NPSSO token by following{' '}
                              <a href={platform.apiDocUrl} target="_blank" rel="noopener noreferrer" className="underline text-blue-500 hover:text-blue-600">
                                this guide
-                             </a>. Keep it secure.
+                             </a>. It is only used once to link your account and is not stored.
                            </p>
                         </div>
                         <Button
@@ -484,8 +599,58 @@ export const PlatformConnections = () => {
                   </div>
                 )}
 
-                {/* UI for other platforms (non-Steam, non-GOG, non-Xbox, non-PSN) */}
-                {!isSteam && !isGog && !isXbox && !isPsn && (
+                {isEpic && (
+                  <div className="space-y-3">
+                    {/* Imported-only libraries can be removed too, not just OAuth links */}
+                    {(isEpicLinked || epicGames.length > 0) && (
+                      <div className="flex flex-col items-center space-y-2">
+                        {isEpicLinked && (
+                          <p className="text-sm text-green-600 text-center">
+                            Signed in with Epic{epicDisplayName ? <> as <strong>{epicDisplayName}</strong></> : null}. Your library syncs automatically.
+                          </p>
+                        )}
+                        <DisconnectPlatformButton
+                          platformName="Epic"
+                          onConfirm={disconnectEpic}
+                          disabled={isImportingEpic}
+                          details="Games imported from a library export are removed too."
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="epicLibraryFile">Library export (JSON)</Label>
+                      <input
+                        id="epicLibraryFile"
+                        ref={epicFileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleEpicFileSelected}
+                      />
+                      <Button
+                        onClick={() => epicFileInputRef.current?.click()}
+                        variant={isPlatformConnected ? "outline" : "default"}
+                        className="w-full"
+                        disabled={isImportingEpic}
+                      >
+                        <Upload className="h-4 w-4 mr-2" />
+                        {isImportingEpic ? 'Importing...' : isPlatformConnected ? 'Re-import Epic Library' : 'Import Epic Library'}
+                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        Export with <code>legendary list --json &gt; epic.json</code>, or pick Heroic's{' '}
+                        <code>store_cache/legendary_library.json</code> from its config folder.
+                      </p>
+                    </div>
+                    {isEpicOauthAvailable && !isEpicLinked && (
+                      <Button onClick={connectEpic} variant="outline" className="w-full">
+                        <Plug className="h-4 w-4 mr-2" /> Sign in with Epic
+                      </Button>
+                    )}
+                  </div>
+                )}
+
+                {/* UI for other platforms (non-Steam, non-GOG, non-Xbox, non-PSN, non-Epic) */}
+                {!isSteam && !isGog && !isXbox && !isPsn && !isEpic && (
                   <>
                     <div>
                       <h4 className="text-sm font-medium mb-2">Required Credentials:</h4>
@@ -570,10 +735,11 @@ export const PlatformConnections = () => {
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             {platformsState.filter(p => {
-              if (p.id === 'steam') return isAuthenticated;
-              if (p.id === 'gog') return !!gogUserId;
+              if (p.id === 'steam') return isAuthenticated && !!contextSteamId;
+              if (p.id === 'gog') return isGogConnected;
               if (p.id === 'xbox') return xboxGames.length > 0 && !errorXbox;
               if (p.id === 'psn') return isPsnConnected;
+              if (p.id === 'epic') return isEpicLinked || epicGames.length > 0;
               return p.connected;
             }).map((platform) => (
               <div key={platform.id} className="space-y-2">
@@ -587,15 +753,16 @@ export const PlatformConnections = () => {
                   <div>✓ Achievements</div>
                   {/* <div>✓ Last Played</div> Last Played might not be available */}
                 </div>
-                {platform.id === 'steam' && contextSteamUser && isAuthenticated && (
+                {platform.id === 'steam' && contextSteamUser && isAuthenticated && contextSteamId && (
                   <div className="text-xs p-2 bg-blue-50 rounded border border-blue-200">
                     <p className="font-medium">User: {contextSteamUser.personaName}</p>
                     <p>SteamID: {contextSteamId}</p>
                   </div>
                 )}
-                {platform.id === 'gog' && gogUserId && (
+                {platform.id === 'gog' && isGogConnected && (
                   <div className="text-xs p-2 bg-purple-50 rounded border border-purple-200">
-                    <p className="font-medium">GOG User ID: {gogUserId}</p>
+                    <p className="font-medium">GOG: {gogUsername || gogUserId}</p>
+                    <p>Games: {gogGames.length}</p>
                   </div>
                 )}
                 {platform.id === 'xbox' && xboxGames.length > 0 && !errorXbox && (
@@ -603,6 +770,12 @@ export const PlatformConnections = () => {
                     <p className="font-medium">Xbox Games: {xboxGames.length}</p>
                   </div>
                 )}
+                {platform.id === 'epic' && (isEpicLinked || epicGames.length > 0) && (
+                  <div className="text-xs p-2 bg-gray-50 rounded border border-gray-200">
+                    <p className="font-medium">Epic Games: {epicGames.length}</p>
+                    <p>{isEpicLinked ? 'Synced from your Epic account' : 'Imported from a library export'}</p>
+                  </div>
+                )}
                 {platform.id === 'psn' && psnProfile && isPsnConnected && (
                   <div className="text-xs p-2 bg-blue-50 rounded border border-blue-200">
                     <p className="font-medium">PSN ID: {psnProfile.onlineId}</p>
@@ -621,10 +794,11 @@ export const PlatformConnections = () => {
               </div>
             ))}
              {platformsState.filter(p => {
-               if (p.id === 'steam') return !isAuthenticated;
-               if (p.id === 'gog') return !gogUserId;
+               if (p.id === 'steam') return !(isAuthenticated && contextSteamId);
+               if (p.id === 'gog') return !isGogConnected;
                if (p.id === 'xbox') return !(xboxGames.length > 0 && !errorXbox);
                if (p.id === 'psn') return !isPsnConnected;
+               if (p.id === 'epic') return !(isEpicLinked || epicGames.length > 0);
                return !p.connected;
              }).length === platformsState.length && (
               <p className="text-muted-foreground col-span-full">No platforms connected yet.</p>
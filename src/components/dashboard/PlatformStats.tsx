@@ -1,8 +1,8 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Game } from "@/types/gameTypes";
+import { Game, PlayStatus } from "@/types/gameTypes";
 import { platformInfo } from "@/config/platformConfig";
-import { Clock, Trophy, GamepadIcon as TotalGamesIcon, Download, Star } from "lucide-react"; // Renamed GamepadIcon, Added Star for Gamerscore
+import { Clock, Trophy, GamepadIcon as TotalGamesIcon, Download, Star, CheckCircle2 } from "lucide-react"; // Renamed GamepadIcon, Added Star for Gamerscore
 
 interface PlatformStatsProps {
   games: Game[];
@@ -25,6 +25,11 @@ export const PlatformStats = ({ games }: PlatformStatsProps) => {
 
   const installedGames = games.filter(game => game.status === 'installed').length;
 
+  // From the play status the user sets on each game
+  const countByPlayStatus = (...statuses: PlayStatus[]) => games.filter(game => statuses.includes(game.playStatus)).length;
+  const finishedGames = countByPlayStatus('completed', 'hundred_percent');
+  const hasPlayStatus = games.some(game => game.playStatus);
+
   const platformStats = Object.entries(platformInfo).map(([key, info]) => {
     const platformGames = games.filter(game => game.platform === key);
     return {
@@ -79,6 +84,21 @@ export const PlatformStats = ({ games }: PlatformStatsProps) => {
         </CardContent>
       </Card>
 
+      {hasPlayStatus && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Games Finished</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{finishedGames}</div>
+            <p className="text-xs text-muted-foreground">
+              {countByPlayStatus('hundred_percent')} at 100% · {countByPlayStatus('playing')} playing · {countByPlayStatus('backlog')} in backlog
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {totalPossibleGamerscore > 0 && ( // Only show Gamerscore card if there's any Xbox data
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
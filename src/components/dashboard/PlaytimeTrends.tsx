@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useAuth } from "@/contexts/AuthContext";
+import { platformInfo } from "@/config/platformConfig";
+import { PlaytimeGranularity, PlaytimeHistoryResponse } from "@/types/playtimeTypes";
+import { AlertTriangle, Loader2, TrendingUp } from "lucide-react";
+
+const granularities: { value: PlaytimeGranularity; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+// Bar colours per platform, matching the platform badges (platformConfig uses Tailwind classes)
+const chartConfig: ChartConfig = {
+  steam: { label: platformInfo.steam.name, color: '#2563eb' },
+  epic: { label: platformInfo.epic.name, color: '#1f2937' },
+  xbox: { label: platformInfo.xbox.name, color: '#16a34a' },
+  gog: { label: platformInfo.gog.name, color: '#9333ea' },
+  psn: { label: platformInfo.psn.name, color: '#1d4ed8' },
+};
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+const formatPeriod = (period: string, granularity: PlaytimeGranularity) =>
+  new Date(period).toLocaleDateString(undefined, granularity === 'month'
+    ? { month: 'short', year: 'numeric' }
+    : { month: 'short', day: 'numeric' });
+
+export const PlaytimeTrends = () => {
+  const { user } = useAuth();
+  const [granularity, setGranularity] = useState<PlaytimeGranularity>('day');
+  const [selectedGameId, setSelectedGameId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PlaytimeHistoryResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.id || null;
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ granularity, tz: Intl.DateTimeFormat().resolvedOptions().timeZone });
+      if (selectedGameId) params.set('gameId', selectedGameId);
+      const response = await fetch(`/api/library/playtime?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error: ${response.status}`);
+      }
+      setHistory(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your playtime history');
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [granularity, selectedGameId]);
+
+  useEffect(() => {
+    if (userId) fetchHistory();
+  }, [userId, fetchHistory]);
+
+  if (!user) return null;
+
+  const platforms = Object.keys(chartConfig).filter(platform =>
+    history?.series.some(period => period.platforms[platform as keyof typeof period.platforms]));
+  const chartData = (history?.series || []).map(period => ({
+    label: formatPeriod(period.period, granularity),
+    ...period.platforms,
+  }));
+  const selectedGame = history?.games.find(game => game.id === selectedGameId);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Playtime Trends
+          </CardTitle>
+          <CardDescription>
+            {selectedGame ? `${selectedGame.title} · ` : ''}
+            {history ? `${formatMinutes(history.totalMinutes)} played in this range` : 'Time played between syncs'}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          {granularities.map(option => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={granularity === option.value ? 'default' : 'outline'}
+              onClick={() => setGranularity(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : isLoading && !history ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading playtime...
+          </div>
+        ) : !history || history.series.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            No playtime recorded yet. Playtime is tracked from your second sync onwards.
+          </p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <ChartContainer config={chartConfig} className="lg:col-span-2 max-h-72 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} tickFormatter={value => formatMinutes(Number(value))} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {platforms.map(platform => (
+                  <Bar key={platform} dataKey={platform} stackId="playtime" fill={`var(--color-${platform})`} />
+                ))}
+              </BarChart>
+            </ChartContainer>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium">Most played</h3>
+                {selectedGameId && (
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedGameId(null)}>
+                    All games
+                  </Button>
+                )}
+              </div>
+              <ul className="space-y-1">
+                {history.games.map(game => (
+                  <li key={game.id}>
+                    <button
+                      type="button"
+                      className={`flex w-full justify-between rounded px-2 py-1 text-sm text-left hover:bg-muted ${game.id === selectedGameId ? 'bg-muted font-medium' : ''}`}
+                      onClick={() => setSelectedGameId(game.id)}
+                    >
+                      <span className="truncate">{game.title}</span>
+                      <span className="text-muted-foreground ml-2">{formatMinutes(game.minutes)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
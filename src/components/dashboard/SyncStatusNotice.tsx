@@ -0,0 +1,59 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, AlertTriangle } from "lucide-react";
+import type { LibrarySyncStatus, LiveSyncProgress } from "@/types/syncTypes";
+
+interface SyncStatusNoticeProps {
+  platformName: string;
+  sync: LibrarySyncStatus | null; // Last status returned by the library route
+  live?: LiveSyncProgress | null; // Progress streamed over /api/sync/events, preferred when present
+}
+
+// Progress bar shown above the library while a platform syncs in the background, or the error of its last failed sync.
+export const SyncStatusNotice = ({ platformName, sync, live }: SyncStatusNoticeProps) => {
+  const inProgress = live ? live.active : !!sync?.inProgress;
+
+  if (inProgress) {
+    const processed = live ? live.processed : sync?.progress.processed ?? 0;
+    const total = live ? live.total : sync?.progress.total ?? 0;
+    const percent = total > 0 ? Math.round((processed / total) * 100) : 0;
+    return (
+      <Card>
+        <CardContent className="space-y-2 py-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="flex items-center text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin text-primary mr-2" />
+              Syncing your {platformName} library
+            </span>
+            <span className="text-muted-foreground">
+              {total > 0 ? `${processed}/${total} games` : 'Waiting to start...'}
+            </span>
+          </div>
+          <Progress value={percent} aria-label={`${platformName} sync progress`} className="h-2" />
+          {live && (live.achievementsFetched > 0 || live.errors > 0) && (
+            <p className="text-xs text-muted-foreground">
+              {live.achievementsFetched} achievement lists fetched
+              {live.errors > 0 ? `, ${live.errors} failed` : ''}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const lastError = live?.lastError || (sync?.state === 'failed' ? sync.lastError : null);
+  if (lastError) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="flex items-center py-4">
+          <AlertTriangle className="h-4 w-4 text-destructive mr-3" />
+          <p className="text-sm text-destructive">
+            Last {platformName} sync failed: {lastError}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { render, screen, waitFor, fireEvent, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ActivityFeed } from '../ActivityFeed';
+import { useAuth } from '@/contexts/AuthContext';
+import { ActivityFeedResponse } from '@/types/activityTypes';
+import fetchMock from 'jest-fetch-mock';
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockUseAuth = useAuth as jest.Mock;
+
+const portal = { id: 'steam-620', gameId: '620', title: 'Portal 2' };
+const horizon = { id: 'psn-NPWR20188_00', gameId: 'NPWR20188_00', title: 'Horizon Forbidden West' };
+
+const firstPage: ActivityFeedResponse = {
+  items: [
+    {
+      id: 'achievement-2',
+      type: 'achievement',
+      date: '2024-06-03T20:00:00.000Z',
+      platform: 'psn',
+      game: horizon,
+      achievement: { id: '0', platform: 'psn', name: 'Horizon Forbidden West', description: '', isUnlocked: true, grade: 'platinum' },
+    },
+    {
+      id: 'achievement-1',
+      type: 'achievement',
+      date: '2024-06-03T18:00:00.000Z',
+      platform: 'steam',
+      game: portal,
+      achievement: { id: 'ACH_WAKE_UP', platform: 'steam', name: 'Wake Up Call', description: '', isUnlocked: true },
+    },
+    { id: 'playtime-2', type: 'played', date: '2024-06-01T06:00:00.000Z', platform: 'steam', game: portal, minutes: 75 },
+  ],
+  nextCursor: '2024-06-01T06:00:00.000Z_65f000000000000000000002',
+};
+
+const secondPage: ActivityFeedResponse = {
+  items: [
+    { id: 'playtime-1', type: 'added', date: '2024-05-30T06:00:00.000Z', platform: 'steam', game: portal, minutes: 0 },
+  ],
+  nextCursor: null,
+};
+
+describe('ActivityFeed', () => {
+  beforeEach(() => {
+    fetchMock.resetMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } });
+  });
+
+  it('renders nothing without a logged-in user', () => {
+    mockUseAuth.mockReturnValue({ user: null });
+
+    const { container } = render(<ActivityFeed />);
+
+    expect(container).toBeEmptyDOMElement();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('groups the activity by day and describes each item', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify(firstPage));
+
+    render(<ActivityFeed />);
+
+    expect(await screen.findByText(/Earned a Platinum in/)).toBeInTheDocument();
+    expect(fetchMock.mock.calls[0][0]).toBe('/api/library/activity?limit=30');
+    const days = screen.getAllByRole('region');
+    expect(days).toHaveLength(2);
+    expect(within(days[0]).getByText('Wake Up Call')).toBeInTheDocument();
+    expect(within(days[1]).getByText(/1h 15m/)).toBeInTheDocument();
+  });
+
+  it('loads the next page after the cursor', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify(firstPage)).mockResponseOnce(JSON.stringify(secondPage));
+
+    render(<ActivityFeed />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Load more' }));
+
+    expect(await screen.findByText(/to the library on Steam/)).toBeInTheDocument();
+    expect(fetchMock.mock.calls[1][0]).toBe(`/api/library/activity?limit=30&before=${encodeURIComponent(firstPage.nextCursor!)}`);
+    expect(screen.getByText(/Earned a Platinum in/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+  });
+
+  it('filters by platform and by a game picked from the feed', async () => {
+    fetchMock.mockResponse(JSON.stringify(firstPage));
+
+    render(<ActivityFeed />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Steam' }));
+    await waitFor(() => expect(fetchMock.mock.calls[1][0]).toBe('/api/library/activity?limit=30&platform=steam'));
+
+    fireEvent.click((await screen.findAllByRole('button', { name: 'Portal 2' }))[0]);
+    await waitFor(() => expect(fetchMock.mock.calls[2][0]).toBe('/api/library/activity?limit=30&gameId=steam-620'));
+    expect(screen.getByRole('button', { name: 'Show every game' })).toBeInTheDocument();
+  });
+
+  it('shows the error of a failed page', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ error: "'limit' must be a whole number from 1 to 100." }), { status: 400 });
+
+    render(<ActivityFeed />);
+
+    expect(await screen.findByText(/'limit' must be a whole number/)).toBeInTheDocument();
+  });
+});
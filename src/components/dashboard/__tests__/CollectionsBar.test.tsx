@@ -0,0 +1,112 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { CollectionsBar } from '../CollectionsBar';
+import { Game, GameCollection } from '@/types/gameTypes';
+import { toast } from '@/components/ui/use-toast';
+import fetchMock from 'jest-fetch-mock';
+
+jest.mock('@/components/ui/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+const coop: GameCollection = { id: 'c1', name: 'Co-op nights', description: 'With the whole group', gameIds: ['steam-620'] };
+
+const portal2 = {
+  id: 'steam-620',
+  title: 'Portal 2',
+  platform: 'steam',
+  collectionIds: ['c1'],
+} as Game;
+
+describe('CollectionsBar', () => {
+  const onSelect = jest.fn();
+  const onChanged = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.resetMocks();
+    jest.clearAllMocks();
+  });
+
+  it('lists the collections with their game counts and selects one', () => {
+    render(<CollectionsBar collections={[coop]} games={[portal2]} selectedCollectionId={null} onSelect={onSelect} onChanged={onChanged} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Co-op nights 1' }));
+
+    expect(onSelect).toHaveBeenCalledWith('c1');
+    expect(screen.getByRole('button', { name: /All games/ })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('creates a collection and browses it', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ id: 'c2', name: 'Short games', gameIds: [] }), { status: 201 });
+
+    render(<CollectionsBar collections={[]} games={[]} selectedCollectionId={null} onSelect={onSelect} onChanged={onChanged} />);
+    fireEvent.click(screen.getByRole('button', { name: /New collection/ }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Short games' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => expect(onChanged).toHaveBeenCalled());
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/library/collections');
+    expect(init?.method).toBe('POST');
+    expect(JSON.parse(init?.body as string)).toEqual({ name: 'Short games' });
+    expect(onSelect).toHaveBeenCalledWith('c2');
+  });
+
+  it('creates a smart collection from rules', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ id: 'c3', name: 'Almost platinum', gameIds: [] }), { status: 201 });
+
+    render(<CollectionsBar collections={[]} games={[]} selectedCollectionId={null} onSelect={onSelect} onChanged={onChanged} />);
+    fireEvent.click(screen.getByRole('button', { name: /New collection/ }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Almost platinum' } });
+    fireEvent.click(screen.getByLabelText(/Smart collection/));
+    fireEvent.click(within(screen.getByRole('group', { name: 'Values of condition 1' })).getByLabelText('Steam'));
+    fireEvent.click(within(screen.getByRole('group', { name: 'Values of condition 1' })).getByLabelText('PlayStation Network'));
+    fireEvent.click(screen.getByRole('button', { name: /Add condition/ }));
+    fireEvent.change(screen.getByLabelText('Field of condition 2'), { target: { value: 'achievementsRemaining' } });
+    fireEvent.change(screen.getByLabelText('Comparison of condition 2'), { target: { value: 'eq' } });
+    fireEvent.change(screen.getByLabelText('Value of condition 2'), { target: { value: '1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => expect(onChanged).toHaveBeenCalled());
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({
+      name: 'Almost platinum',
+      rules: {
+        match: 'all',
+        conditions: [
+          { field: 'platform', operator: 'in', value: ['psn'] },
+          { field: 'achievementsRemaining', operator: 'eq', value: 1 },
+        ],
+      },
+    });
+  });
+
+  it('deletes the selected collection after a confirmation', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ id: 'c1' }));
+
+    render(<CollectionsBar collections={[coop]} games={[portal2]} selectedCollectionId="c1" onSelect={onSelect} onChanged={onChanged} />);
+    expect(screen.getByText('With the whole group')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: /Delete collection/ }));
+    expect(fetchMock).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: /Confirm delete/ }));
+
+    await waitFor(() => expect(onSelect).toHaveBeenCalledWith(null));
+    expect(fetchMock).toHaveBeenCalledWith('/api/library/collections/c1', expect.objectContaining({ method: 'DELETE' }));
+  });
+
+  it('shows the server error when a name is taken', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ error: 'You already have a collection named "Co-op nights".' }), { status: 409 });
+
+    render(<CollectionsBar collections={[coop]} games={[]} selectedCollectionId={null} onSelect={onSelect} onChanged={onChanged} />);
+    fireEvent.click(screen.getByRole('button', { name: /New collection/ }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Co-op nights' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Could not create the collection',
+      description: 'You already have a collection named "Co-op nights".',
+      variant: 'destructive',
+    })));
+    expect(onChanged).not.toHaveBeenCalled();
+  });
+});
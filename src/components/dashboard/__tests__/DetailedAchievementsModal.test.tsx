@@ -2,7 +2,8 @@ import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { DetailedAchievementsModal } from '../DetailedAchievementsModal';
-import { XboxDetailedAchievement } from '@/contexts/XboxContext'; // Adjust path as needed
+import { Achievement } from '@/types/achievementTypes';
+import { PsnTrophyGroup } from '@/contexts/PsnContext';
 
 // Mock lucide-react icons for simplicity in tests
 jest.mock('lucide-react', () => {
@@ -28,10 +29,10 @@ describe('DetailedAchievementsModal', () => {
     error: null,
   };
 
-  const mockAchievements: XboxDetailedAchievement[] = [
-    { id: 'ach1', name: 'First One', description: 'Description for first.', isUnlocked: true, gamerscore: 50, iconUrl: 'icon1.jpg', unlockedTime: new Date().toISOString(), rarityPercent: 15.5 },
-    { id: 'ach2', name: 'Second One', description: 'Description for second.', isUnlocked: false, gamerscore: 20, iconUrl: 'icon2.jpg' },
-    { id: 'ach3', name: 'No Icon One', description: 'No icon here.', isUnlocked: true, gamerscore: 10, unlockedTime: new Date().toISOString() },
+  const mockAchievements: Achievement[] = [
+    { platform: 'xbox', id: 'ach1', name: 'First One', description: 'Description for first.', isUnlocked: true, points: 50, iconUrl: 'icon1.jpg', unlockedTime: new Date().toISOString(), rarityPercent: 15.5 },
+    { platform: 'xbox', id: 'ach2', name: 'Second One', description: 'Description for second.', isUnlocked: false, points: 20, iconUrl: 'icon2.jpg' },
+    { platform: 'xbox', id: 'ach3', name: 'No Icon One', description: 'No icon here.', isUnlocked: true, points: 10, unlockedTime: new Date().toISOString() },
   ];
 
   beforeEach(() => {
@@ -48,12 +49,12 @@ describe('DetailedAchievementsModal', () => {
     expect(screen.getByRole('dialog')).toBeInTheDocument();
     expect(screen.getByText(`Achievements: ${gameName}`)).toBeInTheDocument();
     // expect(screen.getByText(`Detailed list of achievements for ${gameName}.`)).toBeInTheDocument(); // Description is commented out in modal
-    expect(screen.getByRole('button', { name: /Close/i })).toBeInTheDocument();
+    expect(screen.getByText('Close', { selector: 'button' })).toBeInTheDocument(); // The footer button; the corner X is labelled Close too
   });
 
   it('calls onClose when close button is clicked', () => {
     render(<DetailedAchievementsModal {...defaultProps} />);
-    fireEvent.click(screen.getByRole('button', { name: /Close/i }));
+    fireEvent.click(screen.getByText('Close', { selector: 'button' }));
     expect(mockOnClose).toHaveBeenCalledTimes(1);
   });
 
@@ -87,14 +88,14 @@ describe('DetailedAchievementsModal', () => {
 
     expect(screen.getByText(mockAchievements[0].name)).toBeInTheDocument();
     expect(screen.getByText(mockAchievements[0].description)).toBeInTheDocument();
-    expect(screen.getByText(`${mockAchievements[0].gamerscore} GS`)).toBeInTheDocument();
+    expect(screen.getByText(`${mockAchievements[0].points} GS`)).toBeInTheDocument();
     expect(screen.getByText(`${mockAchievements[0].rarityPercent?.toFixed(1)}% Rarity`)).toBeInTheDocument();
-    expect(screen.getByText(`Unlocked: ${new Date(mockAchievements[0].unlockedTime!).toLocaleDateString()}`)).toBeInTheDocument();
+    expect(screen.getAllByText(`Unlocked: ${new Date(mockAchievements[0].unlockedTime!).toLocaleDateString()}`)).toHaveLength(2); // First One and No Icon One
     expect(screen.getAllByTestId('check-icon').length).toBeGreaterThanOrEqual(1); // For unlocked achievements
 
     expect(screen.getByText(mockAchievements[1].name)).toBeInTheDocument();
     expect(screen.getByText(mockAchievements[1].description)).toBeInTheDocument();
-    expect(screen.getByText(`${mockAchievements[1].gamerscore} GS`)).toBeInTheDocument();
+    expect(screen.getByText(`${mockAchievements[1].points} GS`)).toBeInTheDocument();
 
     // Check for images (presence of img tag with alt text)
     expect(screen.getByAltText(mockAchievements[0].name)).toHaveAttribute('src', 'icon1.jpg');
@@ -103,7 +104,7 @@ describe('DetailedAchievementsModal', () => {
     // Check for placeholder for achievement with no icon
     const ach3Name = mockAchievements[2].name;
     const ach3Element = screen.getByText(ach3Name).closest('li');
-    expect(ach3Element).not.toContainHTML('<img'); // No img tag
+    expect(ach3Element?.querySelector('img')).toBeNull(); // No img tag
     // Find placeholder icon within the context of the third achievement
     const listItemForAch3 = screen.getByText(ach3Name).closest('li');
     const placeholderIconInAch3 = listItemForAch3?.querySelector('[data-testid="image-off-icon"]');
@@ -111,8 +112,8 @@ describe('DetailedAchievementsModal', () => {
   });
 
   it('handles achievements with missing optional fields gracefully', () => {
-    const achievementWithoutOptional: XboxDetailedAchievement[] = [
-      { id: 'ach4', name: 'Minimal Ach', description: 'Desc.', isUnlocked: false, gamerscore: 5 },
+    const achievementWithoutOptional: Achievement[] = [
+      { platform: 'xbox', id: 'ach4', name: 'Minimal Ach', description: 'Desc.', isUnlocked: false, points: 5 },
     ];
     render(<DetailedAchievementsModal {...defaultProps} achievements={achievementWithoutOptional} />);
     expect(screen.getByText('Minimal Ach')).toBeInTheDocument();
@@ -122,4 +123,32 @@ describe('DetailedAchievementsModal', () => {
     expect(screen.queryByText(/% Rarity/i)).not.toBeInTheDocument();
     expect(screen.queryByText(/Unlocked:/i)).not.toBeInTheDocument();
   });
+
+  it('renders Steam achievements with rarity and without gamerscore', () => {
+    const steamAchievements: Achievement[] = [
+      { platform: 'steam', id: 'ACH_WIN_ONE_GAME', name: 'Winner', description: 'Win one game.', isUnlocked: true, hidden: false, rarityPercent: 63.2, unlockedTime: '2024-06-01T12:00:00.000Z' },
+      { platform: 'steam', id: 'ACH_SECRET', name: 'Secret', description: '', isUnlocked: false, hidden: true, rarityPercent: 1.5 },
+    ];
+    render(<DetailedAchievementsModal {...defaultProps} achievements={steamAchievements} />);
+    expect(screen.getByText('63.2% Rarity')).toBeInTheDocument();
+    expect(screen.getByText('Hidden achievement')).toBeInTheDocument();
+    expect(screen.queryByText(/GS/)).not.toBeInTheDocument();
+  });
+
+  it('groups PSN trophies into the base game and DLC packs', () => {
+    const groups: PsnTrophyGroup[] = [
+      { id: 'default', name: 'Horizon Forbidden West', isDlc: false, earned: 1, total: 1 },
+      { id: '001', name: 'Burning Shores', isDlc: true, earned: 0, total: 1 },
+    ];
+    const trophies: Achievement[] = [
+      { id: '1', platform: 'psn', name: 'Ready to Ride', description: 'Override a Charger.', grade: 'bronze', hidden: false, isUnlocked: true, rarityPercent: 92.4, groupId: 'default' },
+      { id: '90', platform: 'psn', name: 'Burning Shores Completed', description: 'Complete the expansion.', grade: 'gold', hidden: false, isUnlocked: false, groupId: '001' },
+    ];
+    render(<DetailedAchievementsModal {...defaultProps} achievements={trophies} groups={groups} />);
+    expect(screen.getByRole('region', { name: 'Burning Shores' })).toHaveTextContent('Burning Shores Completed');
+    expect(screen.getByRole('region', { name: 'Horizon Forbidden West' })).toHaveTextContent('Ready to Ride');
+    expect(screen.getByText('DLC')).toBeInTheDocument();
+    expect(screen.getByText('Gold')).toBeInTheDocument();
+    expect(screen.getByText('0/1')).toBeInTheDocument();
+  });
 });
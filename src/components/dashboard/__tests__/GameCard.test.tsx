@@ -1,11 +1,36 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { GameCard } from '../GameCard';
-import { Game, platformInfo } from '@/data/mockGameData';
-import { XboxContext, XboxContextType, XboxDetailedAchievement } from '@/contexts/XboxContext';
+import { Game } from '@/types/gameTypes';
+import { platformInfo } from '@/config/platformConfig';
+import { useXbox } from '@/contexts/XboxContext';
+import { Achievement } from '@/types/achievementTypes';
+import { useSteam } from '@/contexts/SteamContext';
+import { usePsn } from '@/contexts/PsnContext';
 import { ToastProvider } from '@/components/ui/toast';
-import { DetailedAchievementsModalProps } from '../DetailedAchievementsModal'; // For mocking
+import { DetailedAchievementsModal, DetailedAchievementsModalProps } from '../DetailedAchievementsModal'; // For mocking
+
+type XboxContextValue = ReturnType<typeof useXbox>;
+type SteamContextValue = ReturnType<typeof useSteam>;
+type PsnContextValue = ReturnType<typeof usePsn>;
+
+// The platform hooks read the values each test renders with
+let mockXboxContextValue: XboxContextValue;
+jest.mock('@/contexts/XboxContext', () => ({
+  ...jest.requireActual('@/contexts/XboxContext'),
+  useXbox: () => mockXboxContextValue,
+}));
+let mockSteamContextValue: SteamContextValue;
+jest.mock('@/contexts/SteamContext', () => ({
+  ...jest.requireActual('@/contexts/SteamContext'),
+  useSteam: () => mockSteamContextValue,
+}));
+let mockPsnContextValue: PsnContextValue;
+jest.mock('@/contexts/PsnContext', () => ({
+  ...jest.requireActual('@/contexts/PsnContext'),
+  usePsn: () => mockPsnContextValue,
+}));
 
 // Mock the DetailedAchievementsModal to verify props and open state
 jest.mock('../DetailedAchievementsModal', () => ({
@@ -37,6 +62,21 @@ jest.mock('lucide-react', () => {
   };
 });
 
+const mockGamePsn: Game = {
+  id: 'psn-NPWR20188_00',
+  appId: 'NPWR20188_00',
+  title: 'PSN Game Test',
+  platform: 'psn',
+  coverImage: 'psn.png',
+  playtime: 40,
+  lastPlayed: new Date().toISOString(),
+  achievements: { unlocked: 1, total: 3 },
+  status: 'owned',
+  genre: ['Unknown Genre'],
+  releaseYear: 0,
+  systems: ['PS4', 'PS5'],
+};
+
 const mockGameSteam: Game = {
   id: 'steam-123',
   appId: '123',
@@ -66,27 +106,70 @@ const mockGameXbox: Game = {
 
 describe('GameCard', () => {
   const mockFetchDetailedXboxAchievements = jest.fn();
-  let xboxContextValue: XboxContextType;
+  const mockFetchDetailedSteamAchievements = jest.fn();
+  const mockFetchPsnTrophies = jest.fn();
 
-  const renderGameCardWithXboxContext = (game: Game, contextOverrides?: Partial<XboxContextType>) => {
-    xboxContextValue = {
+  const renderGameCardWithXboxContext = (
+    game: Game,
+    contextOverrides?: Partial<XboxContextValue>,
+    cardProps?: Partial<React.ComponentProps<typeof GameCard>>,
+    steamOverrides?: Partial<SteamContextValue>,
+    psnOverrides?: Partial<PsnContextValue>,
+  ) => {
+    mockPsnContextValue = {
+      psnGames: [],
+      psnProfile: null,
+      isLoadingGames: false,
+      errorGames: null,
+      syncStatus: null,
+      isConnecting: false,
+      errorConnect: null,
+      isConnected: true,
+      connectPsn: jest.fn(),
+      fetchPsnGames: jest.fn(),
+      disconnectPsn: jest.fn(),
+      trophyLists: {},
+      isLoadingTrophies: {},
+      errorTrophies: {},
+      fetchPsnTrophies: mockFetchPsnTrophies,
+      ...psnOverrides,
+    };
+    mockSteamContextValue = {
+      steamId: '7656',
+      steamUser: null,
+      isAuthenticated: true,
+      isLoadingSteamProfile: false,
+      steamProfileError: null,
+      fetchSteamProfile: jest.fn(),
+      clearSteamConnection: jest.fn(),
+      disconnectSteam: jest.fn(),
+      checkUserSession: jest.fn(),
+      detailedAchievements: {},
+      isLoadingDetailedAchievements: {},
+      errorDetailedAchievements: {},
+      fetchDetailedSteamAchievements: mockFetchDetailedSteamAchievements,
+      ...steamOverrides,
+    };
+    mockXboxContextValue = {
       xboxGames: [],
       isLoading: false,
       error: null,
+      syncStatus: null,
       fetchXboxGames: jest.fn(),
       detailedAchievements: {},
       isLoadingDetailedAchievements: {},
       errorDetailedAchievements: {},
       currentXuid: 'test-user-xuid', // Default XUID for tests
+      linkedXuid: null,
+      linkedGamertag: null,
+      disconnectXbox: jest.fn(),
       fetchDetailedXboxAchievements: mockFetchDetailedXboxAchievements,
       ...contextOverrides,
     };
 
     return render(
       <ToastProvider> {/* Assuming GameCard or its children might use toast indirectly */}
-        <XboxContext.Provider value={xboxContextValue}>
-          <GameCard game={game} />
-        </XboxContext.Provider>
+        <GameCard game={game} {...cardProps} />
       </ToastProvider>
     );
   };
@@ -104,17 +187,147 @@ describe('GameCard', () => {
     expect(screen.getByText(platformInfo.steam.name)).toBeInTheDocument(); // Platform name from platformInfo
   });
 
-  it('does NOT render "View Achievements" button for non-Xbox games', () => {
-    renderGameCardWithXboxContext(mockGameSteam);
+  it('renders the metadata looked up by the server', () => {
+    renderGameCardWithXboxContext({
+      ...mockGameSteam,
+      genre: ['RPG'],
+      releaseYear: 2015,
+      developers: ['CD PROJEKT RED'],
+      description: 'Open-world RPG.',
+    });
+    expect(screen.getByText('RPG • 2015')).toBeInTheDocument();
+    expect(screen.getByText('CD PROJEKT RED')).toBeInTheDocument();
+    expect(screen.getByText('Open-world RPG.')).toBeInTheDocument();
+  });
+
+  it('does NOT render "View Achievements" button for games of platforms without detailed achievements', () => {
+    renderGameCardWithXboxContext({ ...mockGameSteam, id: 'gog-1', appId: '1', platform: 'gog' });
     expect(screen.queryByRole('button', { name: /View Achievements/i })).not.toBeInTheDocument();
   });
 
+  it('loads the detailed achievements of a Steam game into the modal', async () => {
+    const steamAchievements = [{ id: 'ACH_WIN', name: 'Winner', description: 'Win.', isUnlocked: true, hidden: false, rarityPercent: 40 }];
+    renderGameCardWithXboxContext(mockGameSteam, {}, {}, { detailedAchievements: { '123': steamAchievements } });
+
+    fireEvent.click(screen.getByRole('button', { name: /View Achievements/i }));
+
+    expect(mockFetchDetailedSteamAchievements).toHaveBeenCalledWith('7656', '123');
+    expect(await screen.findByTestId('ach-ACH_WIN')).toHaveTextContent('Winner');
+  });
+
+  it('disables Steam achievements without a linked Steam account', () => {
+    renderGameCardWithXboxContext(mockGameSteam, {}, {}, { steamId: null });
+    expect(screen.getByRole('button', { name: /View Achievements/i })).toBeDisabled();
+  });
+
+  it('loads the trophy list of a PSN game with its trophy groups into the modal', async () => {
+    const trophyList = {
+      npCommunicationId: 'NPWR20188_00',
+      title: 'PSN Game Test',
+      groups: [
+        { id: 'default', name: 'PSN Game Test', isDlc: false, earned: 1, total: 2 },
+        { id: '001', name: 'Expansion', isDlc: true, earned: 0, total: 1 },
+      ],
+      trophies: [
+        { id: '1', name: 'Ready to Ride', description: 'Override a Charger.', grade: 'bronze' as const, hidden: false, isUnlocked: true, groupId: 'default' },
+      ],
+    };
+    renderGameCardWithXboxContext(mockGamePsn, {}, {}, {}, { trophyLists: { NPWR20188_00: trophyList } });
+
+    fireEvent.click(screen.getByRole('button', { name: /View Trophies/i }));
+
+    expect(mockFetchPsnTrophies).toHaveBeenCalledWith('NPWR20188_00');
+    expect(await screen.findByTestId('ach-1')).toHaveTextContent('Ready to Ride');
+    expect(DetailedAchievementsModal as jest.Mock).toHaveBeenLastCalledWith(expect.objectContaining({ groups: trophyList.groups }), {});
+  });
+
+  it('shows the play status and reports a new one picked', () => {
+    const onPlayStatusChange = jest.fn();
+    renderGameCardWithXboxContext({ ...mockGameSteam, playStatus: 'playing' }, undefined, { onPlayStatusChange });
+
+    const picker = screen.getByRole('combobox', { name: `Play status of ${mockGameSteam.title}` });
+    expect(picker).toHaveValue('playing');
+    fireEvent.change(picker, { target: { value: 'completed' } });
+    expect(onPlayStatusChange).toHaveBeenCalledWith('completed');
+    fireEvent.change(picker, { target: { value: '' } });
+    expect(onPlayStatusChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it('shows the consoles of a PSN game apart from its genres', () => {
+    renderGameCardWithXboxContext(mockGamePsn);
+
+    expect(screen.getByText('PS4')).toBeInTheDocument();
+    expect(screen.getByText('PS5')).toBeInTheDocument();
+    expect(screen.queryByText(/Unknown Genre/)).not.toBeInTheDocument();
+  });
+
+  it('does not offer trophies for PSN games without a trophy set', () => {
+    renderGameCardWithXboxContext({ ...mockGamePsn, achievements: { unlocked: 0, total: 0 } });
+    expect(screen.queryByRole('button', { name: /View Trophies/i })).not.toBeInTheDocument();
+  });
+
+  describe('Games owned on several platforms', () => {
+    const mergedGame: Game = {
+      ...mockGameSteam,
+      playtime: 12,
+      entries: [
+        { ...mockGameSteam, playtime: 10 },
+        { ...mockGameXbox, id: 'xbox-789', title: mockGameSteam.title, playtime: 2 },
+      ],
+    };
+
+    it('shows every platform with its own playtime and achievements', () => {
+      renderGameCardWithXboxContext(mergedGame);
+
+      expect(screen.getAllByText(platformInfo.xbox.name).length).toBeGreaterThan(0);
+      const ownedOn = screen.getByRole('list', { name: 'Owned on' });
+      expect(ownedOn).toHaveTextContent('10h');
+      expect(ownedOn).toHaveTextContent('3/15');
+      expect(screen.getByText('12h')).toBeInTheDocument(); // Total playtime
+    });
+
+    it('splits a platform off when its split button is clicked', () => {
+      const onSplit = jest.fn();
+      renderGameCardWithXboxContext(mergedGame, undefined, { onSplit });
+
+      fireEvent.click(screen.getByRole('button', { name: `Split the ${platformInfo.xbox.name} version into its own game` }));
+
+      expect(onSplit).toHaveBeenCalledWith('xbox-789');
+    });
+
+    it('does not list platforms for a game owned once', () => {
+      renderGameCardWithXboxContext(mockGameSteam, undefined, { onSplit: jest.fn() });
+      expect(screen.queryByRole('list', { name: 'Owned on' })).not.toBeInTheDocument();
+    });
+
+    it('labels a game added by hand with its own platform and edits that entry', () => {
+      const manualEntry: Game = {
+        ...mockGameSteam,
+        id: 'manual-665f00000000000000000002',
+        appId: '665f00000000000000000002',
+        platform: 'manual',
+        platformName: 'Nintendo Switch',
+        format: 'physical',
+        notes: 'Collector\'s edition',
+        playtime: 30,
+      };
+      const onEdit = jest.fn();
+      renderGameCardWithXboxContext({ ...mockGameSteam, playtime: 40, entries: [manualEntry, mockGameSteam] }, undefined, { onEdit });
+
+      expect(screen.getAllByText('Nintendo Switch').length).toBeGreaterThan(0);
+      expect(screen.getByText('Physical')).toBeInTheDocument();
+      expect(screen.getByText("Collector's edition")).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Edit' }));
+      expect(onEdit).toHaveBeenCalledWith(manualEntry);
+    });
+  });
+
   describe('Xbox Game Specific Tests', () => {
     it('renders "View Achievements" button for Xbox games', () => {
       renderGameCardWithXboxContext(mockGameXbox);
       const achievementsButton = screen.getByRole('button', { name: /View Achievements/i });
       expect(achievementsButton).toBeInTheDocument();
-      expect(screen.getByTestId('listchecks-icon')).toBeInTheDocument(); // Check for icon presence
+      expect(within(achievementsButton).getByTestId('trophy-icon')).toBeInTheDocument(); // Check for icon presence
     });
 
     it('disables "View Achievements" button if currentXuid is null', () => {
@@ -130,7 +343,7 @@ describe('GameCard', () => {
       fireEvent.click(achievementsButton);
 
       const expectedTitleId = mockGameXbox.id.substring(5); // Remove "xbox-" prefix
-      expect(mockFetchDetailedXboxAchievements).toHaveBeenCalledWith(xboxContextValue.currentXuid, expectedTitleId);
+      expect(mockFetchDetailedXboxAchievements).toHaveBeenCalledWith(mockXboxContextValue.currentXuid, expectedTitleId);
 
       // Check if DetailedAchievementsModal was rendered (mocked version) with isOpen=true
       // The mock modal renders content only if isOpen is true.
@@ -147,14 +360,14 @@ describe('GameCard', () => {
 
     it('passes correct achievement data, loading, and error states to modal', async () => {
       const titleId = mockGameXbox.id.substring(5);
-      const mockDetailedData: XboxDetailedAchievement[] = [{ id: 'detail1', name: 'Detailed Ach 1', description: 'Desc', isUnlocked: true, gamerscore: 20 }];
+      const mockDetailedData: Achievement[] = [{ id: 'detail1', platform: 'xbox', name: 'Detailed Ach 1', description: 'Desc', isUnlocked: true, points: 20 }];
       const contextWithData = {
         currentXuid: 'test-user-xuid',
         detailedAchievements: { [titleId]: mockDetailedData },
         isLoadingDetailedAchievements: { [titleId]: false },
         errorDetailedAchievements: { [titleId]: null },
       };
-      renderGameCardWithXboxContext(mockGameXbox, contextWithData);
+      const { unmount } = renderGameCardWithXboxContext(mockGameXbox, contextWithData);
 
       const achievementsButton = screen.getByRole('button', { name: /View Achievements/i });
       fireEvent.click(achievementsButton);
@@ -169,13 +382,14 @@ describe('GameCard', () => {
       expect(lastCallProps.achievements).toEqual(mockDetailedData);
       expect(lastCallProps.isLoading).toBe(false);
       expect(lastCallProps.error).toBeNull();
+      unmount();
 
       // Test with loading state
       const contextLoading = { ...contextWithData, isLoadingDetailedAchievements: { [titleId]: true } };
-      renderGameCardWithXboxContext(mockGameXbox, contextLoading);
+      const { unmount: unmountLoading } = renderGameCardWithXboxContext(mockGameXbox, contextLoading);
       fireEvent.click(screen.getByRole('button', { name: /View Achievements/i }));
       await waitFor(() => expect(screen.getByTestId('modal-loading')).toBeInTheDocument());
-
+      unmountLoading();
 
       // Test with error state
       const errorMsg = "Failed to load";
@@ -0,0 +1,104 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { GameDetailsDialog } from '../GameDetailsDialog';
+import { Game } from '@/types/gameTypes';
+import { toast } from '@/components/ui/use-toast';
+import fetchMock from 'jest-fetch-mock';
+
+jest.mock('@/components/ui/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+const witcherSteam: Game = {
+  id: 'steam-292030',
+  appId: '292030',
+  title: 'The Witcher 3: Wild Hunt',
+  platform: 'steam',
+  coverImage: '/placeholder.svg',
+  playtime: 120,
+  lastPlayed: '2024-03-01T00:00:00.000Z',
+  achievements: { unlocked: 40, total: 78 },
+  status: 'installed',
+  genre: ['RPG'],
+  releaseYear: 2015,
+};
+
+const witcher: Game = {
+  ...witcherSteam,
+  playtime: 130,
+  entries: [witcherSteam, { ...witcherSteam, id: 'gog-1207664643', appId: '1207664643', platform: 'gog', playtime: 10 }],
+};
+
+describe('GameDetailsDialog', () => {
+  const onOpenChange = jest.fn();
+  const onSaved = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.resetMocks();
+    jest.clearAllMocks();
+  });
+
+  it('saves a review on every platform of the game', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ gameIds: ['steam-292030', 'gog-1207664643'], review: {} }));
+
+    render(<GameDetailsDialog open onOpenChange={onOpenChange} game={witcher} onSaved={onSaved} />);
+    expect(screen.getByRole('button', { name: 'Save review' })).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Score'), { target: { value: '10' } });
+    fireEvent.change(screen.getByLabelText('Review'), { target: { value: 'The **Bloody Baron** quest.' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save review' }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/library/review');
+    expect(init?.method).toBe('PUT');
+    expect(JSON.parse(init?.body as string)).toEqual({
+      gameIds: ['steam-292030', 'gog-1207664643'],
+      score: 10,
+      review: 'The **Bloody Baron** quest.',
+      notes: '',
+      finishedAt: null,
+    });
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it('previews the review as markdown', () => {
+    render(<GameDetailsDialog open onOpenChange={onOpenChange} game={witcher} onSaved={onSaved} />);
+    fireEvent.change(screen.getByLabelText('Review'), { target: { value: '# Verdict\n- **Story**\n- Combat' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    const preview = screen.getByTestId('review-preview');
+    expect(within(preview).getByRole('heading', { name: 'Verdict' })).toBeInTheDocument();
+    expect(within(preview).getByText('Story').tagName).toBe('STRONG');
+    expect(within(preview).getAllByRole('listitem')).toHaveLength(2);
+  });
+
+  it('starts from the stored review and deletes it', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ gameIds: ['steam-292030'] }));
+    const reviewed: Game = { ...witcherSteam, review: { score: 9, notes: 'Replay on death march', finishedAt: '2024-03-10T00:00:00.000Z', updatedAt: '2024-03-11T00:00:00.000Z' } };
+
+    render(<GameDetailsDialog open onOpenChange={onOpenChange} game={reviewed} onSaved={onSaved} />);
+    expect(screen.getByLabelText('Score')).toHaveValue('9');
+    expect(screen.getByLabelText('Private notes')).toHaveValue('Replay on death march');
+    expect(screen.getByLabelText('Finished on')).toHaveValue('2024-03-10');
+    fireEvent.click(screen.getByRole('button', { name: 'Delete review' }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    expect(fetchMock.mock.calls[0][1]?.method).toBe('DELETE');
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({ gameIds: ['steam-292030'] });
+  });
+
+  it('shows the error of a rejected review', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ error: "'review' can be at most 20000 characters." }), { status: 400 });
+
+    render(<GameDetailsDialog open onOpenChange={onOpenChange} game={witcher} onSaved={onSaved} />);
+    fireEvent.change(screen.getByLabelText('Review'), { target: { value: 'Long review' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save review' }));
+
+    await waitFor(() => expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Could not save the review',
+      description: "'review' can be at most 20000 characters.",
+    })));
+    expect(onSaved).not.toHaveBeenCalled();
+  });
+});
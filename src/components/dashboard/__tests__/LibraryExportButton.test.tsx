@@ -0,0 +1,23 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { LibraryExportButton } from '../LibraryExportButton';
+
+describe('LibraryExportButton', () => {
+  it('links to the export in the chosen format', () => {
+    render(<LibraryExportButton />);
+
+    expect(screen.getByRole('link', { name: /Export/ })).toHaveAttribute('href', '/api/library/export?format=csv');
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Export format' }), { target: { value: 'xlsx' } });
+
+    expect(screen.getByRole('link', { name: /Export/ })).toHaveAttribute('href', '/api/library/export?format=xlsx');
+    expect(screen.getByRole('link', { name: /Export/ })).toHaveAttribute('download');
+  });
+
+  it('exports a looked up Xbox library along', () => {
+    render(<LibraryExportButton xuid="2533274800000000" />);
+
+    expect(screen.getByRole('link', { name: /Export/ })).toHaveAttribute('href', '/api/library/export?format=csv&xuid=2533274800000000');
+  });
+});
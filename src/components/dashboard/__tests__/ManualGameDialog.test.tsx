@@ -0,0 +1,106 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ManualGameDialog } from '../ManualGameDialog';
+import { Game } from '@/types/gameTypes';
+import { toast } from '@/components/ui/use-toast';
+import fetchMock from 'jest-fetch-mock';
+
+jest.mock('@/components/ui/use-toast', () => ({
+  toast: jest.fn(),
+}));
+
+const manualGame: Game = {
+  id: 'manual-665f00000000000000000002',
+  appId: '665f00000000000000000002',
+  title: 'The Legend of Zelda: Tears of the Kingdom',
+  platform: 'manual',
+  platformName: 'Nintendo Switch',
+  format: 'physical',
+  coverImage: '',
+  playtime: 51,
+  lastPlayed: '2024-06-01T00:00:00.000Z',
+  achievements: { unlocked: 0, total: 0 },
+  status: 'owned',
+  genre: ['Adventure'],
+  releaseYear: 2023,
+};
+
+describe('ManualGameDialog', () => {
+  const onOpenChange = jest.fn();
+  const onSaved = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.resetMocks();
+    jest.clearAllMocks();
+  });
+
+  it('adds a game with the fields filled in', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ id: 'manual-665f00000000000000000003' }), { status: 201 });
+
+    render(<ManualGameDialog open onOpenChange={onOpenChange} onSaved={onSaved} />);
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Celeste' } });
+    fireEvent.change(screen.getByLabelText('Platform'), { target: { value: 'itch.io' } });
+    fireEvent.change(screen.getByLabelText('Format'), { target: { value: 'digital' } });
+    fireEvent.change(screen.getByLabelText('Hours played'), { target: { value: '12' } });
+    fireEvent.change(screen.getByLabelText('Genres'), { target: { value: 'Platformer, Indie' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add game' }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/library/manual');
+    expect(init?.method).toBe('POST');
+    expect(JSON.parse(init?.body as string)).toEqual(expect.objectContaining({
+      title: 'Celeste',
+      platform: 'itch.io',
+      format: 'digital',
+      playtimeMinutes: 720,
+      genre: ['Platformer', 'Indie'],
+      releaseYear: null,
+    }));
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it('sends only the changed fields when editing', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ ...manualGame, notes: 'Lent to a friend' }));
+
+    render(<ManualGameDialog open onOpenChange={onOpenChange} game={manualGame} onSaved={onSaved} />);
+    expect(screen.getByLabelText('Platform')).toHaveValue('Nintendo Switch');
+    fireEvent.change(screen.getByLabelText('Notes'), { target: { value: 'Lent to a friend' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/library/manual/665f00000000000000000002');
+    expect(init?.method).toBe('PATCH');
+    expect(JSON.parse(init?.body as string)).toEqual({ notes: 'Lent to a friend' });
+  });
+
+  it('asks for a confirmation before deleting', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ id: manualGame.id }));
+
+    render(<ManualGameDialog open onOpenChange={onOpenChange} game={manualGame} onSaved={onSaved} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    expect(fetchMock).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm delete' }));
+
+    await waitFor(() => expect(onSaved).toHaveBeenCalled());
+    expect(fetchMock.mock.calls[0][1]?.method).toBe('DELETE');
+  });
+
+  it('keeps the dialog open and shows the error of a rejected game', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ error: "'coverImage' must be an http(s) URL." }), { status: 400 });
+
+    render(<ManualGameDialog open onOpenChange={onOpenChange} game={manualGame} onSaved={onSaved} />);
+    fireEvent.change(screen.getByLabelText('Title'), { target: { value: 'Zelda: TotK' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Could not save the game',
+      description: "'coverImage' must be an http(s) URL.",
+      variant: 'destructive',
+    })));
+    expect(onSaved).not.toHaveBeenCalled();
+    expect(onOpenChange).not.toHaveBeenCalledWith(false);
+  });
+});
@@ -0,0 +1,25 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { MarkdownText } from '../MarkdownText';
+
+describe('MarkdownText', () => {
+  it('renders headings, lists, paragraphs and inline formatting', () => {
+    render(<MarkdownText source={'## Verdict\nGreat *story*,\nweak `UI`.\n\n1. Act one\n2. Act two\n\nSee [the wiki](https://witcher.fandom.com)'} />);
+
+    expect(screen.getByRole('heading', { name: 'Verdict', level: 2 })).toBeInTheDocument();
+    expect(screen.getByText('story').tagName).toBe('EM');
+    expect(screen.getByText('UI').tagName).toBe('CODE');
+    expect(screen.getByRole('list').tagName).toBe('OL');
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    expect(screen.getByRole('link', { name: 'the wiki' })).toHaveAttribute('href', 'https://witcher.fandom.com');
+  });
+
+  it('shows markup as text instead of rendering it', () => {
+    const { container } = render(<MarkdownText source={'<img src=x onerror="alert(1)"> [click](javascript:alert(1))'} />);
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('a')).toBeNull();
+    expect(container).toHaveTextContent('<img src=x onerror="alert(1)">');
+  });
+});
@@ -2,67 +2,114 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom'; // For .toBeInTheDocument() etc.
 import { PlatformConnections } from '../PlatformConnections';
-import { XboxContext, XboxContextType } from '../../../contexts/XboxContext';
-import { AuthContextType, AuthProvider } from '../../../contexts/AuthContext'; // Using real AuthProvider
-import { SteamContextType, SteamProvider } from '../../../contexts/SteamContext'; // Using real SteamProvider
-import { GogContextType, GogProvider } from '../../../contexts/GogContext'; // Using real GogProvider
+import { MemoryRouter } from 'react-router-dom';
+import { useXbox } from '../../../contexts/XboxContext';
+import { useSteam } from '../../../contexts/SteamContext';
+import { useGog } from '../../../contexts/GogContext';
+import { usePsn } from '../../../contexts/PsnContext';
+import { useEpic } from '../../../contexts/EpicContext';
 import { ToastProvider } from '@/components/ui/toast';
-import { toast } from '@/components/ui/use-toast';
 
 // Mock the actual useToast hook
-jest.mock('@/components/ui/use-toast', () => ({
-  toast: jest.fn(),
-}));
-
-// Mock child contexts if their full functionality isn't needed or to simplify tests
-// For this test, we mostly care about the Xbox part, so Steam/GOG can be basic.
-// AuthContext is used for Steam connection, so provide a mock user.
-jest.mock('../../../contexts/AuthContext', () => {
-  const originalAuthContext = jest.requireActual('../../../contexts/AuthContext');
-  return {
-    ...originalAuthContext, // Keep other exports like AuthProvider
-    useAuth: () => ({
-      user: { _id: 'test-user-id', username: 'TestUser', email: 'test@example.com', platformProfiles: {} },
-      login: jest.fn(),
-      logout: jest.fn(),
-      isLoading: false,
-      error: null,
-      fetchCurrentUser: jest.fn(),
-      updateUserPlatformProfile: jest.fn(),
-    } as AuthContextType),
-  };
+jest.mock('@/components/ui/use-toast', () => {
+  const toast = jest.fn();
+  return { toast, useToast: () => ({ toast }) };
 });
 
+type XboxContextValue = ReturnType<typeof useXbox>;
+
+// Each test sets the Xbox context value before rendering; the other platforms are mocked as not
+// connected. Each mock returns the same value every render, as a provider would, so effects do not re-run.
+let mockXboxContextValue: XboxContextValue;
+jest.mock('../../../contexts/XboxContext', () => ({
+  ...jest.requireActual('../../../contexts/XboxContext'),
+  useXbox: () => mockXboxContextValue,
+}));
+
 jest.mock('../../../contexts/SteamContext', () => {
   const originalSteamContext = jest.requireActual('../../../contexts/SteamContext');
-  return {
-    ...originalSteamContext,
-    useSteam: () => ({
-      steamUser: null,
-      steamId: null,
-      isAuthenticated: false,
-      isLoadingSteamProfile: false,
-      steamProfileError: null,
-      checkUserSession: jest.fn(),
-      clearSteamConnection: jest.fn(),
-    } as SteamContextType),
-  };
+  const value = {
+    steamUser: null,
+    steamId: null,
+    isAuthenticated: false,
+    isLoadingSteamProfile: false,
+    steamProfileError: null,
+    checkUserSession: jest.fn(),
+    clearSteamConnection: jest.fn(),
+    disconnectSteam: jest.fn(),
+  } as ReturnType<typeof useSteam>;
+  return { ...originalSteamContext, useSteam: () => value };
 });
 
 jest.mock('../../../contexts/GogContext', () => {
   const originalGogContext = jest.requireActual('../../../contexts/GogContext');
-  return {
-    ...originalGogContext,
-    useGog: () => ({
-      gogUserId: null,
-      isLoadingGogUserId: false,
-      gogUserError: null,
-      connectGogUser: jest.fn(),
-      disconnectGogUser: jest.fn(),
-    } as GogContextType),
-  };
+  const value = {
+    gogUserId: null,
+    gogUsername: null,
+    isConnected: false,
+    gogGames: [],
+    isLoadingGames: false,
+    errorGames: null,
+    syncStatus: null,
+    isConnecting: false,
+    gogUserError: null,
+    galaxyGames: [],
+    galaxyImportedAt: null,
+    isImportingGalaxy: false,
+    openGogLogin: jest.fn(),
+    connectGog: jest.fn(),
+    disconnectGog: jest.fn(),
+    fetchGogGames: jest.fn(),
+    importGalaxyDatabase: jest.fn(),
+  } as ReturnType<typeof useGog>;
+  return { ...originalGogContext, useGog: () => value };
 });
 
+jest.mock('../../../contexts/PsnContext', () => {
+  const originalPsnContext = jest.requireActual('../../../contexts/PsnContext');
+  const value = {
+    psnGames: [],
+    psnProfile: null,
+    isLoadingGames: false,
+    errorGames: null,
+    syncStatus: null,
+    isConnecting: false,
+    errorConnect: null,
+    isConnected: false,
+    connectPsn: jest.fn(),
+    fetchPsnGames: jest.fn(),
+    disconnectPsn: jest.fn(),
+    trophyLists: {},
+    isLoadingTrophies: {},
+    errorTrophies: {},
+    fetchPsnTrophies: jest.fn(),
+  } as ReturnType<typeof usePsn>;
+  return { ...originalPsnContext, usePsn: () => value };
+});
+
+type EpicContextValue = ReturnType<typeof useEpic>;
+
+const notConnectedEpicContextValue: EpicContextValue = {
+  epicGames: [],
+  isLoadingGames: false,
+  errorGames: null,
+  syncStatus: null,
+  isImporting: false,
+  isLinked: false,
+  displayName: null,
+  oauthAvailable: false,
+  fetchEpicGames: jest.fn(),
+  importEpicLibrary: jest.fn(),
+  connectEpic: jest.fn(),
+  disconnectEpic: jest.fn(),
+};
+
+// Not connected unless a test says otherwise
+let mockEpicContextValue: EpicContextValue = notConnectedEpicContextValue;
+jest.mock('../../../contexts/EpicContext', () => ({
+  ...jest.requireActual('../../../contexts/EpicContext'),
+  useEpic: () => mockEpicContextValue,
+}));
 
 // Mock axios for any calls that might originate from providers if not fully mocked
 jest.mock('axios');
@@ -70,31 +117,37 @@ jest.mock('axios');
 
 describe('PlatformConnections - Xbox Integration', () => {
   const mockFetchXboxGames = jest.fn();
+  const mockDisconnectXbox = jest.fn().mockResolvedValue(undefined);
 
   // Helper to render PlatformConnections with specific XboxContext value
-  const renderWithXboxContext = (xboxContextValue?: Partial<XboxContextType>) => {
-    const defaultXboxContextValues: XboxContextType = {
+  const renderWithXboxContext = (xboxContextValue?: Partial<XboxContextValue>) => {
+    const defaultXboxContextValues: XboxContextValue = {
       xboxGames: [],
       isLoading: false,
       error: null,
+      syncStatus: null,
       fetchXboxGames: mockFetchXboxGames,
+      detailedAchievements: {},
+      isLoadingDetailedAchievements: {},
+      errorDetailedAchievements: {},
+      fetchDetailedXboxAchievements: jest.fn(),
+      currentXuid: null,
+      linkedXuid: null,
+      linkedGamertag: null,
+      disconnectXbox: mockDisconnectXbox,
     };
 
     // Merge provided values with defaults
-    const effectiveXboxContextValue = { ...defaultXboxContextValues, ...xboxContextValue };
+    mockXboxContextValue = { ...defaultXboxContextValues, ...xboxContextValue };
+
+    mockEpicContextValue = notConnectedEpicContextValue;
 
     return render(
-      <AuthProvider> {/* Real providers to ensure the component tree is somewhat realistic */}
-        <SteamProvider>
-          <GogProvider>
-            <XboxContext.Provider value={effectiveXboxContextValue}>
-              <ToastProvider> {/* Required by XboxContext for toasts, and potentially by PlatformConnections */}
-                <PlatformConnections />
-              </ToastProvider>
-            </XboxContext.Provider>
-          </GogProvider>
-        </SteamProvider>
-      </AuthProvider>
+      <MemoryRouter> {/* PlatformConnections reads the Steam callback parameters from the URL */}
+        <ToastProvider>
+          <PlatformConnections />
+        </ToastProvider>
+      </MemoryRouter>
     );
   };
 
@@ -164,11 +217,91 @@ describe('PlatformConnections - Xbox Integration', () => {
     renderWithXboxContext({ xboxGames: mockGames, error: null });
 
     // Check for "Connected" badge or status text
-    expect(screen.getByText('Xbox (xbl.io)')).toBeInTheDocument(); // Title still there
+    expect(screen.getAllByText('Xbox (xbl.io)')).toHaveLength(2); // Card title, and listed under the connected platforms
     // The description text changes to show connected status
-    expect(screen.getByText(/Xbox Connected \(1 games loaded\)/i)).toBeInTheDocument();
+    expect(screen.getAllByText(/Xbox Connected \(1 games loaded\)/i)).toHaveLength(2); // Card description and connection status
 
     // The button might change to "Update/Reload Xbox Games"
     expect(screen.getByRole('button', { name: /Update\/Reload Xbox Games/i })).toBeInTheDocument();
   });
+
+  it('asks for confirmation before unlinking a linked Xbox account', async () => {
+    renderWithXboxContext({ linkedXuid: '2533274800000000', linkedGamertag: 'PlayerOne' });
+    expect(screen.getByText(/Linked to/i)).toHaveTextContent('PlayerOne');
+
+    fireEvent.click(screen.getByRole('button', { name: /Disconnect Xbox/i }));
+    expect(mockDisconnectXbox).not.toHaveBeenCalled();
+    expect(screen.getByText('Disconnect Xbox?')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /^Disconnect$/ }));
+    await waitFor(() => {
+      expect(mockDisconnectXbox).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('keeps the Xbox account linked when the confirmation is cancelled', async () => {
+    renderWithXboxContext({ linkedXuid: '2533274800000000', linkedGamertag: 'PlayerOne' });
+
+    fireEvent.click(screen.getByRole('button', { name: /Disconnect Xbox/i }));
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Disconnect Xbox?')).not.toBeInTheDocument();
+    });
+    expect(mockDisconnectXbox).not.toHaveBeenCalled();
+  });
+});
+
+describe('PlatformConnections - Epic', () => {
+  const mockDisconnectEpic = jest.fn().mockResolvedValue(undefined);
+  const importedGame = { appName: 'Fortnite', title: 'Fortnite', isInstalled: false, source: 'import' as const };
+
+  const renderWithEpicContext = (epicContextValue: Partial<EpicContextValue>) => {
+    mockXboxContextValue = {
+      xboxGames: [],
+      isLoading: false,
+      error: null,
+      syncStatus: null,
+      fetchXboxGames: jest.fn(),
+      detailedAchievements: {},
+      isLoadingDetailedAchievements: {},
+      errorDetailedAchievements: {},
+      fetchDetailedXboxAchievements: jest.fn(),
+      currentXuid: null,
+      linkedXuid: null,
+      linkedGamertag: null,
+      disconnectXbox: jest.fn(),
+    };
+    mockEpicContextValue = { ...notConnectedEpicContextValue, disconnectEpic: mockDisconnectEpic, ...epicContextValue };
+
+    return render(
+      <MemoryRouter>
+        <ToastProvider>
+          <PlatformConnections />
+        </ToastProvider>
+      </MemoryRouter>
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lets an imported library be removed without an Epic sign-in', async () => {
+    renderWithEpicContext({ epicGames: [importedGame] });
+    expect(screen.queryByText(/Signed in with Epic/i)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Disconnect Epic/i }));
+    fireEvent.click(screen.getByRole('button', { name: /^Disconnect$/ }));
+
+    await waitFor(() => {
+      expect(mockDisconnectEpic).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('has nothing to disconnect without a sign-in or imported games', () => {
+    renderWithEpicContext({});
+
+    expect(screen.queryByRole('button', { name: /Disconnect Epic/i })).not.toBeInTheDocument();
+  });
 });
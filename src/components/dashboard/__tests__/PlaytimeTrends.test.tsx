@@ -0,0 +1,96 @@
+import React from 'react';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { PlaytimeTrends } from '../PlaytimeTrends';
+import { useAuth } from '@/contexts/AuthContext';
+import { PlaytimeHistoryResponse } from '@/types/playtimeTypes';
+import fetchMock from 'jest-fetch-mock';
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: jest.fn(),
+}));
+
+// ResponsiveContainer measures nothing in jsdom; render the chart's children directly
+jest.mock('@/components/ui/chart', () => ({
+  ChartContainer: ({ children }: { children: React.ReactNode }) => <div data-testid="playtime-chart">{children}</div>,
+  ChartTooltip: () => null,
+  ChartTooltipContent: () => null,
+  ChartLegend: () => null,
+  ChartLegendContent: () => null,
+}));
+
+jest.mock('recharts', () => ({
+  BarChart: ({ children }: { children: React.ReactNode }) => <div>{children}</div>,
+  Bar: ({ dataKey }: { dataKey: string }) => <div data-testid={`bar-${dataKey}`} />,
+  CartesianGrid: () => null,
+  XAxis: () => null,
+  YAxis: () => null,
+}));
+
+const mockUseAuth = useAuth as jest.Mock;
+
+const history: PlaytimeHistoryResponse = {
+  granularity: 'day',
+  from: '2024-05-03T00:00:00.000Z',
+  to: '2024-06-02T00:00:00.000Z',
+  timezone: 'UTC',
+  totalMinutes: 105,
+  series: [
+    { period: '2024-06-01T00:00:00.000Z', minutes: 90, platforms: { steam: 60, gog: 30 } },
+    { period: '2024-06-02T00:00:00.000Z', minutes: 15, platforms: { steam: 15 } },
+  ],
+  games: [
+    { id: 'steam-730', platform: 'steam', gameId: '730', title: 'Counter-Strike 2', minutes: 75 },
+    { id: 'gog-1207658924', platform: 'gog', gameId: '1207658924', title: 'The Witcher 3: Wild Hunt', minutes: 30 },
+  ],
+};
+
+describe('PlaytimeTrends', () => {
+  beforeEach(() => {
+    fetchMock.resetMocks();
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } });
+  });
+
+  it('renders nothing without a logged-in user', () => {
+    mockUseAuth.mockReturnValue({ user: null });
+
+    const { container } = render(<PlaytimeTrends />);
+
+    expect(container).toBeEmptyDOMElement();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('charts the playtime of every platform and lists the most played games', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify(history));
+
+    render(<PlaytimeTrends />);
+
+    expect(await screen.findByText('1h 45m played in this range')).toBeInTheDocument();
+    expect(fetchMock.mock.calls[0][0]).toMatch(/^\/api\/library\/playtime\?granularity=day&tz=/);
+    expect(screen.getByTestId('bar-steam')).toBeInTheDocument();
+    expect(screen.getByTestId('bar-gog')).toBeInTheDocument();
+    expect(screen.queryByTestId('bar-xbox')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Counter-Strike 2/ })).toHaveTextContent('1h 15m');
+  });
+
+  it('reloads the history per week and for a single game', async () => {
+    fetchMock.mockResponse(JSON.stringify(history));
+
+    render(<PlaytimeTrends />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Week' }));
+    await waitFor(() => expect(fetchMock.mock.calls[1][0]).toMatch(/granularity=week/));
+
+    fireEvent.click(await screen.findByRole('button', { name: /The Witcher 3/ }));
+    await waitFor(() => expect(fetchMock.mock.calls[2][0]).toMatch(/gameId=gog-1207658924/));
+    expect(await screen.findByRole('button', { name: 'All games' })).toBeInTheDocument();
+  });
+
+  it('explains an empty history', async () => {
+    fetchMock.mockResponseOnce(JSON.stringify({ ...history, totalMinutes: 0, series: [], games: [] }));
+
+    render(<PlaytimeTrends />);
+
+    expect(await screen.findByText(/No playtime recorded yet/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { SyncStatusNotice } from '../SyncStatusNotice';
+import { LibrarySyncStatus, LiveSyncProgress } from '@/types/syncTypes';
+
+jest.mock('lucide-react', () => {
+  const original = jest.requireActual('lucide-react');
+  return {
+    ...original,
+    Loader2: () => <svg data-testid="loader-icon" />,
+    AlertTriangle: () => <svg data-testid="alert-icon" />,
+  };
+});
+
+const baseSync: LibrarySyncStatus = {
+  state: 'completed',
+  inProgress: false,
+  progress: { processed: 0, total: 0 },
+  lastSyncedAt: '2024-01-01T00:00:00.000Z',
+  lastError: null,
+};
+
+const baseLive: LiveSyncProgress = {
+  active: true,
+  processed: 0,
+  total: 0,
+  achievementsFetched: 0,
+  errors: 0,
+  lastError: null,
+};
+
+describe('SyncStatusNotice', () => {
+  it('renders nothing when the library is not syncing and the last sync succeeded', () => {
+    const { container } = render(<SyncStatusNotice platformName="Steam" sync={baseSync} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows a progress bar from the streamed progress while a sync runs', () => {
+    render(
+      <SyncStatusNotice
+        platformName="Steam"
+        sync={{ ...baseSync, state: 'running', inProgress: true }}
+        live={{ ...baseLive, processed: 250, total: 1000, achievementsFetched: 248, errors: 2 }}
+      />
+    );
+
+    expect(screen.getByText('Syncing your Steam library')).toBeInTheDocument();
+    expect(screen.getByText('250/1000 games')).toBeInTheDocument();
+    expect(screen.getByText('248 achievement lists fetched, 2 failed')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar', { name: 'Steam sync progress' })).toBeInTheDocument();
+  });
+
+  it('falls back to the polled sync status when no events were streamed', () => {
+    render(
+      <SyncStatusNotice
+        platformName="Xbox"
+        sync={{ ...baseSync, state: 'running', inProgress: true, progress: { processed: 25, total: 100 } }}
+      />
+    );
+
+    expect(screen.getByText('25/100 games')).toBeInTheDocument();
+  });
+
+  it('shows a queued sync as waiting to start', () => {
+    render(<SyncStatusNotice platformName="PSN" sync={{ ...baseSync, state: 'queued', inProgress: true }} />);
+    expect(screen.getByText('Waiting to start...')).toBeInTheDocument();
+  });
+
+  it('shows the error of a failed sync', () => {
+    render(
+      <SyncStatusNotice
+        platformName="Xbox"
+        sync={{ ...baseSync, state: 'failed', lastError: 'Xbox API request unauthorized. Check API key.' }}
+      />
+    );
+
+    expect(screen.getByText('Last Xbox sync failed: Xbox API request unauthorized. Check API key.')).toBeInTheDocument();
+  });
+});
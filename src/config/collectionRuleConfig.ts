@@ -0,0 +1,61 @@
+import { CollectionRuleCondition, CollectionRuleField, CollectionRuleOperator } from "@/types/gameTypes";
+import { platformInfo } from "@/config/platformConfig";
+
+type RuleFieldInfo =
+  | { name: string; type: 'number'; unit?: string }
+  | { name: string; type: 'list'; options?: { value: string; name: string }[] }; // Free text without options
+
+export const ruleFieldInfo: Record<CollectionRuleField, RuleFieldInfo> = {
+  platform: {
+    name: 'Platform',
+    type: 'list',
+    options: Object.entries(platformInfo).map(([value, info]) => ({ value, name: info.name })),
+  },
+  playtime: { name: 'Playtime', type: 'number', unit: 'hours' },
+  achievementPercent: { name: 'Achievement progress', type: 'number', unit: '%' },
+  achievementsUnlocked: { name: 'Achievements unlocked', type: 'number' },
+  achievementsRemaining: { name: 'Achievements left', type: 'number' },
+  trophiesMissing: {
+    name: 'Trophies left (PSN)',
+    type: 'list',
+    options: [
+      { value: 'platinum', name: 'Platinum' },
+      { value: 'gold', name: 'Gold' },
+      { value: 'silver', name: 'Silver' },
+      { value: 'bronze', name: 'Bronze' },
+    ],
+  },
+  genre: { name: 'Genre', type: 'list' },
+  releaseYear: { name: 'Release year', type: 'number' },
+  status: {
+    name: 'Install status',
+    type: 'list',
+    options: [
+      { value: 'installed', name: 'Installed' },
+      { value: 'not_installed', name: 'Not installed' },
+      { value: 'downloading', name: 'Downloading' },
+      { value: 'owned', name: 'Owned' },
+    ],
+  },
+};
+
+export const numberOperators: { value: CollectionRuleOperator; name: string }[] = [
+  { value: 'gt', name: 'more than' },
+  { value: 'gte', name: 'at least' },
+  { value: 'lt', name: 'less than' },
+  { value: 'lte', name: 'at most' },
+  { value: 'eq', name: 'exactly' },
+  { value: 'ne', name: 'not' },
+];
+
+export const listOperators: { value: CollectionRuleOperator; name: string }[] = [
+  { value: 'in', name: 'is any of' },
+  { value: 'nin', name: 'is none of' },
+];
+
+// A condition that fits the field, used when a row is added or its field changes
+export const defaultRuleCondition = (field: CollectionRuleField): CollectionRuleCondition => {
+  const info = ruleFieldInfo[field];
+  if (info.type === 'number') return { field, operator: 'gt', value: 0 };
+  return { field, operator: 'in', value: info.options ? [info.options[0].value] : [] };
+};
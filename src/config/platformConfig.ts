@@ -1,7 +1,14 @@
+import type { Game } from "@/types/gameTypes";
+
 export const platformInfo = {
   steam: { name: 'Steam', color: 'bg-blue-600', icon: '🟦' },
   epic: { name: 'Epic Games', color: 'bg-gray-800', icon: '⚫' },
   xbox: { name: 'Xbox', color: 'bg-green-600', icon: '🟢' },
   gog: { name: 'GOG', color: 'bg-purple-600', icon: '🟣' },
-  psn: { name: 'PlayStation Network', color: 'bg-blue-700', icon: '🎮' }
+  psn: { name: 'PlayStation Network', color: 'bg-blue-700', icon: '🎮' },
+  manual: { name: 'Added by hand', color: 'bg-slate-600', icon: '📀' } // Cards show each game's own platform name
 };
+
+// Manual games are labelled with the platform the user typed in
+export const platformLabel = (entry: Game) =>
+  entry.platform === 'manual' ? entry.platformName || platformInfo.manual.name : platformInfo[entry.platform]?.name || entry.platform;
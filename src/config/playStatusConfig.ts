@@ -0,0 +1,11 @@
+import { PlayStatus } from "@/types/gameTypes";
+
+// In the order a game usually goes through them
+export const playStatusInfo: Record<PlayStatus, { name: string; color: string }> = {
+  wishlist: { name: 'Wishlist', color: 'bg-pink-600' },
+  backlog: { name: 'Backlog', color: 'bg-amber-600' },
+  playing: { name: 'Playing', color: 'bg-sky-600' },
+  completed: { name: 'Completed', color: 'bg-green-600' },
+  hundred_percent: { name: '100%', color: 'bg-emerald-700' },
+  abandoned: { name: 'Abandoned', color: 'bg-gray-500' },
+};
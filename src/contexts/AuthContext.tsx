@@ -9,6 +9,14 @@ interface User {
   // Add other relevant user fields from your /api/user/me response
   steamId?: string;
   googleId?: string;
+  psnAccountId?: string;
+  psnOnlineId?: string;
+  xboxUserId?: string;
+  xboxGamertag?: string;
+  gogUserId?: string;
+  gogUsername?: string;
+  epicAccountId?: string;
+  epicDisplayName?: string;
   createdAt?: Date;
 }
 
@@ -17,6 +25,7 @@ interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   fetchUser: () => Promise<void>;
+  refreshUser: () => Promise<void>; // Re-reads the profile without the global loading state, e.g. after linking a platform
   logout: () => Promise<void>; // Basic logout, could be expanded
 }
 
@@ -51,6 +60,17 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const refreshUser = async () => {
+    try {
+      const response = await fetch('/api/user/me', { credentials: 'include' });
+      if (response.ok) {
+        setUser(await response.json());
+      }
+    } catch (error) {
+      console.error('AuthContext: Error refreshing user:', error);
+    }
+  };
+
   const logout = async () => {
     setIsLoading(true);
     console.log('AuthContext: Attempting to logout. Options: { credentials: "include" }');
@@ -77,7 +97,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, isAuthenticated: !!user, isLoading, fetchUser, logout }}>
+    <AuthContext.Provider value={{ user, isAuthenticated: !!user, isLoading, fetchUser, refreshUser, logout }}>
       {children}
     </AuthContext.Provider>
   );
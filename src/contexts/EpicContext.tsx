@@ -0,0 +1,190 @@
+import React, {
+  createContext,
+  useState,
+  useContext,
+  ReactNode,
+  useCallback,
+  useEffect,
+} from 'react';
+import axios from 'axios';
+import { useAuth } from './AuthContext';
+import { useToast } from '@/components/ui/use-toast';
+import { LibraryResponse, LibrarySyncStatus, SYNC_POLL_INTERVAL_MS } from '@/types/syncTypes';
+
+export interface EpicGame {
+  appName: string;          // Epic launcher id (Legendary/Heroic "app_name")
+  title: string;
+  namespace?: string;
+  catalogItemId?: string;
+  coverImage?: string;
+  developer?: string;
+  isInstalled: boolean;
+  source: 'import' | 'oauth'; // Legendary/Heroic export or Epic sign-in
+  lastFetched?: string;
+}
+
+// The Epic route returns `sync: null` for import-only libraries and says whether Epic sign-in is set up.
+type EpicLibraryResponse = Omit<LibraryResponse<EpicGame>, 'sync'> & {
+  sync: LibrarySyncStatus | null;
+  oauthAvailable: boolean;
+};
+
+interface EpicContextType {
+  epicGames: EpicGame[];
+  isLoadingGames: boolean;
+  errorGames: string | null;
+  syncStatus: LibrarySyncStatus | null; // Only set for OAuth-linked accounts
+  isImporting: boolean;
+  isLinked: boolean; // Signed in with Epic (OAuth), so the library syncs in the background
+  displayName: string | null;
+  oauthAvailable: boolean;
+  fetchEpicGames: (options?: { silent?: boolean }) => Promise<void>;
+  importEpicLibrary: (file: File) => Promise<void>;
+  connectEpic: () => void;
+  disconnectEpic: () => Promise<void>; // Unlinks Epic and deletes the stored library, imported games included
+}
+
+// Prefers the `{ error }` envelope the server sends over axios' generic message.
+const errorMessageFrom = (err: unknown, fallback: string): string => {
+  if (axios.isAxiosError(err)) return err.response?.data?.error || err.message || fallback;
+  return err instanceof Error ? err.message : fallback;
+};
+
+const EpicContext = createContext<EpicContextType | undefined>(undefined);
+
+interface EpicProviderProps {
+  children: ReactNode;
+}
+
+export const EpicProvider = ({ children }: EpicProviderProps) => {
+  const [epicGames, setEpicGames] = useState<EpicGame[]>([]);
+  const [isLoadingGames, setIsLoadingGames] = useState<boolean>(false);
+  const [errorGames, setErrorGames] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<LibrarySyncStatus | null>(null);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [oauthAvailable, setOauthAvailable] = useState<boolean>(false);
+
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const isLinked = !!user?.epicAccountId;
+
+  // `silent` is used when polling during a background sync: no loading state and no error toast.
+  const fetchEpicGames = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) setIsLoadingGames(true);
+    setErrorGames(null);
+    try {
+      const response = await axios.get<EpicLibraryResponse>('/api/epic/games');
+      setEpicGames(response.data.games || []);
+      setSyncStatus(response.data.sync || null);
+      setOauthAvailable(!!response.data.oauthAvailable);
+    } catch (err) {
+      const errorMessage = errorMessageFrom(err, 'Failed to fetch Epic games.');
+      setErrorGames(errorMessage);
+      if (!silent) {
+        toast({
+          title: 'Error Fetching Epic Games',
+          description: errorMessage,
+          variant: 'destructive',
+        });
+      }
+    } finally {
+      if (!silent) setIsLoadingGames(false);
+    }
+  }, [toast]);
+
+  // Epic libraries belong to the logged-in user, so load them whenever there is one
+  useEffect(() => {
+    if (user?.id) {
+      fetchEpicGames();
+    } else {
+      setEpicGames([]);
+      setSyncStatus(null);
+      setErrorGames(null);
+    }
+  }, [user?.id, fetchEpicGames]);
+
+  // Keep re-reading the stored library while the server is still syncing it
+  useEffect(() => {
+    if (!syncStatus?.inProgress) return;
+    const timer = setTimeout(() => fetchEpicGames({ silent: true }), SYNC_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [syncStatus, fetchEpicGames]);
+
+  const importEpicLibrary = useCallback(async (file: File) => {
+    setIsImporting(true);
+    try {
+      // Sent as text so large exports are not rejected by the server's JSON body limit
+      const contents = await file.text();
+      const response = await axios.post<{ message: string; imported: number; games: EpicGame[] }>(
+        '/api/epic/import',
+        contents,
+        { headers: { 'Content-Type': 'text/plain' } }
+      );
+      setEpicGames(response.data.games || []);
+      setErrorGames(null);
+      toast({
+        title: 'Epic Library Imported',
+        description: response.data.message,
+      });
+    } catch (err) {
+      const errorMessage = errorMessageFrom(err, 'Failed to import Epic library.');
+      toast({
+        title: 'Epic Import Failed',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }, [toast]);
+
+  // Full-page redirect: the server starts the OAuth flow and sends the user back to the dashboard
+  const connectEpic = useCallback(() => {
+    window.location.href = '/api/epic/connect';
+  }, []);
+
+  const disconnectEpic = useCallback(async () => {
+    try {
+      const response = await axios.delete<{ message: string }>('/api/user/platforms/epic');
+      setEpicGames([]);
+      setSyncStatus(null);
+      setErrorGames(null);
+      await refreshUser();
+      toast({
+        title: 'Epic Disconnected',
+        description: response.data.message,
+      });
+    } catch (err) {
+      toast({
+        title: 'Error Disconnecting Epic',
+        description: errorMessageFrom(err, 'Failed to disconnect Epic account.'),
+        variant: 'destructive',
+      });
+    }
+  }, [refreshUser, toast]);
+
+  const contextValue: EpicContextType = {
+    epicGames,
+    isLoadingGames,
+    errorGames,
+    syncStatus,
+    isImporting,
+    isLinked,
+    displayName: user?.epicDisplayName || null,
+    oauthAvailable,
+    fetchEpicGames,
+    importEpicLibrary,
+    connectEpic,
+    disconnectEpic,
+  };
+
+  return <EpicContext.Provider value={contextValue}>{children}</EpicContext.Provider>;
+};
+
+export const useEpic = (): EpicContextType => {
+  const context = useContext(EpicContext);
+  if (context === undefined) {
+    throw new Error('useEpic must be used within an EpicProvider');
+  }
+  return context;
+};
@@ -1,12 +1,57 @@
-import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useEffect, useContext, useCallback, ReactNode } from 'react';
+import axios from 'axios';
+import { useAuth } from './AuthContext';
+import { useToast } from '@/components/ui/use-toast';
+import { LibraryResponse, LibrarySyncStatus, SYNC_POLL_INTERVAL_MS } from '@/types/syncTypes';
+
+// Shape returned by GET /api/gog/games
+export interface GogGame {
+  appID: number; // GOG product id
+  name: string;
+  imgIconURL: string;
+  playtimeForever: number; // Minutes; 0 until a GOG Galaxy database is imported
+  achievements: {
+    unlocked: number;
+    total: number;
+  };
+  lastPlayed?: string;
+  url?: string;
+  lastUpdated?: string;
+}
+
+// Shape returned by GET /api/gog/galaxy: one owned release per platform linked in GOG Galaxy
+export interface GalaxyGame {
+  releaseKey: string; // e.g. gog_1207658924, steam_292030
+  platform: string; // steam, xbox, psn, epic, gog, ...
+  platformGameId: string;
+  title?: string;
+  coverImage?: string;
+  playtimeMinutes: number;
+  lastPlayed?: string;
+  achievements: {
+    unlocked: number;
+    total: number;
+  };
+}
 
 interface GogContextType {
-  gogUserId: string | null;
-  setGogUserIdState: (userId: string | null) => void; // Renamed to avoid conflict with state variable
-  connectGogUser: (userId: string) => void;
-  disconnectGogUser: () => void;
-  isLoadingGogUserId: boolean;
-  gogUserError: string | null;
+  gogUserId: string | null; // Linked GOG account, stored on the server
+  gogUsername: string | null;
+  isConnected: boolean;
+  gogGames: GogGame[];
+  isLoadingGames: boolean;
+  errorGames: string | null;
+  syncStatus: LibrarySyncStatus | null; // Background sync state of the stored library
+  isConnecting: boolean;
+  gogUserError: string | null; // Error from the last link attempt
+  galaxyGames: GalaxyGame[]; // From the last GOG Galaxy import, across all platforms
+  galaxyImportedAt: string | null;
+  isImportingGalaxy: boolean;
+  openGogLogin: () => void;
+  connectGog: (codeOrUrl: string) => Promise<void>;
+  disconnectGog: () => Promise<void>; // Unlinks GOG and deletes its stored games and the Galaxy import
+  fetchGogGames: (options?: { silent?: boolean }) => Promise<void>;
+  importGalaxyDatabase: (file: File) => Promise<void>;
 }
 
 const GogContext = createContext<GogContextType | undefined>(undefined);
@@ -15,67 +60,197 @@ interface GogProviderProps {
   children: ReactNode;
 }
 
+// Prefers the `{ error }` envelope the server sends over axios' generic message.
+const errorMessageFrom = (err: unknown, fallback: string): string => {
+  if (axios.isAxiosError(err)) return err.response?.data?.error || err.message || fallback;
+  return err instanceof Error ? err.message : fallback;
+};
+
 export const GogProvider: React.FC<GogProviderProps> = ({ children }) => {
-  const [gogUserId, setGogUserId] = useState<string | null>(null);
-  const [isLoadingGogUserId, setIsLoadingGogUserId] = useState<boolean>(true);
-  const [gogUserError, setGogUserError] = useState<string | null>(null); // Basic error state
+  const [gogGames, setGogGames] = useState<GogGame[]>([]);
+  const [isLoadingGames, setIsLoadingGames] = useState<boolean>(false);
+  const [errorGames, setErrorGames] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<LibrarySyncStatus | null>(null);
+  const [isConnecting, setIsConnecting] = useState<boolean>(false);
+  const [gogUserError, setGogUserError] = useState<string | null>(null);
+  const [galaxyGames, setGalaxyGames] = useState<GalaxyGame[]>([]);
+  const [galaxyImportedAt, setGalaxyImportedAt] = useState<string | null>(null);
+  const [isImportingGalaxy, setIsImportingGalaxy] = useState<boolean>(false);
+
+  const { user, refreshUser } = useAuth();
+  const { toast } = useToast();
+  const gogUserId = user?.gogUserId || null;
+  const isConnected = !!gogUserId;
+  const userId = user?.id || null;
 
+  // The GOG ID used to be a free-text value in localStorage; the link now lives on the server.
   useEffect(() => {
     try {
-      const storedUserId = localStorage.getItem('gogUserId');
-      if (storedUserId) {
-        setGogUserId(storedUserId);
-      }
+      localStorage.removeItem('gogUserId');
     } catch (error) {
-      console.error("Failed to load GOG User ID from localStorage:", error);
-      setGogUserError("Failed to load GOG User ID from storage.");
+      console.error("Failed to clear legacy GOG User ID from localStorage:", error);
+    }
+  }, []);
+
+  // `silent` is used when polling during a background sync: no loading state and no error toast.
+  const fetchGogGames = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    if (!silent) setIsLoadingGames(true);
+    setErrorGames(null);
+    try {
+      const response = await axios.get<LibraryResponse<GogGame>>('/api/gog/games');
+      setGogGames(response.data.games || []);
+      setSyncStatus(response.data.sync || null);
+    } catch (err) {
+      const errorMessage = errorMessageFrom(err, 'Failed to fetch GOG games.');
+      setErrorGames(errorMessage);
+      if (!silent) {
+        toast({
+          title: 'Error Fetching GOG Games',
+          description: errorMessage,
+          variant: 'destructive',
+        });
+      }
     } finally {
-      setIsLoadingGogUserId(false);
+      if (!silent) setIsLoadingGames(false);
+    }
+  }, [toast]);
+
+  const fetchGalaxyGames = useCallback(async () => {
+    try {
+      const response = await axios.get<{ games: GalaxyGame[]; importedAt: string | null }>('/api/gog/galaxy');
+      setGalaxyGames(response.data.games || []);
+      setGalaxyImportedAt(response.data.importedAt || null);
+    } catch (err) {
+      console.error('Failed to fetch GOG Galaxy games:', err);
     }
   }, []);
 
-  const connectGogUser = (userId: string) => {
-    if (!userId || userId.trim() === "") {
-      setGogUserError("GOG User ID cannot be empty.");
+  // GOG games can also come from a Galaxy import, so the stored library is loaded even before GOG is linked.
+  useEffect(() => {
+    if (userId) {
+      fetchGogGames();
+      fetchGalaxyGames();
+    } else {
+      setGogGames([]);
+      setGalaxyGames([]);
+      setGalaxyImportedAt(null);
+      setSyncStatus(null);
+      setErrorGames(null);
+    }
+  }, [userId, isConnected, fetchGogGames, fetchGalaxyGames]);
+
+  // Keep re-reading the stored library while the server is still syncing it
+  useEffect(() => {
+    if (!syncStatus?.inProgress) return;
+    const timer = setTimeout(() => fetchGogGames({ silent: true }), SYNC_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [syncStatus, fetchGogGames]);
+
+  // Opens the GOG login in a new tab; GOG then shows a page whose address contains the code to paste back.
+  const openGogLogin = useCallback(() => {
+    window.open('/api/gog/connect', '_blank', 'noopener');
+  }, []);
+
+  const connectGog = useCallback(async (codeOrUrl: string) => {
+    if (!codeOrUrl || codeOrUrl.trim() === "") {
+      setGogUserError("GOG login code cannot be empty.");
       return;
     }
+    setIsConnecting(true);
+    setGogUserError(null);
     try {
-      localStorage.setItem('gogUserId', userId);
-      setGogUserId(userId);
-      setGogUserError(null); // Clear any previous errors
-      console.log(`GOG User ID ${userId} connected and saved.`);
-    } catch (error) {
-      console.error("Failed to save GOG User ID to localStorage:", error);
-      setGogUserError("Failed to save GOG User ID to storage.");
+      const response = await axios.post<{ message: string; gogUser: { userId: string; username?: string } }>(
+        '/api/gog/connect',
+        { code: codeOrUrl.trim() }
+      );
+      await refreshUser(); // Picks up gogUserId, which triggers the library fetch
+      toast({
+        title: 'GOG Connected',
+        description: response.data.gogUser.username
+          ? `Connected as ${response.data.gogUser.username}. Your library is syncing.`
+          : response.data.message,
+      });
+    } catch (err) {
+      const errorMessage = errorMessageFrom(err, 'Failed to connect GOG account.');
+      setGogUserError(errorMessage);
+      toast({
+        title: 'GOG Connection Error',
+        description: errorMessage,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsConnecting(false);
     }
-  };
+  }, [refreshUser, toast]);
 
-  const disconnectGogUser = () => {
+  const disconnectGog = useCallback(async () => {
     try {
-      localStorage.removeItem('gogUserId');
-      setGogUserId(null);
-      setGogUserError(null); // Clear any previous errors
-      console.log("GOG User ID disconnected and removed from storage.");
-    } catch (error) {
-      console.error("Failed to remove GOG User ID from localStorage:", error);
-      setGogUserError("Failed to remove GOG User ID from storage.");
+      const response = await axios.delete<{ message: string }>('/api/user/platforms/gog');
+      setGogGames([]);
+      setGalaxyGames([]);
+      setGalaxyImportedAt(null);
+      setSyncStatus(null);
+      setGogUserError(null);
+      await refreshUser(); // Clears gogUserId, which re-reads what is left of the library
+      toast({
+        title: 'GOG Disconnected',
+        description: response.data.message,
+      });
+    } catch (err) {
+      toast({
+        title: 'Error Disconnecting GOG',
+        description: errorMessageFrom(err, 'Failed to disconnect GOG account.'),
+        variant: 'destructive',
+      });
     }
-  };
+  }, [refreshUser, toast]);
 
-  // This function will be passed as setGogUserIdState in the context
-  // to allow direct state manipulation if ever needed, though connect/disconnect are preferred.
-  const setGogUserIdState = (userId: string | null) => {
-    setGogUserId(userId);
-  };
+  // Uploads galaxy-2.0.db as-is; the server reads it with SQLite.
+  const importGalaxyDatabase = useCallback(async (file: File) => {
+    setIsImportingGalaxy(true);
+    try {
+      const response = await axios.post<{ message: string; imported: number; gogGames: number; games: GalaxyGame[] }>(
+        '/api/gog/galaxy/import',
+        file,
+        { headers: { 'Content-Type': 'application/octet-stream' } }
+      );
+      setGalaxyGames(response.data.games || []);
+      setGalaxyImportedAt(new Date().toISOString());
+      await fetchGogGames({ silent: true }); // Picks up the merged GOG playtime and achievements
+      toast({
+        title: 'GOG Galaxy Imported',
+        description: response.data.message,
+      });
+    } catch (err) {
+      toast({
+        title: 'GOG Galaxy Import Failed',
+        description: errorMessageFrom(err, 'Failed to import the GOG Galaxy database.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImportingGalaxy(false);
+    }
+  }, [fetchGogGames, toast]);
 
   return (
     <GogContext.Provider value={{
         gogUserId,
-        setGogUserIdState,
-        connectGogUser,
-        disconnectGogUser,
-        isLoadingGogUserId,
-        gogUserError
+        gogUsername: user?.gogUsername || null,
+        isConnected,
+        gogGames,
+        isLoadingGames,
+        errorGames,
+        syncStatus,
+        isConnecting,
+        gogUserError,
+        galaxyGames,
+        galaxyImportedAt,
+        isImportingGalaxy,
+        openGogLogin,
+        connectGog,
+        disconnectGog,
+        fetchGogGames,
+        importGalaxyDatabase,
       }}>
       {children}
     </GogContext.Provider>
@@ -9,6 +9,8 @@ import React, {
 import axios from 'axios';
 import { useAuth } from './AuthContext'; // Assuming AuthContext is in the same directory
 import { useToast } from '@/components/ui/use-toast'; // Assuming this path is correct
+import { LibraryResponse, LibrarySyncStatus, SYNC_POLL_INTERVAL_MS } from '@/types/syncTypes';
+import { Achievement } from '@/types/achievementTypes';
 
 // 1. Interfaces
 export interface PsnGame {
@@ -22,6 +24,14 @@ export interface PsnGame {
   trophySetVersion?: string;       // Version of the trophy set
   lastUpdatedDateTime?: string;    // ISO date string of last trophy activity
 
+  // From the played games list (PS4/PS5 games only)
+  hasTrophies?: boolean;           // false for played games without a trophy set (npCommunicationId is then the title ID)
+  titleIds?: string[];             // Title IDs of the versions played, e.g. "PPSA01284_00"
+  category?: string;               // e.g. "ps4_game", "ps5_native_game"
+  playtimeMinutes?: number;
+  firstPlayed?: string;
+  lastPlayed?: string;
+
   // Trophy counts
   definedTrophies?: {             // Total trophies defined for the title
     bronze: number;
@@ -41,6 +51,23 @@ export interface PsnGame {
   // progress?: number; // Overall progress percentage
 }
 
+export interface PsnTrophyGroup {
+  id: string;
+  name: string;
+  iconUrl?: string;
+  isDlc: boolean;
+  earned: number;
+  total: number;
+}
+
+export interface PsnTrophyList {
+  npCommunicationId: string;
+  title: string;
+  platform?: string;
+  groups: PsnTrophyGroup[];
+  trophies: Achievement[]; // Each with its grade and groupId
+}
+
 export interface PsnProfile {
   accountId: string;
   onlineId: string;
@@ -53,12 +80,17 @@ interface PsnContextType {
   psnProfile: PsnProfile | null;
   isLoadingGames: boolean;
   errorGames: string | null;
+  syncStatus: LibrarySyncStatus | null; // Background sync state of the stored library
   isConnecting: boolean;
   errorConnect: string | null;
   isConnected: boolean;
   connectPsn: (npsso: string) => Promise<void>;
-  fetchPsnGames: () => Promise<void>;
-  disconnectPsn: () => void; // Basic disconnect, can be expanded
+  fetchPsnGames: (options?: { silent?: boolean }) => Promise<void>;
+  disconnectPsn: () => Promise<void>; // Unlinks PSN and deletes its stored games
+  trophyLists: { [npCommunicationId: string]: PsnTrophyList };
+  isLoadingTrophies: { [npCommunicationId: string]: boolean };
+  errorTrophies: { [npCommunicationId: string]: string | null };
+  fetchPsnTrophies: (npCommunicationId: string) => Promise<PsnTrophyList | null>;
 }
 
 // 3. PsnContext
@@ -74,9 +106,13 @@ export const PsnProvider = ({ children }: PsnProviderProps) => {
   const [psnProfile, setPsnProfile] = useState<PsnProfile | null>(null);
   const [isLoadingGames, setIsLoadingGames] = useState<boolean>(false);
   const [errorGames, setErrorGames] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<LibrarySyncStatus | null>(null);
   const [isConnecting, setIsConnecting] = useState<boolean>(false);
   const [errorConnect, setErrorConnect] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [trophyLists, setTrophyLists] = useState<{ [npCommunicationId: string]: PsnTrophyList }>({});
+  const [isLoadingTrophies, setIsLoadingTrophies] = useState<{ [npCommunicationId: string]: boolean }>({});
+  const [errorTrophies, setErrorTrophies] = useState<{ [npCommunicationId: string]: string | null }>({});
 
   const authContext = useAuth();
   const { toast } = useToast();
@@ -97,11 +133,13 @@ export const PsnProvider = ({ children }: PsnProviderProps) => {
       setPsnProfile(null);
       setIsConnected(false);
       setPsnGames([]);
+      setSyncStatus(null);
     }
   }, [authContext.user]); // Re-run when user object in AuthContext changes
 
 
-  const fetchPsnGames = useCallback(async () => {
+  // `silent` is used when polling during a background sync: no loading state and no error toast.
+  const fetchPsnGames = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
     if (!isConnected && !authContext.user?.psnAccountId) {
       // This check is more of a safeguard, primary check should be in UI
       // or rely on the initial useEffect to set `isConnected`.
@@ -115,28 +153,38 @@ export const PsnProvider = ({ children }: PsnProviderProps) => {
       return;
     }
 
-    setIsLoadingGames(true);
+    if (!silent) setIsLoadingGames(true);
     setErrorGames(null);
     try {
-      const response = await axios.get<{ games: PsnGame[]; message?: string }>('/api/psn/games');
+      const response = await axios.get<LibraryResponse<PsnGame> & { message?: string }>('/api/psn/games');
       setPsnGames(response.data.games || []); // Ensure games is always an array
+      setSyncStatus(response.data.sync || null);
       // toast({
       //   title: 'PSN Games Fetched',
       //   description: response.data.message || 'Successfully retrieved your PSN games.',
       // });
     } catch (err: any) {
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to fetch PSN games.';
+      const errorMessage = err.response?.data?.error || err.response?.data?.message || err.message || 'Failed to fetch PSN games.';
       setErrorGames(errorMessage);
-      toast({
-        title: 'Error Fetching PSN Games',
-        description: errorMessage,
-        variant: 'destructive',
-      });
+      if (!silent) {
+        toast({
+          title: 'Error Fetching PSN Games',
+          description: errorMessage,
+          variant: 'destructive',
+        });
+      }
     } finally {
-      setIsLoadingGames(false);
+      if (!silent) setIsLoadingGames(false);
     }
   }, [isConnected, authContext.user?.psnAccountId, toast]); // Add fetchPsnGames to useEffect dependency array if called there
 
+  // Keep re-reading the stored library while the server is still syncing it
+  useEffect(() => {
+    if (!syncStatus?.inProgress) return;
+    const timer = setTimeout(() => fetchPsnGames({ silent: true }), SYNC_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [syncStatus, fetchPsnGames]);
+
    // Effect to fetch games when isConnected becomes true and profile is set, or when fetchPsnGames itself is updated
    useEffect(() => {
     if (isConnected && psnProfile?.accountId) {
@@ -184,46 +232,64 @@ export const PsnProvider = ({ children }: PsnProviderProps) => {
     }
   }, [authContext, toast]); // Removed fetchPsnGames from here
 
+  // Unlinks PSN on the server, which also deletes the stored PSN games and tokens.
   const disconnectPsn = useCallback(async () => {
-    // Future: Implement backend call to clear NPSSO and PSN details from User model
-    // try {
-    //   await axios.post('/api/psn/disconnect'); // Example endpoint
-    //   toast({ title: 'PSN Disconnected', description: 'Your PSN account has been disconnected from the server.' });
-    // } catch (error) {
-    //   toast({ title: 'Error Disconnecting', description: 'Could not disconnect from server. Please try again.', variant: 'destructive' });
-    //   // Optionally, proceed with client-side disconnect anyway or handle error more gracefully
-    // }
-
-    setPsnGames([]);
-    setPsnProfile(null);
-    setIsConnected(false);
-    setErrorGames(null);
-    setErrorConnect(null);
-
-    // Refresh user data in AuthContext to reflect the disconnection
-    // This assumes the backend would have cleared psnAccountId etc. if a disconnect call was made.
-    // If disconnect is purely client-side for now, refreshUser might not change PSN fields in DB.
-    if (authContext.refreshUser) {
+    try {
+      const response = await axios.delete<{ message: string }>('/api/user/platforms/psn');
+      setPsnGames([]);
+      setPsnProfile(null);
+      setIsConnected(false);
+      setSyncStatus(null);
+      setErrorGames(null);
+      setErrorConnect(null);
       await authContext.refreshUser();
-    }
-     toast({
-        title: 'PSN Disconnected (Client-side)',
-        description: 'Your PSN session has been cleared locally.',
+      toast({
+        title: 'PSN Disconnected',
+        description: response.data.message,
+      });
+    } catch (err) {
+      const errorMessage = axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to disconnect PSN account.';
+      toast({
+        title: 'Error Disconnecting PSN',
+        description: errorMessage,
+        variant: 'destructive',
       });
+    }
   }, [authContext, toast]);
 
+  // Trophy lists are read live from PSN each time a game's trophies are opened
+  const fetchPsnTrophies = useCallback(async (npCommunicationId: string): Promise<PsnTrophyList | null> => {
+    setIsLoadingTrophies(prev => ({ ...prev, [npCommunicationId]: true }));
+    setErrorTrophies(prev => ({ ...prev, [npCommunicationId]: null }));
+    try {
+      const response = await axios.get<PsnTrophyList>(`/api/psn/games/${encodeURIComponent(npCommunicationId)}/trophies`);
+      setTrophyLists(prev => ({ ...prev, [npCommunicationId]: response.data }));
+      return response.data;
+    } catch (err) {
+      const errorMessage = axios.isAxiosError(err) ? err.response?.data?.error || err.message : 'Failed to fetch PSN trophies.';
+      setErrorTrophies(prev => ({ ...prev, [npCommunicationId]: errorMessage }));
+      return null;
+    } finally {
+      setIsLoadingTrophies(prev => ({ ...prev, [npCommunicationId]: false }));
+    }
+  }, []);
 
   const contextValue: PsnContextType = {
     psnGames,
     psnProfile,
     isLoadingGames,
     errorGames,
+    syncStatus,
     isConnecting,
     errorConnect,
     isConnected,
     connectPsn,
     fetchPsnGames,
     disconnectPsn,
+    trophyLists,
+    isLoadingTrophies,
+    errorTrophies,
+    fetchPsnTrophies,
   };
 
   return <PsnContext.Provider value={contextValue}>{children}</PsnContext.Provider>;
@@ -1,4 +1,5 @@
 import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from 'react';
+import { Achievement } from '@/types/achievementTypes';
 
 // Define the shape of the Steam user data
 interface SteamUserProfile {
@@ -18,8 +19,14 @@ interface SteamContextType {
   // setSteamConnection: (steamId: string | null, userProfile?: SteamUserProfile | null) => void; // Potentially re-evaluate need
   fetchSteamProfile: (steamId: string) => Promise<void>; // Kept for now, might be used by OpenID callback before full /api/me refresh
   clearSteamConnection: () => void;
+  disconnectSteam: () => Promise<void>; // Unlinks Steam from the account (the user stays logged in)
   // New function to explicitly trigger a refresh from /api/me
   checkUserSession: () => Promise<void>;
+  // Detailed achievements per appId, loaded on demand (e.g. by a GameCard)
+  detailedAchievements: { [appId: string]: Achievement[] };
+  isLoadingDetailedAchievements: { [appId: string]: boolean };
+  errorDetailedAchievements: { [appId: string]: string | null };
+  fetchDetailedSteamAchievements: (steamId: string, appId: string) => Promise<Achievement[] | null>;
 }
 
 // Create the context with a default undefined value initially, will be provided by provider
@@ -36,6 +43,9 @@ export const SteamProvider: React.FC<SteamProviderProps> = ({ children }) => {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false); // Added
   const [isLoadingSteamProfile, setIsLoadingSteamProfile] = useState<boolean>(true); // Start true on initial load
   const [steamProfileError, setSteamProfileError] = useState<string | null>(null);
+  const [detailedAchievements, setDetailedAchievements] = useState<{ [appId: string]: Achievement[] }>({});
+  const [isLoadingDetailedAchievements, setIsLoadingDetailedAchievements] = useState<{ [appId: string]: boolean }>({});
+  const [errorDetailedAchievements, setErrorDetailedAchievements] = useState<{ [appId: string]: string | null }>({});
 
   // Function to clear steam connection details (logout or session expiry)
   const clearSteamConnection = useCallback(() => { // Wrapped in useCallback
@@ -55,14 +65,18 @@ export const SteamProvider: React.FC<SteamProviderProps> = ({ children }) => {
       const response = await fetch('/api/user/me'); // Corrected endpoint
       if (response.ok) {
         const data: SteamUserProfile & { steamId: string } = await response.json();
-        setSteamId(data.steamId);
+        setSteamId(data.steamId || null); // Accounts without a Steam link have no steamId
         setSteamUser({
           personaName: data.personaName,
           avatarFull: data.avatarFull, // Ensure backend sends avatarFull
           profileUrl: data.profileUrl,
         });
         setIsAuthenticated(true);
-        localStorage.setItem('steamId', data.steamId); // Persist for quick UI hints
+        if (data.steamId) {
+          localStorage.setItem('steamId', data.steamId); // Persist for quick UI hints
+        } else {
+          localStorage.removeItem('steamId');
+        }
         localStorage.setItem('steamUser', JSON.stringify(data));
       } else if (response.status === 401) { // Not authenticated
         clearSteamConnection();
@@ -80,6 +94,23 @@ export const SteamProvider: React.FC<SteamProviderProps> = ({ children }) => {
     }
   }, [clearSteamConnection]); // Added clearSteamConnection as dependency
 
+  // Removes the Steam link and its stored games on the server, then re-reads the session.
+  const disconnectSteam = useCallback(async () => {
+    setSteamProfileError(null);
+    try {
+      const response = await fetch('/api/user/platforms/steam', { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Server error: ${response.status}`);
+      }
+      await checkUserSession();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to disconnect Steam';
+      setSteamProfileError(errorMessage);
+      console.error("Error disconnecting Steam:", errorMessage);
+    }
+  }, [checkUserSession]);
+
   // Function to fetch steam profile data if only steamId is known (e.g. after OpenID redirect if needed)
   // This might be less used if /api/me is the primary source after login.
   // However, PlatformConnections might call this to optimistically load UI with fresh Steam data.
@@ -107,6 +138,29 @@ export const SteamProvider: React.FC<SteamProviderProps> = ({ children }) => {
     }
   };
 
+  // The server merges unlocks, the achievement schema and global rarity, and caches the result
+  const fetchDetailedSteamAchievements = useCallback(async (sId: string, appId: string): Promise<Achievement[] | null> => {
+    setIsLoadingDetailedAchievements(prev => ({ ...prev, [appId]: true }));
+    setErrorDetailedAchievements(prev => ({ ...prev, [appId]: null }));
+    try {
+      const response = await fetch(`/api/steam/user/${encodeURIComponent(sId)}/game/${encodeURIComponent(appId)}/achievements`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Error: ${response.status}`);
+      }
+      const data: { achievements: Achievement[] } = await response.json();
+      setDetailedAchievements(prev => ({ ...prev, [appId]: data.achievements }));
+      return data.achievements;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch detailed Steam achievements';
+      setErrorDetailedAchievements(prev => ({ ...prev, [appId]: errorMessage }));
+      console.error(`Error fetching detailed Steam achievements for ${appId}:`, errorMessage);
+      return null;
+    } finally {
+      setIsLoadingDetailedAchievements(prev => ({ ...prev, [appId]: false }));
+    }
+  }, []);
+
   // Initial load: check user session
   useEffect(() => {
     checkUserSession();
@@ -123,7 +177,12 @@ export const SteamProvider: React.FC<SteamProviderProps> = ({ children }) => {
         // setSteamConnection, // Removed as checkUserSession and fetchSteamProfile handle updates
         fetchSteamProfile,
         clearSteamConnection,
-        checkUserSession // Exposed for manual refresh if needed
+        disconnectSteam,
+        checkUserSession, // Exposed for manual refresh if needed
+        detailedAchievements,
+        isLoadingDetailedAchievements,
+        errorDetailedAchievements,
+        fetchDetailedSteamAchievements,
     }}>
       {children}
     </SteamContext.Provider>
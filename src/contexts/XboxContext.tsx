@@ -2,6 +2,8 @@ import React, { createContext, useState, useContext, ReactNode, useEffect, useCa
 import axios from 'axios';
 import { useAuth } from './AuthContext'; // Assuming AuthContext provides user info including xuid
 import { toast } from '@/components/ui/use-toast'; // Or your preferred toast library
+import { LibraryResponse, LibrarySyncStatus, SYNC_POLL_INTERVAL_MS } from '@/types/syncTypes';
+import { Achievement } from '@/types/achievementTypes';
 
 interface XboxGameAchievement {
   currentAchievements: number;
@@ -21,34 +23,21 @@ interface XboxGame {
   // Add any other relevant fields from your XboxGame model
 }
 
-export interface XboxDetailedAchievement {
-  id: string; // Typically the achievement name or a unique ID from the API
-  name: string;
-  description: string;
-  isUnlocked: boolean;
-  iconUrl?: string;
-  gamerscore: number;
-  rarityPercent?: number;
-  unlockedTime?: string; // ISO date string
-  // Fields from xbl.io that might be useful to keep if not mapped directly:
-  howToUnlock?: string; // Often same as description for locked achievements
-  progressState?: 'Achieved' | 'NotAchieved' | string; // Raw state
-  rewards?: any[]; // Raw rewards array
-  mediaAssets?: any[]; // Raw media assets
-  rarity?: any; // Raw rarity object
-}
-
 interface XboxContextType {
   xboxGames: XboxGame[];
   isLoading: boolean; // For the main game list
   error: string | null; // For the main game list
-  fetchXboxGames: (xuid: string) => Promise<void>;
+  syncStatus: LibrarySyncStatus | null; // Background sync state of the stored library
+  fetchXboxGames: (xuid: string, options?: { silent?: boolean }) => Promise<void>;
 
-  detailedAchievements: { [titleId: string]: XboxDetailedAchievement[] };
+  detailedAchievements: { [titleId: string]: Achievement[] };
   isLoadingDetailedAchievements: { [titleId: string]: boolean };
   errorDetailedAchievements: { [titleId: string]: string | null };
-  fetchDetailedXboxAchievements: (xuid: string, titleId: string) => Promise<XboxDetailedAchievement[] | null>;
+  fetchDetailedXboxAchievements: (xuid: string, titleId: string) => Promise<Achievement[] | null>;
   currentXuid: string | null; // Added to store the XUID used for fetching games
+  linkedXuid: string | null; // XUID linked to the account through POST /auth/xbox/connect
+  linkedGamertag: string | null;
+  disconnectXbox: () => Promise<void>; // Unlinks the XUID and deletes its stored games
   // clearXboxData: () => void;
 }
 
@@ -58,36 +47,42 @@ export const XboxProvider = ({ children }: { children: ReactNode }) => {
   const [xboxGames, setXboxGames] = useState<XboxGame[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false); // For fetching game list
   const [error, setError] = useState<string | null>(null); // For fetching game list
-  const { user } = useAuth();
+  const { user, refreshUser } = useAuth();
 
-  const [detailedAchievements, setDetailedAchievements] = useState<{ [titleId: string]: XboxDetailedAchievement[] }>({});
+  const [detailedAchievements, setDetailedAchievements] = useState<{ [titleId: string]: Achievement[] }>({});
   const [isLoadingDetailedAchievements, setIsLoadingDetailedAchievements] = useState<{ [titleId: string]: boolean }>({});
   const [errorDetailedAchievements, setErrorDetailedAchievements] = useState<{ [titleId: string]: string | null }>({});
   const [currentXuid, setCurrentXuid] = useState<string | null>(null); // State for current XUID
+  const [syncStatus, setSyncStatus] = useState<LibrarySyncStatus | null>(null);
 
   // TODO: User model update could make XUID available via useAuth() directly.
   // For now, fetchXboxGames takes xuid as a parameter and we store it.
 
-  const fetchXboxGames = useCallback(async (xuid: string) => {
+  // `silent` is used when polling during a background sync: no loading state and no toast.
+  const fetchXboxGames = useCallback(async (xuid: string, { silent = false }: { silent?: boolean } = {}) => {
     if (!xuid) {
       setError("Xbox User ID (XUID) is not available.");
       setXboxGames([]);
       setCurrentXuid(null); // Clear XUID if fetch is invalid
+      setSyncStatus(null);
       return;
     }
 
-    setIsLoading(true);
+    if (!silent) setIsLoading(true);
     setCurrentXuid(xuid); // Set current XUID when fetching games
     setError(null);
     try {
-      const response = await axios.get<{ _id: string }[] & XboxGame[]>(`/api/xbox/user/${xuid}/games`);
+      const response = await axios.get<LibraryResponse<XboxGame>>(`/api/xbox/user/${xuid}/games`);
       // Sort games by name, or any other preferred criteria
-      const sortedGames = response.data.sort((a, b) => a.name.localeCompare(b.name));
+      const sortedGames = (response.data.games || []).sort((a, b) => a.name.localeCompare(b.name));
       setXboxGames(sortedGames);
-      toast({
-        title: "Xbox games loaded",
-        description: `Successfully fetched ${sortedGames.length} Xbox games.`,
-      });
+      setSyncStatus(response.data.sync || null);
+      if (!silent) {
+        toast({
+          title: "Xbox games loaded",
+          description: `Successfully fetched ${sortedGames.length} Xbox games.`,
+        });
+      }
     } catch (err: any) {
       let errorMessage = "Failed to fetch Xbox games.";
       if (axios.isAxiosError(err) && err.response) {
@@ -108,10 +103,39 @@ export const XboxProvider = ({ children }: { children: ReactNode }) => {
       });
       console.error("Error fetching Xbox games:", errorMessage, err);
     } finally {
-      setIsLoading(false);
+      if (!silent) setIsLoading(false);
     }
   }, []); // Removed user from dependencies for now, fetchXboxGames takes xuid
 
+  const disconnectXbox = useCallback(async () => {
+    try {
+      const response = await axios.delete<{ message: string }>('/api/user/platforms/xbox');
+      setXboxGames([]);
+      setCurrentXuid(null);
+      setSyncStatus(null);
+      setError(null);
+      await refreshUser();
+      toast({
+        title: "Xbox disconnected",
+        description: response.data.message,
+      });
+    } catch (err) {
+      const errorMessage = axios.isAxiosError(err) ? err.response?.data?.error || err.message : "Failed to disconnect Xbox account.";
+      toast({
+        title: "Error disconnecting Xbox",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    }
+  }, [refreshUser]);
+
+  // Keep re-reading the stored library while the server is still syncing it
+  useEffect(() => {
+    if (!syncStatus?.inProgress || !currentXuid) return;
+    const timer = setTimeout(() => fetchXboxGames(currentXuid, { silent: true }), SYNC_POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [syncStatus, currentXuid, fetchXboxGames]);
+
   // Potential: Auto-fetch for fetchXboxGames if XUID is available and changes
   // useEffect(() => {
   //   const xboxXuid = user?.platformProfiles?.xbox?.xuid;
@@ -128,7 +152,7 @@ export const XboxProvider = ({ children }: { children: ReactNode }) => {
   //   setIsLoading(false); // This was for main game list, keep separate
   // };
 
-  const fetchDetailedXboxAchievements = useCallback(async (xuid: string, titleId: string): Promise<XboxDetailedAchievement[] | null> => {
+  const fetchDetailedXboxAchievements = useCallback(async (xuid: string, titleId: string): Promise<Achievement[] | null> => {
     if (!xuid || !titleId) {
       const msg = "XUID and Title ID are required to fetch detailed achievements.";
       setErrorDetailedAchievements(prev => ({ ...prev, [titleId]: msg }));
@@ -141,46 +165,9 @@ export const XboxProvider = ({ children }: { children: ReactNode }) => {
     setErrorDetailedAchievements(prev => ({ ...prev, [titleId]: null }));
 
     try {
-      const response = await axios.get<any[]>(`/api/xbox/user/${xuid}/game/${titleId}/achievements`);
-      const rawAchievements = response.data;
-
-      const mappedAchievements: XboxDetailedAchievement[] = rawAchievements.map((ach: any) => {
-        // Determine if unlocked based on various possible fields
-        let unlockedStatus = false;
-        if (typeof ach.isUnlocked === 'boolean') {
-          unlockedStatus = ach.isUnlocked;
-        } else if (ach.progressState) {
-          unlockedStatus = ach.progressState === 'Achieved';
-        } else if (ach.state) {
-          unlockedStatus = ach.state === 'Achieved';
-        }
-
-        // Try to get description, prioritizing unlocked if available
-        let achDescription = ach.description;
-        if (unlockedStatus && ach.unlockedDescription) {
-            achDescription = ach.unlockedDescription;
-        } else if (!unlockedStatus && ach.lockedDescription) {
-            achDescription = ach.lockedDescription;
-        }
-
-
-        return {
-          id: ach.id || ach.name, // Use 'id' if available, fallback to 'name'
-          name: ach.name || 'Unknown Achievement',
-          description: achDescription || ach.howToUnlock || '',
-          isUnlocked: unlockedStatus,
-          // Prefer specific media asset if structure is known, else fallback
-          iconUrl: ach.mediaAssets?.[0]?.url || ach.url || ach.icon_url || ach.image_url,
-          gamerscore: ach.rewards?.find((r: any) => r.type === 'Gamerscore')?.value || ach.gamerscore || ach.value || 0,
-          rarityPercent: ach.rarity?.currentProgress || ach.rarity?.percentage, // xbl.io v1 used currentProgress, v2 might use percentage
-          unlockedTime: ach.progression?.timeUnlocked || ach.timeUnlocked || ach.earned_at,
-          // Keep raw fields for debugging or future use if needed
-          progressState: ach.progressState,
-          rewards: ach.rewards,
-          mediaAssets: ach.mediaAssets,
-          rarity: ach.rarity,
-        };
-      });
+      // The server maps xbl.io's achievements onto the shared Achievement shape
+      const response = await axios.get<Achievement[]>(`/api/xbox/user/${xuid}/game/${titleId}/achievements`);
+      const mappedAchievements = response.data;
 
       setDetailedAchievements(prev => ({ ...prev, [titleId]: mappedAchievements }));
       setIsLoadingDetailedAchievements(prev => ({ ...prev, [titleId]: false }));
@@ -214,12 +201,16 @@ export const XboxProvider = ({ children }: { children: ReactNode }) => {
       xboxGames,
       isLoading,
       error,
+      syncStatus,
       fetchXboxGames,
       detailedAchievements,
       isLoadingDetailedAchievements,
       errorDetailedAchievements,
       fetchDetailedXboxAchievements,
-      currentXuid
+      currentXuid,
+      linkedXuid: user?.xboxUserId || null,
+      linkedGamertag: user?.xboxGamertag || null,
+      disconnectXbox,
     }}>
       {children}
     </XboxContext.Provider>
@@ -0,0 +1,94 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import axios from 'axios';
+import { EpicProvider, useEpic } from '../EpicContext';
+import { ToastProvider } from '@/components/ui/toast';
+import { toast } from '@/components/ui/use-toast';
+
+jest.mock('axios');
+jest.mock('@/components/ui/use-toast', () => {
+  const toast = jest.fn();
+  return { toast, useToast: () => ({ toast }) };
+});
+
+const mockUser: { id: string; email: string; epicAccountId?: string } = { id: 'user-1', email: 'test@example.com' };
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({ user: mockUser }),
+}));
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+// jsdom's File has no text(), which the import reads the upload with
+const textFile = (contents: string, name: string) => Object.assign(new File([contents], name), {
+  text: () => Promise.resolve(contents),
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <ToastProvider>
+    <EpicProvider>{children}</EpicProvider>
+  </ToastProvider>
+);
+
+describe('EpicContext', () => {
+  const importedGames = [
+    { appName: 'Quail', title: 'Control', isInstalled: true, source: 'import' },
+    { appName: 'Sugar', title: 'Rocket League', isInstalled: false, source: 'import' },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete mockUser.epicAccountId;
+  });
+
+  it('loads the stored Epic library for the logged-in user', async () => {
+    mockAxios.get.mockResolvedValueOnce({ data: { games: importedGames, sync: null, oauthAvailable: true } });
+    const { result } = renderHook(() => useEpic(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoadingGames).toBe(false));
+
+    expect(mockAxios.get).toHaveBeenCalledWith('/api/epic/games');
+    expect(result.current.epicGames).toEqual(importedGames);
+    expect(result.current.syncStatus).toBeNull();
+    expect(result.current.oauthAvailable).toBe(true);
+    expect(result.current.isLinked).toBe(false);
+  });
+
+  it('uploads a library export as text and replaces the games with the stored library', async () => {
+    mockAxios.get.mockResolvedValueOnce({ data: { games: [], sync: null, oauthAvailable: false } });
+    mockAxios.post.mockResolvedValueOnce({ data: { message: 'Imported 2 Epic games.', imported: 2, games: importedGames } });
+    const { result } = renderHook(() => useEpic(), { wrapper });
+    await waitFor(() => expect(mockAxios.get).toHaveBeenCalledWith('/api/epic/games'));
+
+    const exportJson = JSON.stringify({ library: [{ app_name: 'Quail' }, { app_name: 'Sugar' }] });
+    const file = textFile(exportJson, 'legendary_library.json');
+    await act(async () => {
+      await result.current.importEpicLibrary(file);
+    });
+
+    expect(mockAxios.post).toHaveBeenCalledWith('/api/epic/import', exportJson, { headers: { 'Content-Type': 'text/plain' } });
+    expect(result.current.epicGames).toEqual(importedGames);
+    expect(result.current.isImporting).toBe(false);
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Epic Library Imported', description: 'Imported 2 Epic games.' }));
+  });
+
+  it('shows the server error when an import is rejected', async () => {
+    mockAxios.get.mockResolvedValueOnce({ data: { games: [], sync: null, oauthAvailable: false } });
+    mockAxios.isAxiosError.mockReturnValue(true);
+    mockAxios.post.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 400, data: { error: 'Unrecognised Epic library export. Upload the JSON exported by Legendary or Heroic.' } },
+      message: 'Request failed with status code 400',
+    });
+    const { result } = renderHook(() => useEpic(), { wrapper });
+    await waitFor(() => expect(mockAxios.get).toHaveBeenCalledWith('/api/epic/games'));
+
+    await act(async () => {
+      await result.current.importEpicLibrary(textFile('{}', 'other.json'));
+    });
+
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Epic Import Failed',
+      description: 'Unrecognised Epic library export. Upload the JSON exported by Legendary or Heroic.',
+      variant: 'destructive',
+    }));
+  });
+});
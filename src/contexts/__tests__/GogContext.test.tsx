@@ -0,0 +1,153 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import axios from 'axios';
+import { GogProvider, useGog } from '../GogContext';
+import { ToastProvider } from '@/components/ui/toast';
+import { toast } from '@/components/ui/use-toast';
+
+jest.mock('axios');
+jest.mock('@/components/ui/use-toast', () => {
+  const toast = jest.fn();
+  return { toast, useToast: () => ({ toast }) };
+});
+
+const mockUser: { id: string; email: string; gogUserId?: string; gogUsername?: string } = { id: 'user-1', email: 'test@example.com' };
+const mockRefreshUser = jest.fn();
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({ user: mockUser, refreshUser: mockRefreshUser }),
+}));
+
+const mockAxios = axios as jest.Mocked<typeof axios>;
+
+const mockGetResponses = (gogGames: unknown[], galaxyGames: unknown[] = []) => {
+  mockAxios.get.mockImplementation((url: string) => Promise.resolve({
+    data: url === '/api/gog/galaxy'
+      ? { games: galaxyGames, importedAt: galaxyGames.length > 0 ? '2024-03-02T00:00:00.000Z' : null }
+      : { games: gogGames, sync: null },
+  }));
+};
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <ToastProvider>
+    <GogProvider>{children}</GogProvider>
+  </ToastProvider>
+);
+
+describe('GogContext', () => {
+  const storedGames = [
+    { appID: 1207658924, name: 'The Witcher 3', imgIconURL: 'https://images.gog.com/abc_196.jpg', playtimeForever: 0, achievements: { unlocked: 0, total: 0 } },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete mockUser.gogUserId;
+    delete mockUser.gogUsername;
+  });
+
+  it('loads the stored GOG library once the account is linked', async () => {
+    mockUser.gogUserId = '48628349957132247';
+    mockUser.gogUsername = 'geralt';
+    mockGetResponses(storedGames);
+    const { result } = renderHook(() => useGog(), { wrapper });
+
+    await waitFor(() => expect(result.current.gogGames).toEqual(storedGames));
+
+    expect(mockAxios.get).toHaveBeenCalledWith('/api/gog/games');
+    expect(result.current.isConnected).toBe(true);
+    expect(result.current.gogUsername).toBe('geralt');
+    expect(result.current.gogGames).toEqual(storedGames);
+  });
+
+  it('loads games imported from GOG Galaxy before GOG is linked', async () => {
+    const galaxyGames = [{ releaseKey: 'steam_292030', platform: 'steam', platformGameId: '292030', playtimeMinutes: 90, achievements: { unlocked: 0, total: 0 } }];
+    mockGetResponses(storedGames, galaxyGames);
+    const { result } = renderHook(() => useGog(), { wrapper });
+
+    await waitFor(() => expect(result.current.galaxyGames).toEqual(galaxyGames));
+
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.gogGames).toEqual(storedGames);
+    expect(result.current.galaxyGames).toEqual(galaxyGames);
+    expect(result.current.galaxyImportedAt).toBe('2024-03-02T00:00:00.000Z');
+  });
+
+  it('uploads a GOG Galaxy database as binary and reloads the GOG library', async () => {
+    mockGetResponses([]);
+    mockAxios.post.mockResolvedValueOnce({ data: { message: 'Imported 3 games from GOG Galaxy (1 from GOG).', imported: 3, gogGames: 1, games: [] } });
+    const { result } = renderHook(() => useGog(), { wrapper });
+
+    const file = new File(['SQLite format 3'], 'galaxy-2.0.db');
+    await act(async () => {
+      await result.current.importGalaxyDatabase(file);
+    });
+
+    expect(mockAxios.post).toHaveBeenCalledWith('/api/gog/galaxy/import', file, { headers: { 'Content-Type': 'application/octet-stream' } });
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'GOG Galaxy Imported', description: 'Imported 3 games from GOG Galaxy (1 from GOG).' }));
+    expect(result.current.isImportingGalaxy).toBe(false);
+  });
+
+  it('links the account with the pasted login code and refreshes the user', async () => {
+    mockGetResponses([]);
+    mockAxios.post.mockResolvedValueOnce({ data: { message: 'GOG account connected successfully', gogUser: { userId: '48628349957132247', username: 'geralt' } } });
+    const { result } = renderHook(() => useGog(), { wrapper });
+
+    await act(async () => {
+      await result.current.connectGog('  https://embed.gog.com/on_login_success?origin=client&code=abc  ');
+    });
+
+    expect(mockAxios.post).toHaveBeenCalledWith('/api/gog/connect', { code: 'https://embed.gog.com/on_login_success?origin=client&code=abc' });
+    expect(mockRefreshUser).toHaveBeenCalled();
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'GOG Connected' }));
+    expect(result.current.isConnecting).toBe(false);
+  });
+
+  it('shows the server error when the code is rejected', async () => {
+    mockGetResponses([]);
+    mockAxios.isAxiosError.mockReturnValue(true);
+    mockAxios.post.mockRejectedValueOnce({
+      isAxiosError: true,
+      response: { status: 401, data: { error: 'GOG session expired or the login code is invalid. Please connect your GOG account again.' } },
+      message: 'Request failed with status code 401',
+    });
+    const { result } = renderHook(() => useGog(), { wrapper });
+
+    await act(async () => {
+      await result.current.connectGog('stale-code');
+    });
+
+    expect(result.current.gogUserError).toBe('GOG session expired or the login code is invalid. Please connect your GOG account again.');
+    expect(mockRefreshUser).not.toHaveBeenCalled();
+  });
+
+  it('unlinks the account, clears the GOG library and refreshes the user', async () => {
+    mockUser.gogUserId = '48628349957132247';
+    mockGetResponses(storedGames);
+    mockAxios.delete.mockResolvedValueOnce({ data: { message: 'GOG account unlinked.' } });
+    const { result } = renderHook(() => useGog(), { wrapper });
+    await waitFor(() => expect(result.current.gogGames).toEqual(storedGames));
+
+    await act(async () => {
+      await result.current.disconnectGog();
+    });
+
+    expect(mockAxios.delete).toHaveBeenCalledWith('/api/user/platforms/gog');
+    expect(result.current.gogGames).toEqual([]);
+    expect(mockRefreshUser).toHaveBeenCalled();
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'GOG Disconnected', description: 'GOG account unlinked.' }));
+  });
+
+  it('clears a Galaxy import on disconnect even when GOG was never linked', async () => {
+    const galaxyGames = [{ releaseKey: 'steam_292030', platform: 'steam', platformGameId: '292030', playtimeMinutes: 90, achievements: { unlocked: 0, total: 0 } }];
+    mockGetResponses([], galaxyGames);
+    mockAxios.delete.mockResolvedValueOnce({ data: { message: 'GOG account disconnected.' } });
+    const { result } = renderHook(() => useGog(), { wrapper });
+    await waitFor(() => expect(result.current.galaxyGames).toEqual(galaxyGames));
+
+    await act(async () => {
+      await result.current.disconnectGog();
+    });
+
+    expect(mockAxios.delete).toHaveBeenCalledWith('/api/user/platforms/gog');
+    expect(result.current.galaxyGames).toEqual([]);
+    expect(result.current.galaxyImportedAt).toBeNull();
+  });
+});
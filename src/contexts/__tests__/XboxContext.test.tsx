@@ -1,6 +1,8 @@
-import { renderHook, act } from '@testing-library/react-hooks';
+import { renderHook, act } from '@testing-library/react';
 import axios from 'axios';
 import { XboxProvider, useXbox } from '../XboxContext';
+import { Achievement } from '@/types/achievementTypes';
+import { SYNC_POLL_INTERVAL_MS } from '@/types/syncTypes';
 import { ToastProvider } from '@/components/ui/toast'; // Assuming toast is used
 import { toast } from '@/components/ui/use-toast'; // Actual toast function
 
@@ -8,6 +10,9 @@ jest.mock('axios');
 jest.mock('@/components/ui/use-toast', () => ({
   toast: jest.fn(),
 }));
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({ user: null, refreshUser: jest.fn() }),
+}));
 
 const mockAxios = axios as jest.Mocked<typeof axios>;
 
@@ -23,12 +28,18 @@ describe('XboxContext', () => {
     jest.clearAllMocks(); // Clear all mock calls before each test
   });
 
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
   const mockXuid = 'test-xuid-12345';
   const mockApiResponseData = [
     { _id: '1', xuid: mockXuid, titleId: '123', name: 'Halo: Master Chief Collection', displayImage: 'halo.jpg', achievements: { currentAchievements: 100, totalAchievements: 200, currentGamerscore: 1000, totalGamerscore: 2000 } },
     { _id: '2', xuid: mockXuid, titleId: '456', name: 'Sea of Thieves', displayImage: 'seaofthieves.jpg', achievements: { currentAchievements: 50, totalAchievements: 150, currentGamerscore: 500, totalGamerscore: 1500 } },
   ];
 
+  const mockSync = { state: 'completed', inProgress: false, progress: { processed: 2, total: 2 }, lastSyncedAt: '2024-01-01T00:00:00.000Z', lastError: null };
+
   it('should initialize with default values (empty games, no loading, no error)', () => {
     const { result } = renderHook(() => useXbox(), { wrapper });
     expect(result.current.xboxGames).toEqual([]);
@@ -41,13 +52,12 @@ describe('XboxContext', () => {
   });
 
   it('fetchXboxGames should populate games and set currentXuid on successful API call', async () => {
-    mockAxios.get.mockResolvedValueOnce({ data: mockApiResponseData });
-    const { result, waitForNextUpdate } = renderHook(() => useXbox(), { wrapper });
+    mockAxios.get.mockResolvedValueOnce({ data: { games: mockApiResponseData, sync: mockSync } });
+    const { result } = renderHook(() => useXbox(), { wrapper });
 
     // Use act to wrap async state updates
     await act(async () => {
-      result.current.fetchXboxGames(mockXuid);
-      await waitForNextUpdate({ timeout: 200 });
+      await result.current.fetchXboxGames(mockXuid);
     });
 
     expect(result.current.isLoading).toBe(false);
@@ -56,6 +66,7 @@ describe('XboxContext', () => {
     const sortedMockData = [...mockApiResponseData].sort((a, b) => a.name.localeCompare(b.name));
     expect(result.current.xboxGames).toEqual(sortedMockData);
     expect(result.current.error).toBeNull();
+    expect(result.current.syncStatus).toEqual(mockSync);
     expect(mockAxios.get).toHaveBeenCalledWith(`/api/xbox/user/${mockXuid}/games`);
     expect(toast).toHaveBeenCalledWith(expect.objectContaining({
       title: "Xbox games loaded",
@@ -63,19 +74,49 @@ describe('XboxContext', () => {
     }));
   });
 
+  it('keeps re-reading the library quietly while the server is still syncing it', async () => {
+    jest.useFakeTimers();
+    const runningSync = { ...mockSync, state: 'running', inProgress: true, progress: { processed: 1, total: 2 } };
+    mockAxios.get
+      .mockResolvedValueOnce({ data: { games: mockApiResponseData.slice(0, 1), sync: runningSync } })
+      .mockResolvedValueOnce({ data: { games: mockApiResponseData, sync: mockSync } });
+    const { result } = renderHook(() => useXbox(), { wrapper });
+
+    await act(async () => {
+      await result.current.fetchXboxGames(mockXuid);
+    });
+    expect(result.current.syncStatus).toEqual(runningSync);
+    expect(toast).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(SYNC_POLL_INTERVAL_MS);
+    });
+
+    expect(mockAxios.get).toHaveBeenCalledTimes(2);
+    expect(result.current.xboxGames).toHaveLength(2);
+    expect(result.current.syncStatus).toEqual(mockSync);
+    expect(result.current.isLoading).toBe(false);
+    expect(toast).toHaveBeenCalledTimes(1); // Polling does not toast
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(SYNC_POLL_INTERVAL_MS);
+    });
+    expect(mockAxios.get).toHaveBeenCalledTimes(2); // Stops once the sync has finished
+  });
+
   it('fetchXboxGames should set error state and call toast on API failure', async () => {
     const errorMessage = 'Failed to fetch Xbox games.'; // This is the generic message from context
     const actualApiErrorMessage = 'API is down';
+    mockAxios.isAxiosError.mockReturnValue(true);
     mockAxios.get.mockRejectedValueOnce({
       isAxiosError: true,
       response: { data: { error: actualApiErrorMessage }, status: 500 },
       message: 'Request failed' // Default Axios message
     });
-    const { result, waitForNextUpdate } = renderHook(() => useXbox(), { wrapper });
+    const { result } = renderHook(() => useXbox(), { wrapper });
 
     await act(async () => {
-      result.current.fetchXboxGames(mockXuid);
-      await waitForNextUpdate({ timeout: 200 });
+      await result.current.fetchXboxGames(mockXuid);
     });
 
     expect(result.current.isLoading).toBe(false);
@@ -90,16 +131,16 @@ describe('XboxContext', () => {
 
   it('fetchXboxGames should set specific error message for 404 from API', async () => {
     const errorMessage = "No Xbox games found or profile is private.";
+    mockAxios.isAxiosError.mockReturnValue(true);
     mockAxios.get.mockRejectedValueOnce({
       isAxiosError: true,
       response: { data: { error: "Profile not found" }, status: 404 },
       message: 'Request failed'
     });
-    const { result, waitForNextUpdate } = renderHook(() => useXbox(), { wrapper });
+    const { result } = renderHook(() => useXbox(), { wrapper });
 
     await act(async () => {
-      result.current.fetchXboxGames(mockXuid);
-      await waitForNextUpdate({ timeout: 200 });
+      await result.current.fetchXboxGames(mockXuid);
     });
 
     expect(result.current.isLoading).toBe(false);
@@ -116,8 +157,7 @@ describe('XboxContext', () => {
     const { result } = renderHook(() => useXbox(), { wrapper });
 
     await act(async () => {
-      // No await waitForNextUpdate needed if no async operations are expected
-      result.current.fetchXboxGames('');
+      await result.current.fetchXboxGames('');
     });
 
     expect(result.current.error).toBe("Xbox User ID (XUID) is not available.");
@@ -129,74 +169,41 @@ describe('XboxContext', () => {
 
   describe('fetchDetailedXboxAchievements', () => {
     const mockTitleId = 'gameTitle123';
-    // Simulate raw data from your backend (which gets it from xbl.io)
-    const rawApiDetailedAchievements = [
-      {
-        id: 'ach1_id', // Assuming 'id' is present from xbl.io
-        name: 'Master Chef',
-        description: 'Complete all missions on Legendary.',
-        progressState: 'Achieved',
-        rewards: [{type: 'Gamerscore', value: 100}],
-        mediaAssets: [{type: 'Icon', url: 'icon_url_ach1.jpg'}],
-        rarity: {currentProgress: 10.5}, // xbl.io v1 example
-        progression: {timeUnlocked: '2023-01-15T12:00:00Z'}
-      },
-      {
-        name: 'Speed Runner', // Testing fallback id: ach.name
-        description: 'Finish the campaign in under 3 hours.',
-        progressState: 'NotAchieved',
-        rewards: [{type: 'Gamerscore', value: 50}],
-        // No mediaAssets, rarity, or progression for this one to test defaults
-      }
-    ];
-
-    // Expected structure after mapping logic in fetchDetailedXboxAchievements
-    const mappedDetailedAchievements: XboxDetailedAchievement[] = [
+    // The server already maps xbl.io's achievements onto the shared Achievement shape
+    const detailedAchievements: Achievement[] = [
       {
         id: 'ach1_id',
+        platform: 'xbox',
+        gameId: mockTitleId,
         name: 'Master Chef',
         description: 'Complete all missions on Legendary.',
         isUnlocked: true,
-        gamerscore: 100,
+        points: 100,
         iconUrl: 'icon_url_ach1.jpg',
         rarityPercent: 10.5,
         unlockedTime: '2023-01-15T12:00:00Z',
-        progressState: 'Achieved',
-        rewards: [{type: 'Gamerscore', value: 100}],
-        mediaAssets: [{type: 'Icon', url: 'icon_url_ach1.jpg'}],
-        rarity: {currentProgress: 10.5},
-        howToUnlock: undefined,
       },
       {
-        id: 'Speed Runner',
+        id: 'ach2_id',
+        platform: 'xbox',
+        gameId: mockTitleId,
         name: 'Speed Runner',
         description: 'Finish the campaign in under 3 hours.',
         isUnlocked: false,
-        gamerscore: 50,
-        iconUrl: undefined,
-        rarityPercent: undefined,
-        unlockedTime: undefined,
-        progressState: 'NotAchieved',
-        rewards: [{type: 'Gamerscore', value: 50}],
-        mediaAssets: undefined,
-        rarity: undefined,
-        howToUnlock: undefined,
+        points: 50,
       },
     ];
 
-    it('should populate detailedAchievements for a titleId on success and map data correctly', async () => {
-      mockAxios.get.mockResolvedValueOnce({ data: rawApiDetailedAchievements });
-      const { result, waitForNextUpdate } = renderHook(() => useXbox(), { wrapper });
+    it('should populate detailedAchievements for a titleId on success', async () => {
+      mockAxios.get.mockResolvedValueOnce({ data: detailedAchievements });
+      const { result } = renderHook(() => useXbox(), { wrapper });
 
       await act(async () => {
-        result.current.fetchDetailedXboxAchievements(mockXuid, mockTitleId);
-        // One update for isLoading true, another for data and isLoading false
-        await waitForNextUpdate({ timeout: 200 });
-        await waitForNextUpdate({ timeout: 200 });
+          await result.current.fetchDetailedXboxAchievements(mockXuid, mockTitleId);
       });
 
       expect(result.current.isLoadingDetailedAchievements[mockTitleId]).toBe(false);
-      expect(result.current.detailedAchievements[mockTitleId]).toEqual(mappedDetailedAchievements);
+      expect(result.current.detailedAchievements[mockTitleId]).toEqual(detailedAchievements);
       expect(result.current.errorDetailedAchievements[mockTitleId]).toBeNull();
       expect(mockAxios.get).toHaveBeenCalledWith(`/api/xbox/user/${mockXuid}/game/${mockTitleId}/achievements`);
       expect(toast).toHaveBeenCalledWith(expect.objectContaining({
@@ -206,16 +213,15 @@ describe('XboxContext', () => {
 
     it('should set error for a titleId on API failure when fetching detailed achievements', async () => {
       const apiErrorMessage = "Detailed achievements API is down";
-      mockAxios.get.mockRejectedValueOnce({
+      mockAxios.isAxiosError.mockReturnValue(true);
+    mockAxios.get.mockRejectedValueOnce({
         isAxiosError: true,
         response: { data: { error: apiErrorMessage }, status: 503 }
       });
-      const { result, waitForNextUpdate } = renderHook(() => useXbox(), { wrapper });
+      const { result } = renderHook(() => useXbox(), { wrapper });
 
       await act(async () => {
-        result.current.fetchDetailedXboxAchievements(mockXuid, mockTitleId);
-        await waitForNextUpdate({ timeout: 200 });
-        await waitForNextUpdate({ timeout: 200 });
+        await result.current.fetchDetailedXboxAchievements(mockXuid, mockTitleId);
       });
 
       expect(result.current.isLoadingDetailedAchievements[mockTitleId]).toBe(false);
@@ -230,7 +236,7 @@ describe('XboxContext', () => {
 
     it('should return null and set error if XUID is missing for detailed achievements', async () => {
       const { result } = renderHook(() => useXbox(), { wrapper });
-      let fetchResult: XboxDetailedAchievement[] | null = []; // Initialize to non-null
+      let fetchResult: Achievement[] | null = []; // Initialize to non-null
 
       await act(async () => {
         fetchResult = await result.current.fetchDetailedXboxAchievements('', mockTitleId);
@@ -243,7 +249,7 @@ describe('XboxContext', () => {
 
     it('should return null and set error if titleId is missing for detailed achievements', async () => {
       const { result } = renderHook(() => useXbox(), { wrapper });
-      let fetchResult: XboxDetailedAchievement[] | null = [];
+      let fetchResult: Achievement[] | null = [];
 
       await act(async () => {
         fetchResult = await result.current.fetchDetailedXboxAchievements(mockXuid, '');
@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from "react"
+import type { SyncEvent, SyncEventType } from "@/types/syncTypes"
+
+const EVENT_TYPES: SyncEventType[] = ["status", "started", "progress", "completed", "failed"]
+
+interface UseSyncEventsOptions {
+  enabled: boolean
+  steamId?: string | null
+  xuid?: string | null
+  onEvent: (event: SyncEvent) => void
+}
+
+// Follows GET /api/sync/events for the session's linked accounts plus the given Steam/Xbox ids.
+// Returns whether the stream is currently open; callers keep polling as a fallback when it is not.
+export function useSyncEvents({ enabled, steamId, xuid, onEvent }: UseSyncEventsOptions) {
+  const [connected, setConnected] = useState(false)
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return
+
+    const params = new URLSearchParams()
+    if (steamId) params.set("steamId", steamId)
+    if (xuid) params.set("xuid", xuid)
+    const query = params.toString()
+    const source = new EventSource(`/api/sync/events${query ? `?${query}` : ""}`, { withCredentials: true })
+
+    const listener = (message: MessageEvent) => {
+      try {
+        onEventRef.current(JSON.parse(message.data) as SyncEvent)
+      } catch (err) {
+        console.error("Failed to parse sync event:", err)
+      }
+    }
+    EVENT_TYPES.forEach(type => source.addEventListener(type, listener as EventListener))
+    source.onopen = () => setConnected(true)
+    // EventSource reconnects on its own; until then callers fall back to polling.
+    source.onerror = () => setConnected(false)
+
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [enabled, steamId, xuid])
+
+  return { connected }
+}
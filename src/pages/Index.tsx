@@ -1,13 +1,17 @@
 
 import { useState } from "react";
-import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
+import { DashboardHeader, DashboardView } from "@/components/dashboard/DashboardHeader";
 import { PlatformStats } from "@/components/dashboard/PlatformStats";
 import { GameLibrary } from "@/components/dashboard/GameLibrary";
+import { PlaytimeTrends } from "@/components/dashboard/PlaytimeTrends";
 import { PlatformConnections } from "@/components/dashboard/PlatformConnections";
+import { ActivityFeed } from "@/components/dashboard/ActivityFeed";
+import { Game } from "@/types/gameTypes";
 
 const Index = () => {
-  const [activeView, setActiveView] = useState<'library' | 'connections'>('library');
+  const [activeView, setActiveView] = useState<DashboardView>('library');
   const [selectedPlatform, setSelectedPlatform] = useState<string>('all');
+  const [libraryGames, setLibraryGames] = useState<Game[]>([]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -19,13 +23,16 @@ const Index = () => {
       <main className="container mx-auto px-4 py-6 space-y-6">
         {activeView === 'library' ? (
           <>
-            <PlatformStats games={[]} />
+            <PlatformStats games={libraryGames} />
+            <PlaytimeTrends />
             <GameLibrary 
-              games={[]}
               selectedPlatform={selectedPlatform}
               onPlatformChange={setSelectedPlatform}
+              onLibraryChange={setLibraryGames}
             />
           </>
+        ) : activeView === 'activity' ? (
+          <ActivityFeed />
         ) : (
           <PlatformConnections />
         )}
@@ -0,0 +1,20 @@
+import type { Game } from './gameTypes';
+
+export type TrophyGrade = 'bronze' | 'silver' | 'gold' | 'platinum';
+
+// One achievement (or PSN trophy) as every detailed achievement route returns it, whatever the platform.
+export interface Achievement {
+  id: string; // Steam API name, Xbox achievement id or PSN trophy id
+  platform: Game['platform'];
+  gameId?: string; // The game's id on the platform
+  name: string;
+  description: string; // Empty for hidden Steam achievements
+  isUnlocked: boolean;
+  iconUrl?: string; // Steam's grey icon while locked
+  hidden?: boolean;
+  points?: number; // Xbox gamerscore
+  grade?: TrophyGrade; // PSN trophy grade
+  rarityPercent?: number; // Share of all players who unlocked it
+  unlockedTime?: string; // ISO date string
+  groupId?: string; // PSN trophy group: "default" for the base game, "001", "002"... for DLC packs
+}
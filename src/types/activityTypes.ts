@@ -0,0 +1,25 @@
+import type { Game } from './gameTypes';
+import type { Achievement } from './achievementTypes';
+
+export type ActivityType = 'achievement' | 'played' | 'added';
+
+export interface ActivityItem {
+  id: string;
+  type: ActivityType;
+  date: string; // ISO date string: the unlock time, or the sync that noticed the playtime
+  platform: Game['platform'];
+  game: {
+    id: string; // Library game id, e.g. steam-292030
+    gameId: string;
+    title: string;
+    coverImage?: string;
+  };
+  achievement?: Achievement; // type 'achievement'
+  minutes?: number; // Played since the previous sync ('played', 'added')
+}
+
+// GET /api/library/activity: one page of the feed, newest first.
+export interface ActivityFeedResponse {
+  items: ActivityItem[];
+  nextCursor: string | null; // Pass as ?before= for the next page
+}
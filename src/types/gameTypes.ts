@@ -1,8 +1,55 @@
+import type { LibrarySyncStatus } from './syncTypes';
+import type { TrophyGrade } from './achievementTypes';
+
+// The user's own progress on a game, set with PUT /api/library/status; unrelated to the install `status`
+export type PlayStatus = 'wishlist' | 'backlog' | 'playing' | 'completed' | 'hundred_percent' | 'abandoned';
+
+// The user's review of a game, saved with PUT /api/library/review; every field but updatedAt is optional
+export interface GameReview {
+  score?: number; // 1-10
+  review?: string; // Markdown
+  notes?: string; // Private notes
+  finishedAt?: string;
+  updatedAt: string;
+}
+
+// Fields smart collection rules can test, read from each platform entry of a game (see
+// server/services/collectionRules.js). Numeric fields compare with eq..lte, the others with in/nin.
+export type CollectionRuleField =
+  | 'platform' | 'status' | 'genre' | 'trophiesMissing'
+  | 'playtime' | 'releaseYear' | 'achievementsUnlocked' | 'achievementsRemaining' | 'achievementPercent';
+
+export type CollectionRuleOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'nin';
+
+export interface CollectionRuleCondition {
+  field: CollectionRuleField;
+  operator: CollectionRuleOperator;
+  value: number | string[];
+}
+
+export interface CollectionRules {
+  match: 'all' | 'any';
+  conditions: CollectionRuleCondition[];
+}
+
+// A named list of library games made by the user (/api/library/collections). `gameIds` holds entry
+// ids, so a merged game is in it when any of its entries is. Smart collections have `rules`, and
+// the server fills in `gameIds` with the entries matching them on every GET /api/library.
+export interface GameCollection {
+  id: string;
+  name: string;
+  description?: string;
+  gameIds: string[];
+  rules?: CollectionRules;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface Game {
   id: string;
   appId?: string;
   title: string;
-  platform: 'steam' | 'epic' | 'xbox' | 'gog';
+  platform: 'steam' | 'epic' | 'xbox' | 'gog' | 'psn' | 'manual'; // 'manual' for games the user added by hand
   coverImage: string;
   playtime: number; // in hours
   lastPlayed: string;
@@ -11,8 +58,61 @@ export interface Game {
     total: number;
     currentGamerscore?: number; // Optional: For Xbox Gamerscore
     totalGamerscore?: number;   // Optional: For Xbox Gamerscore
+    earnedTrophies?: Record<TrophyGrade, number>;  // Optional: PSN trophies per grade
+    definedTrophies?: Record<TrophyGrade, number>;
   };
-  status: 'installed' | 'not_installed' | 'downloading';
+  status: 'installed' | 'not_installed' | 'downloading' | 'owned'; // 'owned' when the platform does not report installs
   genre: string[];
   releaseYear: number;
+  systems?: string[]; // Consoles the game is for (PSN: 'PS4', 'PS5'); absent when the platform does not say
+  // From the server's metadata providers (Steam store, bundled dataset); absent until the game is looked up
+  releaseDate?: string;
+  developers?: string[];
+  publishers?: string[];
+  description?: string;
+  // Only on manual games: the platform the user typed in, whether the copy is physical, and their notes
+  platformName?: string;
+  format?: ManualGameFormat;
+  notes?: string;
+  // Set on GET /api/library games: the same game's entry on every platform it is owned on. The game
+  // itself carries the most played entry's fields with the playtime of all entries added up.
+  entries?: Game[];
+  playStatus?: PlayStatus; // Absent until the user sets one
+  review?: GameReview; // Absent until the user reviews the game
+  tags?: string[]; // The user's own tags, set with POST /api/library/tags
+  collectionIds?: string[]; // The user's collections the game is in
+}
+
+export type ManualGameFormat = 'physical' | 'digital';
+
+// Body of POST /api/library/manual and PATCH /api/library/manual/:id. PATCH sends only the changed
+// fields; null clears an optional one.
+export interface ManualGameInput {
+  title?: string;
+  platform?: string;
+  format?: ManualGameFormat;
+  coverImage?: string | null;
+  playtimeMinutes?: number;
+  lastPlayed?: string | null;
+  status?: 'installed' | 'not_installed' | 'owned';
+  genre?: string[];
+  releaseYear?: number | null;
+  notes?: string | null;
+}
+
+// Per-platform part of the GET /api/library response.
+export interface LibraryPlatformStatus {
+  platform: Game['platform'];
+  label: string;
+  linked: boolean; // The account is linked to the logged-in user (games can also come from imports or lookups)
+  gameCount: number;
+  sync: LibrarySyncStatus | null; // null when the platform's games are not synced in the background
+  error: string | null; // Set when the platform's stored games could not be loaded
+}
+
+// GET /api/library: every stored game of the logged-in user, already normalized by the server.
+export interface UnifiedLibraryResponse {
+  games: Game[];
+  platforms: Partial<Record<Game['platform'], LibraryPlatformStatus>>;
+  collections?: GameCollection[];
 }
@@ -0,0 +1,29 @@
+import type { Game } from './gameTypes';
+
+export type PlaytimeGranularity = 'day' | 'week' | 'month';
+
+// One bar of the chart: minutes played in the period starting at `period`.
+export interface PlaytimePeriod {
+  period: string;
+  minutes: number;
+  platforms: Partial<Record<Game['platform'], number>>;
+}
+
+export interface PlaytimeGameTotal {
+  id: string; // Library game id, e.g. steam-292030
+  platform: Game['platform'];
+  gameId: string;
+  title: string;
+  minutes: number;
+}
+
+// GET /api/library/playtime: playtime gained between syncs, summed per period.
+export interface PlaytimeHistoryResponse {
+  granularity: PlaytimeGranularity;
+  from: string;
+  to: string;
+  timezone: string;
+  totalMinutes: number;
+  series: PlaytimePeriod[];
+  games: PlaytimeGameTotal[]; // Most played games of the range
+}
@@ -0,0 +1,52 @@
+import type { Game } from './gameTypes';
+
+export type SyncState = 'idle' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Mirrors the `sync` object the library endpoints return alongside stored games.
+export interface LibrarySyncStatus {
+  state: SyncState;
+  inProgress: boolean;
+  progress: {
+    processed: number;
+    total: number;
+  };
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export interface LibraryResponse<T> {
+  games: T[];
+  sync: LibrarySyncStatus;
+}
+
+// How often the UI re-reads a library while its background sync is running.
+export const SYNC_POLL_INTERVAL_MS = 5000;
+
+// Events streamed by GET /api/sync/events (Server-Sent Events).
+export type SyncEventType = 'status' | 'started' | 'progress' | 'completed' | 'failed';
+
+export interface SyncEvent<TGame = unknown> {
+  type: SyncEventType;
+  platform: string;
+  accountKey: string;
+  sync?: LibrarySyncStatus; // 'status'
+  processed?: number; // 'progress'
+  total?: number;
+  achievementsFetched?: number;
+  errors?: number;
+  game?: TGame; // 'progress': the game just synced, in the platform route's response shape
+  libraryGame?: Game; // 'progress': the same game in the GET /api/library shape
+  gamesSynced?: number; // 'completed'
+  error?: string; // 'failed'
+  willRetry?: boolean;
+}
+
+// Per-platform progress of the sync currently streaming in.
+export interface LiveSyncProgress {
+  active: boolean;
+  processed: number;
+  total: number;
+  achievementsFetched: number;
+  errors: number;
+  lastError: string | null;
+}